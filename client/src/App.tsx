@@ -12,14 +12,24 @@ import SearchPage from "@/pages/search-page";
 import WatchPage from "@/pages/watch-page";
 import AdminDashboard from "@/pages/admin-dashboard";
 import IdeasPage from "@/pages/ideas-page";
+import LfgPage from "@/pages/lfg-page";
 import { useEffect, useState } from "react";
-import { Home as HomeIcon, Search, MessageCircle, Shield, PlayCircle, Lightbulb } from "lucide-react";
+import { Home as HomeIcon, Search, MessageCircle, Shield, PlayCircle, Lightbulb, Gamepad2, Users } from "lucide-react";
 import AuthPage from './pages/auth-page';
+import VerifyEmailPage from './pages/verify-email-page';
+import ResetPasswordPage from './pages/reset-password-page';
 import { useAuth } from "./hooks/use-auth";
+import { useConversations } from "./hooks/use-conversations";
+import { usePresenceReporter } from "./hooks/use-presence";
+import { usePlaySessionReminders } from "./hooks/use-play-sessions";
+import { PresenceDot } from "./components/presence-indicator";
 
 function NavigationMenu() {
   const [location] = useLocation();
-  const { isAdmin } = useAuth();
+  const { user, can } = useAuth();
+  const { totalUnread } = useConversations(user?.id);
+  const { status, inGame, setInGame } = usePresenceReporter(user?.id);
+  usePlaySessionReminders(user?.id);
   
   // Determine active link based on current location
   const isActive = (path: string) => {
@@ -44,27 +54,50 @@ function NavigationMenu() {
           <span>Watch</span>
         </a>
         <a href="/messages" className={`nav-item ${isActive('/messages') ? 'active' : ''}`}>
-          <MessageCircle className="h-6 w-6" />
+          <div className="relative">
+            <MessageCircle className="h-6 w-6" />
+            {totalUnread > 0 && (
+              <span className="absolute -top-2 -right-2 min-w-[18px] h-[18px] px-1 rounded-full bg-[#EC1146] text-white text-[10px] font-bold flex items-center justify-center">
+                {totalUnread > 99 ? '99+' : totalUnread}
+              </span>
+            )}
+          </div>
           <span>Chat</span>
         </a>
+        <a href="/lfg" className={`nav-item ${isActive('/lfg') ? 'active' : ''}`}>
+          <Users className="h-6 w-6" />
+          <span>LFG</span>
+        </a>
         <a href="/ideas" className={`nav-item ${isActive('/ideas') ? 'active' : ''}`}>
           <Lightbulb className="h-6 w-6" />
           <span>Ideas</span>
         </a>
-        {isAdmin && (
+        {can('admin:access') && (
           <a href="/admin" className={`nav-item ${isActive('/admin') ? 'active' : ''}`}>
             <Shield className="h-6 w-6" />
             <span>Admin</span>
           </a>
         )}
+        <button
+          type="button"
+          onClick={() => setInGame(!inGame)}
+          className={`nav-item ${inGame ? 'active' : ''}`}
+          title={inGame ? 'Show as online' : 'Show as in game'}
+        >
+          <div className="relative">
+            <Gamepad2 className="h-6 w-6" />
+            <PresenceDot status={status} className="absolute -bottom-1 -right-1" />
+          </div>
+          <span>{inGame ? 'In Game' : 'Status'}</span>
+        </button>
       </div>
     </nav>
   );
 }
 
 function Router() {
-  const { user, isAdmin, isAuthenticated, isLoading } = useAuth();
-  console.log("Auth state:", { user, isAdmin, isAuthenticated, isLoading });
+  const { user, permissions, isAuthenticated, isLoading, can } = useAuth();
+  console.log("Auth state:", { user, permissions, isAuthenticated, isLoading });
 
   if (isLoading) {
     console.log("Showing loading state");
@@ -85,6 +118,8 @@ function Router() {
         <Route path="/setup">
           <SetupPage />
         </Route>
+        <Route path="/verify-email" component={VerifyEmailPage} />
+        <Route path="/reset-password" component={ResetPasswordPage} />
         <Route path="/">
           {!isAuthenticated ? (
             <Redirect to="/auth" />
@@ -113,6 +148,13 @@ function Router() {
             <WatchPage />
           )}
         </Route>
+        <Route path="/lfg">
+          {!isAuthenticated ? (
+            <Redirect to="/auth" />
+          ) : (
+            <LfgPage />
+          )}
+        </Route>
         <Route path="/ideas">
           {!isAuthenticated ? (
             <Redirect to="/auth" />
@@ -121,7 +163,7 @@ function Router() {
           )}
         </Route>
         <Route path="/admin">
-          {!isAuthenticated || !isAdmin ? (
+          {!isAuthenticated || !can('admin:access') ? (
             <Redirect to="/" />
           ) : (
             <AdminDashboard />
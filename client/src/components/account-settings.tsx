@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { User } from '@shared/schema';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { sendAccountRequest } from '@/lib/account-request';
+
+// Email and account deletion for the profile editor
+export function AccountSettings({ user }: { user: User }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [email, setEmail] = useState(user.email ?? '');
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [deletePassword, setDeletePassword] = useState('');
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  const updateEmail = useMutation({
+    mutationFn: (next: string | null) => sendAccountRequest('/api/account/email', 'PUT', { email: next }),
+    onSuccess: (updated: User) => {
+      localStorage.setItem('user', JSON.stringify(updated));
+      queryClient.setQueryData(['user', user.id], updated);
+      setEmail(updated.email ?? '');
+      toast({
+        title: 'Email Updated',
+        description: updated.email && !updated.emailVerifiedAt
+          ? `We sent a verification link to ${updated.email}.`
+          : 'Your email has been saved.',
+      });
+    },
+    onError,
+  });
+
+  const resendVerification = useMutation({
+    mutationFn: () => sendAccountRequest('/api/account/email/verification', 'POST'),
+    onSuccess: () => {
+      toast({
+        title: 'Verification Sent',
+        description: `Check ${user.email} for a new link.`,
+      });
+    },
+    onError,
+  });
+
+  const deleteAccount = useMutation({
+    mutationFn: (password: string) => sendAccountRequest('/api/account', 'DELETE', { password }),
+    onSuccess: () => {
+      localStorage.removeItem('user');
+      window.location.href = '/auth';
+    },
+    onError,
+  });
+
+  const trimmed = email.trim();
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-medium">Account</h2>
+
+      <div>
+        <div className="flex items-center gap-2">
+          <label className="text-sm font-medium">Email</label>
+          {user.email && (
+            <Badge variant={user.emailVerifiedAt ? 'secondary' : 'outline'}>
+              {user.emailVerifiedAt ? 'Verified' : 'Not verified'}
+            </Badge>
+          )}
+        </div>
+        <div className="mt-1 flex gap-2">
+          <Input
+            type="email"
+            placeholder="you@example.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            disabled={updateEmail.isPending || trimmed === (user.email ?? '')}
+            onClick={() => updateEmail.mutate(trimmed || null)}
+          >
+            {trimmed ? 'Save' : 'Remove'}
+          </Button>
+        </div>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Only used for account emails. You need a verified email to reset a forgotten password.
+        </p>
+        {user.email && !user.emailVerifiedAt && (
+          <Button
+            type="button"
+            variant="link"
+            className="px-0"
+            disabled={resendVerification.isPending}
+            onClick={() => resendVerification.mutate()}
+          >
+            Resend verification email
+          </Button>
+        )}
+      </div>
+
+      <div className="flex justify-between items-center rounded-lg border border-red-600 p-4">
+        <div>
+          <div className="font-medium">Delete account</div>
+          <p className="text-sm text-muted-foreground">
+            Removes your profile, messages, groups you own and everything else in your account. This can't be undone.
+          </p>
+        </div>
+        <Button type="button" variant="destructive" onClick={() => setDeleteOpen(true)}>
+          Delete
+        </Button>
+      </div>
+
+      <Dialog
+        open={deleteOpen}
+        onOpenChange={(open) => {
+          setDeleteOpen(open);
+          if (!open) setDeletePassword('');
+        }}
+      >
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Delete Account</DialogTitle>
+            <DialogDescription>
+              Enter your password to permanently delete your account.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (deletePassword) deleteAccount.mutate(deletePassword);
+            }}
+          >
+            <Input
+              type="password"
+              placeholder="Enter your password"
+              value={deletePassword}
+              onChange={(e) => setDeletePassword(e.target.value)}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDeleteOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" variant="destructive" disabled={!deletePassword || deleteAccount.isPending}>
+                {deleteAccount.isPending ? 'Deleting...' : 'Delete Account'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
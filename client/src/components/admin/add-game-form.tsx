@@ -121,7 +121,6 @@ export function AddGameForm() {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          userId: user?.id, // For admin verification
           game: {
             name: formData.name,
             categories: selectedCategories,
@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { apiRequest } from '@/lib/queryClient';
+import { Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AUTH_EVENT_TYPES, AUTH_FAILURE_EVENTS, type AuthEventPage, type AuthEventType } from '@shared/schema';
+
+const EVENT_LABELS: Record<AuthEventType, string> = {
+  "login-success": "Logged in",
+  "login-failure": "Failed login",
+  "login-throttled": "Throttled",
+  "login-attempt": "Checking",
+  "logout": "Logged out",
+  "password-change": "Changed password",
+  "password-failure": "Wrong password",
+  "password-reset-requested": "Requested reset",
+  "password-reset": "Reset password",
+  "password-reset-failure": "Bad reset link",
+  "two-factor-enabled": "2FA on",
+  "two-factor-disabled": "2FA off",
+  "account-unlocked": "Unlocked",
+  "account-deleted": "Deleted account",
+};
+
+const ALL_TYPES = 'all';
+
+interface EventFilters {
+  type: AuthEventType | typeof ALL_TYPES;
+  username: string;
+  ip: string;
+}
+
+function toQueryString(filters: EventFilters, before: number | undefined): string {
+  const params = new URLSearchParams();
+  if (filters.type !== ALL_TYPES) params.set('type', filters.type);
+  if (filters.username.trim()) params.set('username', filters.username.trim());
+  if (filters.ip.trim()) params.set('ip', filters.ip.trim());
+  if (before) params.set('before', String(before));
+  return params.toString();
+}
+
+// The auth audit log, newest first, filtered by event type, username or IP
+// address and paged back through older events
+export function AuthEventLog() {
+  const [filters, setFilters] = useState<EventFilters>({ type: ALL_TYPES, username: '', ip: '' });
+  // Event IDs the pages shown so far started before; the last is the current page
+  const [cursors, setCursors] = useState<number[]>([]);
+  const before = cursors[cursors.length - 1];
+
+  const { data, isLoading } = useQuery<AuthEventPage>({
+    queryKey: ['/api/admin/auth-events', filters, before],
+    queryFn: () => apiRequest(`/api/admin/auth-events?${toQueryString(filters, before)}`),
+    placeholderData: keepPreviousData,
+    staleTime: 0,
+  });
+
+  const updateFilters = (changes: Partial<EventFilters>) => {
+    setFilters(current => ({ ...current, ...changes }));
+    setCursors([]);
+  };
+
+  const events = data?.events ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Select
+          value={filters.type}
+          onValueChange={(type) => updateFilters({ type: type as EventFilters['type'] })}
+        >
+          <SelectTrigger className="w-48 bg-[#0F0F0F] border-[#3D322C]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-[#0F0F0F] border-[#3D322C]">
+            <SelectItem value={ALL_TYPES}>All events</SelectItem>
+            {AUTH_EVENT_TYPES.map(type => (
+              <SelectItem key={type} value={type}>
+                {EVENT_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          className="w-48 bg-[#0F0F0F] border-[#3D322C]"
+          placeholder="Username"
+          value={filters.username}
+          onChange={(e) => updateFilters({ username: e.target.value })}
+        />
+        <Input
+          className="w-48 bg-[#0F0F0F] border-[#3D322C]"
+          placeholder="IP address"
+          value={filters.ip}
+          onChange={(e) => updateFilters({ ip: e.target.value })}
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center p-8">
+          <Loader2 className="h-6 w-6 animate-spin text-[#EC1146]" />
+        </div>
+      ) : events.length === 0 ? (
+        <p className="text-gray-400">No events match.</p>
+      ) : (
+        <div className="space-y-2">
+          {events.map(event => {
+            const type = event.type as AuthEventType;
+            return (
+              <div key={event.id} className="bg-[#1A1A1A] p-3 rounded-md border border-[#3D322C] flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+                <span className="text-gray-400 w-36">{format(new Date(event.createdAt), 'MMM d, HH:mm:ss')}</span>
+                <Badge
+                  variant={AUTH_FAILURE_EVENTS.includes(type) || type === 'login-throttled' ? 'destructive' : 'outline'}
+                  className="border-[#3D322C]"
+                >
+                  {EVENT_LABELS[type] ?? event.type}
+                </Badge>
+                <button
+                  type="button"
+                  className="font-medium hover:underline"
+                  disabled={!event.username}
+                  onClick={() => event.username && updateFilters({ username: event.username })}
+                >
+                  {event.username ?? '—'}
+                </button>
+                <button
+                  type="button"
+                  className="text-gray-400 hover:underline"
+                  disabled={!event.ip}
+                  onClick={() => event.ip && updateFilters({ ip: event.ip })}
+                >
+                  {event.ip ?? 'unknown address'}
+                </button>
+                {event.userAgent && (
+                  <span className="text-gray-500 truncate max-w-xs" title={event.userAgent}>
+                    {event.userAgent}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="outline"
+          className="border-[#3D322C]"
+          disabled={cursors.length === 0}
+          onClick={() => setCursors(current => current.slice(0, -1))}
+        >
+          Newer
+        </Button>
+        <Button
+          variant="outline"
+          className="border-[#3D322C]"
+          disabled={!data?.hasMore}
+          onClick={() => setCursors(current => [...current, events[events.length - 1].id])}
+        >
+          Older
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Loader2 } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ROLES, ROLE_LABELS, type Role } from '@shared/permissions';
+import type { User } from '@shared/schema';
+
+export function RoleManager() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+
+  const { data: users = [], isLoading } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+  });
+
+  const assignRole = useMutation({
+    mutationFn: ({ userId, role }: { userId: number; role: Role }) =>
+      apiRequest(`/api/admin/users/${userId}/role`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role }),
+      }),
+    onSuccess: (updated: User) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      toast({
+        title: "Role updated",
+        description: `${updated.username} is now ${ROLE_LABELS[updated.role as Role] ?? updated.role}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update role",
+        description: error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-6 w-6 animate-spin text-[#EC1146]" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {users.map(u => (
+        <div key={u.id} className="bg-[#1A1A1A] p-4 rounded-md border border-[#3D322C] flex items-center justify-between">
+          <div>
+            <p className="font-medium">{u.username}</p>
+            <p className="text-sm text-gray-400">User ID: {u.id}</p>
+          </div>
+          <Select
+            value={u.role}
+            // Admins cannot change their own role, so they can't lock themselves out
+            disabled={u.id === currentUser?.id || assignRole.isPending}
+            onValueChange={(role) => assignRole.mutate({ userId: u.id, role: role as Role })}
+          >
+            <SelectTrigger className="w-44 bg-[#0F0F0F] border-[#3D322C]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-[#0F0F0F] border-[#3D322C]">
+              {ROLES.map(role => (
+                <SelectItem key={role} value={role}>
+                  {ROLE_LABELS[role]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+}
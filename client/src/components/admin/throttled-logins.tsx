@@ -0,0 +1,102 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import type { ThrottledLogin } from '@shared/schema';
+
+const THROTTLED_LOGINS_QUERY_KEY = ['/api/admin/auth-events/throttled'];
+
+// Usernames and IP addresses with enough recent failed logins to be slowed
+// down or locked out. Unlocking a username clears its failures; addresses
+// can't be unlocked and just wait their lockout out.
+export function ThrottledLogins() {
+  const { toast } = useToast();
+
+  const { data: throttled = [], isLoading } = useQuery<ThrottledLogin[]>({
+    queryKey: THROTTLED_LOGINS_QUERY_KEY,
+    staleTime: 0,
+  });
+
+  const unlock = useMutation({
+    mutationFn: (username: string) =>
+      apiRequest('/api/admin/auth-events/unlock', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username }),
+      }),
+    onSuccess: (_, username) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/auth-events'] });
+      toast({
+        title: "Login unlocked",
+        description: `${username} can log in again straight away.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to unlock login",
+        description: error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-6 w-6 animate-spin text-[#EC1146]" />
+      </div>
+    );
+  }
+
+  if (throttled.length === 0) {
+    return <p className="text-gray-400">No usernames or addresses are being throttled.</p>;
+  }
+
+  const now = new Date();
+
+  return (
+    <div className="space-y-2">
+      {throttled.map(entry => {
+        // Dates arrive as strings
+        const retryAfter = new Date(entry.retryAfter);
+        const waiting = retryAfter > now;
+        return (
+          <div
+            key={`${entry.kind}:${entry.key}`}
+            className="bg-[#1A1A1A] p-4 rounded-md border border-[#3D322C] flex items-center justify-between gap-4"
+          >
+            <div>
+              <div className="flex items-center gap-2">
+                <p className="font-medium break-all">{entry.key}</p>
+                <Badge variant="outline" className="border-[#3D322C]">
+                  {entry.kind === 'username' ? 'Username' : 'IP address'}
+                </Badge>
+                {entry.locked && <Badge variant="destructive">Locked</Badge>}
+              </div>
+              <p className="text-sm text-gray-400">
+                {entry.failures} failed attempts, last {formatDistanceToNow(new Date(entry.lastFailureAt), { addSuffix: true })}
+                {' · '}
+                {waiting
+                  ? `can try again ${formatDistanceToNow(retryAfter, { addSuffix: true })}`
+                  : 'can try again now'}
+              </p>
+            </div>
+            {entry.kind === 'username' && (
+              <Button
+                variant="outline"
+                className="border-[#3D322C]"
+                disabled={unlock.isPending}
+                onClick={() => unlock.mutate(entry.key)}
+              >
+                Unlock
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { User } from '@shared/schema';
+
+const TWO_FACTOR_USERS_QUERY_KEY = ['/api/admin/users/two-factor'];
+
+// Users with two-factor login on. Resetting turns it off for a user who lost
+// both their authenticator app and their recovery codes.
+export function TwoFactorManager() {
+  const { toast } = useToast();
+
+  const { data: users = [], isLoading: usersLoading } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+  });
+  const { data: enabledIds = [], isLoading: idsLoading } = useQuery<number[]>({
+    queryKey: TWO_FACTOR_USERS_QUERY_KEY,
+  });
+
+  const resetTwoFactor = useMutation({
+    mutationFn: (user: User) =>
+      apiRequest(`/api/admin/users/${user.id}/two-factor`, { method: 'DELETE' }),
+    onSuccess: (_, user) => {
+      queryClient.invalidateQueries({ queryKey: TWO_FACTOR_USERS_QUERY_KEY });
+      toast({
+        title: "Two-factor login reset",
+        description: `${user.username} can now log in with just their password.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to reset two-factor login",
+        description: error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
+  if (usersLoading || idsLoading) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-6 w-6 animate-spin text-[#EC1146]" />
+      </div>
+    );
+  }
+
+  const enabled = new Set(enabledIds);
+  const enrolledUsers = users.filter(u => enabled.has(u.id));
+
+  if (enrolledUsers.length === 0) {
+    return <p className="text-gray-400">Nobody has two-factor login on.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {enrolledUsers.map(u => (
+        <div key={u.id} className="bg-[#1A1A1A] p-4 rounded-md border border-[#3D322C] flex items-center justify-between">
+          <div>
+            <p className="font-medium">{u.username}</p>
+            <p className="text-sm text-gray-400">User ID: {u.id}</p>
+          </div>
+          <Button
+            variant="outline"
+            className="border-[#3D322C]"
+            disabled={resetTwoFactor.isPending}
+            onClick={() => resetTwoFactor.mutate(u)}
+          >
+            Reset 2FA
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -3,10 +3,13 @@ import { Card, CardHeader, CardContent, CardFooter } from '@/components/ui/card'
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { useWebSocket } from '@/hooks/use-websocket';
-import { Message, User } from '@shared/schema';
-import { useQuery } from '@tanstack/react-query';
-import { X, Image as ImageIcon, CheckCheck, Minimize2 } from 'lucide-react';
+import { useWebSocket, type ReadReceipt, type MessageUpdate } from '@/hooks/use-websocket';
+import { useMessageHistory } from '@/hooks/use-message-history';
+import { useMarkAsRead } from '@/hooks/use-mark-as-read';
+import { usePresence } from '@/hooks/use-presence';
+import { useOutbox } from '@/hooks/use-outbox';
+import { Message, Player, User } from '@shared/schema';
+import { X, Image as ImageIcon, Minimize2 } from 'lucide-react';
 import { 
   Dialog, 
   DialogContent, 
@@ -14,13 +17,18 @@ import {
   DialogTitle 
 } from '@/components/ui/dialog';
 import { ImageUpload } from './image-upload';
+import { ReadStatus } from './read-status';
+import { OutboxStatus } from './outbox-status';
+import { MessageContent } from './message-content';
+import { PresenceDot, formatPresence } from './presence-indicator';
+import { ConnectionStatusIndicator } from './connection-status';
 import { AnimatePresence, motion } from 'framer-motion';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { cn } from '@/lib/utils';
 
 interface ChatWindowProps {
   currentUser: User;
-  otherUser: User;
+  otherUser: Player;
   onClose: () => void;
   isMinimized?: boolean;
   onMinimize?: () => void;
@@ -63,26 +71,7 @@ const messageVariants = {
   }
 };
 
-function formatLastActive(lastActive: Date): string {
-  const now = new Date();
-  const lastActiveDate = new Date(lastActive);
-  const diffInMinutes = Math.floor((now.getTime() - lastActiveDate.getTime()) / (1000 * 60));
-  
-  if (diffInMinutes < 5) {
-    return 'Online';
-  } else if (diffInMinutes < 60) {
-    return `${diffInMinutes} minutes ago`;
-  } else if (diffInMinutes < 1440) { // Less than 24 hours
-    const hours = Math.floor(diffInMinutes / 60);
-    return `${hours} ${hours === 1 ? 'hour' : 'hours'} ago`;
-  } else {
-    const days = Math.floor(diffInMinutes / 1440);
-    return `${days} ${days === 1 ? 'day' : 'days'} ago`;
-  }
-}
-
 export function ChatWindow({ currentUser, otherUser, onClose, isMinimized: externalMinimized, onMinimize }: ChatWindowProps) {
-  const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
   const [showImageUpload, setShowImageUpload] = useState(false);
@@ -93,10 +82,12 @@ export function ChatWindow({ currentUser, otherUser, onClose, isMinimized: exter
   const isTypingSent = useRef<boolean>(false);
   const messageInputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const pendingMessageRef = useRef<string | null>(null);
 
   // Use external minimized state if provided, otherwise use internal state
   const isMinimized = externalMinimized !== undefined ? externalMinimized : internalMinimized;
+  
+  const { getPresence } = usePresence();
+  const presence = getPresence(otherUser.id, otherUser.lastActive);
 
   // Enhanced scroll behavior with debounce
   const scrollToBottom = useCallback(() => {
@@ -121,22 +112,19 @@ export function ChatWindow({ currentUser, otherUser, onClose, isMinimized: exter
     return () => timeouts.forEach(clearTimeout);
   }, [isMinimized]);
 
-  // Fetch historical messages
-  const { data: historicalMessages } = useQuery<Message[]>({
-    queryKey: [`/api/messages/${currentUser.id}/${otherUser.id}`],
-  });
+  // Conversation history; older pages load as the user scrolls up
+  const { messages, setMessages, isLoadingOlder } = useMessageHistory(
+    `/api/messages/${currentUser.id}/${otherUser.id}`,
+    scrollAreaRef
+  );
 
-  // Sync historical messages
-  useEffect(() => {
-    if (historicalMessages) {
-      setMessages(historicalMessages);
-      
-      // Scroll to bottom after messages load
-      setTimeout(scrollToBottom, 100);
-    }
-  }, [historicalMessages, scrollToBottom]);
+  // Messages still being sent to this chat
+  const outbox = useOutbox(currentUser.id, { toUserId: otherUser.id });
+  const displayedMessages = outbox.withPending(messages);
 
-  // Auto scroll to bottom when new messages arrive or when chat is opened
+  // Auto scroll to bottom when new messages arrive or when chat is opened.
+  // Keyed on the newest message so loading older history doesn't jump down.
+  const lastMessageId = displayedMessages[displayedMessages.length - 1]?.id;
   useEffect(() => {
     // Immediate scroll attempt
     scrollToBottom();
@@ -152,7 +140,7 @@ export function ChatWindow({ currentUser, otherUser, onClose, isMinimized: exter
       // Clean up timers
       scrollTimers.forEach(timer => clearTimeout(timer));
     };
-  }, [messages, isMinimized, scrollToBottom]);
+  }, [lastMessageId, isMinimized, scrollToBottom]);
 
   // Optimized message handling with better deduplication
   const onMessage = useCallback((msg: Message) => {
@@ -161,25 +149,8 @@ export function ChatWindow({ currentUser, otherUser, onClose, isMinimized: exter
       (msg.fromUserId === currentUser.id && msg.toUserId === otherUser.id)
     ) {
       setMessages(prev => {
-        // For messages from the current user, check against pendingMessage
-        if (msg.fromUserId === currentUser.id && msg.content === pendingMessageRef.current) {
-          // Clear the pending message as we've received confirmation
-          pendingMessageRef.current = null;
-          // Don't add it again if it matches our optimistic update
-          if (prev.some(m => m.content === msg.content && 
-              m.fromUserId === msg.fromUserId && 
-              m.toUserId === msg.toUserId &&
-              Math.abs(new Date(m.timestamp).getTime() - new Date(msg.timestamp).getTime()) < 5000)) {
-            return prev;
-          }
-        }
-
-        // For other messages, just check for exact duplicates
-        if (prev.some(m => m.id === msg.id || 
-            (m.content === msg.content && 
-             m.fromUserId === msg.fromUserId && 
-             m.toUserId === msg.toUserId &&
-             Math.abs(new Date(m.timestamp).getTime() - new Date(msg.timestamp).getTime()) < 5000))) {
+        // The same message can arrive both as our ack and as an event
+        if (prev.some(m => m.id === msg.id)) {
           return prev;
         }
         
@@ -206,13 +177,43 @@ export function ChatWindow({ currentUser, otherUser, onClose, isMinimized: exter
     }
   }, [otherUser.id]);
 
+  // The other user has read our messages up to receipt.upToId
+  const onReadReceipt = useCallback((receipt: ReadReceipt) => {
+    if (receipt.readerId !== otherUser.id) return;
+
+    setMessages(prev => prev.map(m =>
+      m.fromUserId === currentUser.id && m.id <= receipt.upToId && !m.isRead
+        ? { ...m, isRead: true, readAt: new Date(receipt.readAt) }
+        : m
+    ));
+  }, [currentUser.id, otherUser.id]);
+
+  // A message in this conversation was edited or deleted
+  const onMessageUpdate = useCallback((update: MessageUpdate) => {
+    setMessages(prev => prev.map(m => m.id === update.message.id ? { ...m, ...update.message } : m));
+  }, []);
+
   // WebSocket connection
-  const { sendMessage, sendTypingStatus } = useWebSocket(
-    currentUser.id,
+  const { sendMessage, sendTypingStatus, sendReadReceipt, isConnected } = useWebSocket(currentUser.id, {
     onMessage,
-    undefined, // No group message handler needed
-    onTypingStatus
-  );
+    onTypingStatus,
+    onReadReceipt,
+    onMessageUpdate
+  });
+
+  // Mark the other user's messages as read while the window is open
+  const lastUnreadId = isMinimized
+    ? undefined
+    : messages.filter(m => m.fromUserId === otherUser.id && !m.isRead).pop()?.id;
+
+  useMarkAsRead(lastUnreadId, (upToId) => {
+    sendReadReceipt(otherUser.id, upToId);
+    setMessages(prev => prev.map(m =>
+      m.fromUserId === otherUser.id && m.id <= upToId && !m.isRead
+        ? { ...m, isRead: true, readAt: new Date() }
+        : m
+    ));
+  });
 
   // Optimized typing handler with debounce
   const handleTyping = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
@@ -246,29 +247,12 @@ export function ChatWindow({ currentUser, otherUser, onClose, isMinimized: exter
     };
   }, [otherUser.id, sendTypingStatus]);
 
-  // Enhanced send handler with pending message tracking
+  // Send handler; the outbox shows the message as pending until it's stored
   const handleSend = () => {
     if (!input.trim()) return;
     
     const trimmedMessage = input.trim();
     
-    // Store the pending message content
-    pendingMessageRef.current = trimmedMessage;
-    
-    // Create temporary message for optimistic update
-    const tempMessage = {
-      id: Date.now(), // Use timestamp as temporary ID
-      fromUserId: currentUser.id,
-      toUserId: otherUser.id,
-      content: trimmedMessage,
-      timestamp: new Date(),
-      isRead: false,
-      type: "text" 
-    } as Message;
-    
-    // Add message to local state immediately
-    setMessages(prev => [...prev, tempMessage]);
-    
     // Clear input for better UX
     setInput('');
     
@@ -284,10 +268,8 @@ export function ChatWindow({ currentUser, otherUser, onClose, isMinimized: exter
 
   // Handle image upload
   const handleImageUploaded = (imageUrl: string) => {
-    const imageContent = `![image](${imageUrl})`;
-    
     // Send the message
-    sendMessage(otherUser.id, imageContent);
+    sendMessage(otherUser.id, { type: 'image', url: imageUrl });
     
     // Close the upload dialog
     setShowImageUpload(false);
@@ -317,15 +299,6 @@ export function ChatWindow({ currentUser, otherUser, onClose, isMinimized: exter
     }
   };
 
-  // Render message content (text or image)
-  const renderMessageContent = (content: string) => {
-    const imageMatch = content.match(/!\[image\]\((.*?)\)/);
-    if (imageMatch && imageMatch[1]) {
-      return <img src={imageMatch[1]} alt="Shared image" className="max-w-full max-h-64 rounded-lg" />;
-    }
-    return content;
-  };
-
   // Effect to auto-focus input when opening chat
   useEffect(() => {
     if (!isMinimized) {
@@ -378,8 +351,8 @@ export function ChatWindow({ currentUser, otherUser, onClose, isMinimized: exter
                 <div>
                   <h4 className="font-medium text-white text-sm">{otherUser.username}</h4>
                   <div className="text-xs text-gray-400 flex items-center gap-1">
-                    <div className={`w-2 h-2 rounded-full ${new Date(otherUser.lastActive) > new Date(Date.now() - 5 * 60 * 1000) ? 'bg-green-500' : 'bg-gray-500'}`} />
-                    <span>{formatLastActive(otherUser.lastActive)}</span>
+                    <PresenceDot status={presence.status} />
+                    <span>{formatPresence(presence)}</span>
                   </div>
                 </div>
               </div>
@@ -415,12 +388,13 @@ export function ChatWindow({ currentUser, otherUser, onClose, isMinimized: exter
                 <div>
                   <h4 className="font-medium text-white text-sm">{otherUser.username}</h4>
                   <div className="text-xs text-gray-400 flex items-center gap-1">
-                    <div className={`w-2 h-2 rounded-full ${new Date(otherUser.lastActive) > new Date(Date.now() - 5 * 60 * 1000) ? 'bg-green-500' : 'bg-gray-500'}`} />
-                    <span>{formatLastActive(otherUser.lastActive)}</span>
+                    <PresenceDot status={presence.status} />
+                    <span>{formatPresence(presence)}</span>
                   </div>
                 </div>
               </div>
               <div className="flex items-center gap-1">
+                <ConnectionStatusIndicator isConnected={isConnected} className="mr-1" />
                 <Button variant="ghost" size="icon" className="h-7 w-7" onClick={handleMinimize}>
                   <Minimize2 className="h-4 w-4 text-gray-400" />
                 </Button>
@@ -444,9 +418,12 @@ export function ChatWindow({ currentUser, otherUser, onClose, isMinimized: exter
                 }}
               >
                 <div className="space-y-3">
-                  {messages.map((msg, i) => {
+                  {isLoadingOlder && (
+                    <div className="text-center text-xs text-gray-400">Loading earlier messages...</div>
+                  )}
+                  {displayedMessages.map((msg) => {
                     const isSender = msg.fromUserId === currentUser.id;
-                    const showReadStatus = isSender && i === messages.length - 1;
+                    const outboxEntry = outbox.getEntry(msg);
                     
                     return (
                       <motion.div 
@@ -464,12 +441,23 @@ export function ChatWindow({ currentUser, otherUser, onClose, isMinimized: exter
                               : "bg-[#2D221C] rounded-bl-none text-white"
                           )}
                         >
-                          {renderMessageContent(msg.content)}
+                          <MessageContent message={msg} />
                         </div>
                         <div className={`flex items-center text-xs text-gray-400 mt-1 ${isSender ? 'justify-end' : 'justify-start'}`}>
                           <span>{formatTime(msg.timestamp)}</span>
-                          {showReadStatus && (
-                            <CheckCheck className="h-3 w-3 text-blue-400 ml-1" />
+                          {msg.editedAt && !msg.deletedAt && (
+                            <span className="ml-1" title={`Edited ${new Date(msg.editedAt).toLocaleString()}`}>(edited)</span>
+                          )}
+                          {isSender && (
+                            outboxEntry ? (
+                              <OutboxStatus
+                                entry={outboxEntry}
+                                onRetry={() => outbox.retry(outboxEntry.clientId)}
+                                onDiscard={() => outbox.discard(outboxEntry.clientId)}
+                              />
+                            ) : (
+                              <ReadStatus isRead={msg.isRead} readAt={msg.readAt} />
+                            )
                           )}
                         </div>
                       </motion.div>
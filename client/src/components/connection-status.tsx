@@ -0,0 +1,24 @@
+import { Wifi, WifiOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+// Shows whether the realtime connection is up. While it's down, messages
+// wait in the outbox and go out once the socket reconnects.
+export function ConnectionStatusIndicator({ isConnected, className }: { isConnected: boolean; className?: string }) {
+  if (isConnected) {
+    return (
+      <div className={cn('flex items-center text-green-500', className)} title="Connected">
+        <Wifi className="h-4 w-4" />
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={cn('flex items-center gap-1 text-xs text-amber-500', className)}
+      title="Messages will be sent once the connection is back"
+    >
+      <WifiOff className="h-4 w-4" />
+      <span>Reconnecting…</span>
+    </div>
+  );
+}
@@ -97,8 +97,7 @@ export function CreateGroup({ currentUser, onGroupCreated }: CreateGroupProps) {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          name: groupName,
-          ownerId: currentUser.id
+          name: groupName
         })
       });
 
@@ -113,8 +112,7 @@ export function CreateGroup({ currentUser, onGroupCreated }: CreateGroupProps) {
               'Content-Type': 'application/json'
             },
             body: JSON.stringify({
-              userId: user.id,
-              currentUserId: currentUser.id
+              userId: user.id
             })
           })
         );
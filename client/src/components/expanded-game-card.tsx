@@ -38,7 +38,8 @@ interface ExpandedGameCardProps {
 }
 
 export function ExpandedGameCard({ game, users, onClose, onChatClick, onGameDeleted }: ExpandedGameCardProps) {
-  const { user: currentUser, isAdmin } = useAuth();
+  const { user: currentUser, can } = useAuth();
+  const canWriteGames = can('games:write');
   const { toast } = useToast();
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
@@ -51,19 +52,13 @@ export function ExpandedGameCard({ game, users, onClose, onChatClick, onGameDele
   };
 
   const handleDeleteGame = async () => {
-    if (!currentUser || !isAdmin) return;
+    if (!currentUser || !canWriteGames) return;
     
     setIsDeleting(true);
     
     try {
       const response = await fetch(`/api/admin/games/${game.id}`, {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          userId: currentUser.id // For admin verification
-        })
+        method: 'DELETE'
       });
       
       if (!response.ok) {
@@ -111,7 +106,7 @@ export function ExpandedGameCard({ game, users, onClose, onChatClick, onGameDele
             </div>
           </div>
           <div className="flex gap-2">
-            {isAdmin && (
+            {canWriteGames && (
               <Button
                 variant="ghost"
                 size="icon"
@@ -1,21 +1,29 @@
-import { User } from '@shared/schema';
+import { Player } from '@shared/schema';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { X, Copy, MessageCircle, Share2 } from 'lucide-react';
+import { X, Copy, MessageCircle, Share2, UserPlus, UserCheck, Ban } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { useFriends } from '@/hooks/use-friends';
 import { useState } from 'react';
 import { ShareCardModal } from './share-card-modal';
+import { LocalTime } from './local-time';
+import { GameProfileList } from './game-profiles';
 
 interface ExpandedUserCardProps {
-  user: User;
+  user: Player;
   onClose: () => void;
 }
 
 export function ExpandedUserCard({ user, onClose }: ExpandedUserCardProps) {
   const { toast } = useToast();
   const [showShareModal, setShowShareModal] = useState(false);
+  const { user: currentUser } = useAuth();
+  const { getRelationship, sendRequest, removeFriend, blockUser, isUpdating } = useFriends();
+  const isSelf = currentUser?.id === user.id;
+  const relationship = getRelationship(user.id);
 
   const handleBackdropClick = (e: React.MouseEvent) => {
     if (e.target === e.currentTarget) {
@@ -24,7 +32,7 @@ export function ExpandedUserCard({ user, onClose }: ExpandedUserCardProps) {
   };
 
   const copyGameId = () => {
-    navigator.clipboard.writeText(user.currentGameId);
+    navigator.clipboard.writeText(user.currentGameHandle);
     toast({
       title: "Copied!",
       description: "Game ID copied to clipboard",
@@ -48,10 +56,45 @@ export function ExpandedUserCard({ user, onClose }: ExpandedUserCardProps) {
                 <span>{user?.language}</span>
                 <span>•</span>
                 <span>{user?.region}</span>
+                {user && <LocalTime region={user.region} />}
               </div>
             </div>
           </div>
           <div className="flex gap-2">
+            {!isSelf && relationship !== 'blocked' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={isUpdating || relationship === 'friends'}
+                onClick={() => relationship === 'request-sent' ? removeFriend(user.id) : sendRequest(user.id)}
+                className="text-white/80 hover:text-white"
+              >
+                {relationship === 'friends' ? (
+                  <><UserCheck className="h-4 w-4 mr-2" />Friends</>
+                ) : relationship === 'request-sent' ? (
+                  <><X className="h-4 w-4 mr-2" />Cancel Request</>
+                ) : relationship === 'request-received' ? (
+                  <><UserCheck className="h-4 w-4 mr-2" />Accept Request</>
+                ) : (
+                  <><UserPlus className="h-4 w-4 mr-2" />Add Friend</>
+                )}
+              </Button>
+            )}
+            {!isSelf && (
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Block user"
+                disabled={isUpdating}
+                onClick={() => {
+                  blockUser(user.id);
+                  onClose();
+                }}
+                className="text-white/60 hover:text-white"
+              >
+                <Ban className="h-5 w-5" />
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="icon"
@@ -78,30 +121,25 @@ export function ExpandedUserCard({ user, onClose }: ExpandedUserCardProps) {
                 <div className="text-sm text-gray-400 mb-2">Currently Playing</div>
                 <div className="flex justify-between items-center">
                   <span className="font-medium">{user?.currentGame}</span>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={copyGameId}
-                    className="text-[#EC1146]"
-                  >
-                    <Copy className="h-4 w-4 mr-2" />
-                    {user?.currentGameId}
-                  </Button>
+                  {user.currentGameHandle ? (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={copyGameId}
+                      className="text-[#EC1146]"
+                    >
+                      <Copy className="h-4 w-4 mr-2" />
+                      {user?.currentGameHandle}
+                    </Button>
+                  ) : (
+                    <span className="text-sm text-gray-400">Game ID hidden</span>
+                  )}
                 </div>
               </div>
 
               <div>
                 <h3 className="text-lg font-medium mb-3">Games Played</h3>
-                <div className="grid grid-cols-2 gap-2">
-                  {user.gamesPlayed.map((game) => (
-                    <div
-                      key={game}
-                      className="p-2 rounded bg-[#2D221C] text-sm"
-                    >
-                      {game}
-                    </div>
-                  ))}
-                </div>
+                <GameProfileList userId={user.id} />
               </div>
 
               <div>
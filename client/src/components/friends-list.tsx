@@ -0,0 +1,114 @@
+import type { User } from '@shared/schema';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { PresenceDot } from '@/components/presence-indicator';
+import { useFriends } from '@/hooks/use-friends';
+import { usePresence } from '@/hooks/use-presence';
+import { Check, X, MessageCircle, UserMinus, ShieldOff } from 'lucide-react';
+
+interface FriendsListProps {
+  searchQuery: string;
+  onChat: (user: User) => void;
+}
+
+// The Friends tab of the chat page: incoming requests first, then friends,
+// requests the user sent, and the users they blocked
+export function FriendsList({ searchQuery, onChat }: FriendsListProps) {
+  const { friends, incoming, outgoing, blocked, isLoading, isUpdating, acceptRequest, removeFriend, unblockUser } = useFriends();
+  const { getPresence } = usePresence();
+
+  const matches = (user: User) =>
+    !searchQuery || user.username.toLowerCase().includes(searchQuery.toLowerCase());
+
+  const renderUser = (user: User, actions: React.ReactNode, onClick?: () => void) => (
+    <div
+      key={user.id}
+      className={`p-3 rounded-lg flex items-center gap-3 transition-colors duration-200 ${onClick ? 'cursor-pointer hover:bg-[#2D221C]/50' : ''}`}
+      onClick={onClick}
+    >
+      <div className="relative">
+        <Avatar className="h-10 w-10">
+          <AvatarImage src={user.profilePicture || undefined} alt={user.username} />
+          <AvatarFallback>
+            {user.username.charAt(0).toUpperCase()}
+          </AvatarFallback>
+        </Avatar>
+        <PresenceDot
+          status={getPresence(user.id).status}
+          className="absolute bottom-0 right-0 w-3 h-3 border-2 border-[#0f0f0f]"
+        />
+      </div>
+      <div className="flex-1 min-w-0">
+        <h3 className="truncate font-medium">{user.username}</h3>
+        <p className="text-sm text-gray-400 truncate">{user.currentGame}</p>
+      </div>
+      <div className="flex items-center gap-1" onClick={e => e.stopPropagation()}>
+        {actions}
+      </div>
+    </div>
+  );
+
+  const renderSection = (title: string, users: User[], render: (user: User) => React.ReactNode) => {
+    const shown = users.filter(matches);
+    if (shown.length === 0) return null;
+
+    return (
+      <div>
+        <p className="px-3 pt-2 pb-1 text-xs uppercase tracking-wide text-gray-500">{title}</p>
+        {shown.map(render)}
+      </div>
+    );
+  };
+
+  if (isLoading) {
+    return <div className="p-4 text-center text-gray-400">Loading...</div>;
+  }
+
+  if (friends.length + incoming.length + outgoing.length + blocked.length === 0) {
+    return (
+      <div className="p-4 text-center text-gray-400">
+        <p>No friends yet.</p>
+        <p className="text-sm mt-1">Send a friend request from someone's chat or player card.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-2 space-y-2">
+      {renderSection('Friend requests', incoming, user => renderUser(user, (
+        <>
+          <Button variant="ghost" size="icon" title="Accept" disabled={isUpdating} onClick={() => acceptRequest(user.id)}>
+            <Check className="h-4 w-4 text-green-500" />
+          </Button>
+          <Button variant="ghost" size="icon" title="Decline" disabled={isUpdating} onClick={() => removeFriend(user.id)}>
+            <X className="h-4 w-4 text-gray-400" />
+          </Button>
+        </>
+      )))}
+
+      {renderSection('Friends', friends, user => renderUser(user, (
+        <>
+          <Button variant="ghost" size="icon" title="Message" onClick={() => onChat(user)}>
+            <MessageCircle className="h-4 w-4 text-gray-400" />
+          </Button>
+          <Button variant="ghost" size="icon" title="Remove friend" disabled={isUpdating} onClick={() => removeFriend(user.id)}>
+            <UserMinus className="h-4 w-4 text-gray-400" />
+          </Button>
+        </>
+      ), () => onChat(user)))}
+
+      {renderSection('Sent requests', outgoing, user => renderUser(user, (
+        <Button variant="ghost" size="sm" className="text-gray-400" disabled={isUpdating} onClick={() => removeFriend(user.id)}>
+          Cancel
+        </Button>
+      )))}
+
+      {renderSection('Blocked', blocked, user => renderUser(user, (
+        <Button variant="ghost" size="sm" className="text-gray-400 gap-1" disabled={isUpdating} onClick={() => unblockUser(user.id)}>
+          <ShieldOff className="h-4 w-4" />
+          Unblock
+        </Button>
+      )))}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Game, User, OutgoingMessagePayload } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useUserGames } from '@/hooks/use-user-games';
+
+interface GameInviteDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentUser: Pick<User, 'id' | 'currentGame' | 'currentGameHandle'>;
+  onSend: (invite: OutgoingMessagePayload) => void;
+}
+
+// Picks one of the user's games and the in-game ID to invite others with
+export function GameInviteDialog({ open, onOpenChange, currentUser, onSend }: GameInviteDialogProps) {
+  const { data: games = [] } = useQuery<Game[]>({
+    queryKey: ['/api/games'],
+    enabled: open,
+  });
+  const { profiles } = useUserGames(currentUser.id);
+
+  const [gameName, setGameName] = useState(currentUser.currentGame);
+  const [gameId, setGameId] = useState(currentUser.currentGameHandle);
+
+  // Start from the user's current game each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setGameName(currentUser.currentGame);
+      setGameId(currentUser.currentGameHandle);
+    }
+  }, [open, currentUser.currentGame, currentUser.currentGameHandle]);
+
+  const playedGames = Array.from(new Set([currentUser.currentGame, ...profiles.map(profile => profile.gameName)]))
+    .filter(Boolean);
+  const selectedGame = games.find(game => game.name === gameName);
+
+  // Fill in the ID saved on the game's profile, if there is one
+  const handleGameChange = (name: string) => {
+    setGameName(name);
+    const profile = profiles.find(profile => profile.gameName === name);
+    if (profile?.inGameId) setGameId(profile.inGameId);
+  };
+
+  const handleSend = () => {
+    if (!selectedGame || !gameId.trim()) return;
+
+    onSend({
+      type: 'game-invite',
+      gameId: selectedGame.id,
+      gameName: selectedGame.name,
+      currentGameHandle: gameId.trim()
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-[#1D1D1D] border-[#2D221C] text-white">
+        <DialogHeader>
+          <DialogTitle>Invite to Play</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Share a game and your in-game ID so others can add you.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSend();
+          }}
+        >
+          <div className="space-y-2">
+            <Label>Game</Label>
+            <Select value={gameName} onValueChange={handleGameChange}>
+              <SelectTrigger className="bg-[#2D221C] border-none">
+                <SelectValue placeholder="Select a game" />
+              </SelectTrigger>
+              <SelectContent>
+                {playedGames.map(name => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Game ID</Label>
+            <Input
+              value={gameId}
+              onChange={(e) => setGameId(e.target.value)}
+              placeholder="Enter your game ID"
+              className="bg-[#2D221C] border-none"
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              className="bg-[#EC1146] hover:bg-[#EC1146]/90"
+              disabled={!selectedGame || !gameId.trim()}
+            >
+              Send Invite
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
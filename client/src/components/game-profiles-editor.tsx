@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { GAME_PLATFORMS, USER_GAME_MAX_ROLES, type GamePlatform, type UserGameProfile } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useGames } from '@/hooks/use-games';
+import { useUserGames, useUserGameActions } from '@/hooks/use-user-games';
+import { Plus, Trash2 } from 'lucide-react';
+
+// Select needs a value for "no platform"
+const NO_PLATFORM = 'none';
+
+interface ProfileRowProps {
+  profile: UserGameProfile;
+  actions: ReturnType<typeof useUserGameActions>;
+}
+
+function ProfileRow({ profile, actions }: ProfileRowProps) {
+  const [inGameId, setInGameId] = useState(profile.inGameId ?? '');
+  const [platform, setPlatform] = useState(profile.platform ?? NO_PLATFORM);
+  const [rank, setRank] = useState(profile.rank ?? '');
+  // Comma-separated while editing
+  const [roles, setRoles] = useState(profile.roles.join(', '));
+  const [hoursPlayed, setHoursPlayed] = useState(profile.hoursPlayed?.toString() ?? '');
+
+  const handleSave = () => {
+    actions.save.mutate({
+      gameId: profile.gameId,
+      profile: {
+        inGameId,
+        platform: platform === NO_PLATFORM ? null : platform as GamePlatform,
+        rank,
+        roles: roles.split(',').map(role => role.trim()).filter(Boolean),
+        hoursPlayed: hoursPlayed ? parseInt(hoursPlayed) : null,
+      },
+    });
+  };
+
+  return (
+    <div className="p-4 rounded-lg border space-y-3">
+      <div className="flex justify-between items-center">
+        <span className="font-medium">{profile.gameName}</span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          title="Remove game"
+          disabled={actions.isRemoving}
+          onClick={() => actions.removeGame(profile.gameId)}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="text-sm font-medium">In-game ID</label>
+          <Input
+            placeholder="e.g. Player#EUW"
+            value={inGameId}
+            onChange={e => setInGameId(e.target.value)}
+            maxLength={100}
+          />
+        </div>
+        <div>
+          <label className="text-sm font-medium">Platform</label>
+          <Select value={platform} onValueChange={setPlatform}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_PLATFORM}>Not set</SelectItem>
+              {GAME_PLATFORMS.map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <label className="text-sm font-medium">Rank</label>
+          <Input
+            placeholder="e.g. Diamond 2"
+            value={rank}
+            onChange={e => setRank(e.target.value)}
+            maxLength={50}
+          />
+        </div>
+        <div>
+          <label className="text-sm font-medium">Hours played</label>
+          <Input
+            type="number"
+            min={0}
+            value={hoursPlayed}
+            onChange={e => setHoursPlayed(e.target.value)}
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className="text-sm font-medium">Preferred roles (up to {USER_GAME_MAX_ROLES}, comma-separated)</label>
+          <Input
+            placeholder="e.g. Support, Entry"
+            value={roles}
+            onChange={e => setRoles(e.target.value)}
+          />
+        </div>
+      </div>
+      <div className="flex justify-end">
+        <Button type="button" size="sm" disabled={actions.save.isPending} onClick={handleSave}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Per-game profiles for the profile editor. Each game is saved on its own,
+// separately from the rest of the form.
+export function GameProfilesEditor({ userId }: { userId: number }) {
+  const { data: games = [] } = useGames();
+  const { profiles } = useUserGames(userId);
+  const actions = useUserGameActions(userId);
+  const [newGameId, setNewGameId] = useState('');
+
+  const profiledIds = new Set(profiles.map(profile => profile.gameId));
+  const addable = games
+    .filter(game => !profiledIds.has(game.id))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const handleAdd = () => {
+    if (!newGameId) return;
+    actions.save.mutate(
+      { gameId: parseInt(newGameId), profile: { roles: [] } },
+      { onSuccess: () => setNewGameId('') }
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-lg font-medium">Game profiles</h2>
+        <p className="text-sm text-muted-foreground">
+          Your ID, rank and roles for each game you play. Who sees your IDs follows your game ID privacy setting.
+        </p>
+      </div>
+
+      {profiles.map(profile => (
+        // Keyed on updatedAt so the fields reset to what was saved
+        <ProfileRow key={`${profile.gameId}-${profile.updatedAt}`} profile={profile} actions={actions} />
+      ))}
+
+      <div className="flex gap-2">
+        <Select value={newGameId} onValueChange={setNewGameId}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="Add a game" />
+          </SelectTrigger>
+          <SelectContent>
+            <ScrollArea className="h-[200px]">
+              {addable.map(game => (
+                <SelectItem key={game.id} value={String(game.id)}>{game.name}</SelectItem>
+              ))}
+            </ScrollArea>
+          </SelectContent>
+        </Select>
+        <Button type="button" variant="outline" disabled={!newGameId || actions.save.isPending} onClick={handleAdd}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
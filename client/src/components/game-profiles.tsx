@@ -0,0 +1,98 @@
+import type { UserGameProfile } from '@shared/schema';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useUserGames } from '@/hooks/use-user-games';
+import { Copy } from 'lucide-react';
+
+// e.g. "Diamond 2 · Steam · 340h"
+function describeProfile(profile: UserGameProfile): string {
+  return [
+    profile.rank,
+    profile.platform,
+    profile.hoursPlayed !== null ? `${profile.hoursPlayed}h` : null,
+  ].filter(Boolean).join(' · ');
+}
+
+interface GameProfileSummaryProps {
+  userId: number;
+  limit?: number;
+}
+
+// The player's top games with their rank, for gaming cards
+export function GameProfileSummary({ userId, limit = 3 }: GameProfileSummaryProps) {
+  const { profiles } = useUserGames(userId);
+  if (profiles.length === 0) return null;
+
+  return (
+    <div className="mt-3 flex flex-wrap gap-1">
+      {profiles.slice(0, limit).map(profile => (
+        <Badge key={profile.gameId} variant="outline" className="border-[#eb0028] text-white/80 font-normal">
+          {profile.gameName}
+          {profile.rank && <span className="ml-1 text-white/50">{profile.rank}</span>}
+        </Badge>
+      ))}
+      {profiles.length > limit && (
+        <span className="text-xs text-white/50 self-center">+{profiles.length - limit} more</span>
+      )}
+    </div>
+  );
+}
+
+// Every game the player has a profile for, with handles that can be copied
+export function GameProfileList({ userId }: { userId: number }) {
+  const { toast } = useToast();
+  const { profiles, isLoading } = useUserGames(userId);
+
+  const copyInGameId = (profile: UserGameProfile) => {
+    if (!profile.inGameId) return;
+    navigator.clipboard.writeText(profile.inGameId);
+    toast({
+      title: "Copied!",
+      description: `${profile.gameName} ID copied to clipboard`,
+    });
+  };
+
+  if (isLoading) {
+    return <div className="text-sm text-gray-400">Loading games...</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {profiles.map(profile => (
+        <div key={profile.gameId} className="p-3 rounded bg-[#2D221C]">
+          <div className="flex justify-between items-center gap-2">
+            <div className="min-w-0">
+              <div className="font-medium truncate">{profile.gameName}</div>
+              {describeProfile(profile) && (
+                <div className="text-xs text-gray-400">{describeProfile(profile)}</div>
+              )}
+            </div>
+            {profile.inGameId && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => copyInGameId(profile)}
+                className="text-[#EC1146] shrink-0"
+              >
+                <Copy className="h-4 w-4 mr-2" />
+                {profile.inGameId}
+              </Button>
+            )}
+          </div>
+          {profile.roles.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-1">
+              {profile.roles.map(role => (
+                <Badge key={role} variant="secondary" className="font-normal">{role}</Badge>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+
+      {profiles.length === 0 && (
+        <div className="text-sm text-gray-400">No games listed yet.</div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { User } from '@shared/schema';
+import { Player } from '@shared/schema';
 import { Card, CardContent } from '@/components/ui/card';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
@@ -17,22 +17,20 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { useAuth } from '@/hooks/use-auth';
+import { usePresence } from '@/hooks/use-presence';
+import { PLAYERS_QUERY_KEY } from '@/hooks/use-players';
 import { useQueryClient } from '@tanstack/react-query';
+import { LocalTime } from './local-time';
+import { GameProfileSummary } from './game-profiles';
 
 interface GamingCardProps {
-  user: User;
+  user: Player;
   onChatClick?: () => void;
   onCardClick?: () => void;
   isEditable?: boolean;
   onUserDeleted?: () => void;
 }
 
-// Function to check if user is active (within last 5 minutes)
-function isUserActive(lastActive: Date): boolean {
-  const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
-  return new Date(lastActive) > fiveMinutesAgo;
-}
-
 export function GamingCard({ 
   user, 
   onChatClick, 
@@ -41,14 +39,16 @@ export function GamingCard({
   onUserDeleted 
 }: GamingCardProps) {
   const { toast } = useToast();
-  const { user: currentUser, isAdmin } = useAuth();
+  const { user: currentUser, can } = useAuth();
+  const canDeleteUsers = can('users:delete');
   const [showShareModal, setShowShareModal] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const queryClient = useQueryClient();
+  const { getPresence } = usePresence();
 
   const copyGameId = () => {
-    navigator.clipboard.writeText(user.currentGameId);
+    navigator.clipboard.writeText(user.currentGameHandle);
     toast({
       title: "Copied!",
       description: "Game ID copied to clipboard",
@@ -65,19 +65,13 @@ export function GamingCard({
   };
 
   const handleDeleteUser = async () => {
-    if (!currentUser || !isAdmin) return;
+    if (!currentUser || !canDeleteUsers) return;
     
     setIsDeleting(true);
     
     try {
       const response = await fetch(`/api/admin/users/${user.id}`, {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          userId: currentUser.id // For admin verification
-        })
+        method: 'DELETE'
       });
       
       if (!response.ok) {
@@ -91,6 +85,7 @@ export function GamingCard({
       
       // Invalidate queries to refresh data
       queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      queryClient.invalidateQueries({ queryKey: PLAYERS_QUERY_KEY });
       
       // Call the callback if provided
       if (onUserDeleted) {
@@ -109,8 +104,8 @@ export function GamingCard({
     }
   };
 
-  // Determine background color based on user activity
-  const isActive = isUserActive(user.lastActive);
+  // Determine background color based on whether the user is around
+  const isActive = getPresence(user.id).status !== 'offline';
   const bgColor = isActive ? '#07412382' : '#250d11';
 
   return (
@@ -133,12 +128,13 @@ export function GamingCard({
                 <span>{user?.language}</span>
                 <span>•</span>
                 <span>{user?.region}</span>
+                {user && <LocalTime region={user.region} />}
               </div>
             </div>
 
             <div className="flex gap-1">
               {/* Admin Delete Button */}
-              {isAdmin && currentUser?.id !== user.id && (
+              {canDeleteUsers && currentUser?.id !== user.id && (
                 <Button
                   variant="ghost"
                   size="icon"
@@ -183,20 +179,27 @@ export function GamingCard({
             <div className="text-sm text-white/70">Currently Playing</div>
             <div className="mt-1 flex justify-between items-center">
               <span className="font-medium text-white">{user?.currentGame}</span>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={(e) => {
-                  e.stopPropagation();
-                  copyGameId();
-                }}
-                className="text-white hover:text-white/90"
-              >
-                <Copy className="h-4 w-4 mr-1" />
-                <span>ID</span>
-              </Button>
+              {/* The server blanks game IDs the owner's privacy settings hide */}
+              {user.currentGameHandle ? (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    copyGameId();
+                  }}
+                  className="text-white hover:text-white/90"
+                >
+                  <Copy className="h-4 w-4 mr-1" />
+                  <span>ID</span>
+                </Button>
+              ) : (
+                <span className="text-xs text-white/50">ID hidden</span>
+              )}
             </div>
           </div>
+
+          <GameProfileSummary userId={user.id} />
         </CardContent>
       </Card>
       
@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
-import { User, Group, Message } from '@shared/schema';
+import { User, Group, Message, GroupReadPosition, OutgoingMessagePayload, getMessagePayload } from '@shared/schema';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
@@ -29,7 +29,15 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { ImageUpload } from '@/components/image-upload';
 import { useToast } from '@/hooks/use-toast';
-import { useWebSocket } from '@/hooks/use-websocket';
+import { useWebSocket, type GroupReadReceipt, type MessageUpdate } from '@/hooks/use-websocket';
+import { useMessageHistory } from '@/hooks/use-message-history';
+import { useMarkAsRead } from '@/hooks/use-mark-as-read';
+import { useOutbox } from '@/hooks/use-outbox';
+import { MessageContent, SystemMessage } from '@/components/message-content';
+import { GameInviteDialog } from '@/components/game-invite-dialog';
+import { OutboxStatus } from '@/components/outbox-status';
+import { ConnectionStatusIndicator } from '@/components/connection-status';
+import { PlaySessions } from '@/components/play-sessions';
 import { 
   MessageCircle, 
   Image as ImageIcon, 
@@ -38,7 +46,9 @@ import {
   UserPlus, 
   LogOut, 
   Trash2, 
+  Pencil,
   UserCheck,
+  Gamepad2,
   Send
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
@@ -56,7 +66,6 @@ interface GroupChatProps {
 }
 
 export function GroupChat({ group, currentUser, onClose }: GroupChatProps) {
-  const [messages, setMessages] = useState<(Message | GroupMessage)[]>([]);
   const [messageInput, setMessageInput] = useState('');
   const [members, setMembers] = useState<User[]>([]);
   const [availableUsers, setAvailableUsers] = useState<User[]>([]);
@@ -69,42 +78,71 @@ export function GroupChat({ group, currentUser, onClose }: GroupChatProps) {
   const [isViewMembersDialogOpen, setIsViewMembersDialogOpen] = useState(false);
   const [messageToDelete, setMessageToDelete] = useState<Message | GroupMessage | null>(null);
   const [showDeleteMessageDialog, setShowDeleteMessageDialog] = useState(false);
+  const [messageToEdit, setMessageToEdit] = useState<Message | GroupMessage | null>(null);
+  const [editInput, setEditInput] = useState('');
+  const [showGameInvite, setShowGameInvite] = useState(false);
+  // Bumped when a system message says the membership changed, to refetch members
+  const [membersVersion, setMembersVersion] = useState(0);
+  // Newest message each member has read, keyed by user ID
+  const [readPositions, setReadPositions] = useState<Record<number, number>>({});
   const { toast } = useToast();
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollAreaRef = useRef<HTMLDivElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Group history; older pages load as the user scrolls up
+  const {
+    messages,
+    setMessages,
+    hasMore: hasOlderMessages,
+    isLoadingOlder,
+    isError: isMessagesError,
+  } = useMessageHistory<Message | GroupMessage>(`/api/groups/${group.id}/messages`, scrollAreaRef);
+
+  // Messages still being sent to this group
+  const outbox = useOutbox(currentUser.id, { groupId: group.id });
+  const displayedMessages = outbox.withPending(messages as Message[]);
+
   // Check if the current user is the owner of the group
   useEffect(() => {
     setIsOwner(group.ownerId === currentUser.id);
   }, [group, currentUser]);
 
-  // Fetch group messages
+  // Group admins may delete anyone's messages
+  const canModerate = isOwner || group.adminIds.includes(currentUser.id);
+
   useEffect(() => {
-    const fetchMessages = async () => {
+    if (isMessagesError) {
+      toast({
+        title: "Error",
+        description: "Failed to load messages",
+        variant: "destructive"
+      });
+    }
+  }, [isMessagesError, toast]);
+
+  // Fetch everyone's read position for "seen by"
+  useEffect(() => {
+    const fetchReadReceipts = async () => {
       try {
-        const response = await fetch(`/api/groups/${group.id}/messages?userId=${currentUser.id}`);
+        const response = await fetch(`/api/groups/${group.id}/read-receipts`);
         if (response.ok) {
-          const data = await response.json();
-          setMessages(data);
-          
-          // Scroll to bottom immediately after messages load
-          setTimeout(() => {
-            messagesEndRef.current?.scrollIntoView({ behavior: 'auto' });
-          }, 100);
-        } else {
-          toast({
-            title: "Error",
-            description: "Failed to load messages",
-            variant: "destructive"
-          });
+          const data: GroupReadPosition[] = await response.json();
+          const positions: Record<number, number> = {};
+          for (const receipt of data) {
+            if (receipt.lastReadMessageId !== null) {
+              positions[receipt.userId] = receipt.lastReadMessageId;
+            }
+          }
+          setReadPositions(positions);
         }
       } catch (error) {
-        console.error("Error fetching group messages:", error);
+        console.error("Error fetching read receipts:", error);
       }
     };
 
-    fetchMessages();
-  }, [group.id, currentUser.id, toast]);
+    fetchReadReceipts();
+  }, [group.id]);
 
   // Fetch group members
   useEffect(() => {
@@ -127,7 +165,7 @@ export function GroupChat({ group, currentUser, onClose }: GroupChatProps) {
     };
 
     fetchMembers();
-  }, [group.id, toast]);
+  }, [group.id, toast, membersVersion]);
 
   // Fetch available users for adding to the group
   useEffect(() => {
@@ -153,9 +191,11 @@ export function GroupChat({ group, currentUser, onClose }: GroupChatProps) {
     }
   }, [isAddMemberDialogOpen, members, currentUser.id]);
 
-  // Scroll to the bottom when new messages arrive - more aggressive approach
+  // Scroll to the bottom when new messages arrive - more aggressive approach.
+  // Keyed on the newest message so loading older history doesn't jump down.
+  const lastMessageId = displayedMessages[displayedMessages.length - 1]?.id;
   useEffect(() => {
-    if (messages.length > 0) {
+    if (lastMessageId !== undefined) {
       // First immediate scroll without animation
       messagesEndRef.current?.scrollIntoView({ behavior: 'auto' });
       
@@ -164,7 +204,7 @@ export function GroupChat({ group, currentUser, onClose }: GroupChatProps) {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
       }, 100);
     }
-  }, [messages]);
+  }, [lastMessageId]);
 
   // WebSocket setup for group chat
   const onGroupMessage = (msg: GroupMessage) => {
@@ -173,16 +213,13 @@ export function GroupChat({ group, currentUser, onClose }: GroupChatProps) {
     // Only process messages for this group
     if (msg.groupId !== group.id) return;
     
+    if (getMessagePayload(msg).type === 'system') {
+      setMembersVersion(v => v + 1);
+    }
+    
     setMessages(prev => {
       // Only add the message if it's not already in the array
-      const exists = prev.some(m => 
-        (m.id === msg.id) || 
-        (m.fromUserId === msg.fromUserId && 
-         m.content === msg.content && 
-         Math.abs(new Date(m.timestamp).getTime() - new Date(msg.timestamp).getTime()) < 1000)
-      );
-      
-      if (exists) return prev;
+      if (prev.some(m => m.id === msg.id)) return prev;
       
       // Add new message and ensure re-render
       const updatedMessages = [...prev, msg];
@@ -210,15 +247,51 @@ export function GroupChat({ group, currentUser, onClose }: GroupChatProps) {
     }
   };
 
+  // Another member has read up to receipt.upToId
+  const onGroupReadReceipt = (receipt: GroupReadReceipt) => {
+    if (receipt.groupId !== group.id) return;
+    
+    setReadPositions(prev => ({
+      ...prev,
+      [receipt.userId]: Math.max(prev[receipt.userId] ?? 0, receipt.upToId)
+    }));
+  };
+
+  // A message in this group was edited or deleted
+  const onMessageUpdate = (update: MessageUpdate) => {
+    if (update.message.groupId !== group.id) return;
+    
+    setMessages(prev => prev.map(m => m.id === update.message.id ? { ...m, ...update.message, type: m.type } : m));
+  };
+
   // Use all WebSocket methods
-  const { sendGroupMessage, sendGroupTypingStatus } = useWebSocket(
-    currentUser.id,
-    () => {}, // We don't need direct messages for group chat
+  const { sendGroupMessage, sendGroupTypingStatus, sendGroupReadReceipt, isConnected } = useWebSocket(currentUser.id, {
     onGroupMessage,
-    () => {}, // We don't need direct typing indicators
-    onGroupTypingStatus
+    onGroupTypingStatus,
+    onGroupReadReceipt,
+    onMessageUpdate
+  });
+
+  // Move our read position forward when newer messages from others are on screen
+  const lastIncomingId = messages.filter(m => m.fromUserId !== currentUser.id).pop()?.id;
+  const ownReadPosition = readPositions[currentUser.id] ?? 0;
+
+  useMarkAsRead(
+    lastIncomingId !== undefined && lastIncomingId > ownReadPosition ? lastIncomingId : undefined,
+    (upToId) => {
+      sendGroupReadReceipt(group.id, upToId);
+      setReadPositions(prev => ({ ...prev, [currentUser.id]: upToId }));
+    }
   );
 
+  // Our newest message, and the other members who have read it
+  const lastOwnMessageId = messages.filter(m => m.fromUserId === currentUser.id).pop()?.id;
+  const seenBy = lastOwnMessageId === undefined
+    ? []
+    : members.filter(member =>
+        member.id !== currentUser.id && (readPositions[member.id] ?? 0) >= lastOwnMessageId
+      );
+
   // Handle typing notification with debounce
   const handleTyping = (e: React.ChangeEvent<HTMLInputElement>) => {
     setMessageInput(e.target.value);
@@ -254,48 +327,21 @@ export function GroupChat({ group, currentUser, onClose }: GroupChatProps) {
   const handleSendMessage = () => {
     if (!messageInput.trim()) return;
     
-    // Create a temporary message to display immediately
-    const tempMessage: GroupMessage = {
-      id: Date.now(), // Temporary ID
-      fromUserId: currentUser.id,
-      groupId: group.id,
-      content: messageInput,
-      timestamp: new Date(),
-      isRead: false,
-      readAt: null,
-      type: 'groupMessage'
-    };
-    
-    // Add the message to the UI immediately
-    setMessages(prev => [...prev, tempMessage]);
-    
-    // Then send via WebSocket
-    sendGroupMessage(group.id, messageInput);
+    // The outbox shows the message as pending until the server stores it
+    sendGroupMessage(group.id, messageInput.trim());
     setMessageInput('');
   };
 
   // Handle image upload
   const handleImageUploaded = (imageUrl: string) => {
-    // Create a temporary message to display immediately
-    const tempMessage: GroupMessage = {
-      id: Date.now(), // Temporary ID
-      fromUserId: currentUser.id,
-      groupId: group.id,
-      content: `![image](${imageUrl})`,
-      timestamp: new Date(),
-      isRead: false,
-      readAt: null,
-      type: 'groupMessage'
-    };
-    
-    // Add the message to the UI immediately
-    setMessages(prev => [...prev, tempMessage]);
-    
-    // Then send via WebSocket
-    sendGroupMessage(group.id, `![image](${imageUrl})`);
+    sendGroupMessage(group.id, { type: 'image', url: imageUrl });
     setShowImageUpload(false);
   };
 
+  const handleSendInvite = (invite: OutgoingMessagePayload) => {
+    sendGroupMessage(group.id, invite);
+  };
+
   // Add a member to the group
   const handleAddMember = async (user: User) => {
     try {
@@ -305,8 +351,7 @@ export function GroupChat({ group, currentUser, onClose }: GroupChatProps) {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          userId: user.id,
-          currentUserId: currentUser.id
+          userId: user.id
         })
       });
 
@@ -341,13 +386,7 @@ export function GroupChat({ group, currentUser, onClose }: GroupChatProps) {
   const handleRemoveMember = async (memberId: number) => {
     try {
       const response = await fetch(`/api/groups/${group.id}/members/${memberId}`, {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          currentUserId: currentUser.id
-        })
+        method: 'DELETE'
       });
 
       if (response.ok) {
@@ -387,7 +426,6 @@ export function GroupChat({ group, currentUser, onClose }: GroupChatProps) {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          currentOwnerId: currentUser.id,
           newOwnerId: selectedUser.id
         })
       });
@@ -422,13 +460,7 @@ export function GroupChat({ group, currentUser, onClose }: GroupChatProps) {
   const handleLeaveGroup = async () => {
     try {
       const response = await fetch(`/api/groups/${group.id}/members/${currentUser.id}`, {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          currentUserId: currentUser.id
-        })
+        method: 'DELETE'
       });
 
       if (response.ok) {
@@ -460,13 +492,7 @@ export function GroupChat({ group, currentUser, onClose }: GroupChatProps) {
   const handleDeleteGroup = async () => {
     try {
       const response = await fetch(`/api/groups/${group.id}`, {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          userId: currentUser.id
-        })
+        method: 'DELETE'
       });
 
       if (response.ok) {
@@ -494,15 +520,6 @@ export function GroupChat({ group, currentUser, onClose }: GroupChatProps) {
     }
   };
 
-  // Render message content (text or image)
-  const renderMessageContent = (content: string) => {
-    const imageMatch = content.match(/!\[image\]\((.*?)\)/);
-    if (imageMatch && imageMatch[1]) {
-      return <img src={imageMatch[1]} alt="Shared image" className="max-w-full max-h-64 rounded-lg" />;
-    }
-    return content;
-  };
-
   const getUsernameById = (userId: number) => {
     const user = members.find(member => member.id === userId);
     return user ? user.username : "Unknown User";
@@ -515,18 +532,13 @@ export function GroupChat({ group, currentUser, onClose }: GroupChatProps) {
     try {
       // Different endpoint for group messages
       const response = await fetch(`/api/groups/${group.id}/messages/${messageToDelete.id}`, {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          userId: currentUser.id
-        })
+        method: 'DELETE'
       });
       
       if (response.ok) {
-        // Remove the message from the UI
-        setMessages(prev => prev.filter(msg => msg.id !== messageToDelete.id));
+        // Leave a "message deleted" placeholder in its place
+        const deleted: Message = await response.json();
+        setMessages(prev => prev.map(msg => msg.id === deleted.id ? { ...msg, ...deleted, type: msg.type } : msg));
         
         toast({
           title: "Success",
@@ -552,6 +564,42 @@ export function GroupChat({ group, currentUser, onClose }: GroupChatProps) {
     setShowDeleteMessageDialog(false);
   };
 
+  // Function to save an edited message
+  const handleEditMessage = async () => {
+    if (!messageToEdit || !editInput.trim()) return;
+    
+    try {
+      const response = await fetch(`/api/messages/${messageToEdit.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ content: editInput.trim() })
+      });
+      
+      if (response.ok) {
+        const updated: Message = await response.json();
+        setMessages(prev => prev.map(msg => msg.id === updated.id ? { ...msg, ...updated, type: msg.type } : msg));
+      } else {
+        const error = await response.json();
+        toast({
+          title: "Error",
+          description: error.message || "Failed to edit message",
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      console.error("Error editing message:", error);
+      toast({
+        title: "Error",
+        description: "Failed to edit message",
+        variant: "destructive"
+      });
+    }
+    
+    setMessageToEdit(null);
+  };
+
   // Return the UI
   return (
     <Card className="flex flex-col h-full border-none bg-[#151515] shadow-xl">
@@ -573,61 +621,78 @@ export function GroupChat({ group, currentUser, onClose }: GroupChatProps) {
           </div>
         </div>
         
-        <DropdownMenu>
-          <DropdownMenuTrigger asChild>
-            <Button variant="ghost" className="h-8 w-8 p-0">
-              <MoreVertical className="h-5 w-5 text-gray-400" />
-            </Button>
-          </DropdownMenuTrigger>
-          <DropdownMenuContent align="end" className="bg-[#151515] border-[#2D221C] text-white">
-            <DropdownMenuLabel>Group Options</DropdownMenuLabel>
-            <DropdownMenuSeparator className="bg-[#2D221C]" />
-            
-            {isOwner && (
-              <DropdownMenuItem 
-                onClick={() => setIsAddMemberDialogOpen(true)}
-                className="cursor-pointer flex items-center gap-2"
-              >
-                <UserPlus size={16} />
-                Add Member
-              </DropdownMenuItem>
-            )}
+        <div className="flex items-center gap-2">
+          <ConnectionStatusIndicator isConnected={isConnected} />
+          <PlaySessions groupId={group.id} currentUser={currentUser} isOwner={isOwner} />
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" className="h-8 w-8 p-0">
+                <MoreVertical className="h-5 w-5 text-gray-400" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="bg-[#151515] border-[#2D221C] text-white">
+              <DropdownMenuLabel>Group Options</DropdownMenuLabel>
+              <DropdownMenuSeparator className="bg-[#2D221C]" />
             
-            {isOwner && (
-              <DropdownMenuItem 
-                onClick={() => setIsTransferOwnershipDialogOpen(true)}
-                className="cursor-pointer flex items-center gap-2"
-              >
-                <UserCheck size={16} />
-                Transfer Ownership
-              </DropdownMenuItem>
-            )}
+              {isOwner && (
+                <DropdownMenuItem 
+                  onClick={() => setIsAddMemberDialogOpen(true)}
+                  className="cursor-pointer flex items-center gap-2"
+                >
+                  <UserPlus size={16} />
+                  Add Member
+                </DropdownMenuItem>
+              )}
             
-            <DropdownMenuItem 
-              onClick={handleLeaveGroup}
-              className="cursor-pointer flex items-center gap-2 text-amber-500"
-            >
-              <LogOut size={16} />
-              Leave Group
-            </DropdownMenuItem>
+              {isOwner && (
+                <DropdownMenuItem 
+                  onClick={() => setIsTransferOwnershipDialogOpen(true)}
+                  className="cursor-pointer flex items-center gap-2"
+                >
+                  <UserCheck size={16} />
+                  Transfer Ownership
+                </DropdownMenuItem>
+              )}
             
-            {isOwner && (
               <DropdownMenuItem 
-                onClick={handleDeleteGroup}
-                className="cursor-pointer flex items-center gap-2 text-red-500"
+                onClick={handleLeaveGroup}
+                className="cursor-pointer flex items-center gap-2 text-amber-500"
               >
-                <Trash2 size={16} />
-                Delete Group
+                <LogOut size={16} />
+                Leave Group
               </DropdownMenuItem>
-            )}
-          </DropdownMenuContent>
-        </DropdownMenu>
+            
+              {isOwner && (
+                <DropdownMenuItem 
+                  onClick={handleDeleteGroup}
+                  className="cursor-pointer flex items-center gap-2 text-red-500"
+                >
+                  <Trash2 size={16} />
+                  Delete Group
+                </DropdownMenuItem>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
       </CardHeader>
       
       <CardContent className="flex-1 overflow-hidden p-0">
-        <ScrollArea className="h-full p-4">
-          {messages.map((message, index) => {
+        <ScrollArea className="h-full p-4" ref={scrollAreaRef}>
+          {(isLoadingOlder || hasOlderMessages) && (
+            <div className="text-center text-xs text-gray-400 py-2 mb-3">
+              {isLoadingOlder ? 'Loading earlier messages...' : 'Scroll up for earlier messages'}
+            </div>
+          )}
+          {displayedMessages.map((message, index) => {
             const isFromCurrentUser = message.fromUserId === currentUser.id;
+            // Echoes over the socket carry type 'groupMessage', so go by the payload
+            const kind = getMessagePayload(message).type;
+            const outboxEntry = outbox.getEntry(message as Message);
+            
+            if (kind === 'system') {
+              return <SystemMessage key={message.id || index} message={message as Message} />;
+            }
+            
             return (
               <div
                 key={message.id || index}
@@ -662,11 +727,11 @@ export function GroupChat({ group, currentUser, onClose }: GroupChatProps) {
                           : "bg-[#2D221C] text-white"
                       }`}
                     >
-                      {renderMessageContent(message.content)}
+                      <MessageContent message={message as Message} />
                     </div>
                     
-                    {/* Message options dropdown - only for messages sent by current user */}
-                    {isFromCurrentUser && (
+                    {/* Message options dropdown - for our own messages, or any message if we moderate the group */}
+                    {!message.deletedAt && !outboxEntry && (isFromCurrentUser || canModerate) && (
                       <DropdownMenu>
                         <DropdownMenuTrigger asChild>
                           <Button 
@@ -683,6 +748,18 @@ export function GroupChat({ group, currentUser, onClose }: GroupChatProps) {
                             {formatMessageTime(new Date(message.timestamp))}
                           </div>
                           <DropdownMenuSeparator className="bg-[#2D221C]" />
+                          {isFromCurrentUser && kind === 'text' && (
+                            <DropdownMenuItem 
+                              className="cursor-pointer flex items-center gap-2"
+                              onClick={() => {
+                                setMessageToEdit(message);
+                                setEditInput(message.content);
+                              }}
+                            >
+                              <Pencil className="h-4 w-4" />
+                              <span>Edit Message</span>
+                            </DropdownMenuItem>
+                          )}
                           <DropdownMenuItem 
                             className="text-red-500 cursor-pointer flex items-center gap-2"
                             onClick={() => {
@@ -697,6 +774,28 @@ export function GroupChat({ group, currentUser, onClose }: GroupChatProps) {
                       </DropdownMenu>
                     )}
                   </div>
+                  
+                  {message.editedAt && !message.deletedAt && (
+                    <span className="text-xs text-gray-400 mt-1" title={`Edited ${new Date(message.editedAt).toLocaleString()}`}>
+                      (edited)
+                    </span>
+                  )}
+                  
+                  {outboxEntry && (
+                    <span className="flex text-xs text-gray-400 mt-1">
+                      <OutboxStatus
+                        entry={outboxEntry}
+                        onRetry={() => outbox.retry(outboxEntry.clientId)}
+                        onDiscard={() => outbox.discard(outboxEntry.clientId)}
+                      />
+                    </span>
+                  )}
+                  
+                  {message.id === lastOwnMessageId && seenBy.length > 0 && (
+                    <span className="text-xs text-gray-400 mt-1">
+                      Seen by {seenBy.map(member => member.username).join(', ')}
+                    </span>
+                  )}
                 </div>
               </div>
             );
@@ -740,6 +839,15 @@ export function GroupChat({ group, currentUser, onClose }: GroupChatProps) {
           >
             <ImageIcon size={20} />
           </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setShowGameInvite(true)}
+            className="text-gray-400 hover:text-white"
+            title="Invite to play"
+          >
+            <Gamepad2 size={20} />
+          </Button>
           
           <Input
             placeholder="Type a message..."
@@ -921,6 +1029,50 @@ export function GroupChat({ group, currentUser, onClose }: GroupChatProps) {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <GameInviteDialog
+        open={showGameInvite}
+        onOpenChange={setShowGameInvite}
+        currentUser={currentUser}
+        onSend={handleSendInvite}
+      />
+
+      {/* Edit Message Dialog */}
+      <Dialog open={!!messageToEdit} onOpenChange={(open) => !open && setMessageToEdit(null)}>
+        <DialogContent className="sm:max-w-md bg-[#151515] border-[#2D221C] text-white">
+          <DialogHeader>
+            <DialogTitle>Edit Message</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleEditMessage();
+            }}
+          >
+            <Input
+              value={editInput}
+              onChange={(e) => setEditInput(e.target.value)}
+              className="bg-[#2D221C] border-none text-white"
+              autoFocus
+            />
+            <DialogFooter className="mt-4">
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => setMessageToEdit(null)}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={!editInput.trim()}
+              >
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 } 
\ No newline at end of file
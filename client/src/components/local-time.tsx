@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { getRegion } from '@shared/regions';
+import { Clock } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface LocalTimeProps {
+  region: string;
+  className?: string;
+}
+
+// The current time where a player is, from their region's time zone.
+// Renders nothing for regions outside the canonical list.
+export function LocalTime({ region, className }: LocalTimeProps) {
+  const timeZone = getRegion(region)?.timeZone;
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    if (!timeZone) return;
+    const interval = setInterval(() => setNow(new Date()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, [timeZone]);
+
+  if (!timeZone) return null;
+
+  const time = now.toLocaleTimeString([], { timeStyle: 'short', timeZone });
+  return (
+    <span className={cn("inline-flex items-center gap-1", className)} title={`Local time (${timeZone})`}>
+      <Clock className="h-3 w-3" />
+      {time}
+    </span>
+  );
+}
@@ -0,0 +1,108 @@
+import { Copy, Gamepad2 } from 'lucide-react';
+import { Message, GameInvitePayload, SystemPayload, getMessagePayload } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+
+// "alice joined the group", etc.
+export function describeSystemEvent({ event, username }: SystemPayload) {
+  switch (event) {
+    case 'group-created':
+      return `${username} created the group`;
+    case 'member-joined':
+      return `${username} joined the group`;
+    case 'member-left':
+      return `${username} left the group`;
+    case 'member-removed':
+      return `${username} was removed from the group`;
+    case 'ownership-transferred':
+      return `${username} is now the group owner`;
+  }
+}
+
+// One-line summary of a message for conversation previews
+export function getMessagePreview(message: Message) {
+  if (message.deletedAt) return 'Message deleted';
+
+  const payload = getMessagePayload(message);
+  switch (payload.type) {
+    case 'image':
+      return 'Sent an image';
+    case 'game-invite':
+      return `Invite to play ${payload.gameName}`;
+    case 'system':
+      return describeSystemEvent(payload);
+    default:
+      return payload.content;
+  }
+}
+
+export function ImageMessage({ url }: { url: string }) {
+  return <img src={url} alt="Shared image" className="max-w-full max-h-64 rounded-lg" />;
+}
+
+// Invitation card with the game and the sender's handle to add them by
+export function GameInviteMessage({ invite }: { invite: GameInvitePayload }) {
+  const { toast } = useToast();
+
+  const copyGameId = () => {
+    navigator.clipboard.writeText(invite.currentGameHandle);
+    toast({
+      title: "Copied!",
+      description: "Game ID copied to clipboard",
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 min-w-[200px]">
+      <div className="flex items-center gap-2">
+        <Gamepad2 className="h-5 w-5 shrink-0" />
+        <div>
+          <p className="text-xs uppercase tracking-wide opacity-70">Invite to play</p>
+          <p className="font-semibold">{invite.gameName}</p>
+        </div>
+      </div>
+      <Button
+        variant="secondary"
+        size="sm"
+        onClick={copyGameId}
+        className="justify-start bg-black/20 hover:bg-black/30 text-white"
+      >
+        <Copy className="h-4 w-4 mr-2" />
+        {invite.currentGameHandle}
+      </Button>
+    </div>
+  );
+}
+
+// A group event, shown centred in the conversation instead of as a bubble
+export function SystemMessage({ message }: { message: Message }) {
+  const payload = getMessagePayload(message);
+  if (payload.type !== 'system') return null;
+
+  return (
+    <div className="flex justify-center my-2">
+      <span className="text-xs text-gray-400 bg-[#1D1D1D] px-3 py-1 rounded-full">
+        {describeSystemEvent(payload)}
+      </span>
+    </div>
+  );
+}
+
+// The body of a chat bubble for any non-system message
+export function MessageContent({ message }: { message: Message }) {
+  if (message.deletedAt) {
+    return <span className="italic text-gray-300">This message was deleted</span>;
+  }
+
+  const payload = getMessagePayload(message);
+  switch (payload.type) {
+    case 'image':
+      return <ImageMessage url={payload.url} />;
+    case 'game-invite':
+      return <GameInviteMessage invite={payload} />;
+    case 'system':
+      return <>{describeSystemEvent(payload)}</>;
+    default:
+      return <>{payload.content}</>;
+  }
+}
@@ -0,0 +1,33 @@
+import { AlertCircle, Clock } from 'lucide-react';
+import type { OutboxEntry } from '@/lib/outbox';
+
+interface OutboxStatusProps {
+  entry: OutboxEntry;
+  onRetry: () => void;
+  onDiscard: () => void;
+}
+
+// Shown under an unsent message in place of its read status: a clock while
+// it's being sent, or the reason it failed with the option to retry
+export function OutboxStatus({ entry, onRetry, onDiscard }: OutboxStatusProps) {
+  if (entry.status === 'pending') {
+    return (
+      <span title="Sending">
+        <Clock className="h-3 w-3 text-gray-400 ml-1" />
+      </span>
+    );
+  }
+
+  return (
+    <span className="flex items-center gap-1 ml-1 text-red-400" title={entry.error ?? undefined}>
+      <AlertCircle className="h-3 w-3" />
+      <span>Not sent</span>
+      <button type="button" className="underline hover:text-red-300" onClick={onRetry}>
+        Retry
+      </button>
+      <button type="button" className="underline hover:text-red-300" onClick={onDiscard}>
+        Discard
+      </button>
+    </span>
+  );
+}
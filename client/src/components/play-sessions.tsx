@@ -0,0 +1,276 @@
+import { useState } from 'react';
+import {
+  PLAY_SESSION_MAX_PARTICIPANTS,
+  PLAY_SESSION_REMINDER_MINUTES,
+  RSVP_RESPONSES,
+  type PlaySessionListing,
+  type RsvpResponse,
+  type User,
+} from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useGames } from '@/hooks/use-games';
+import { useToast } from '@/hooks/use-toast';
+import {
+  PLAY_SESSIONS_CALENDAR_URL,
+  playSessionCalendarUrl,
+  usePlaySessions,
+} from '@/hooks/use-play-sessions';
+import { CalendarDays, CalendarPlus, Download, Trash2 } from 'lucide-react';
+
+const RSVP_LABELS: Record<RsvpResponse, string> = {
+  yes: 'Going',
+  maybe: 'Maybe',
+  no: "Can't",
+};
+
+const DURATIONS = [30, 60, 90, 120, 180, 240];
+
+const localTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// The start in the viewer's time, plus the organiser's when it's different
+function formatStart(session: PlaySessionListing): string {
+  const startsAt = new Date(session.startsAt);
+  const local = startsAt.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+  if (session.timeZone === localTimeZone) return local;
+
+  const planned = startsAt.toLocaleTimeString([], { timeStyle: 'short', timeZone: session.timeZone });
+  return `${local} (${planned} ${session.timeZone})`;
+}
+
+interface ScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  schedule: ReturnType<typeof usePlaySessions>['schedule'];
+}
+
+function ScheduleSessionDialog({ open, onOpenChange, schedule }: ScheduleDialogProps) {
+  const { data: games = [] } = useGames();
+  const { toast } = useToast();
+  const [gameId, setGameId] = useState('');
+  const [title, setTitle] = useState('');
+  // A datetime-local value, in the browser's time zone
+  const [startsAt, setStartsAt] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState(120);
+  const [maxParticipants, setMaxParticipants] = useState('');
+
+  const handleSubmit = () => {
+    if (!gameId || !title.trim() || !startsAt) {
+      toast({
+        title: 'Error',
+        description: 'Please pick a game, a title and a start time',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    schedule.mutate({
+      gameId: parseInt(gameId),
+      title,
+      startsAt: new Date(startsAt),
+      timeZone: localTimeZone,
+      durationMinutes,
+      maxParticipants: maxParticipants ? parseInt(maxParticipants) : null,
+    }, {
+      onSuccess: () => {
+        onOpenChange(false);
+        setTitle('');
+        setStartsAt('');
+        setMaxParticipants('');
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-[#151515] border-[#2D221C] text-white">
+        <DialogHeader>
+          <DialogTitle>Schedule a session</DialogTitle>
+          <DialogDescription>
+            Members get a reminder {PLAY_SESSION_REMINDER_MINUTES} minutes before it starts.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Game</label>
+            <Select value={gameId} onValueChange={setGameId}>
+              <SelectTrigger className="bg-[#2D221C] border-none">
+                <SelectValue placeholder="Select a game" />
+              </SelectTrigger>
+              <SelectContent>
+                <ScrollArea className="h-[200px]">
+                  {games.map(game => (
+                    <SelectItem key={game.id} value={String(game.id)}>{game.name}</SelectItem>
+                  ))}
+                </ScrollArea>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Title</label>
+            <Input
+              placeholder="e.g. Ranked night"
+              value={title}
+              onChange={e => setTitle(e.target.value)}
+              maxLength={120}
+              className="bg-[#2D221C] border-none"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Starts ({localTimeZone})</label>
+            <Input
+              type="datetime-local"
+              value={startsAt}
+              onChange={e => setStartsAt(e.target.value)}
+              className="bg-[#2D221C] border-none"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Duration</label>
+              <Select value={String(durationMinutes)} onValueChange={value => setDurationMinutes(parseInt(value))}>
+                <SelectTrigger className="bg-[#2D221C] border-none">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DURATIONS.map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes > 60 ? 's' : ''}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Max players (optional)</label>
+              <Input
+                type="number"
+                min={2}
+                max={PLAY_SESSION_MAX_PARTICIPANTS}
+                value={maxParticipants}
+                onChange={e => setMaxParticipants(e.target.value)}
+                className="bg-[#2D221C] border-none"
+              />
+            </div>
+          </div>
+          <Button
+            className="w-full bg-[#EC1146] hover:bg-[#EC1146]/90"
+            onClick={handleSubmit}
+            disabled={schedule.isPending}
+          >
+            {schedule.isPending ? 'Scheduling...' : 'Schedule'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface PlaySessionsProps {
+  groupId: number;
+  currentUser: User;
+  isOwner: boolean;
+}
+
+// Upcoming sessions for the group chat header, with RSVPs and calendar export
+export function PlaySessions({ groupId, currentUser, isOwner }: PlaySessionsProps) {
+  const { sessions, schedule, isUpdating, cancelSession, respond } = usePlaySessions(groupId);
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
+
+  return (
+    <>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" className="h-8 px-2 gap-1 text-gray-400" title="Play sessions">
+            <CalendarDays className="h-5 w-5" />
+            {sessions.length > 0 && <span className="text-xs">{sessions.length}</span>}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 p-0 bg-[#151515] border-[#2D221C] text-white">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-[#2D221C]">
+            <p className="text-sm font-medium">Upcoming sessions</p>
+            <Button variant="ghost" size="sm" className="gap-1" onClick={() => setIsScheduleOpen(true)}>
+              <CalendarPlus className="h-4 w-4" />
+              Schedule
+            </Button>
+          </div>
+
+          {sessions.length === 0 ? (
+            <p className="p-4 text-sm text-center text-gray-400">Nothing planned yet.</p>
+          ) : (
+            <ScrollArea className="max-h-[360px]">
+              {sessions.map(session => {
+                const mine = session.rsvps.find(rsvp => rsvp.userId === currentUser.id)?.response;
+                const going = session.rsvps.filter(rsvp => rsvp.response === 'yes');
+                const canCancel = session.createdBy === currentUser.id || isOwner;
+
+                return (
+                  <div key={session.id} className="px-3 py-3 border-b border-[#2D221C] last:border-b-0">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{session.title}</p>
+                        <p className="text-xs text-gray-400">{session.gameName}</p>
+                        <p className="text-xs text-gray-400">{formatStart(session)}</p>
+                      </div>
+                      <div className="flex shrink-0">
+                        <Button variant="ghost" size="icon" className="h-7 w-7" title="Add to calendar" asChild>
+                          <a href={playSessionCalendarUrl(session)} download>
+                            <Download className="h-4 w-4 text-gray-400" />
+                          </a>
+                        </Button>
+                        {canCancel && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            title="Cancel session"
+                            disabled={isUpdating}
+                            onClick={() => cancelSession(session.id)}
+                          >
+                            <Trash2 className="h-4 w-4 text-gray-400" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    <p className="mt-1 text-xs text-gray-300 truncate">
+                      {going.length}{session.maxParticipants ? `/${session.maxParticipants}` : ''} going
+                      {going.length > 0 && `: ${going.map(rsvp => rsvp.username).join(', ')}`}
+                    </p>
+                    <div className="mt-2 flex gap-1">
+                      {RSVP_RESPONSES.map(response => (
+                        <Button
+                          key={response}
+                          size="sm"
+                          variant={mine === response ? 'default' : 'outline'}
+                          className={`h-7 px-2 text-xs ${mine === response ? 'bg-[#EC1146] hover:bg-[#EC1146]/90' : 'bg-transparent border-[#2D221C]'}`}
+                          disabled={isUpdating}
+                          onClick={() => respond(session.id, response)}
+                        >
+                          {RSVP_LABELS[response]}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </ScrollArea>
+          )}
+
+          <a
+            href={PLAY_SESSIONS_CALENDAR_URL}
+            download
+            className="block px-3 py-2 text-xs text-center text-gray-400 hover:text-white border-t border-[#2D221C]"
+          >
+            Export all my sessions (.ics)
+          </a>
+        </PopoverContent>
+      </Popover>
+
+      <ScheduleSessionDialog open={isScheduleOpen} onOpenChange={setIsScheduleOpen} schedule={schedule} />
+    </>
+  );
+}
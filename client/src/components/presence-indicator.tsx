@@ -0,0 +1,27 @@
+import { formatDistanceToNow } from 'date-fns';
+import { PRESENCE_LABELS, type Presence, type PresenceStatus } from '@shared/presence';
+import { cn } from '@/lib/utils';
+
+const PRESENCE_COLORS: Record<PresenceStatus, string> = {
+  online: 'bg-green-500',
+  idle: 'bg-yellow-500',
+  'in-game': 'bg-purple-500',
+  offline: 'bg-gray-500',
+};
+
+export function PresenceDot({ status, className }: { status: PresenceStatus; className?: string }) {
+  return (
+    <div
+      className={cn('w-2 h-2 rounded-full', PRESENCE_COLORS[status], className)}
+      title={PRESENCE_LABELS[status]}
+    />
+  );
+}
+
+// "Online", "In game", or "Last seen 5 minutes ago" for offline users
+export function formatPresence({ status, lastActive }: Presence) {
+  if (status !== 'offline' || !lastActive) {
+    return PRESENCE_LABELS[status];
+  }
+  return `Last seen ${formatDistanceToNow(new Date(lastActive), { addSuffix: true })}`;
+}
@@ -0,0 +1,77 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { PrivacySettings as PrivacySettingsValues, User } from '@shared/schema';
+import { PRIVACY_LEVELS, PRIVACY_LABELS, type PrivacyLevel } from '@shared/relationships';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+const SETTINGS: { key: keyof PrivacySettingsValues; label: string }[] = [
+  { key: 'messagePrivacy', label: 'Who can message me' },
+  { key: 'gameIdPrivacy', label: 'Who can see my game ID' },
+];
+
+// Privacy pickers for the profile editor. Each change is saved right away.
+export function PrivacySettings({ user }: { user: User }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const updatePrivacy = useMutation({
+    mutationFn: (settings: PrivacySettingsValues) =>
+      apiRequest(`/api/users/${user.id}/privacy`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings),
+      }),
+    onSuccess: (updated: User) => {
+      localStorage.setItem('user', JSON.stringify(updated));
+      queryClient.setQueryData(['user', user.id], updated);
+      toast({
+        title: 'Privacy Updated',
+        description: 'Your privacy settings have been saved.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-medium">Privacy</h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {SETTINGS.map(({ key, label }) => (
+          <div key={key}>
+            <label className="text-sm font-medium">{label}</label>
+            <Select
+              value={user[key]}
+              disabled={updatePrivacy.isPending}
+              onValueChange={(value) => updatePrivacy.mutate({ [key]: value as PrivacyLevel })}
+            >
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PRIVACY_LEVELS.map(level => (
+                  <SelectItem key={level} value={level}>{PRIVACY_LABELS[level]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Blocked users can never message you or find your card, whatever these are set to.
+      </p>
+    </div>
+  );
+}
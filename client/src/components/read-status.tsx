@@ -0,0 +1,25 @@
+import { Check, CheckCheck } from 'lucide-react';
+
+interface ReadStatusProps {
+  isRead: boolean;
+  readAt?: Date | string | null;
+}
+
+// Ticks shown under a sent direct message: one grey tick when sent, two blue ticks once read
+export function ReadStatus({ isRead, readAt }: ReadStatusProps) {
+  if (!isRead) {
+    return (
+      <span title="Sent">
+        <Check className="h-3 w-3 text-gray-400 ml-1" />
+      </span>
+    );
+  }
+
+  const seenAt = readAt ? new Date(readAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' }) : null;
+
+  return (
+    <span title={seenAt ? `Seen ${seenAt}` : 'Seen'}>
+      <CheckCheck className="h-3 w-3 text-blue-400 ml-1" />
+    </span>
+  );
+}
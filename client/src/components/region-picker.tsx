@@ -0,0 +1,82 @@
+import { forwardRef, useState, type ButtonHTMLAttributes } from 'react';
+import { REGIONS } from '@shared/regions';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+} from '@/components/ui/command';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { Check, ChevronsUpDown } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface RegionPickerProps extends Omit<ButtonHTMLAttributes<HTMLButtonElement>, 'value' | 'onChange'> {
+  value: string | undefined;
+  onChange: (region: string) => void;
+}
+
+// Searchable list of the canonical regions, by name or country code. Forwards
+// its ref and remaining props to the trigger so it can sit in a FormControl.
+export const RegionPicker = forwardRef<HTMLButtonElement, RegionPickerProps>(
+  ({ value, onChange, className, ...props }, ref) => {
+    const [open, setOpen] = useState(false);
+
+    return (
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            ref={ref}
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className={cn(
+              "w-full justify-between",
+              !value && "text-muted-foreground",
+              className
+            )}
+            {...props}
+          >
+            {value || "Select region..."}
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-full p-0">
+          <Command>
+            <CommandInput placeholder="Search region..." />
+            <CommandEmpty>No region found.</CommandEmpty>
+            <CommandGroup>
+              <ScrollArea className="h-72">
+                {REGIONS.map((region) => (
+                  <CommandItem
+                    value={`${region.name} ${region.countryCode}`}
+                    key={region.name}
+                    onSelect={() => {
+                      onChange(region.name);
+                      setOpen(false);
+                    }}
+                  >
+                    <Check
+                      className={cn(
+                        "mr-2 h-4 w-4",
+                        region.name === value ? "opacity-100" : "opacity-0"
+                      )}
+                    />
+                    {region.name}
+                  </CommandItem>
+                ))}
+              </ScrollArea>
+            </CommandGroup>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    );
+  }
+);
+RegionPicker.displayName = 'RegionPicker';
@@ -0,0 +1,73 @@
+import type { Player } from '@shared/schema';
+import { describeMatchReason } from '@shared/recommendations';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { PresenceDot } from '@/components/presence-indicator';
+import { useRecommendedPlayers } from '@/hooks/use-players';
+import { usePresence } from '@/hooks/use-presence';
+import { MessageCircle } from 'lucide-react';
+
+interface SuggestedTeammatesProps {
+  onChatClick: (player: Player) => void;
+  onCardClick: (player: Player) => void;
+}
+
+// Reasons shown under each suggestion; the rest are left out to keep cards short
+const SHOWN_REASONS = 3;
+
+// A scrolling row of suggested teammates above the player search, each with
+// why they were suggested. Hidden when there's nobody to suggest.
+export function SuggestedTeammates({ onChatClick, onCardClick }: SuggestedTeammatesProps) {
+  const { recommendations } = useRecommendedPlayers();
+  const { getPresence } = usePresence();
+
+  if (recommendations.length === 0) return null;
+
+  return (
+    <div className="mb-8">
+      <h2 className="text-lg font-medium mb-3">Suggested teammates</h2>
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {recommendations.map(({ player, reasons }) => (
+          <div
+            key={player.id}
+            className="w-60 shrink-0 p-4 rounded-lg bg-[#2D221C] border border-[#eb0028]/40 cursor-pointer hover:opacity-90 transition-colors duration-200"
+            onClick={() => onCardClick(player)}
+          >
+            <div className="flex items-center gap-3">
+              <div className="relative">
+                <Avatar className="h-10 w-10">
+                  <AvatarImage src={player.profilePicture || undefined} alt={player.username} />
+                  <AvatarFallback>{player.username.charAt(0).toUpperCase()}</AvatarFallback>
+                </Avatar>
+                <PresenceDot
+                  status={getPresence(player.id).status}
+                  className="absolute bottom-0 right-0 w-3 h-3 border-2 border-[#2D221C]"
+                />
+              </div>
+              <div className="flex-1 min-w-0">
+                <h3 className="truncate font-medium">{player.username}</h3>
+                <p className="text-sm text-gray-400 truncate">{player.currentGame}</p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Message"
+                onClick={e => {
+                  e.stopPropagation();
+                  onChatClick(player);
+                }}
+              >
+                <MessageCircle className="h-4 w-4 text-gray-400" />
+              </Button>
+            </div>
+            <ul className="mt-3 space-y-1 text-xs text-gray-300">
+              {reasons.slice(0, SHOWN_REASONS).map(reason => (
+                <li key={reason.type} className="truncate">{describeMatchReason(reason)}</li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+
+interface TotpCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Called once all six digits are in
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+}
+
+// Six boxes for a code from an authenticator app
+export function TotpCodeInput({ value, onChange, onComplete, disabled }: TotpCodeInputProps) {
+  return (
+    <InputOTP
+      maxLength={6}
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+      inputMode="numeric"
+      pattern="^[0-9]*$"
+      autoFocus
+    >
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
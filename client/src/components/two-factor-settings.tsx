@@ -0,0 +1,248 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { QRCodeSVG } from 'qrcode.react';
+import { RECOVERY_CODE_COUNT, type TwoFactorStatus } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { TotpCodeInput } from '@/components/totp-code-input';
+import { useToast } from '@/hooks/use-toast';
+import { sendAccountRequest } from '@/lib/account-request';
+import { Copy } from 'lucide-react';
+
+const TWO_FACTOR_QUERY_KEY = ['/api/account/2fa'];
+
+interface Enrollment {
+  secret: string;
+  uri: string;
+}
+
+// What the password dialog is confirming
+type PasswordAction = 'setup' | 'disable' | 'recovery-codes';
+
+const PASSWORD_DIALOG_TITLES: Record<PasswordAction, string> = {
+  'setup': 'Set Up Two-Factor Login',
+  'disable': 'Turn Off Two-Factor Login',
+  'recovery-codes': 'New Recovery Codes',
+};
+
+const PASSWORD_DIALOG_DESCRIPTIONS: Record<PasswordAction, string> = {
+  'setup': 'Enter your password to set up two-factor login.',
+  'disable': 'Enter your password to turn off two-factor login.',
+  'recovery-codes': 'Enter your password to replace your recovery codes. The old ones stop working.',
+};
+
+// Authenticator app setup for the profile editor
+export function TwoFactorSettings() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [passwordAction, setPasswordAction] = useState<PasswordAction | null>(null);
+  const [password, setPassword] = useState('');
+  // The password confirmed when setup started; turning it on needs it again
+  const [setupPassword, setSetupPassword] = useState('');
+
+  const { data: status } = useQuery<TwoFactorStatus>({ queryKey: TWO_FACTOR_QUERY_KEY });
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+  const refresh = () => queryClient.invalidateQueries({ queryKey: TWO_FACTOR_QUERY_KEY });
+
+  const startSetup = useMutation({
+    mutationFn: (password: string): Promise<Enrollment> =>
+      sendAccountRequest('/api/account/2fa/setup', 'POST', { password }),
+    onSuccess: (started, password) => {
+      setCode('');
+      setSetupPassword(password);
+      setEnrollment(started);
+      closePasswordDialog();
+    },
+    onError,
+  });
+
+  const cancelSetup = () => {
+    setEnrollment(null);
+    setSetupPassword('');
+  };
+
+  const enable = useMutation({
+    mutationFn: (value: string): Promise<{ recoveryCodes: string[] }> =>
+      sendAccountRequest('/api/account/2fa/enable', 'POST', { code: value, password: setupPassword }),
+    onSuccess: (result) => {
+      cancelSetup();
+      setRecoveryCodes(result.recoveryCodes);
+      refresh();
+    },
+    onError: (error: Error) => {
+      setCode('');
+      onError(error);
+    },
+  });
+
+  const confirmWithPassword = useMutation({
+    mutationFn: ({ action, password }: { action: Exclude<PasswordAction, 'setup'>; password: string }) =>
+      sendAccountRequest(`/api/account/2fa/${action === 'disable' ? 'disable' : 'recovery-codes'}`, 'POST', { password }),
+    onSuccess: (result: { recoveryCodes?: string[] }) => {
+      if (result.recoveryCodes) {
+        setRecoveryCodes(result.recoveryCodes);
+      } else {
+        toast({
+          title: 'Two-Factor Login Off',
+          description: 'You now log in with just your password.',
+        });
+      }
+      closePasswordDialog();
+      refresh();
+    },
+    onError,
+  });
+
+  const closePasswordDialog = () => {
+    setPasswordAction(null);
+    setPassword('');
+  };
+
+  const copyRecoveryCodes = () => {
+    if (!recoveryCodes) return;
+    navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    toast({
+      title: 'Copied!',
+      description: 'Recovery codes copied to clipboard',
+    });
+  };
+
+  if (!status) return null;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-lg font-medium">Two-factor login</h2>
+        <p className="text-sm text-muted-foreground">
+          Ask for a code from an authenticator app, as well as your password, whenever you log in.
+        </p>
+      </div>
+
+      {status.enabled ? (
+        <div className="flex flex-wrap justify-between items-center gap-2 rounded-lg border p-4">
+          <div>
+            <div className="font-medium">On</div>
+            <p className="text-sm text-muted-foreground">
+              {status.recoveryCodesLeft} of {RECOVERY_CODE_COUNT} recovery codes left
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={() => setPasswordAction('recovery-codes')}>
+              New recovery codes
+            </Button>
+            <Button type="button" variant="destructive" onClick={() => setPasswordAction('disable')}>
+              Turn off
+            </Button>
+          </div>
+        </div>
+      ) : enrollment ? (
+        <div className="flex flex-col items-center gap-4 rounded-lg border p-4">
+          <p className="text-sm text-center">
+            Scan this code with your authenticator app, or enter the key by hand. Then type the 6-digit code it shows.
+          </p>
+          <div className="bg-white p-4 rounded-lg">
+            <QRCodeSVG value={enrollment.uri} size={180} />
+          </div>
+          <code className="text-sm break-all">{enrollment.secret}</code>
+          <TotpCodeInput
+            value={code}
+            onChange={setCode}
+            onComplete={(value) => enable.mutate(value)}
+            disabled={enable.isPending}
+          />
+          <Button type="button" variant="outline" onClick={cancelSetup}>
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <Button type="button" variant="outline" onClick={() => setPasswordAction('setup')}>
+          Set up two-factor login
+        </Button>
+      )}
+
+      {/* Recovery codes, shown once */}
+      <Dialog open={!!recoveryCodes} onOpenChange={(open) => !open && setRecoveryCodes(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Recovery Codes</DialogTitle>
+            <DialogDescription>
+              Keep these somewhere safe. Each one logs you in once if you lose your authenticator app. They won't be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+            {recoveryCodes?.map(recoveryCode => (
+              <div key={recoveryCode} className="p-2 rounded bg-muted text-center">{recoveryCode}</div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={copyRecoveryCodes}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy
+            </Button>
+            <Button type="button" onClick={() => setRecoveryCodes(null)}>
+              Done
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!passwordAction} onOpenChange={(open) => !open && closePasswordDialog()}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>
+              {PASSWORD_DIALOG_TITLES[passwordAction ?? 'setup']}
+            </DialogTitle>
+            <DialogDescription>
+              {PASSWORD_DIALOG_DESCRIPTIONS[passwordAction ?? 'setup']}
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!passwordAction || !password) return;
+              if (passwordAction === 'setup') {
+                startSetup.mutate(password);
+              } else {
+                confirmWithPassword.mutate({ action: passwordAction, password });
+              }
+            }}
+          >
+            <Input
+              type="password"
+              placeholder="Enter your password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={closePasswordDialog}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!password || startSetup.isPending || confirmWithPassword.isPending}>
+                Confirm
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
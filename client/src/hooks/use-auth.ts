@@ -1,17 +1,28 @@
 import { useState, useEffect } from 'react';
 import { User } from '@shared/schema';
+import { getRolePermissions, type Permission } from '@shared/permissions';
 
 interface AuthState {
   user: User | null;
-  isAdmin: boolean;
+  permissions: Permission[];
   isAuthenticated: boolean;
   isLoading: boolean;
 }
 
+// Build the authenticated state for a user, deriving permissions from their role
+function authStateFor(user: User): AuthState {
+  return {
+    user,
+    permissions: getRolePermissions(user.role),
+    isAuthenticated: true,
+    isLoading: false
+  };
+}
+
 export function useAuth() {
   const [authState, setAuthState] = useState<AuthState>({
     user: null,
-    isAdmin: false,
+    permissions: [],
     isAuthenticated: false,
     isLoading: true
   });
@@ -22,12 +33,7 @@ export function useAuth() {
       const storedUser = localStorage.getItem('user');
       if (storedUser) {
         const parsedUser = JSON.parse(storedUser);
-        setAuthState({
-          user: parsedUser,
-          isAdmin: !!parsedUser.isAdmin,
-          isAuthenticated: true,
-          isLoading: false
-        });
+        setAuthState(authStateFor(parsedUser));
       } else {
         setAuthState(prev => ({ ...prev, isLoading: false }));
       }
@@ -40,71 +46,27 @@ export function useAuth() {
     return () => window.removeEventListener('storage', checkUserAuth);
   }, []);
 
-  // Update lastActive timestamp periodically when user is logged in
-  useEffect(() => {
-    if (!authState.user?.id) return;
-
-    // Function to update lastActive
-    const updateLastActive = async () => {
-      try {
-        const response = await fetch(`/api/users/${authState.user?.id}`, {
-          method: 'PATCH',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            lastActive: new Date(),
-          }),
-        });
-
-        if (response.ok) {
-          const updatedUser = await response.json();
-          // Update local storage with the new user data
-          localStorage.setItem('user', JSON.stringify(updatedUser));
-          setAuthState({
-            user: updatedUser,
-            isAdmin: !!updatedUser.isAdmin,
-            isAuthenticated: true,
-            isLoading: false
-          });
-        }
-      } catch (error) {
-        console.error('Error updating lastActive:', error);
-      }
-    };
-
-    // Update immediately on mount
-    updateLastActive();
-
-    // Then update every minute
-    const interval = setInterval(updateLastActive, 60 * 1000);
-
-    // Cleanup interval on unmount
-    return () => clearInterval(interval);
-  }, [authState.user?.id]);
-
   const login = (userData: User) => {
     localStorage.setItem('user', JSON.stringify(userData));
-    setAuthState({
-      user: userData,
-      isAdmin: !!userData.isAdmin,
-      isAuthenticated: true,
-      isLoading: false
-    });
+    setAuthState(authStateFor(userData));
   };
 
   const logout = () => {
     localStorage.removeItem('user');
     setAuthState({
       user: null,
-      isAdmin: false,
+      permissions: [],
       isAuthenticated: false,
       isLoading: false
     });
   };
 
+  // Check whether the current user's role grants a permission
+  const can = (permission: Permission) => authState.permissions.includes(permission);
+
   return {
     ...authState,
+    can,
     login,
     logout
   };
@@ -0,0 +1,39 @@
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Conversation } from '@shared/schema';
+import { queryClient } from '@/lib/queryClient';
+import { useWebSocket } from './use-websocket';
+
+export const CONVERSATIONS_QUERY_KEY = ['/api/conversations'];
+
+// Refetch the conversation list, e.g. after marking messages as read
+export function refreshConversations() {
+  return queryClient.invalidateQueries({ queryKey: CONVERSATIONS_QUERY_KEY });
+}
+
+/**
+ * The user's direct chats and groups with last message and unread count,
+ * refreshed whenever a message, edit or read receipt arrives over the socket.
+ */
+export function useConversations(userId: number | undefined) {
+  const { data: conversations = [], isLoading } = useQuery<Conversation[]>({
+    queryKey: CONVERSATIONS_QUERY_KEY,
+    enabled: !!userId,
+  });
+
+  const refresh = useCallback(() => {
+    refreshConversations();
+  }, []);
+
+  useWebSocket(userId || 0, {
+    onMessage: refresh,
+    onGroupMessage: refresh,
+    onReadReceipt: refresh,
+    onGroupReadReceipt: refresh,
+    onMessageUpdate: refresh
+  });
+
+  const totalUnread = conversations.reduce((total, conversation) => total + conversation.unreadCount, 0);
+
+  return { conversations, totalUnread, isLoading };
+}
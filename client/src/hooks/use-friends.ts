@@ -0,0 +1,80 @@
+import { useCallback } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import type { FriendList } from '@shared/schema';
+import type { Relationship } from '@shared/relationships';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from './use-toast';
+import { PLAYERS_QUERY_KEY, RECOMMENDED_PLAYERS_QUERY_KEY } from './use-players';
+
+export const FRIENDS_QUERY_KEY = ['/api/friends'];
+
+const EMPTY_FRIEND_LIST: FriendList = { friends: [], incoming: [], outgoing: [], blocked: [] };
+
+type FriendAction = 'request' | 'accept' | 'remove' | 'block' | 'unblock';
+
+const ACTION_REQUESTS: Record<FriendAction, (userId: number) => [string, string]> = {
+  request: userId => [`/api/friends/${userId}`, 'POST'],
+  accept: userId => [`/api/friends/${userId}/accept`, 'POST'],
+  remove: userId => [`/api/friends/${userId}`, 'DELETE'],
+  block: userId => [`/api/blocks/${userId}`, 'POST'],
+  unblock: userId => [`/api/blocks/${userId}`, 'DELETE'],
+};
+
+/**
+ * The session user's friends, pending requests and blocked users, with the
+ * actions that change them. Blocking changes who shows up in user lists, so
+ * those are refetched too.
+ */
+export function useFriends() {
+  const { toast } = useToast();
+
+  const { data: list = EMPTY_FRIEND_LIST, isLoading } = useQuery<FriendList>({
+    queryKey: FRIENDS_QUERY_KEY,
+  });
+
+  const getRelationship = useCallback((userId: number): Relationship => {
+    if (list.friends.some(user => user.id === userId)) return 'friends';
+    if (list.outgoing.some(user => user.id === userId)) return 'request-sent';
+    if (list.incoming.some(user => user.id === userId)) return 'request-received';
+    if (list.blocked.some(user => user.id === userId)) return 'blocked';
+    return 'none';
+  }, [list]);
+
+  const mutation = useMutation({
+    mutationFn: ({ action, userId }: { action: FriendAction; userId: number }) => {
+      const [url, method] = ACTION_REQUESTS[action](userId);
+      return apiRequest(url, { method });
+    },
+    onSuccess: (_result, { action }) => {
+      queryClient.invalidateQueries({ queryKey: FRIENDS_QUERY_KEY });
+      if (action === 'block' || action === 'unblock') {
+        queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+        queryClient.invalidateQueries({ queryKey: PLAYERS_QUERY_KEY });
+      } else {
+        // Friends aren't suggested as teammates
+        queryClient.invalidateQueries({ queryKey: RECOMMENDED_PLAYERS_QUERY_KEY });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't update friends",
+        description: error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
+  const act = (action: FriendAction) => (userId: number) => mutation.mutate({ action, userId });
+
+  return {
+    ...list,
+    isLoading,
+    isUpdating: mutation.isPending,
+    getRelationship,
+    sendRequest: act('request'),
+    acceptRequest: act('accept'),
+    removeFriend: act('remove'),
+    blockUser: act('block'),
+    unblockUser: act('unblock'),
+  };
+}
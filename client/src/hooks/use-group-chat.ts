@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
-import { Message, Group, User } from '@shared/schema';
+import { Message, MessagePage, Group, User } from '@shared/schema';
 import { useWebSocket } from './use-websocket';
 import { useToast } from './use-toast';
 
@@ -59,26 +59,24 @@ export function useGroupChat({ currentUser, group }: UseGroupChatProps): UseGrou
   };
   
   // Initialize WebSocket connection
-  const { sendGroupMessage, sendGroupTypingStatus } = useWebSocket(
-    currentUser.id,
-    () => {}, // We don't need direct messages for group chat
+  const { sendGroupMessage, sendGroupTypingStatus } = useWebSocket(currentUser.id, {
     onGroupMessage,
-    () => {}, // We don't need direct typing indicators
     onGroupTypingStatus
-  );
+  });
   
   // Fetch group messages
   useEffect(() => {
     const fetchMessages = async () => {
       setIsLoading(true);
       try {
-        const response = await fetch(`/api/groups/${group.id}/messages?userId=${currentUser.id}`);
+        const response = await fetch(`/api/groups/${group.id}/messages`);
         if (response.ok) {
-          const data = await response.json();
+          // Only the latest page; older history is paged with ?before=<messageId>
+          const data: MessagePage = await response.json();
           // Add the type field to each message
-          const formattedMessages = data.map((msg: Message) => ({
+          const formattedMessages = data.messages.map((msg: Message) => ({
             ...msg,
-            type: 'groupMessage',
+            type: 'groupMessage' as const,
             groupId: group.id
           }));
           setMessages(formattedMessages);
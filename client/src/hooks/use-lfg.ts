@@ -0,0 +1,126 @@
+import { useCallback } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import type { InsertLfgPost, LfgListing } from '@shared/schema';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from './use-toast';
+import { useWebSocket } from './use-websocket';
+
+export const LFG_QUERY_KEY = ['/api/lfg'];
+
+// Expired posts drop out of the listing when it's next fetched
+const REFETCH_INTERVAL_MS = 60 * 1000;
+
+export interface LfgFilters {
+  gameId: number | null;
+  region: string;
+  language: string;
+}
+
+function toQueryString(filters: LfgFilters): string {
+  const params = new URLSearchParams();
+  if (filters.gameId) params.set('gameId', String(filters.gameId));
+  if (filters.region) params.set('region', filters.region);
+  if (filters.language) params.set('language', filters.language);
+  return params.toString();
+}
+
+/**
+ * Open LFG posts matching the filters, refetched whenever the server says a
+ * post changed.
+ */
+export function useLfgPosts(userId: number | undefined, filters: LfgFilters) {
+  const query = useQuery<LfgListing[]>({
+    queryKey: [...LFG_QUERY_KEY, filters],
+    queryFn: () => apiRequest(`/api/lfg?${toQueryString(filters)}`),
+    refetchInterval: REFETCH_INTERVAL_MS,
+  });
+
+  const onLfgUpdate = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: LFG_QUERY_KEY });
+  }, []);
+
+  useWebSocket(userId || 0, { onLfgUpdate });
+
+  return query;
+}
+
+type LfgAction =
+  | { action: 'close'; postId: number }
+  | { action: 'join'; postId: number; message?: string }
+  | { action: 'withdraw'; postId: number }
+  | { action: 'accept' | 'decline'; postId: number; requestId: number };
+
+function toRequest(action: LfgAction): [string, string, object?] {
+  switch (action.action) {
+    case 'close':
+      return [`/api/lfg/${action.postId}`, 'DELETE'];
+    case 'join':
+      return [`/api/lfg/${action.postId}/requests`, 'POST', { message: action.message }];
+    case 'withdraw':
+      return [`/api/lfg/${action.postId}/requests`, 'DELETE'];
+    case 'accept':
+    case 'decline':
+      return [`/api/lfg/${action.postId}/requests/${action.requestId}/${action.action}`, 'POST'];
+  }
+}
+
+/**
+ * Posting, closing and joining LFG posts, and answering join requests to the
+ * session user's own posts.
+ */
+export function useLfgActions() {
+  const { toast } = useToast();
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Couldn't update LFG",
+      description: error.message,
+      variant: "destructive"
+    });
+  };
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: LFG_QUERY_KEY });
+  };
+
+  const createPost = useMutation({
+    mutationFn: (post: InsertLfgPost): Promise<LfgListing> =>
+      apiRequest('/api/lfg', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(post),
+      }),
+    onSuccess,
+    onError,
+  });
+
+  const mutation = useMutation({
+    mutationFn: (action: LfgAction) => {
+      const [url, method, body] = toRequest(action);
+      return apiRequest(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+    },
+    onSuccess: (_result, { action }) => {
+      onSuccess();
+      if (action === 'accept') {
+        toast({
+          title: 'Player added',
+          description: "They've been added to your group chat.",
+        });
+      }
+    },
+    onError,
+  });
+
+  return {
+    createPost,
+    isUpdating: mutation.isPending,
+    closePost: (postId: number) => mutation.mutate({ action: 'close', postId }),
+    requestToJoin: (postId: number, message?: string) => mutation.mutate({ action: 'join', postId, message }),
+    withdrawRequest: (postId: number) => mutation.mutate({ action: 'withdraw', postId }),
+    acceptRequest: (postId: number, requestId: number) => mutation.mutate({ action: 'accept', postId, requestId }),
+    declineRequest: (postId: number, requestId: number) => mutation.mutate({ action: 'decline', postId, requestId }),
+  };
+}
@@ -0,0 +1,30 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * Calls `markRead` with the newest unread message ID whenever it changes,
+ * waiting until the tab is visible so messages aren't marked read while the
+ * user is away.
+ */
+export function useMarkAsRead(upToId: number | undefined, markRead: (upToId: number) => void) {
+  const markReadRef = useRef(markRead);
+  markReadRef.current = markRead;
+
+  useEffect(() => {
+    if (upToId === undefined) return;
+
+    if (document.visibilityState === 'visible') {
+      markReadRef.current(upToId);
+      return;
+    }
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+        markReadRef.current(upToId);
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [upToId]);
+}
@@ -0,0 +1,152 @@
+import { useState, useEffect, useLayoutEffect, useRef, useCallback, type Dispatch, type RefObject, type SetStateAction } from 'react';
+import { Message, MessagePage } from '@shared/schema';
+
+// Start fetching older messages when the user scrolls this close to the top
+const LOAD_OLDER_THRESHOLD_PX = 80;
+
+interface UseMessageHistoryReturn<T> {
+  messages: T[];
+  setMessages: Dispatch<SetStateAction<T[]>>;
+  hasMore: boolean;
+  isLoading: boolean;
+  isLoadingOlder: boolean;
+  isError: boolean;
+  loadOlder: () => Promise<void>;
+}
+
+async function fetchMessagePage<T>(url: string): Promise<MessagePage<T>> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch messages (${response.status})`);
+  }
+  return response.json();
+}
+
+// The scrollable element inside a ScrollArea (or the element itself for plain containers)
+function getViewport(scrollAreaRef: RefObject<HTMLElement>): HTMLElement | null {
+  const root = scrollAreaRef.current;
+  if (!root) return null;
+  return root.querySelector<HTMLElement>('[data-radix-scroll-area-viewport]') ?? root;
+}
+
+/**
+ * Loads the latest page of a conversation from a paged messages endpoint and
+ * pulls in older pages as the user scrolls up, keeping the messages on screen
+ * where they were. Pass `null` as the URL while no conversation is open.
+ */
+export function useMessageHistory<T extends { id: number } = Message>(
+  url: string | null,
+  scrollAreaRef: RefObject<HTMLElement>
+): UseMessageHistoryReturn<T> {
+  const [messages, setMessages] = useState<T[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [isError, setIsError] = useState(false);
+  const urlRef = useRef(url);
+  const loadingOlderRef = useRef(false);
+  // Scroll position captured just before older messages are prepended
+  const restoreScrollRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+
+  // Load the latest page whenever the conversation changes
+  useEffect(() => {
+    urlRef.current = url;
+    setMessages([]);
+    setHasMore(false);
+    setIsError(false);
+
+    if (!url) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    fetchMessagePage<T>(url)
+      .then(page => {
+        if (cancelled) return;
+        setMessages(page.messages);
+        setHasMore(page.hasMore);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Error fetching messages:', err);
+        setIsError(true);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  const loadOlder = useCallback(async () => {
+    const oldest = messages[0];
+    if (!url || !hasMore || !oldest || loadingOlderRef.current) return;
+
+    loadingOlderRef.current = true;
+    setIsLoadingOlder(true);
+
+    try {
+      const separator = url.includes('?') ? '&' : '?';
+      const page = await fetchMessagePage<T>(`${url}${separator}before=${oldest.id}`);
+
+      // The user switched conversations while this page was loading
+      if (urlRef.current !== url) return;
+
+      const viewport = getViewport(scrollAreaRef);
+      if (viewport) {
+        restoreScrollRef.current = { scrollHeight: viewport.scrollHeight, scrollTop: viewport.scrollTop };
+      }
+
+      setMessages(prev => {
+        const existingIds = new Set(prev.map(m => m.id));
+        const older = page.messages.filter(m => !existingIds.has(m.id));
+        return [...older, ...prev];
+      });
+      setHasMore(page.hasMore);
+    } catch (err) {
+      console.error('Error fetching older messages:', err);
+    } finally {
+      loadingOlderRef.current = false;
+      setIsLoadingOlder(false);
+    }
+  }, [url, hasMore, messages, scrollAreaRef]);
+
+  // Keep the previously visible messages in place after prepending older ones
+  useLayoutEffect(() => {
+    const saved = restoreScrollRef.current;
+    if (!saved) return;
+
+    restoreScrollRef.current = null;
+    const viewport = getViewport(scrollAreaRef);
+    if (viewport) {
+      viewport.scrollTop = viewport.scrollHeight - saved.scrollHeight + saved.scrollTop;
+    }
+  }, [messages, scrollAreaRef]);
+
+  // Fetch the previous page when the user scrolls to the top. Scroll events
+  // don't bubble, so listen in the capture phase; this keeps working when the
+  // scroll area is unmounted and remounted (e.g. a minimized chat window).
+  useEffect(() => {
+    const handleScroll = (event: Event) => {
+      const viewport = getViewport(scrollAreaRef);
+      if (viewport && event.target === viewport && viewport.scrollTop <= LOAD_OLDER_THRESHOLD_PX) {
+        loadOlder();
+      }
+    };
+
+    document.addEventListener('scroll', handleScroll, true);
+    return () => document.removeEventListener('scroll', handleScroll, true);
+  }, [loadOlder, scrollAreaRef]);
+
+  return {
+    messages,
+    setMessages,
+    hasMore,
+    isLoading,
+    isLoadingOlder,
+    isError,
+    loadOlder,
+  };
+}
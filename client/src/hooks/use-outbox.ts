@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import type { Message } from '@shared/schema';
+import { getOutboxEntries, loadOutbox, subscribeToOutbox, toPendingMessage, type OutboxEntry } from '@/lib/outbox';
+import { retryMessage, discardMessage } from './use-websocket';
+
+type ChatTarget = { toUserId: number } | { groupId: number };
+
+/**
+ * The current user's unsent messages for one chat, shown after the chat's
+ * stored messages until the server confirms them.
+ */
+export function useOutbox(userId: number, target: ChatTarget) {
+  const [entries, setEntries] = useState<OutboxEntry[]>(() => getOutboxEntries(userId));
+
+  useEffect(() => {
+    const update = () => setEntries(getOutboxEntries(userId));
+    const unsubscribe = subscribeToOutbox(update);
+    loadOutbox().then(update);
+    return unsubscribe;
+  }, [userId]);
+
+  const chatEntries = entries.filter(entry =>
+    'groupId' in target ? entry.groupId === target.groupId : entry.toUserId === target.toUserId
+  );
+
+  // Appends the chat's unsent messages, skipping any already stored
+  const withPending = <T extends Message>(messages: T[]): (T | Message)[] => {
+    const stored = new Set(messages.map(message => message.clientId).filter(Boolean));
+    return [
+      ...messages,
+      ...chatEntries.filter(entry => !stored.has(entry.clientId)).map(toPendingMessage)
+    ];
+  };
+
+  // The outbox entry behind a message that hasn't been stored yet
+  const getEntry = (message: Message) =>
+    message.clientId ? chatEntries.find(entry => entry.clientId === message.clientId) : undefined;
+
+  return { withPending, getEntry, retry: retryMessage, discard: discardMessage };
+}
@@ -0,0 +1,95 @@
+import { useCallback } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import type { InsertPlaySession, PlaySessionListing, RsvpResponse } from '@shared/schema';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from './use-toast';
+import { useWebSocket, type PlaySessionReminder } from './use-websocket';
+
+// Every upcoming session in the user's groups, as an iCalendar file
+export const PLAY_SESSIONS_CALENDAR_URL = '/api/play-sessions/calendar.ics';
+
+export const playSessionsQueryKey = (groupId: number) => [`/api/groups/${groupId}/play-sessions`];
+
+export function playSessionCalendarUrl(session: Pick<PlaySessionListing, 'id' | 'groupId'>) {
+  return `/api/groups/${session.groupId}/play-sessions/${session.id}/calendar.ics`;
+}
+
+/**
+ * A group's upcoming play sessions, with scheduling, cancelling and RSVPs.
+ */
+export function usePlaySessions(groupId: number) {
+  const { toast } = useToast();
+  const queryKey = playSessionsQueryKey(groupId);
+
+  const { data: sessions = [], isLoading } = useQuery<PlaySessionListing[]>({
+    queryKey,
+  });
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey });
+  };
+  const onError = (error: Error) => {
+    toast({
+      title: "Couldn't update play sessions",
+      description: error.message,
+      variant: "destructive"
+    });
+  };
+
+  const schedule = useMutation({
+    mutationFn: (session: InsertPlaySession): Promise<PlaySessionListing> =>
+      apiRequest(`/api/groups/${groupId}/play-sessions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(session),
+      }),
+    onSuccess,
+    onError,
+  });
+
+  const cancel = useMutation({
+    mutationFn: (sessionId: number) =>
+      apiRequest(`/api/groups/${groupId}/play-sessions/${sessionId}`, { method: 'DELETE' }),
+    onSuccess,
+    onError,
+  });
+
+  const rsvp = useMutation({
+    mutationFn: ({ sessionId, response }: { sessionId: number; response: RsvpResponse }) =>
+      apiRequest(`/api/groups/${groupId}/play-sessions/${sessionId}/rsvp`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ response }),
+      }),
+    onSuccess,
+    onError,
+  });
+
+  return {
+    sessions,
+    isLoading,
+    schedule,
+    isUpdating: cancel.isPending || rsvp.isPending,
+    cancelSession: (sessionId: number) => cancel.mutate(sessionId),
+    respond: (sessionId: number, response: RsvpResponse) => rsvp.mutate({ sessionId, response }),
+  };
+}
+
+/**
+ * Shows a toast when one of the user's play sessions is about to start.
+ * Mount once for the logged-in user.
+ */
+export function usePlaySessionReminders(userId: number | undefined) {
+  const { toast } = useToast();
+
+  const onPlaySessionReminder = useCallback(({ session }: PlaySessionReminder) => {
+    const startsAt = new Date(session.startsAt).toLocaleTimeString([], { timeStyle: 'short' });
+    toast({
+      title: `${session.title} starts soon`,
+      description: `${session.gameName} in ${session.groupName} at ${startsAt}`,
+    });
+    queryClient.invalidateQueries({ queryKey: playSessionsQueryKey(session.groupId) });
+  }, [toast]);
+
+  useWebSocket(userId || 0, { onPlaySessionReminder });
+}
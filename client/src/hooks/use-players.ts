@@ -0,0 +1,64 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { PLAYER_PAGE_MAX_LIMIT, type PlayerFilterOptions, type PlayerPage, type PlayerSort } from '@shared/schema';
+import type { RecommendedPlayer } from '@shared/recommendations';
+import { apiRequest } from '@/lib/queryClient';
+
+export const PLAYERS_QUERY_KEY = ['/api/players'];
+export const RECOMMENDED_PLAYERS_QUERY_KEY = [...PLAYERS_QUERY_KEY, 'recommended'];
+
+export interface PlayerSearch {
+  q: string;
+  regions: string[];
+  languages: string[];
+  onlineOnly: boolean;
+  sort: PlayerSort;
+  page: number;
+}
+
+function toQueryString(search: PlayerSearch): string {
+  const params = new URLSearchParams({ sort: search.sort, page: String(search.page) });
+  if (search.q) params.set('q', search.q);
+  if (search.regions.length) params.set('region', search.regions.join(','));
+  if (search.languages.length) params.set('language', search.languages.join(','));
+  if (search.onlineOnly) params.set('online', 'true');
+  return params.toString();
+}
+
+/**
+ * One page of other players matching the search, filtered and sorted by the
+ * server. The previous page stays on screen while the next one loads.
+ */
+export function usePlayerSearch(search: PlayerSearch) {
+  return useQuery<PlayerPage>({
+    queryKey: [...PLAYERS_QUERY_KEY, search],
+    queryFn: () => apiRequest(`/api/players?${toQueryString(search)}`),
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function usePlayerFilterOptions() {
+  const { data = { regions: [], languages: [] } } = useQuery<PlayerFilterOptions>({
+    queryKey: [...PLAYERS_QUERY_KEY, 'filters'],
+    queryFn: () => apiRequest('/api/players/filters'),
+  });
+  return data;
+}
+
+// Other players with a profile for the game, most recently active first
+export function useGamePlayers(gameId: number | undefined) {
+  const { data } = useQuery<PlayerPage>({
+    queryKey: [...PLAYERS_QUERY_KEY, 'game', gameId],
+    queryFn: () => apiRequest(`/api/players?game=${gameId}&limit=${PLAYER_PAGE_MAX_LIMIT}`),
+    enabled: !!gameId,
+  });
+  return data?.players ?? [];
+}
+
+// Other players the server suggests as teammates, best match first
+export function useRecommendedPlayers() {
+  const { data = [], isLoading } = useQuery<RecommendedPlayer[]>({
+    queryKey: RECOMMENDED_PLAYERS_QUERY_KEY,
+    queryFn: () => apiRequest('/api/players/recommended'),
+  });
+  return { recommendations: data, isLoading };
+}
@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { IDLE_AFTER_MINUTES, type ConnectionStatus, type Presence } from '@shared/presence';
+import { queryClient } from '@/lib/queryClient';
+import { useWebSocket, type PresenceUpdate } from './use-websocket';
+
+export const PRESENCE_QUERY_KEY = ['/api/presence'];
+
+const IN_GAME_STORAGE_KEY = 'presence:inGame';
+
+/**
+ * Looks up other users' presence. The list is seeded from /api/presence and
+ * kept current by the `presence` events that usePresenceReporter listens for.
+ */
+export function usePresence() {
+  const { data: presence = [] } = useQuery<Presence[]>({
+    queryKey: PRESENCE_QUERY_KEY,
+  });
+
+  // Users missing from the list are offline; `lastActive` from their profile
+  // covers sessions that ended before the list was loaded
+  const getPresence = useCallback((userId: number, lastActive?: Date | string | null): Presence => {
+    return presence.find(p => p.userId === userId) ?? { userId, status: 'offline', lastActive: lastActive ?? null };
+  }, [presence]);
+
+  return { getPresence };
+}
+
+/**
+ * Reports this tab's presence over the socket and applies everyone else's
+ * presence changes to the shared list. Mount once for the logged-in user.
+ */
+export function usePresenceReporter(userId: number | undefined) {
+  const [isIdle, setIsIdle] = useState(false);
+  const [inGame, setInGameState] = useState(() => localStorage.getItem(IN_GAME_STORAGE_KEY) === 'true');
+
+  const onPresence = useCallback((update: PresenceUpdate) => {
+    const { type: _, ...presence } = update;
+    queryClient.setQueryData<Presence[]>(PRESENCE_QUERY_KEY, prev => [
+      ...(prev ?? []).filter(p => p.userId !== presence.userId),
+      ...(presence.status === 'offline' ? [] : [presence])
+    ]);
+  }, []);
+
+  const { sendPresence, isConnected } = useWebSocket(userId || 0, { onPresence });
+
+  // Idle once there's been no input for a while
+  useEffect(() => {
+    if (!userId) return;
+
+    let lastInput = Date.now();
+    const markActive = () => {
+      lastInput = Date.now();
+      setIsIdle(false);
+    };
+
+    const events = ['mousemove', 'keydown', 'pointerdown', 'scroll', 'visibilitychange'];
+    events.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+
+    const interval = setInterval(() => {
+      setIsIdle(Date.now() - lastInput > IDLE_AFTER_MINUTES * 60 * 1000);
+    }, 30 * 1000);
+
+    return () => {
+      events.forEach(event => window.removeEventListener(event, markActive));
+      clearInterval(interval);
+    };
+  }, [userId]);
+
+  const status: ConnectionStatus = inGame ? 'in-game' : isIdle ? 'idle' : 'online';
+
+  // Report on every change, and again after reconnecting since the server
+  // starts each new connection as online
+  useEffect(() => {
+    if (!userId || !isConnected) return;
+    sendPresence(status);
+  }, [userId, isConnected, status]);
+
+  // Events may have been missed while disconnected
+  useEffect(() => {
+    if (isConnected) {
+      queryClient.invalidateQueries({ queryKey: PRESENCE_QUERY_KEY });
+    }
+  }, [isConnected]);
+
+  const setInGame = (value: boolean) => {
+    localStorage.setItem(IN_GAME_STORAGE_KEY, String(value));
+    setInGameState(value);
+  };
+
+  return { status, inGame, setInGame };
+}
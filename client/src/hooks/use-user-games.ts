@@ -0,0 +1,60 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import type { UserGameInput, UserGameProfile } from '@shared/schema';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from './use-toast';
+
+export const userGamesQueryKey = (userId: number) => [`/api/users/${userId}/games`];
+
+/**
+ * A player's per-game profiles, most played first. In-game IDs their privacy
+ * settings hide from the session user come back as null.
+ */
+export function useUserGames(userId: number | undefined) {
+  const { data: profiles = [], isLoading } = useQuery<UserGameProfile[]>({
+    queryKey: userGamesQueryKey(userId ?? 0),
+    enabled: !!userId,
+  });
+  return { profiles, isLoading };
+}
+
+/**
+ * Adding, updating and removing the session user's own game profiles.
+ */
+export function useUserGameActions(userId: number) {
+  const { toast } = useToast();
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: userGamesQueryKey(userId) });
+  };
+  const onError = (error: Error) => {
+    toast({
+      title: "Couldn't update your games",
+      description: error.message,
+      variant: "destructive"
+    });
+  };
+
+  const save = useMutation({
+    mutationFn: ({ gameId, profile }: { gameId: number; profile: UserGameInput }): Promise<UserGameProfile> =>
+      apiRequest(`/api/users/${userId}/games/${gameId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(profile),
+      }),
+    onSuccess,
+    onError,
+  });
+
+  const remove = useMutation({
+    mutationFn: (gameId: number) =>
+      apiRequest(`/api/users/${userId}/games/${gameId}`, { method: 'DELETE' }),
+    onSuccess,
+    onError,
+  });
+
+  return {
+    save,
+    removeGame: (gameId: number) => remove.mutate(gameId),
+    isRemoving: remove.isPending,
+  };
+}
@@ -1,194 +1,507 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
-import { Message } from '@shared/schema';
+import { useEffect, useRef, useState } from 'react';
+import { Message, OutgoingMessagePayload } from '@shared/schema';
+import type { ConnectionStatus } from '@shared/presence';
+import {
+  createClientId,
+  getOutboxEntries,
+  getOutboxEntry,
+  loadOutbox,
+  putOutboxEntry,
+  removeOutboxEntry,
+  updateOutboxEntry,
+  type OutboxEntry
+} from '@/lib/outbox';
+import { getWebSocketConfig } from '@/lib/api-config';
+import {
+  PROTOCOL_VERSION,
+  type AckFrame,
+  type ClientFrameBody,
+  type GroupReadReceiptEvent,
+  type LfgUpdatedEvent,
+  type PlaySessionReminderEvent,
+  type MessageUpdatedEvent,
+  type PresenceEvent,
+  type ProtocolErrorCode,
+  type ReadReceiptEvent,
+  type ServerEvent,
+  type ServerFrame
+} from '@shared/protocol';
 
-// Add interface for group message
+// Group messages are handed to callbacks with type 'groupMessage'
 interface GroupMessage extends Omit<Message, 'toUserId'> {
   type: 'groupMessage';
   groupId: number;
 }
 
-// Add typing status interfaces
-interface TypingStatus {
-  type: 'typing';
-  fromUserId: number;
-  toUserId: number;
-  isTyping: boolean;
+export type ReadReceipt = ReadReceiptEvent;
+export type GroupReadReceipt = GroupReadReceiptEvent;
+export type MessageUpdate = MessageUpdatedEvent;
+export type PresenceUpdate = PresenceEvent;
+export type LfgUpdate = LfgUpdatedEvent;
+export type PlaySessionReminder = PlaySessionReminderEvent;
+
+// Callbacks for the server events a component cares about; the rest are ignored
+export interface WebSocketHandlers {
+  onMessage?: (msg: Message) => void;
+  onGroupMessage?: (msg: GroupMessage) => void;
+  onTypingStatus?: (userId: number, isTyping: boolean) => void;
+  onGroupTypingStatus?: (userId: number, groupId: number, isTyping: boolean) => void;
+  onReadReceipt?: (receipt: ReadReceipt) => void;
+  onGroupReadReceipt?: (receipt: GroupReadReceipt) => void;
+  onMessageUpdate?: (update: MessageUpdate) => void;
+  onPresence?: (update: PresenceUpdate) => void;
+  onLfgUpdate?: (update: LfgUpdate) => void;
+  onPlaySessionReminder?: (reminder: PlaySessionReminder) => void;
 }
 
-interface GroupTypingStatus {
-  type: 'groupTyping';
-  fromUserId: number;
-  groupId: number;
-  isTyping: boolean;
-}
-
-// Message types
-type WSMessage = Message | GroupMessage | TypingStatus | GroupTypingStatus;
-
-export function useWebSocket(
-  userId: number, 
-  onMessage: (msg: Message) => void, 
-  onGroupMessage?: (msg: GroupMessage) => void,
-  onTypingStatus?: (userId: number, isTyping: boolean) => void,
-  onGroupTypingStatus?: (userId: number, groupId: number, isTyping: boolean) => void
-) {
-  const wsRef = useRef<WebSocket | null>(null);
-  const [isConnected, setIsConnected] = useState(false);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const messageQueueRef = useRef<any[]>([]);
-
-  // Function to establish WebSocket connection
-  const connectWebSocket = useCallback(() => {
-    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-    const host = window.location.hostname;
-    const wsUrl = `${protocol}//${host}:5000/ws`;
-    
-    try {
-      console.log('Connecting to WebSocket server:', wsUrl);
-      const ws = new WebSocket(wsUrl);
-      wsRef.current = ws;
-
-      ws.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data);
-          console.log('WebSocket message received:', message);
-          
-          // Handle different message types
-          if (message.type === 'typing' && onTypingStatus) {
-            onTypingStatus(message.fromUserId, message.isTyping);
-          } 
-          else if (message.type === 'groupTyping' && onGroupTypingStatus) {
-            onGroupTypingStatus(message.fromUserId, message.groupId, message.isTyping);
-          }
-          else if (message.type === 'groupMessage' && onGroupMessage) {
-            onGroupMessage(message as GroupMessage);
-          }
-          else if (message.type !== 'error') {
-            onMessage(message as Message);
-          }
-        } catch (error) {
-          console.error('Error parsing WebSocket message:', error);
-        }
-      };
-
-      ws.onerror = (error) => {
-        console.error('WebSocket error:', error);
-        setIsConnected(false);
-      };
-
-      ws.onclose = () => {
-        console.log('WebSocket connection closed, attempting to reconnect...');
-        setIsConnected(false);
-        
-        // Attempt to reconnect after 2 seconds
-        if (reconnectTimeoutRef.current) {
-          clearTimeout(reconnectTimeoutRef.current);
-        }
-        
-        reconnectTimeoutRef.current = setTimeout(() => {
-          connectWebSocket();
-        }, 2000);
-      };
-
-      ws.onopen = () => {
-        console.log('WebSocket connection established');
-        setIsConnected(true);
-        
-        // Process any queued messages
-        if (messageQueueRef.current.length > 0) {
-          console.log('Processing queued messages:', messageQueueRef.current.length);
-          messageQueueRef.current.forEach(msg => {
-            if (ws.readyState === WebSocket.OPEN) {
-              ws.send(JSON.stringify(msg));
-            }
-          });
-          messageQueueRef.current = [];
-        }
-      };
-    } catch (error) {
-      console.error('WebSocket connection error:', error);
-      setIsConnected(false);
-      
-      // Attempt to reconnect after 2 seconds
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
+// The server rejected a frame, or the connection dropped before it replied
+export class WebSocketError extends Error {
+  constructor(public code: ProtocolErrorCode | 'disconnected', message: string) {
+    super(message);
+    this.name = 'WebSocketError';
+  }
+}
+
+type Listener = (event: ServerEvent) => void;
+
+type OutgoingFrame = ClientFrameBody & { v: number; id: string };
+
+// A single socket per tab, shared by every component that uses this hook. The
+// server fans events out to each of a user's connections, so every tab (and
+// device) gets its own copy.
+const listeners = new Set<Listener>();
+const connectionListeners = new Set<(isConnected: boolean) => void>();
+let socket: WebSocket | null = null;
+let reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+// Failed connection attempts since the socket was last open
+let reconnectAttempts = 0;
+let messageQueue: OutgoingFrame[] = [];
+// The user the shared socket belongs to
+let currentUserId = 0;
+
+// Frames waiting for the server's ack or error, by frame ID
+const pendingReplies = new Map<string, { resolve: (ack: AckFrame) => void; reject: (err: WebSocketError) => void }>();
+let frameCounter = 0;
+
+function nextFrameId() {
+  return `${Date.now().toString(36)}-${(frameCounter++).toString(36)}`;
+}
+
+// Fails the frames that were sent but never answered; queued ones keep
+// waiting for the next connection, unless `includeQueued` is set
+function rejectPendingReplies(includeQueued = false) {
+  const queued = new Set(includeQueued ? [] : messageQueue.map(frame => frame.id));
+  pendingReplies.forEach(({ reject }, id) => {
+    if (queued.has(id)) return;
+    pendingReplies.delete(id);
+    reject(new WebSocketError('disconnected', 'Connection lost before the server replied'));
+  });
+}
+
+// Acks and errors settle the frame they reply to; anything else is an event
+function handleFrame(frame: ServerFrame) {
+  if (frame.v !== PROTOCOL_VERSION) {
+    console.warn('Unsupported WebSocket protocol version:', frame.v);
+    return;
+  }
+
+  if (frame.type === 'ack' || frame.type === 'error') {
+    if (frame.type === 'error') {
+      console.error('WebSocket error frame:', frame);
+    }
+
+    const pending = frame.replyTo ? pendingReplies.get(frame.replyTo) : undefined;
+    if (!pending) return;
+
+    pendingReplies.delete(frame.replyTo!);
+    if (frame.type === 'ack') {
+      pending.resolve(frame);
+    } else {
+      pending.reject(new WebSocketError(frame.code, frame.message));
+    }
+    return;
+  }
+
+  if (frame.type === 'message' || frame.type === 'groupMessage') {
+    const { message } = frame;
+    markSeen(message.id);
+    // Our own message stored without us seeing the ack, e.g. sent just
+    // before the connection dropped
+    if (message.fromUserId === currentUserId && message.clientId) {
+      removeOutboxEntry(message.clientId);
+    }
+  }
+
+  listeners.forEach(listener => listener(frame));
+}
+
+// Hands a message to the listeners as if it had arrived as an event
+function dispatchMessage(message: Message) {
+  const event: ServerEvent = message.groupId !== null
+    ? { type: 'groupMessage', message }
+    : { type: 'message', message };
+  listeners.forEach(listener => listener(event));
+}
+
+// Outbox entries that have been sent and are waiting for their ack
+const inFlight = new Set<string>();
+
+function toFrame(entry: OutboxEntry): ClientFrameBody {
+  return entry.groupId !== null
+    ? { type: 'groupMessage', groupId: entry.groupId, clientId: entry.clientId, payload: entry.payload }
+    : { type: 'message', toUserId: entry.toUserId!, clientId: entry.clientId, payload: entry.payload };
+}
+
+// Sends an outbox entry if connected; otherwise it goes out on reconnect
+function sendOutboxEntry(entry: OutboxEntry) {
+  if (socket?.readyState !== WebSocket.OPEN || inFlight.has(entry.clientId)) return;
+
+  inFlight.add(entry.clientId);
+  request(toFrame(entry))
+    .then(ack => {
+      removeOutboxEntry(entry.clientId);
+      if (ack.message) dispatchMessage(ack.message);
+    })
+    .catch((error: WebSocketError) => {
+      // Dropped connections are resent on reconnect; rejections wait for the user
+      if (error.code !== 'disconnected') {
+        updateOutboxEntry(entry.clientId, { status: 'failed', error: error.message });
       }
-      
-      reconnectTimeoutRef.current = setTimeout(() => {
-        connectWebSocket();
-      }, 2000);
+    })
+    .finally(() => inFlight.delete(entry.clientId));
+}
+
+function resendOutbox() {
+  getOutboxEntries(currentUserId)
+    .filter(entry => entry.status === 'pending')
+    .forEach(sendOutboxEntry);
+}
+
+// Sends a failed outbox entry again
+export function retryMessage(clientId: string) {
+  const entry = getOutboxEntry(clientId);
+  if (!entry) return;
+
+  updateOutboxEntry(clientId, { status: 'pending', error: null });
+  sendOutboxEntry({ ...entry, status: 'pending', error: null });
+}
+
+export function discardMessage(clientId: string) {
+  removeOutboxEntry(clientId);
+}
+
+// The newest message ID this tab has seen, to catch up from after a
+// reconnect. Null until the first sync of the session sets it.
+let lastSeenId: number | null = null;
+let syncing = false;
+let seenWhileSyncing = 0;
+
+function markSeen(id: number) {
+  if (syncing) {
+    seenWhileSyncing = Math.max(seenWhileSyncing, id);
+  } else if (lastSeenId !== null) {
+    lastSeenId = Math.max(lastSeenId, id);
+  }
+}
+
+// Replays whatever arrived while the tab was disconnected. The first sync
+// of a session only fetches the latest ID, as views load their own history.
+async function syncMissedMessages() {
+  if (syncing) return;
+  syncing = true;
+
+  let sinceId = lastSeenId;
+  try {
+    for (;;) {
+      const ack = await request({ type: 'sync', sinceId });
+      ack.messages?.forEach(dispatchMessage);
+      sinceId = ack.latestId ?? sinceId;
+      if (!ack.hasMore) break;
     }
-  }, [userId, onMessage, onGroupMessage, onTypingStatus, onGroupTypingStatus]);
+    lastSeenId = Math.max(sinceId ?? 0, seenWhileSyncing, lastSeenId ?? 0);
+  } catch {
+    // Already logged; the next reconnect tries again
+  } finally {
+    syncing = false;
+    seenWhileSyncing = 0;
+  }
+}
 
-  // Set up WebSocket connection and handle cleanup
-  useEffect(() => {
-    connectWebSocket();
+function setConnected(isConnected: boolean) {
+  connectionListeners.forEach(listener => listener(isConnected));
+}
 
-    return () => {
-      if (wsRef.current?.readyState === WebSocket.OPEN) {
-        wsRef.current.close();
+function scheduleReconnect() {
+  if (reconnectTimeout) {
+    clearTimeout(reconnectTimeout);
+  }
+  
+  // Exponential backoff with jitter, so clients dropped together (e.g. by a
+  // server restart) don't all reconnect at the same moment
+  const { baseReconnectDelayMs, maxReconnectDelayMs } = getWebSocketConfig();
+  const ceiling = Math.min(maxReconnectDelayMs, baseReconnectDelayMs * 2 ** reconnectAttempts);
+  const delay = ceiling / 2 + Math.random() * ceiling / 2;
+  reconnectAttempts++;
+
+  reconnectTimeout = setTimeout(() => {
+    reconnectTimeout = null;
+    connect();
+  }, delay);
+}
+
+// Function to establish the shared WebSocket connection
+function connect() {
+  const wsUrl = getWebSocketConfig().url;
+  
+  try {
+    console.log('Connecting to WebSocket server:', wsUrl);
+    const ws = new WebSocket(wsUrl);
+    socket = ws;
+
+    ws.onmessage = (event) => {
+      try {
+        const frame: ServerFrame = JSON.parse(event.data);
+        console.log('WebSocket message received:', frame);
+        handleFrame(frame);
+      } catch (error) {
+        console.error('Error parsing WebSocket message:', error);
       }
+    };
+
+    ws.onerror = (error) => {
+      console.error('WebSocket error:', error);
+      setConnected(false);
+    };
+
+    ws.onclose = () => {
+      setConnected(false);
+      rejectPendingReplies();
+      
+      // Closed on purpose because nothing is listening any more
+      if (socket !== ws) return;
+      
+      console.log('WebSocket connection closed, attempting to reconnect...');
+      socket = null;
+      scheduleReconnect();
+    };
+
+    ws.onopen = () => {
+      console.log('WebSocket connection established');
+      reconnectAttempts = 0;
+      setConnected(true);
+      
+      // Process any queued messages
+      if (messageQueue.length > 0) {
+        console.log('Processing queued messages:', messageQueue.length);
+        messageQueue.forEach(msg => {
+          if (ws.readyState === WebSocket.OPEN) {
+            ws.send(JSON.stringify(msg));
+          }
+        });
+        messageQueue = [];
+      }
+
+      loadOutbox().then(() => {
+        if (socket !== ws) return;
+        resendOutbox();
+        syncMissedMessages();
+      });
+    };
+  } catch (error) {
+    console.error('WebSocket connection error:', error);
+    setConnected(false);
+    socket = null;
+    scheduleReconnect();
+  }
+}
+
+function disconnect() {
+  if (reconnectTimeout) {
+    clearTimeout(reconnectTimeout);
+    reconnectTimeout = null;
+  }
+  reconnectAttempts = 0;
+  
+  const ws = socket;
+  socket = null;
+  ws?.close();
+  rejectPendingReplies(true);
+  messageQueue = [];
+  lastSeenId = null;
+}
+
+// Helper function to send or queue a message
+function sendOrQueueMessage(message: OutgoingFrame) {
+  if (socket?.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+    return true;
+  } else {
+    console.log('WebSocket not connected, queueing message', message);
+    messageQueue.push(message);
+    return false;
+  }
+}
+
+// Sends a frame and resolves with the server's ack, or rejects with its error
+function request(body: ClientFrameBody): Promise<AckFrame> {
+  const frame = { v: PROTOCOL_VERSION, id: nextFrameId(), ...body } as OutgoingFrame;
+  const reply = new Promise<AckFrame>((resolve, reject) => {
+    pendingReplies.set(frame.id, { resolve, reject });
+  });
+  // Callers that don't wait for the reply still get failures logged
+  reply.catch(err => console.error('WebSocket request failed:', err));
+
+  sendOrQueueMessage(frame);
+  return reply;
+}
+
+export function useWebSocket(userId: number, handlers: WebSocketHandlers = {}) {
+  const [isConnected, setIsConnected] = useState(socket?.readyState === WebSocket.OPEN);
+  
+  // Always dispatch to the latest callbacks without resubscribing
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  // Subscribe to the shared connection, opening it for the first subscriber
+  // and closing it when the last one unmounts
+  useEffect(() => {
+    if (!userId) return;
+    currentUserId = userId;
+
+    const listener = (event: ServerEvent) => {
+      const handlers = handlersRef.current;
       
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
+      // Handle different event types
+      switch (event.type) {
+        case 'message':
+          handlers.onMessage?.(event.message);
+          break;
+        case 'groupMessage':
+          handlers.onGroupMessage?.({ ...event.message, type: 'groupMessage', groupId: event.message.groupId! });
+          break;
+        case 'typing':
+          handlers.onTypingStatus?.(event.fromUserId, event.isTyping);
+          break;
+        case 'groupTyping':
+          handlers.onGroupTypingStatus?.(event.fromUserId, event.groupId, event.isTyping);
+          break;
+        case 'read':
+          handlers.onReadReceipt?.(event);
+          break;
+        case 'groupRead':
+          handlers.onGroupReadReceipt?.(event);
+          break;
+        case 'messageUpdated':
+          handlers.onMessageUpdate?.(event);
+          break;
+        case 'presence':
+          handlers.onPresence?.(event);
+          break;
+        case 'lfgUpdated':
+          handlers.onLfgUpdate?.(event);
+          break;
+        case 'playSessionReminder':
+          handlers.onPlaySessionReminder?.(event);
+          break;
       }
     };
-  }, [connectWebSocket]);
 
-  // Helper function to send or queue a message
-  const sendOrQueueMessage = (message: any) => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify(message));
-      return true;
+    listeners.add(listener);
+    connectionListeners.add(setIsConnected);
+    
+    if (!socket && !reconnectTimeout) {
+      connect();
     } else {
-      console.log('WebSocket not connected, queueing message', message);
-      messageQueueRef.current.push(message);
-      return false;
+      setIsConnected(socket?.readyState === WebSocket.OPEN);
     }
-  };
 
-  const sendMessage = (toUserId: number, content: string) => {
-    const message = {
-      type: 'message',
-      fromUserId: userId,
-      toUserId,
-      content
+    return () => {
+      listeners.delete(listener);
+      connectionListeners.delete(setIsConnected);
+      
+      if (listeners.size === 0) {
+        disconnect();
+      }
     };
-    
-    return sendOrQueueMessage(message);
-  };
+  }, [userId]);
+
+  // A plain string is sent as a text message
+  const toPayload = (content: string | OutgoingMessagePayload): OutgoingMessagePayload =>
+    typeof content === 'string' ? { type: 'text', content } : content;
 
-  const sendGroupMessage = (groupId: number, content: string) => {
-    const message = {
-      type: 'groupMessage',
+  // Messages go through the outbox, which shows them as pending until the
+  // server stores them; returns the message's clientId
+  const queueMessage = (target: Pick<OutboxEntry, 'toUserId' | 'groupId'>, content: string | OutgoingMessagePayload) => {
+    const entry: OutboxEntry = {
+      clientId: createClientId(),
       fromUserId: userId,
-      groupId,
-      content
+      ...target,
+      payload: toPayload(content),
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+      error: null
     };
-    
-    return sendOrQueueMessage(message);
+
+    putOutboxEntry(entry);
+    sendOutboxEntry(entry);
+    return entry.clientId;
   };
 
+  const sendMessage = (toUserId: number, content: string | OutgoingMessagePayload) =>
+    queueMessage({ toUserId, groupId: null }, content);
+
+  const sendGroupMessage = (groupId: number, content: string | OutgoingMessagePayload) =>
+    queueMessage({ toUserId: null, groupId }, content);
+
   const sendTypingStatus = (toUserId: number, isTyping: boolean) => {
-    const message = {
+    const message: ClientFrameBody = {
       type: 'typing',
-      fromUserId: userId,
       toUserId,
       isTyping
     };
     
-    return sendOrQueueMessage(message);
+    return request(message);
   };
 
   const sendGroupTypingStatus = (groupId: number, isTyping: boolean) => {
-    const message = {
+    const message: ClientFrameBody = {
       type: 'groupTyping',
-      fromUserId: userId,
       groupId,
       isTyping
     };
     
-    return sendOrQueueMessage(message);
+    return request(message);
+  };
+
+  // Tell the server we've read senderId's messages up to upToId
+  const sendReadReceipt = (senderId: number, upToId: number) => {
+    const message: ClientFrameBody = {
+      type: 'read',
+      senderId,
+      upToId
+    };
+    
+    return request(message);
+  };
+
+  const sendGroupReadReceipt = (groupId: number, upToId: number) => {
+    const message: ClientFrameBody = {
+      type: 'groupRead',
+      groupId,
+      upToId
+    };
+    
+    return request(message);
+  };
+
+  // Report this tab's presence
+  const sendPresence = (status: ConnectionStatus) => {
+    const message: ClientFrameBody = {
+      type: 'presence',
+      status
+    };
+    
+    return request(message);
   };
 
   return { 
@@ -196,6 +509,9 @@ export function useWebSocket(
     sendGroupMessage, 
     sendTypingStatus, 
     sendGroupTypingStatus,
+    sendReadReceipt,
+    sendGroupReadReceipt,
+    sendPresence,
     isConnected 
   };
 }
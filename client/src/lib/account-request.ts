@@ -0,0 +1,12 @@
+// Sends a JSON body to an account endpoint and throws the server's message
+// if it refuses, so it can be shown to the user as is
+export async function sendAccountRequest(url: string, method: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const result = await res.json();
+  if (!res.ok) throw new Error(result.message || 'Request failed');
+  return result;
+}
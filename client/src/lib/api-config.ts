@@ -34,3 +34,25 @@ export function getApiUrl(path: string): string {
       ? path 
       : `/api/${path}`;
 }
+
+// Realtime connection settings. The socket is served by the Express server at
+// `/ws`, so by default it's reached through the page's own origin, which also
+// works behind a reverse proxy. Netlify functions can't hold WebSockets, so a
+// deployment there sets VITE_WS_URL to wherever the server runs.
+export interface WebSocketConfig {
+  url: string;
+  // Reconnect delays grow exponentially from the base up to the max
+  baseReconnectDelayMs: number;
+  maxReconnectDelayMs: number;
+}
+
+export function getWebSocketConfig(): WebSocketConfig {
+  const configuredUrl: string | undefined = import.meta.env.VITE_WS_URL;
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+
+  return {
+    url: configuredUrl || `${protocol}//${window.location.host}/ws`,
+    baseReconnectDelayMs: 1000,
+    maxReconnectDelayMs: 30000
+  };
+}
@@ -0,0 +1,165 @@
+import type { Message, MessagePayload, OutgoingMessagePayload } from '@shared/schema';
+
+/**
+ * Messages the user has sent that the server hasn't stored yet. Entries are
+ * kept in IndexedDB so they survive a reload, and are resent (with the same
+ * clientId, so the server stores them once) whenever the socket reconnects.
+ * Entries the server rejected stay as failed until retried or discarded.
+ */
+
+export type OutboxStatus = 'pending' | 'failed';
+
+export interface OutboxEntry {
+  clientId: string;
+  fromUserId: number;
+  // Set for direct messages
+  toUserId: number | null;
+  // Set for group messages
+  groupId: number | null;
+  payload: OutgoingMessagePayload;
+  createdAt: string;
+  status: OutboxStatus;
+  // Why the server rejected a failed entry
+  error: string | null;
+}
+
+const DB_NAME = 'playsphere';
+const STORE_NAME = 'outbox';
+
+// In-memory copy of the store, so reads are synchronous
+const entries = new Map<string, OutboxEntry>();
+const subscribers = new Set<() => void>();
+let database: Promise<IDBDatabase | null> | null = null;
+let loaded: Promise<void> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!database) {
+    database = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'clientId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      // Private browsing can refuse IndexedDB; the outbox then lasts until reload
+      request.onerror = () => {
+        console.error('Could not open the outbox:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return database;
+}
+
+async function persist(change: (store: IDBObjectStore) => void) {
+  const db = await openDatabase();
+  if (!db) return;
+
+  try {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    change(transaction.objectStore(STORE_NAME));
+    transaction.onerror = () => console.error('Could not save the outbox:', transaction.error);
+  } catch (error) {
+    console.error('Could not save the outbox:', error);
+  }
+}
+
+function notify() {
+  subscribers.forEach(subscriber => subscriber());
+}
+
+// Reads the stored entries into memory; later calls return the same promise
+export function loadOutbox(): Promise<void> {
+  if (!loaded) {
+    loaded = openDatabase().then(db => new Promise<void>(resolve => {
+      if (!db) return resolve();
+
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll();
+      request.onsuccess = () => {
+        (request.result as OutboxEntry[]).forEach(entry => {
+          if (!entries.has(entry.clientId)) entries.set(entry.clientId, entry);
+        });
+        notify();
+        resolve();
+      };
+      request.onerror = () => {
+        console.error('Could not read the outbox:', request.error);
+        resolve();
+      };
+    }));
+  }
+  return loaded;
+}
+
+export function getOutboxEntries(fromUserId: number): OutboxEntry[] {
+  return Array.from(entries.values())
+    .filter(entry => entry.fromUserId === fromUserId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function getOutboxEntry(clientId: string): OutboxEntry | undefined {
+  return entries.get(clientId);
+}
+
+export function subscribeToOutbox(subscriber: () => void) {
+  subscribers.add(subscriber);
+  return () => {
+    subscribers.delete(subscriber);
+  };
+}
+
+export function putOutboxEntry(entry: OutboxEntry) {
+  entries.set(entry.clientId, entry);
+  notify();
+  persist(store => store.put(entry));
+}
+
+export function updateOutboxEntry(clientId: string, changes: Partial<Pick<OutboxEntry, 'status' | 'error'>>) {
+  const entry = entries.get(clientId);
+  if (!entry) return;
+
+  putOutboxEntry({ ...entry, ...changes });
+}
+
+export function removeOutboxEntry(clientId: string) {
+  if (!entries.delete(clientId)) return;
+
+  notify();
+  persist(store => store.delete(clientId));
+}
+
+export function createClientId(): string {
+  // randomUUID is only available in secure contexts
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+// How an unsent entry is shown in a conversation until the server stores it.
+// Its negative ID can't clash with a stored message.
+export function toPendingMessage(entry: OutboxEntry): Message {
+  const { payload } = entry;
+  const createdAt = new Date(entry.createdAt);
+
+  return {
+    id: -createdAt.getTime(),
+    fromUserId: entry.fromUserId,
+    toUserId: entry.toUserId,
+    groupId: entry.groupId,
+    content: payload.type === 'text' ? payload.content : '',
+    timestamp: createdAt,
+    isRead: false,
+    readAt: null,
+    editedAt: null,
+    deletedAt: null,
+    type: payload.type,
+    payload: payload.type === 'text'
+      ? null
+      : payload.type === 'game-invite'
+        ? { ...payload, gameName: payload.gameName ?? 'a game' } satisfies MessagePayload
+        : payload,
+    clientId: entry.clientId
+  };
+}
@@ -5,7 +5,11 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { AddGameForm } from '@/components/admin/add-game-form';
-import { Shield, Trash2, Home, Search, Plus, Settings, LogOut, Users, Activity, Globe, MessageSquare, Gamepad2 } from 'lucide-react';
+import { RoleManager } from '@/components/admin/role-manager';
+import { TwoFactorManager } from '@/components/admin/two-factor-manager';
+import { ThrottledLogins } from '@/components/admin/throttled-logins';
+import { AuthEventLog } from '@/components/admin/auth-event-log';
+import { Shield, Trash2, Home, Search, Plus, Settings, LogOut, UserCog, KeyRound, ScrollText, Users, Activity, Globe, MessageSquare, Gamepad2 } from 'lucide-react';
 import {
   Select,
   SelectContent,
@@ -34,9 +38,22 @@ interface GamesByRegion {
   byRegion: Record<string, Record<string, number>>;
 }
 
+// Spelled out so Tailwind sees every class
+const TAB_GRID_COLUMNS: Record<number, string> = {
+  3: 'grid-cols-3',
+  4: 'grid-cols-4',
+  5: 'grid-cols-5',
+  6: 'grid-cols-6',
+};
+
 export default function AdminDashboard() {
   const [activeTab, setActiveTab] = useState('overview');
-  const { user, isAdmin, isAuthenticated, isLoading, logout } = useAuth();
+  const { user, can, isAuthenticated, isLoading, logout } = useAuth();
+  const canAccessAdmin = can('admin:access');
+  const canAssignRoles = can('roles:assign');
+  const canResetTwoFactor = can('users:reset-2fa');
+  const canAuditAuth = can('auth:audit');
+  const tabCount = 3 + (canAssignRoles ? 1 : 0) + (canResetTwoFactor ? 1 : 0) + (canAuditAuth ? 1 : 0);
   const [userStats, setUserStats] = useState<UserStats | null>(null);
   const [gamesByRegion, setGamesByRegion] = useState<GamesByRegion | null>(null);
   const [isLoadingStats, setIsLoadingStats] = useState(false);
@@ -45,12 +62,12 @@ export default function AdminDashboard() {
 
   // Fetch user statistics
   useEffect(() => {
-    if (isAuthenticated && isAdmin && activeTab === 'overview' && user?.id) {
+    if (isAuthenticated && canAccessAdmin && activeTab === 'overview' && user?.id) {
       setIsLoadingStats(true);
       setError(null);
       
       // Fetch real user statistics from the server
-      fetch(`/api/admin/user-stats?userId=${user.id}`, {
+      fetch(`/api/admin/user-stats`, {
         method: 'GET',
         headers: {
           'Accept': 'application/json',
@@ -92,7 +109,7 @@ export default function AdminDashboard() {
         });
         
       // Fetch games by region statistics
-      fetch(`/api/admin/games-by-region?userId=${user.id}`, {
+      fetch(`/api/admin/games-by-region`, {
         method: 'GET',
         headers: {
           'Accept': 'application/json',
@@ -135,7 +152,7 @@ export default function AdminDashboard() {
           // We don't set error state here to avoid replacing the user stats error
         });
     }
-  }, [isAuthenticated, isAdmin, activeTab, user?.id]);
+  }, [isAuthenticated, canAccessAdmin, activeTab, user?.id]);
 
   // Calculate colors for game bars - replacing with more subtle, muted colors
   const getGameColor = (index: number) => {
@@ -169,7 +186,7 @@ export default function AdminDashboard() {
     return Math.max(...gamesInSelectedRegion.map(item => item.count));
   }, [gamesInSelectedRegion]);
 
-  // Redirect if user is not authenticated or not an admin
+  // Redirect if user is not authenticated or lacks admin access
   if (isLoading) {
     return (
       <div className="min-h-screen bg-[#0f0f0f] flex items-center justify-center text-white">
@@ -179,7 +196,7 @@ export default function AdminDashboard() {
     );
   }
 
-  if (!isAuthenticated || !isAdmin) {
+  if (!isAuthenticated || !canAccessAdmin) {
     return <Redirect to="/" />;
   }
 
@@ -221,7 +238,7 @@ export default function AdminDashboard() {
           onValueChange={setActiveTab}
           className="w-full"
         >
-          <TabsList className="grid grid-cols-3 mb-8 bg-[#2D221C] p-1 rounded-md">
+          <TabsList className={`grid ${TAB_GRID_COLUMNS[tabCount]} mb-8 bg-[#2D221C] p-1 rounded-md`}>
             <TabsTrigger 
               value="overview" 
               className="data-[state=active]:bg-[#EC1146] data-[state=active]:text-white"
@@ -235,6 +252,33 @@ export default function AdminDashboard() {
               <Plus className="h-4 w-4 mr-2" />
               Add Game
             </TabsTrigger>
+            {canAssignRoles && (
+              <TabsTrigger 
+                value="roles" 
+                className="data-[state=active]:bg-[#EC1146] data-[state=active]:text-white"
+              >
+                <UserCog className="h-4 w-4 mr-2" />
+                Roles
+              </TabsTrigger>
+            )}
+            {canResetTwoFactor && (
+              <TabsTrigger 
+                value="security" 
+                className="data-[state=active]:bg-[#EC1146] data-[state=active]:text-white"
+              >
+                <KeyRound className="h-4 w-4 mr-2" />
+                Security
+              </TabsTrigger>
+            )}
+            {canAuditAuth && (
+              <TabsTrigger 
+                value="activity" 
+                className="data-[state=active]:bg-[#EC1146] data-[state=active]:text-white"
+              >
+                <ScrollText className="h-4 w-4 mr-2" />
+                Login Activity
+              </TabsTrigger>
+            )}
             <TabsTrigger 
               value="settings" 
               className="data-[state=active]:bg-[#EC1146] data-[state=active]:text-white"
@@ -521,6 +565,65 @@ export default function AdminDashboard() {
             </Card>
           </TabsContent>
 
+          {canAssignRoles && (
+            <TabsContent value="roles">
+              <Card className="bg-[#2D221C] border-[#EC1146]">
+                <CardHeader>
+                  <CardTitle>User Roles</CardTitle>
+                  <CardDescription className="text-gray-400">
+                    Assign roles to control what each user can manage.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <RoleManager />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+
+          {canResetTwoFactor && (
+            <TabsContent value="security">
+              <Card className="bg-[#2D221C] border-[#EC1146]">
+                <CardHeader>
+                  <CardTitle>Two-Factor Login</CardTitle>
+                  <CardDescription className="text-gray-400">
+                    Reset two-factor login for users locked out of their accounts.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <TwoFactorManager />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+
+          {canAuditAuth && (
+            <TabsContent value="activity" className="space-y-6">
+              <Card className="bg-[#2D221C] border-[#EC1146]">
+                <CardHeader>
+                  <CardTitle>Throttled Logins</CardTitle>
+                  <CardDescription className="text-gray-400">
+                    Usernames and addresses with repeated failed logins in the last hour. Unlock a username to let its owner try again straight away.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ThrottledLogins />
+                </CardContent>
+              </Card>
+              <Card className="bg-[#2D221C] border-[#EC1146]">
+                <CardHeader>
+                  <CardTitle>Auth Events</CardTitle>
+                  <CardDescription className="text-gray-400">
+                    Logins, logouts and password changes, with the address and browser they came from.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <AuthEventLog />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+
           <TabsContent value="settings">
             <Card className="bg-[#2D221C] border-[#EC1146]">
               <CardHeader>
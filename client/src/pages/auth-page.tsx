@@ -15,6 +15,15 @@ import {
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { TotpCodeInput } from '@/components/totp-code-input';
 
 const authSchema = z.object({
   username: z.string().min(1, 'Username is required'),
@@ -27,6 +36,12 @@ export default function AuthPage() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [showPassword, setShowPassword] = useState(false);
+  const [resetOpen, setResetOpen] = useState(false);
+  const [resetEmail, setResetEmail] = useState('');
+  // Set once the password was accepted and a second factor is needed
+  const [twoFactorRequired, setTwoFactorRequired] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [secondFactor, setSecondFactor] = useState('');
 
   const form = useForm<AuthFormData>({
     resolver: zodResolver(authSchema),
@@ -52,7 +67,10 @@ export default function AuthPage() {
         throw new Error(result.message || 'Authentication failed');
       }
 
-      if (!isLogin && result.redirect === 'setup') {
+      if (isLogin && result.twoFactorRequired) {
+        setSecondFactor('');
+        setTwoFactorRequired(true);
+      } else if (!isLogin && result.redirect === 'setup') {
         // For new users signing up, store credentials and redirect to setup
         localStorage.setItem('pendingAuth', JSON.stringify(data));
         window.location.href = '/setup';
@@ -70,76 +88,227 @@ export default function AuthPage() {
     }
   };
 
+  const submitSecondFactor = async (value: string) => {
+    try {
+      const response = await fetch('/api/auth/login/2fa', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(useRecoveryCode ? { recoveryCode: value } : { code: value }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        // An expired login or too many tries means starting over
+        if (result.message?.includes('log in again')) {
+          setTwoFactorRequired(false);
+        }
+        throw new Error(result.message || 'Authentication failed');
+      }
+
+      localStorage.setItem('user', JSON.stringify(result.user));
+      window.location.href = '/';
+    } catch (error: any) {
+      setSecondFactor('');
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Asks for a reset link; the server answers the same whether or not the
+  // email belongs to an account
+  const requestPasswordReset = async () => {
+    try {
+      const response = await fetch('/api/account/password-reset', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email: resetEmail }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to request a reset link');
+      }
+
+      toast({
+        title: 'Check your email',
+        description: result.message,
+      });
+      setResetOpen(false);
+      setResetEmail('');
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  };
+
   return (
     <div className="min-h-screen bg-[#0f0f0f] flex items-center justify-center p-4">
       <Card className="w-full max-w-md bg-[#0f0f0f] text-white border border-[#eb0028]">
         <CardContent className="p-6">
           <h1 className="text-2xl font-bold mb-6 text-center">Welcome to Playsphere</h1>
 
-          <Form {...form}>
-            <form className="space-y-4">
-              <FormField
-                control={form.control}
-                name="username"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Username</FormLabel>
-                    <FormControl>
-                      <Input {...field} placeholder="Enter your username" />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="password"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Password</FormLabel>
-                    <FormControl>
-                      <div className="relative">
-                        <Input
-                          {...field}
-                          type={showPassword ? 'text' : 'password'}
-                          placeholder="Enter your password"
-                        />
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          className="absolute right-2 top-1/2 transform -translate-y-1/2"
-                          onClick={() => setShowPassword(!showPassword)}
-                        >
-                          {showPassword ? 'Hide' : 'Show'}
-                        </Button>
-                      </div>
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <div className="flex gap-4 pt-4">
-                <Button
-                  type="button"
-                  className="flex-1 bg-transparent hover:bg-[#eb0028]/10 text-[#eb0028] border border-[#eb0028]"
-                  onClick={() => form.handleSubmit((data) => handleAuth(data, true))()}
-                >
-                  Login
-                </Button>
+          {twoFactorRequired ? (
+            <form
+              className="space-y-4 flex flex-col items-center"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (secondFactor.trim()) submitSecondFactor(secondFactor.trim());
+              }}
+            >
+              <p className="text-center text-gray-400">
+                {useRecoveryCode
+                  ? 'Enter one of your recovery codes.'
+                  : 'Enter the 6-digit code from your authenticator app.'}
+              </p>
+              {useRecoveryCode ? (
+                <Input
+                  value={secondFactor}
+                  onChange={(e) => setSecondFactor(e.target.value)}
+                  placeholder="e.g. 3f9a1-c07e2"
+                  autoFocus
+                />
+              ) : (
+                <TotpCodeInput value={secondFactor} onChange={setSecondFactor} onComplete={submitSecondFactor} />
+              )}
+              <Button
+                type="submit"
+                className="w-full bg-[#eb0028] hover:bg-[#eb0028]/90 text-white"
+                disabled={!secondFactor.trim()}
+              >
+                Verify
+              </Button>
+              <Button
+                type="button"
+                variant="link"
+                className="text-gray-400"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setSecondFactor('');
+                }}
+              >
+                {useRecoveryCode ? 'Use your authenticator app' : 'Use a recovery code'}
+              </Button>
+            </form>
+          ) : (
+            <Form {...form}>
+              <form className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="Enter your username" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <div className="relative">
+                          <Input
+                            {...field}
+                            type={showPassword ? 'text' : 'password'}
+                            placeholder="Enter your password"
+                          />
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            className="absolute right-2 top-1/2 transform -translate-y-1/2"
+                            onClick={() => setShowPassword(!showPassword)}
+                          >
+                            {showPassword ? 'Hide' : 'Show'}
+                          </Button>
+                        </div>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex gap-4 pt-4">
+                  <Button
+                    type="button"
+                    className="flex-1 bg-transparent hover:bg-[#eb0028]/10 text-[#eb0028] border border-[#eb0028]"
+                    onClick={() => form.handleSubmit((data) => handleAuth(data, true))()}
+                  >
+                    Login
+                  </Button>
+                  <Button
+                    type="button"
+                    className="flex-1 bg-[#eb0028] hover:bg-[#eb0028]/90 text-white"
+                    onClick={() => form.handleSubmit((data) => handleAuth(data, false))()}
+                  >
+                    Sign Up
+                  </Button>
+                </div>
+
                 <Button
                   type="button"
-                  className="flex-1 bg-[#eb0028] hover:bg-[#eb0028]/90 text-white"
-                  onClick={() => form.handleSubmit((data) => handleAuth(data, false))()}
+                  variant="link"
+                  className="w-full text-gray-400"
+                  onClick={() => setResetOpen(true)}
                 >
-                  Sign Up
+                  Forgot password?
                 </Button>
-              </div>
-            </form>
-          </Form>
+              </form>
+            </Form>
+          )}
         </CardContent>
       </Card>
+
+      <Dialog open={resetOpen} onOpenChange={setResetOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Reset Password</DialogTitle>
+            <DialogDescription>
+              Enter the verified email on your account and we'll send you a link to choose a new password.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              requestPasswordReset();
+            }}
+          >
+            <Input
+              type="email"
+              placeholder="you@example.com"
+              value={resetEmail}
+              onChange={(e) => setResetEmail(e.target.value)}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setResetOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!resetEmail.trim()}>
+                Send Link
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 } 
\ No newline at end of file
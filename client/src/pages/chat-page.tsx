@@ -1,24 +1,36 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { User, Message, Group } from '@shared/schema';
+import { User, Message, Group, Conversation, OutgoingMessagePayload, getMessagePayload } from '@shared/schema';
 import { Card, CardHeader, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { useWebSocket } from '@/hooks/use-websocket';
+import { useWebSocket, type ReadReceipt, type MessageUpdate } from '@/hooks/use-websocket';
+import { useMessageHistory } from '@/hooks/use-message-history';
+import { useMarkAsRead } from '@/hooks/use-mark-as-read';
+import { useConversations, refreshConversations } from '@/hooks/use-conversations';
+import { usePresence } from '@/hooks/use-presence';
+import { useOutbox } from '@/hooks/use-outbox';
+import { useFriends, FRIENDS_QUERY_KEY } from '@/hooks/use-friends';
+import { queryClient } from '@/lib/queryClient';
+import { PresenceDot, formatPresence } from '@/components/presence-indicator';
+import { ConnectionStatusIndicator } from '@/components/connection-status';
 import { 
   MessageCircle, 
   Search, 
   Users, 
   Image as ImageIcon, 
+  Gamepad2,
   Plus, 
   ArrowLeft, 
-  Check, 
-  CheckCheck,
   MoreVertical,
   Trash2,
-  UserMinus
+  Pencil,
+  UserMinus,
+  UserPlus,
+  UserCheck,
+  Ban
 } from 'lucide-react';
 import { 
   Dialog, 
@@ -40,7 +52,12 @@ import { formatDistanceToNow } from 'date-fns';
 import { ImageUpload } from '@/components/image-upload';
 import { useToast } from '@/hooks/use-toast';
 import { CreateGroup } from '@/components/create-group';
+import { ReadStatus } from '@/components/read-status';
+import { OutboxStatus } from '@/components/outbox-status';
+import { MessageContent, SystemMessage, getMessagePreview } from '@/components/message-content';
+import { GameInviteDialog } from '@/components/game-invite-dialog';
 import { GroupChat } from '@/components/group-chat';
+import { FriendsList } from '@/components/friends-list';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 // Define the GroupMessage interface
@@ -62,40 +79,24 @@ interface GroupChatType {
 
 type ChatType = DirectChat | GroupChatType;
 
-function formatLastActive(lastActive: Date): string {
-  const now = new Date();
-  const lastActiveDate = new Date(lastActive);
-  const diffInMinutes = Math.floor((now.getTime() - lastActiveDate.getTime()) / (1000 * 60));
-  
-  if (diffInMinutes < 5) {
-    return 'Online';
-  } else if (diffInMinutes < 60) {
-    return `${diffInMinutes} minutes ago`;
-  } else if (diffInMinutes < 1440) { // Less than 24 hours
-    const hours = Math.floor(diffInMinutes / 60);
-    return `${hours} ${hours === 1 ? 'hour' : 'hours'} ago`;
-  } else {
-    const days = Math.floor(diffInMinutes / 1440);
-    return `${days} ${days === 1 ? 'day' : 'days'} ago`;
-  }
-}
-
 export default function ChatPage() {
   const [selectedChat, setSelectedChat] = useState<ChatType | null>(null);
   const [selectedGroup, setSelectedGroup] = useState<Group | null>(null);
-  const [chatMessages, setChatMessages] = useState<Message[]>([]);
   const [messageInput, setMessageInput] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
   const [isNewGroupDialogOpen, setIsNewGroupDialogOpen] = useState(false);
   const [showImageUpload, setShowImageUpload] = useState(false);
+  const [showGameInvite, setShowGameInvite] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
   const [typingTimeoutRef, setTypingTimeoutRef] = useState<NodeJS.Timeout | null>(null);
-  const [activeTab, setActiveTab] = useState<'chats' | 'groups'>('chats');
+  const [activeTab, setActiveTab] = useState<'chats' | 'groups' | 'friends'>('chats');
   const { toast } = useToast();
   const [messageToDelete, setMessageToDelete] = useState<Message | null>(null);
   const [userToDelete, setUserToDelete] = useState<User | null>(null);
   const [showDeleteMessageDialog, setShowDeleteMessageDialog] = useState(false);
   const [showDeleteUserDialog, setShowDeleteUserDialog] = useState(false);
+  const [messageToEdit, setMessageToEdit] = useState<Message | null>(null);
+  const [editInput, setEditInput] = useState('');
   const chatMessagesRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messageInputRef = useRef<HTMLInputElement>(null);
@@ -104,8 +105,20 @@ export default function ChatPage() {
   // Get current user from localStorage
   const currentUser = JSON.parse(localStorage.getItem('user') || '{}');
 
+  // Direct message history; older pages load as the user scrolls up
+  const { messages: chatMessages, setMessages: setChatMessages, hasMore: hasOlderMessages, isLoadingOlder } = useMessageHistory(
+    selectedChat?.type === 'direct' ? `/api/messages/${currentUser.id}/${selectedChat.user.id}` : null,
+    chatMessagesRef
+  );
+
+  // Messages still being sent to the open direct chat
+  const outbox = useOutbox(currentUser.id, {
+    toUserId: selectedChat?.type === 'direct' ? selectedChat.user.id : 0
+  });
+  const displayedMessages = outbox.withPending(chatMessages);
+
   // Fetch all users
-  const { data: users = [], refetch: refetchUsers } = useQuery<User[]>({
+  const { data: users = [] } = useQuery<User[]>({
     queryKey: ['/api/users'],
   });
 
@@ -129,6 +142,26 @@ export default function ChatPage() {
     return group.name.toLowerCase().includes(searchQuery.toLowerCase());
   });
 
+  // Last message and unread count for each chat, most recent first
+  const { conversations } = useConversations(currentUser.id);
+  const { getPresence } = usePresence();
+  const { incoming: friendRequests, getRelationship, sendRequest, acceptRequest, removeFriend, blockUser } = useFriends();
+  const findConversation = (type: Conversation['type'], id: number) =>
+    conversations.find(c => c.type === type && c.id === id);
+
+  // Users we've already messaged, in conversation order, then everyone else
+  const directChats = conversations
+    .filter(c => c.type === 'direct')
+    .map(c => filteredUsers.find(user => user.id === c.id))
+    .filter((user): user is User => !!user);
+  const otherUsers = filteredUsers.filter(user => !findConversation('direct', user.id));
+
+  const sortedGroups = [...filteredGroups].sort((a, b) => {
+    const aTime = findConversation('group', a.id)?.lastMessageAt;
+    const bTime = findConversation('group', b.id)?.lastMessageAt;
+    return (bTime ? new Date(bTime).getTime() : 0) - (aTime ? new Date(aTime).getTime() : 0);
+  });
+
   // Improved onMessage function to ensure real-time updates
   const onMessage = useCallback((message: Message) => {
     if (!selectedChat) return;
@@ -158,14 +191,6 @@ export default function ChatPage() {
       setIsTyping(false);
     }
     
-    // Update to show the message is read if we're the recipient
-    if (message.toUserId === currentUser?.id && !message.isRead) {
-      // Mark message as read in the UI (this part depends on your backend API)
-      // markMessageAsRead(message.id);
-      
-      // Here you would also call a function to update read status on the server
-    }
-    
     // Scroll to bottom after receiving new messages
     scrollToBottom();
   }, [selectedChat, currentUser]);
@@ -184,20 +209,35 @@ export default function ChatPage() {
     }
   }, [selectedChat]);
 
+  // The other user has read our messages up to receipt.upToId
+  const onReadReceipt = useCallback((receipt: ReadReceipt) => {
+    if (selectedChat?.type !== 'direct' || selectedChat.user.id !== receipt.readerId) return;
+    
+    setChatMessages(prev => prev.map(m =>
+      m.fromUserId === currentUser.id && m.toUserId === receipt.readerId && m.id <= receipt.upToId && !m.isRead
+        ? { ...m, isRead: true, readAt: new Date(receipt.readAt) }
+        : m
+    ));
+  }, [selectedChat, currentUser.id]);
+
+  // A message in this chat was edited or deleted
+  const onMessageUpdate = useCallback((update: MessageUpdate) => {
+    setChatMessages(prev => prev.map(m => m.id === update.message.id ? { ...m, ...update.message } : m));
+  }, []);
+
   // Improved WebSocket setup
-  const { sendMessage, sendGroupMessage, sendTypingStatus, sendGroupTypingStatus, isConnected } = useWebSocket(
-    currentUser?.id || 0, 
+  const { sendMessage, sendGroupMessage, sendTypingStatus, sendGroupTypingStatus, sendReadReceipt, isConnected } = useWebSocket(currentUser?.id || 0, {
     onMessage,
-    (groupMessage) => {
+    onGroupMessage: (groupMessage) => {
       // Handle group messages if needed
       onMessage(groupMessage as unknown as Message);
     },
-    (userId, isTyping) => {
+    onTypingStatus: (userId, isTyping) => {
       if (selectedChat?.type === 'direct' && selectedChat.user.id === userId) {
         setIsTyping(isTyping);
       }
     },
-    (userId, groupId, isTyping) => {
+    onGroupTypingStatus: (userId, groupId, isTyping) => {
       if (selectedChat?.type === 'group' && selectedChat.group.id === groupId) {
         setTypingUsers(prev => {
           if (isTyping) {
@@ -210,30 +250,27 @@ export default function ChatPage() {
           return prev;
         });
       }
-    }
-  );
+    },
+    onReadReceipt,
+    onMessageUpdate
+  });
 
-  // Fetch messages when a chat is selected
-  useEffect(() => {
-    if (selectedChat && selectedChat.type === 'direct') {
-      fetch(`/api/messages/${currentUser.id}/${selectedChat.user.id}`)
-        .then(res => res.json())
-        .then(data => {
-          setChatMessages(data);
-          
-          // Scroll to bottom after messages load
-          setTimeout(() => {
-            scrollToBottom();
-          }, 100);
-        })
-        .catch(err => {
-          console.error('Error fetching chat messages:', err);
-          setChatMessages([]);
-        });
-    } else {
-      setChatMessages([]);
-    }
-  }, [selectedChat, currentUser.id]);
+  // Mark the other user's messages as read while their conversation is open
+  const lastUnreadId = selectedChat?.type === 'direct'
+    ? chatMessages.filter(m => m.fromUserId === selectedChat.user.id && !m.isRead).pop()?.id
+    : undefined;
+
+  useMarkAsRead(lastUnreadId, (upToId) => {
+    if (selectedChat?.type !== 'direct') return;
+    const senderId = selectedChat.user.id;
+    
+    sendReadReceipt(senderId, upToId);
+    setChatMessages(prev => prev.map(m =>
+      m.fromUserId === senderId && m.id <= upToId && !m.isRead
+        ? { ...m, isRead: true, readAt: new Date() }
+        : m
+    ));
+  });
 
   // Improved scroll handling
   const scrollToBottom = (behavior: ScrollBehavior = 'smooth') => {
@@ -242,73 +279,42 @@ export default function ChatPage() {
     }
   };
 
-  // Scroll to bottom when new messages arrive
+  // Scroll to bottom when new messages arrive, but not when older history is prepended
+  const lastMessageId = displayedMessages[displayedMessages.length - 1]?.id;
   useEffect(() => {
-    if (chatMessages.length > 0) {
+    if (lastMessageId !== undefined) {
       scrollToBottom();
     }
-  }, [chatMessages]);
+  }, [lastMessageId]);
 
   // Handle message send
   const handleSendMessage = () => {
     if (!selectedChat || !messageInput.trim()) return;
     
-    // Create a temporary message to display immediately
-    const tempMessage: Message = {
-      id: Date.now(), // Temporary ID
-      fromUserId: currentUser.id,
-      toUserId: selectedChat.type === 'direct' ? selectedChat.user.id : 0,
-      groupId: selectedChat.type === 'group' ? selectedChat.group.id : null,
-      content: messageInput.trim(),
-      timestamp: new Date(),
-      isRead: false,
-      readAt: null,
-      type: 'text'
-    };
-    
     // Clear input immediately for better UX
     setMessageInput('');
     
-    // Add the message to the UI immediately
-    setChatMessages(prev => [...prev, tempMessage]);
-    
-    // Then send via WebSocket
-    if (selectedChat.type === 'direct') {
-      sendMessage(selectedChat.user.id, messageInput.trim());
-    } else if (selectedChat.type === 'group') {
-      sendGroupMessage(selectedChat.group.id, messageInput.trim());
-    }
+    // The outbox shows the message as pending until the server stores it
+    sendPayload(messageInput.trim());
     
     // Ensure scroll to bottom
     setTimeout(() => scrollToBottom(), 50);
   };
 
+  // Send to the open chat
+  const sendPayload = (payload: string | OutgoingMessagePayload) => {
+    if (selectedChat?.type === 'direct') {
+      sendMessage(selectedChat.user.id, payload);
+    } else if (selectedChat?.type === 'group') {
+      sendGroupMessage(selectedChat.group.id, payload);
+    }
+  };
+
   // Handle image upload completion
   const handleImageUploaded = (imageUrl: string) => {
     if (!selectedChat) return;
     
-    // Create a temporary message to display immediately
-    const tempMessage: Message = {
-      id: Date.now(), // Temporary ID
-      fromUserId: currentUser.id,
-      toUserId: selectedChat.type === 'direct' ? selectedChat.user.id : 0,
-      groupId: selectedChat.type === 'group' ? selectedChat.group.id : null,
-      content: `![image](${imageUrl})`,
-      timestamp: new Date(),
-      isRead: false,
-      readAt: null,
-      type: 'image'
-    };
-    
-    // Add the message to the UI immediately
-    setChatMessages(prev => [...prev, tempMessage]);
-    
-    // Then send via WebSocket
-    if (selectedChat.type === 'direct') {
-      sendMessage(selectedChat.user.id, `![image](${imageUrl})`);
-    } else if (selectedChat.type === 'group') {
-      sendGroupMessage(selectedChat.group.id, `![image](${imageUrl})`);
-    }
+    sendPayload({ type: 'image', url: imageUrl });
     
     setShowImageUpload(false);
   };
@@ -410,13 +416,20 @@ export default function ChatPage() {
     }
   };
 
-  // Render message content (text or image)
-  const renderMessageContent = (content: string) => {
-    const imageMatch = content.match(/!\[image\]\((.*?)\)/);
-    if (imageMatch && imageMatch[1]) {
-      return <img src={imageMatch[1]} alt="Shared image" className="max-w-full max-h-64 rounded-lg" />;
-    }
-    return content;
+  // One-line preview of a conversation's last message
+  const formatPreview = (message: Message) => {
+    const prefix = message.fromUserId === currentUser.id && message.type !== 'system' && !message.deletedAt ? 'You: ' : '';
+    return `${prefix}${getMessagePreview(message)}`;
+  };
+
+  // Unread badge shown next to a chat in the list
+  const renderUnreadBadge = (conversation?: Conversation) => {
+    if (!conversation || conversation.unreadCount === 0) return null;
+    return (
+      <span className="ml-2 min-w-[20px] h-5 px-1.5 rounded-full bg-[#EC1146] text-white text-xs font-bold flex items-center justify-center">
+        {conversation.unreadCount > 99 ? '99+' : conversation.unreadCount}
+      </span>
+    );
   };
 
   // Handle group creation
@@ -438,18 +451,13 @@ export default function ChatPage() {
     
     try {
       const response = await fetch(`/api/messages/${messageToDelete.id}`, {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          userId: currentUser.id
-        })
+        method: 'DELETE'
       });
       
       if (response.ok) {
-        // Remove the message from the UI
-        setChatMessages(prev => prev.filter(msg => msg.id !== messageToDelete.id));
+        // Leave a "message deleted" placeholder in its place
+        const deleted: Message = await response.json();
+        setChatMessages(prev => prev.map(msg => msg.id === deleted.id ? deleted : msg));
         
         toast({
           title: "Success",
@@ -474,6 +482,42 @@ export default function ChatPage() {
     setMessageToDelete(null);
     setShowDeleteMessageDialog(false);
   };
+
+  // Function to save an edited message
+  const handleEditMessage = async () => {
+    if (!messageToEdit || !editInput.trim()) return;
+    
+    try {
+      const response = await fetch(`/api/messages/${messageToEdit.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ content: editInput.trim() })
+      });
+      
+      if (response.ok) {
+        const updated: Message = await response.json();
+        setChatMessages(prev => prev.map(msg => msg.id === updated.id ? updated : msg));
+      } else {
+        const error = await response.json();
+        toast({
+          title: "Error",
+          description: error.message || "Failed to edit message",
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      console.error("Error editing message:", error);
+      toast({
+        title: "Error",
+        description: "Failed to edit message",
+        variant: "destructive"
+      });
+    }
+    
+    setMessageToEdit(null);
+  };
   
   // Function to delete a user from chats
   const handleDeleteUser = async () => {
@@ -481,19 +525,12 @@ export default function ChatPage() {
     
     try {
       const response = await fetch(`/api/users/${userToDelete.id}/chat`, {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          userId: currentUser.id
-        })
+        method: 'DELETE'
       });
       
       if (response.ok) {
-        // Remove the user from chats - this will be handled by refetching the users query instead
-        // Refetch users
-        refetchUsers();
+        // The conversation is cleared on our side only, so it drops out of the list
+        refreshConversations();
         
         // If the deleted user was the selected chat, clear the selection
         if (selectedChat?.type === 'direct' && selectedChat.user.id === userToDelete.id) {
@@ -542,6 +579,40 @@ export default function ChatPage() {
     // ... existing code ...
   };
 
+  // The friend request action that fits where the session user stands with `user`
+  const renderFriendAction = (user: User) => {
+    switch (getRelationship(user.id)) {
+      case 'friends':
+        return (
+          <DropdownMenuItem className="cursor-pointer flex items-center gap-2" onClick={() => removeFriend(user.id)}>
+            <UserMinus className="h-4 w-4" />
+            <span>Remove Friend</span>
+          </DropdownMenuItem>
+        );
+      case 'request-sent':
+        return (
+          <DropdownMenuItem className="cursor-pointer flex items-center gap-2" onClick={() => removeFriend(user.id)}>
+            <UserPlus className="h-4 w-4" />
+            <span>Cancel Friend Request</span>
+          </DropdownMenuItem>
+        );
+      case 'request-received':
+        return (
+          <DropdownMenuItem className="cursor-pointer flex items-center gap-2" onClick={() => acceptRequest(user.id)}>
+            <UserCheck className="h-4 w-4" />
+            <span>Accept Friend Request</span>
+          </DropdownMenuItem>
+        );
+      default:
+        return (
+          <DropdownMenuItem className="cursor-pointer flex items-center gap-2" onClick={() => sendRequest(user.id)}>
+            <UserPlus className="h-4 w-4" />
+            <span>Add Friend</span>
+          </DropdownMenuItem>
+        );
+    }
+  };
+
   // Update onSelectGroup to set proper chat type
   const handleSelectGroup = (group: Group) => {
     setSelectedChat({ type: 'group', group });
@@ -574,15 +645,25 @@ export default function ChatPage() {
             defaultValue="chats" 
             value={activeTab} 
             onValueChange={(value) => {
-              setActiveTab(value as 'chats' | 'groups');
+              setActiveTab(value as 'chats' | 'groups' | 'friends');
               setSelectedChat(null);
               setSelectedGroup(null);
+              // Requests from others only show up on refetch
+              if (value === 'friends') {
+                queryClient.invalidateQueries({ queryKey: FRIENDS_QUERY_KEY });
+              }
             }}
             className="w-full"
           >
-            <TabsList className="grid grid-cols-2 w-full bg-[#2D221C]">
-              <TabsTrigger value="chats">Direct Chats</TabsTrigger>
-              <TabsTrigger value="groups">Group Chats</TabsTrigger>
+            <TabsList className="grid grid-cols-3 w-full bg-[#2D221C]">
+              <TabsTrigger value="chats">Direct</TabsTrigger>
+              <TabsTrigger value="groups">Groups</TabsTrigger>
+              <TabsTrigger value="friends" className="gap-1">
+                Friends
+                {friendRequests.length > 0 && (
+                  <span className="bg-[#EC1146] text-white text-xs rounded-full px-1.5">{friendRequests.length}</span>
+                )}
+              </TabsTrigger>
             </TabsList>
           </Tabs>
           
@@ -610,44 +691,71 @@ export default function ChatPage() {
         <ScrollArea className="flex-1">
           {activeTab === 'chats' && (
             <div className="p-2 space-y-2">
-              {filteredUsers.map(user => (
-                <div
-                  key={user.id}
-                  className={`p-3 rounded-lg flex items-center gap-3 cursor-pointer hover:bg-[#2D221C]/50 transition-colors duration-200 ${
-                    selectedChat?.type === 'direct' && selectedChat.user.id === user.id ? 'bg-[#2D221C]' : ''
-                  }`}
-                  onClick={() => handleSelectUser(user)}
-                >
-                  <div className="relative">
-                    <Avatar className="h-12 w-12">
-                      <AvatarImage src={user.profilePicture || undefined} alt={user.username} />
-                      <AvatarFallback>
-                        {user.username.charAt(0).toUpperCase()}
-                      </AvatarFallback>
-                    </Avatar>
-                    <div className={`absolute bottom-0 right-0 w-3 h-3 rounded-full border-2 border-[#0f0f0f] ${
-                      new Date(user.lastActive) > new Date(Date.now() - 5 * 60 * 1000) ? 'bg-green-500' : 'bg-gray-500'
-                    }`} />
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <div className="flex justify-between items-center">
-                      <h3 className="font-medium truncate">{user.username}</h3>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <p className="text-sm text-gray-400 truncate">
-                        {user.currentGame}
-                      </p>
-                      <span className="text-xs text-gray-500">•</span>
-                      <p className="text-xs text-gray-500">
-                        {formatLastActive(user.lastActive)}
-                      </p>
+              {[...directChats, ...otherUsers].map((user, index) => {
+                const conversation = findConversation('direct', user.id);
+                
+                return (
+                  <div key={user.id}>
+                    {index === directChats.length && (
+                      <p className="px-3 pt-2 pb-1 text-xs uppercase tracking-wide text-gray-500">Start a new chat</p>
+                    )}
+                    <div
+                      className={`p-3 rounded-lg flex items-center gap-3 cursor-pointer hover:bg-[#2D221C]/50 transition-colors duration-200 ${
+                        selectedChat?.type === 'direct' && selectedChat.user.id === user.id ? 'bg-[#2D221C]' : ''
+                      }`}
+                      onClick={() => handleSelectUser(user)}
+                    >
+                      <div className="relative">
+                        <Avatar className="h-12 w-12">
+                          <AvatarImage src={user.profilePicture || undefined} alt={user.username} />
+                          <AvatarFallback>
+                            {user.username.charAt(0).toUpperCase()}
+                          </AvatarFallback>
+                        </Avatar>
+                        <PresenceDot
+                          status={getPresence(user.id).status}
+                          className="absolute bottom-0 right-0 w-3 h-3 border-2 border-[#0f0f0f]"
+                        />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex justify-between items-center">
+                          <h3 className={`truncate ${conversation?.unreadCount ? 'font-bold' : 'font-medium'}`}>{user.username}</h3>
+                          {conversation?.lastMessageAt && (
+                            <span className="text-xs text-gray-500 shrink-0 ml-2">
+                              {formatDistanceToNow(new Date(conversation.lastMessageAt), { addSuffix: true })}
+                            </span>
+                          )}
+                        </div>
+                        {conversation?.lastMessage ? (
+                          <div className="flex items-center justify-between">
+                            <p className={`text-sm truncate ${conversation.unreadCount ? 'text-white' : 'text-gray-400'}`}>
+                              {formatPreview(conversation.lastMessage)}
+                            </p>
+                            {renderUnreadBadge(conversation)}
+                          </div>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <p className="text-sm text-gray-400 truncate">
+                              {user.currentGame}
+                            </p>
+                            <span className="text-xs text-gray-500">•</span>
+                            <p className="text-xs text-gray-500">
+                              {formatPresence(getPresence(user.id, user.lastActive))}
+                            </p>
+                          </div>
+                        )}
+                      </div>
                     </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           )}
 
+          {activeTab === 'friends' && (
+            <FriendsList searchQuery={searchQuery} onChat={handleSelectUser} />
+          )}
+
           {activeTab === 'groups' && (
             <div className="p-2 space-y-2">
               {filteredGroups.length === 0 ? (
@@ -656,7 +764,10 @@ export default function ChatPage() {
                   <p className="text-sm mt-1">Create one by clicking the button above.</p>
                 </div>
               ) : (
-                filteredGroups.map(group => (
+                sortedGroups.map(group => {
+                  const conversation = findConversation('group', group.id);
+                  
+                  return (
                   <div
                     key={group.id}
                     className={`p-3 rounded-lg flex items-center gap-3 cursor-pointer hover:bg-[#2D221C]/50 transition-colors duration-200 ${
@@ -671,14 +782,27 @@ export default function ChatPage() {
                     </Avatar>
                     <div className="flex-1 min-w-0">
                       <div className="flex justify-between items-center">
-                        <h3 className="font-medium truncate">{group.name}</h3>
+                        <h3 className={`truncate ${conversation?.unreadCount ? 'font-bold' : 'font-medium'}`}>{group.name}</h3>
+                        {conversation?.lastMessageAt && (
+                          <span className="text-xs text-gray-500 shrink-0 ml-2">
+                            {formatDistanceToNow(new Date(conversation.lastMessageAt), { addSuffix: true })}
+                          </span>
+                        )}
                       </div>
-                      {group.ownerId === currentUser.id && (
+                      {conversation?.lastMessage ? (
+                        <div className="flex items-center justify-between">
+                          <p className={`text-sm truncate ${conversation.unreadCount ? 'text-white' : 'text-gray-400'}`}>
+                            {formatPreview(conversation.lastMessage)}
+                          </p>
+                          {renderUnreadBadge(conversation)}
+                        </div>
+                      ) : group.ownerId === currentUser.id && (
                         <p className="text-sm text-gray-400">You're the owner</p>
                       )}
                     </div>
                   </div>
-                ))
+                  );
+                })
               )}
             </div>
           )}
@@ -711,13 +835,13 @@ export default function ChatPage() {
               <div className="flex-1">
                 <h2 className="font-medium">{selectedChat.user.username}</h2>
                 <div className="text-sm text-gray-400 flex items-center gap-1">
-                  <div className={`w-2 h-2 rounded-full ${
-                    new Date(selectedChat.user.lastActive) > new Date(Date.now() - 5 * 60 * 1000) ? 'bg-green-500' : 'bg-gray-500'
-                  }`} />
-                  <span>{formatLastActive(selectedChat.user.lastActive)}</span>
+                  <PresenceDot status={getPresence(selectedChat.user.id).status} />
+                  <span>{formatPresence(getPresence(selectedChat.user.id, selectedChat.user.lastActive))}</span>
                 </div>
               </div>
               
+              <ConnectionStatusIndicator isConnected={isConnected} />
+              
               {/* Delete user option */}
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
@@ -726,6 +850,18 @@ export default function ChatPage() {
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end" className="bg-[#1D1D1D] border-[#2D221C] text-white">
+                  {renderFriendAction(selectedChat.user)}
+                  <DropdownMenuItem 
+                    className="cursor-pointer flex items-center gap-2"
+                    onClick={() => {
+                      blockUser(selectedChat.user.id);
+                      setSelectedChat(null);
+                    }}
+                  >
+                    <Ban className="h-4 w-4" />
+                    <span>Block User</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator className="bg-[#2D221C]" />
                   <DropdownMenuItem 
                     className="text-red-500 cursor-pointer flex items-center gap-2"
                     onClick={() => {
@@ -745,9 +881,20 @@ export default function ChatPage() {
             {/* Chat messages */}
             <ScrollArea className="flex-1 p-4" id="chat-messages" ref={chatMessagesRef}>
               <div className="space-y-4">
-                {chatMessages.map((msg, i) => {
+                {(isLoadingOlder || hasOlderMessages) && (
+                  <div className="text-center text-xs text-gray-400 py-2">
+                    {isLoadingOlder ? 'Loading earlier messages...' : 'Scroll up for earlier messages'}
+                  </div>
+                )}
+                {displayedMessages.map((msg) => {
                   const isSender = msg.fromUserId === currentUser.id;
-                  const showReadStatus = isSender && i === chatMessages.length - 1;
+                  // Group echoes carry type 'groupMessage', so go by the payload
+                  const kind = getMessagePayload(msg).type;
+                  const outboxEntry = outbox.getEntry(msg);
+                  
+                  if (kind === 'system') {
+                    return <SystemMessage key={msg.id} message={msg} />;
+                  }
                   
                   return (
                     <div
@@ -764,11 +911,11 @@ export default function ChatPage() {
                               : 'bg-[#2D221C] rounded-bl-none'
                           }`}
                         >
-                          {renderMessageContent(msg.content)}
+                          <MessageContent message={msg} />
                         </div>
                         
                         {/* Message options dropdown - only for messages sent by current user */}
-                        {isSender && (
+                        {isSender && !msg.deletedAt && !outboxEntry && (
                           <DropdownMenu>
                             <DropdownMenuTrigger asChild>
                               <Button 
@@ -784,6 +931,18 @@ export default function ChatPage() {
                                 {formatMessageTime(msg.timestamp)}
                               </div>
                               <DropdownMenuSeparator className="bg-[#2D221C]" />
+                              {kind === 'text' && (
+                                <DropdownMenuItem 
+                                  className="cursor-pointer flex items-center gap-2"
+                                  onClick={() => {
+                                    setMessageToEdit(msg);
+                                    setEditInput(msg.content);
+                                  }}
+                                >
+                                  <Pencil className="h-4 w-4" />
+                                  <span>Edit Message</span>
+                                </DropdownMenuItem>
+                              )}
                               <DropdownMenuItem 
                                 className="text-red-500 cursor-pointer flex items-center gap-2"
                                 onClick={() => {
@@ -802,8 +961,19 @@ export default function ChatPage() {
                       {/* Add timestamp below each message */}
                       <div className={`flex items-center text-xs text-gray-400 mt-1 ${isSender ? 'justify-end' : 'justify-start'}`}>
                         <span>{formatMessageTime(msg.timestamp)}</span>
-                        {showReadStatus && (
-                          <CheckCheck className="h-3 w-3 text-blue-400 ml-1" />
+                        {msg.editedAt && !msg.deletedAt && (
+                          <span className="ml-1" title={`Edited ${new Date(msg.editedAt).toLocaleString()}`}>(edited)</span>
+                        )}
+                        {isSender && (
+                          outboxEntry ? (
+                            <OutboxStatus
+                              entry={outboxEntry}
+                              onRetry={() => outbox.retry(outboxEntry.clientId)}
+                              onDiscard={() => outbox.discard(outboxEntry.clientId)}
+                            />
+                          ) : (
+                            <ReadStatus isRead={msg.isRead} readAt={msg.readAt} />
+                          )
                         )}
                       </div>
                     </div>
@@ -841,6 +1011,13 @@ export default function ChatPage() {
               </DialogContent>
             </Dialog>
             
+            <GameInviteDialog
+              open={showGameInvite}
+              onOpenChange={setShowGameInvite}
+              currentUser={currentUser}
+              onSend={sendPayload}
+            />
+            
             {/* Message input with improved UX */}
             <div className="p-4 border-t border-[#2D221C] flex items-center gap-2">
               <Button
@@ -851,6 +1028,15 @@ export default function ChatPage() {
               >
                 <ImageIcon className="h-5 w-5" />
               </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setShowGameInvite(true)}
+                className="text-gray-400 hover:text-white"
+                title="Invite to play"
+              >
+                <Gamepad2 className="h-5 w-5" />
+              </Button>
               
               <form 
                 className="flex-1 flex gap-2"
@@ -940,6 +1126,45 @@ export default function ChatPage() {
         </DialogContent>
       </Dialog>
       
+      {/* Edit Message Dialog */}
+      <Dialog open={!!messageToEdit} onOpenChange={(open) => !open && setMessageToEdit(null)}>
+        <DialogContent className="bg-[#1D1D1D] border-[#2D221C] text-white">
+          <DialogHeader>
+            <DialogTitle>Edit Message</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleEditMessage();
+            }}
+          >
+            <Input
+              value={editInput}
+              onChange={(e) => setEditInput(e.target.value)}
+              className="bg-[#2D221C] border-none"
+              maxLength={2000}
+              autoFocus
+            />
+            <DialogFooter className="mt-4">
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => setMessageToEdit(null)}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                className="bg-[#EC1146] hover:bg-[#EC1146]/90"
+                disabled={!editInput.trim()}
+              >
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete User Dialog */}
       <Dialog open={showDeleteUserDialog} onOpenChange={setShowDeleteUserDialog}>
         <DialogContent className="bg-[#1D1D1D] border-[#2D221C] text-white">
@@ -25,6 +25,12 @@ import { Card, CardContent } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useToast } from '@/hooks/use-toast';
 import { ImageUpload } from '@/components/image-upload';
+import { RegionPicker } from '@/components/region-picker';
+import { PrivacySettings } from '@/components/privacy-settings';
+import { AccountSettings } from '@/components/account-settings';
+import { TwoFactorSettings } from '@/components/two-factor-settings';
+import { GameProfilesEditor } from '@/components/game-profiles-editor';
+import { useUserGames, useUserGameActions } from '@/hooks/use-user-games';
 import { Badge } from '@/components/ui/badge';
 import { Search, Filter, ArrowUpDown, KeyRound } from 'lucide-react';
 import {
@@ -62,7 +68,6 @@ import { Check, ChevronsUpDown } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 const LANGUAGES = ['English', 'Spanish', 'Chinese', 'Japanese', 'Korean', 'Portuguese', 'Russian'];
-const REGIONS = ['North America', 'South America', 'Europe', 'Asia', 'Oceania'];
 
 // Game categories based on Games.json analysis
 const CATEGORIES = [
@@ -92,7 +97,7 @@ interface Game {
 
 // Password change form schema
 const passwordChangeSchema = z.object({
-  oldPassword: z.string().min(1, "Current password is required"),
+  currentPassword: z.string().min(1, "Current password is required"),
   newPassword: z.string().min(6, "New password must be at least 6 characters"),
 });
 
@@ -105,7 +110,6 @@ export default function EditCard() {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
   const [sortByDownloads, setSortByDownloads] = useState<'asc' | 'desc' | null>(null);
-  const [selectedGames, setSelectedGames] = useState<string[]>([]);
   const [currentPage, setCurrentPage] = useState(1);
   const [passwordDialogOpen, setPasswordDialogOpen] = useState(false);
   const itemsPerPage = 20;
@@ -197,13 +201,18 @@ export default function EditCard() {
     setSortByDownloads(null);
   };
 
-  // Toggle game selection
-  const toggleGameSelection = (game: string) => {
-    setSelectedGames(prev => 
-      prev.includes(game)
-        ? prev.filter(g => g !== game)
-        : [...prev, game]
-    );
+  // The games the user plays are their game profiles. Picking a game in the
+  // list adds a profile for it right away; unpicking it removes the profile.
+  const { profiles } = useUserGames(userId);
+  const gameActions = useUserGameActions(userId ?? 0);
+  const selectedGameIds = profiles.map(profile => profile.gameId);
+
+  const toggleGameSelection = (gameId: number) => {
+    if (selectedGameIds.includes(gameId)) {
+      gameActions.removeGame(gameId);
+    } else {
+      gameActions.save.mutate({ gameId, profile: { roles: [] } });
+    }
   };
   
   const form = useForm<Partial<InsertUser>>({
@@ -214,8 +223,7 @@ export default function EditCard() {
       language: '',
       region: '',
       currentGame: '',
-      currentGameId: '',
-      gamesPlayed: [],
+      currentGameHandle: '',
       profilePicture: '',
     },
   });
@@ -228,33 +236,12 @@ export default function EditCard() {
         language: userData.language,
         region: userData.region,
         currentGame: userData.currentGame,
-        currentGameId: userData.currentGameId,
+        currentGameHandle: userData.currentGameHandle,
         profilePicture: userData.profilePicture || '',
       });
-      
-      // Set selected games from user data
-      if (userData.gamesPlayed && Array.isArray(userData.gamesPlayed)) {
-        setSelectedGames(userData.gamesPlayed as string[]);
-      }
     }
   }, [userData, form]);
   
-  // Update the form when selectedGames changes
-  useEffect(() => {
-    form.setValue('gamesPlayed', selectedGames);
-  }, [selectedGames, form]);
-  
-  // When a current game is selected, update the currentGameId
-  useEffect(() => {
-    const currentGameName = form.getValues('currentGame');
-    if (currentGameName) {
-      const game = games.find(g => g.name === currentGameName);
-      if (game) {
-        form.setValue('currentGameId', game.id.toString());
-      }
-    }
-  }, [form.getValues('currentGame'), games, form]);
-  
   const updateUser = useMutation({
     mutationFn: async (data: Partial<InsertUser>) => {
       if (!userId) throw new Error('User not found');
@@ -301,7 +288,7 @@ export default function EditCard() {
   const passwordForm = useForm<PasswordChangeFormValues>({
     resolver: zodResolver(passwordChangeSchema),
     defaultValues: {
-      oldPassword: '',
+      currentPassword: '',
       newPassword: '',
     },
   });
@@ -310,7 +297,7 @@ export default function EditCard() {
   const changePassword = useMutation({
     mutationFn: async (data: PasswordChangeFormValues) => {
       if (!userId) throw new Error('User not found');
-      const res = await fetch(`/api/users/${userId}/change-password`, {
+      const res = await fetch('/api/account/change-password', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(data),
@@ -458,10 +445,10 @@ export default function EditCard() {
                 control={form.control}
                 name="region"
                 render={({ field }) => (
-                  <FormItem>
+                  <FormItem className="flex flex-col">
                     <FormLabel>Region</FormLabel>
                     <FormControl>
-                      <Input placeholder="Enter your region" {...field} />
+                      <RegionPicker value={field.value} onChange={field.onChange} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -488,165 +475,158 @@ export default function EditCard() {
             </div>
             
             <div>
-              <FormField
-                control={form.control}
-                name="gamesPlayed"
-                render={() => (
-                  <FormItem>
-                    <FormLabel>Games You Play</FormLabel>
-                    <Card>
-                      <CardContent className="p-4">
-                        {/* Search and filter bar */}
-                        <div className="flex space-x-2 mb-4">
-                          <div className="relative flex-1">
-                            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
-                            <Input
-                              placeholder="Search games..."
-                              className="pl-8"
-                              value={searchQuery}
-                              onChange={e => setSearchQuery(e.target.value)}
-                            />
-                          </div>
-                          
-                          {/* Categories filter dropdown */}
-                          <DropdownMenu>
-                            <DropdownMenuTrigger asChild>
-                              <Button variant="outline" size="icon">
-                                <Filter className="h-4 w-4" />
-                              </Button>
-                            </DropdownMenuTrigger>
-                            <DropdownMenuContent align="end" className="w-56">
-                              <DropdownMenuItem onSelect={e => e.preventDefault()}>
-                                <div className="font-medium">Categories</div>
-                              </DropdownMenuItem>
-                              <DropdownMenuSeparator />
-                              {CATEGORIES.map(category => (
-                                <DropdownMenuCheckboxItem
-                                  key={category}
-                                  checked={selectedCategories.includes(category)}
-                                  onCheckedChange={() => toggleCategory(category)}
-                                  onSelect={e => e.preventDefault()}
-                                >
-                                  {category}
-                                </DropdownMenuCheckboxItem>
-                              ))}
-                              <DropdownMenuSeparator />
-                              <DropdownMenuItem onSelect={clearFilters}>
-                                Clear filters
-                              </DropdownMenuItem>
-                            </DropdownMenuContent>
-                          </DropdownMenu>
-                          
-                          {/* Sort by downloads toggle */}
-                          <Button
-                            variant="outline"
-                            size="icon"
-                            onClick={toggleSortByDownloads}
-                            className={sortByDownloads ? "bg-secondary" : ""}
-                          >
-                            <ArrowUpDown className="h-4 w-4" />
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Games You Play</label>
+                <Card>
+                  <CardContent className="p-4">
+                    {/* Search and filter bar */}
+                    <div className="flex space-x-2 mb-4">
+                      <div className="relative flex-1">
+                        <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                        <Input
+                          placeholder="Search games..."
+                          className="pl-8"
+                          value={searchQuery}
+                          onChange={e => setSearchQuery(e.target.value)}
+                        />
+                      </div>
+                      
+                      {/* Categories filter dropdown */}
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="outline" size="icon">
+                            <Filter className="h-4 w-4" />
                           </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end" className="w-56">
+                          <DropdownMenuItem onSelect={e => e.preventDefault()}>
+                            <div className="font-medium">Categories</div>
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          {CATEGORIES.map(category => (
+                            <DropdownMenuCheckboxItem
+                              key={category}
+                              checked={selectedCategories.includes(category)}
+                              onCheckedChange={() => toggleCategory(category)}
+                              onSelect={e => e.preventDefault()}
+                            >
+                              {category}
+                            </DropdownMenuCheckboxItem>
+                          ))}
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem onSelect={clearFilters}>
+                            Clear filters
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                      
+                      {/* Sort by downloads toggle */}
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={toggleSortByDownloads}
+                        className={sortByDownloads ? "bg-secondary" : ""}
+                      >
+                        <ArrowUpDown className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    
+                    {/* Selected category badges */}
+                    {selectedCategories.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mb-4">
+                        {selectedCategories.map(category => (
+                          <Badge 
+                            key={category} 
+                            variant="secondary" 
+                            className="cursor-pointer" 
+                            onClick={() => toggleCategory(category)}
+                          >
+                            {category} ✕
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                    
+                    {/* Selected games */}
+                    {profiles.length > 0 && (
+                      <div className="mb-4">
+                        <h3 className="text-sm font-medium mb-2">Selected Games:</h3>
+                        <div className="flex flex-wrap gap-2">
+                          {profiles.map(profile => (
+                            <Badge 
+                              key={profile.gameId} 
+                              className="cursor-pointer" 
+                              onClick={() => toggleGameSelection(profile.gameId)}
+                            >
+                              {profile.gameName} ✕
+                            </Badge>
+                          ))}
                         </div>
-                        
-                        {/* Selected category badges */}
-                        {selectedCategories.length > 0 && (
-                          <div className="flex flex-wrap gap-2 mb-4">
-                            {selectedCategories.map(category => (
-                              <Badge 
-                                key={category} 
-                                variant="secondary" 
-                                className="cursor-pointer" 
-                                onClick={() => toggleCategory(category)}
-                              >
-                                {category} ✕
-                              </Badge>
-                            ))}
-                          </div>
-                        )}
-                        
-                        {/* Selected games */}
-                        {selectedGames.length > 0 && (
-                          <div className="mb-4">
-                            <h3 className="text-sm font-medium mb-2">Selected Games:</h3>
-                            <div className="flex flex-wrap gap-2">
-                              {selectedGames.map(game => (
-                                <Badge 
-                                  key={game} 
-                                  className="cursor-pointer" 
-                                  onClick={() => toggleGameSelection(game)}
-                                >
-                                  {game} ✕
-                                </Badge>
-                              ))}
-                            </div>
-                          </div>
-                        )}
-                        
-                        {/* Game list with scrolling */}
-                        {gamesLoading ? (
-                          <div className="py-8 text-center">Loading games...</div>
-                        ) : (
-                          <ScrollArea className="h-[300px]">
-                            <div className="space-y-2">
-                              {paginatedGames.map((game) => (
-                                <div 
-                                  key={game.id}
-                                  className={`p-2 rounded-md flex items-center justify-between cursor-pointer ${
-                                    selectedGames.includes(game.name) 
-                                      ? 'bg-primary/10' 
-                                      : 'hover:bg-muted'
-                                  }`}
-                                  onClick={() => toggleGameSelection(game.name)}
-                                >
-                                  <div>
-                                    <div className="font-medium">{game.name}</div>
-                                    <div className="text-xs text-muted-foreground flex gap-1 flex-wrap">
-                                      {game.categories.map(cat => (
-                                        <span key={cat} className="bg-muted px-1 rounded">
-                                          {cat}
-                                        </span>
-                                      ))}
-                                    </div>
-                                  </div>
-                                  <div className="text-xs text-muted-foreground">
-                                    {game.downloads.toLocaleString()} downloads
-                                  </div>
+                      </div>
+                    )}
+                    
+                    {/* Game list with scrolling */}
+                    {gamesLoading ? (
+                      <div className="py-8 text-center">Loading games...</div>
+                    ) : (
+                      <ScrollArea className="h-[300px]">
+                        <div className="space-y-2">
+                          {paginatedGames.map((game) => (
+                            <div 
+                              key={game.id}
+                              className={`p-2 rounded-md flex items-center justify-between cursor-pointer ${
+                                selectedGameIds.includes(game.id) 
+                                  ? 'bg-primary/10' 
+                                  : 'hover:bg-muted'
+                              }`}
+                              onClick={() => toggleGameSelection(game.id)}
+                            >
+                              <div>
+                                <div className="font-medium">{game.name}</div>
+                                <div className="text-xs text-muted-foreground flex gap-1 flex-wrap">
+                                  {game.categories.map(cat => (
+                                    <span key={cat} className="bg-muted px-1 rounded">
+                                      {cat}
+                                    </span>
+                                  ))}
                                 </div>
-                              ))}
+                              </div>
+                              <div className="text-xs text-muted-foreground">
+                                {game.downloads.toLocaleString()} downloads
+                              </div>
                             </div>
-                          </ScrollArea>
-                        )}
-                        
-                        {/* Pagination */}
-                        {totalPages > 1 && (
-                          <div className="flex justify-center mt-4 space-x-2">
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
-                              disabled={currentPage === 1}
-                            >
-                              Previous
-                            </Button>
-                            <span className="py-2 px-3">
-                              Page {currentPage} of {totalPages}
-                            </span>
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
-                              disabled={currentPage === totalPages}
-                            >
-                              Next
-                            </Button>
-                          </div>
-                        )}
-                      </CardContent>
-                    </Card>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+                          ))}
+                        </div>
+                      </ScrollArea>
+                    )}
+                    
+                    {/* Pagination */}
+                    {totalPages > 1 && (
+                      <div className="flex justify-center mt-4 space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
+                          disabled={currentPage === 1}
+                        >
+                          Previous
+                        </Button>
+                        <span className="py-2 px-3">
+                          Page {currentPage} of {totalPages}
+                        </span>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
+                          disabled={currentPage === totalPages}
+                        >
+                          Next
+                        </Button>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
               
               {/* Current Game and Game ID fields below the Games You Play card */}
               <div className="mt-6 space-y-4">
@@ -666,9 +646,9 @@ export default function EditCard() {
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          {selectedGames.map((game) => (
-                            <SelectItem key={game} value={game}>
-                              {game}
+                          {profiles.map((profile) => (
+                            <SelectItem key={profile.gameId} value={profile.gameName}>
+                              {profile.gameName}
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -680,7 +660,7 @@ export default function EditCard() {
                 
                 <FormField
                   control={form.control}
-                  name="currentGameId"
+                  name="currentGameHandle"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Game ID</FormLabel>
@@ -706,6 +686,30 @@ export default function EditCard() {
         </form>
       </Form>
       
+      {userData && (
+        <div className="mt-8">
+          <GameProfilesEditor userId={userData.id} />
+        </div>
+      )}
+      
+      {userData && (
+        <div className="mt-8">
+          <PrivacySettings user={userData} />
+        </div>
+      )}
+      
+      {userData && (
+        <div className="mt-8">
+          <TwoFactorSettings />
+        </div>
+      )}
+      
+      {userData && (
+        <div className="mt-8">
+          <AccountSettings user={userData} />
+        </div>
+      )}
+      
       {/* Password Change Dialog */}
       <Dialog open={passwordDialogOpen} onOpenChange={setPasswordDialogOpen}>
         <DialogContent className="sm:max-w-[425px]">
@@ -720,7 +724,7 @@ export default function EditCard() {
             <form onSubmit={passwordForm.handleSubmit(handlePasswordChange)} className="space-y-4 py-4">
               <FormField
                 control={passwordForm.control}
-                name="oldPassword"
+                name="currentPassword"
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Current Password</FormLabel>
@@ -1,6 +1,5 @@
-import { useState, useMemo, useEffect } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { User } from '@shared/schema';
+import { useState, useEffect } from 'react';
+import { Player, PlayerSort } from '@shared/schema';
 import { GamingCard } from '@/components/gaming-card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -19,33 +18,71 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { useLocation } from 'wouter';
 import { ExpandedUserCard } from '@/components/expanded-user-card';
+import { SuggestedTeammates } from '@/components/suggested-teammates';
+import { usePlayerSearch, usePlayerFilterOptions } from '@/hooks/use-players';
+import { apiRequest } from '@/lib/queryClient';
+
+// How long typing pauses before the search is sent
+const SEARCH_DEBOUNCE_MS = 300;
 
 export default function HomePage() {
-  const [sortBy, setSortBy] = useState<string>('recent');
+  const [sortBy, setSortBy] = useState<PlayerSort>('recent');
   const [selectedRegions, setSelectedRegions] = useState<string[]>([]);
   const [selectedLanguages, setSelectedLanguages] = useState<string[]>([]);
+  const [onlineOnly, setOnlineOnly] = useState(false);
   const [searchQuery, setSearchQuery] = useState<string>('');
-  const [showChatWith, setShowChatWith] = useState<User | null>(null);
+  const [debouncedQuery, setDebouncedQuery] = useState<string>('');
+  const [page, setPage] = useState(1);
+  const [showChatWith, setShowChatWith] = useState<Player | null>(null);
   const [showSearch, setShowSearch] = useState(false);
   const [showEditCard, setShowEditCard] = useState(false);
-  const [expandedUser, setExpandedUser] = useState<User | null>(null);
+  const [expandedUser, setExpandedUser] = useState<Player | null>(null);
   const [, setLocation] = useLocation();
   const [chatMinimized, setChatMinimized] = useState(false);
 
   const currentUser = JSON.parse(localStorage.getItem('user') || '{}');
 
-  const { data: users = [], isLoading } = useQuery<User[]>({
-    queryKey: ['/api/users'],
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  // Any change to the search starts again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedQuery, selectedRegions, selectedLanguages, onlineOnly, sortBy]);
+
+  const { data: playerPage, isLoading } = usePlayerSearch({
+    q: debouncedQuery,
+    regions: selectedRegions,
+    languages: selectedLanguages,
+    onlineOnly,
+    sort: sortBy,
+    page,
   });
+  const players = playerPage?.players ?? [];
+  const { regions, languages } = usePlayerFilterOptions();
+
+  // Opens a chat with someone who may not be on the current page of results
+  const openChatWith = async (userId: number) => {
+    const listed = players.find(player => player.id === userId);
+    if (listed) {
+      setShowChatWith(listed);
+      return;
+    }
+
+    try {
+      setShowChatWith(await apiRequest(`/api/users/${userId}`));
+    } catch (error) {
+      console.error('Could not open chat:', error);
+    }
+  };
 
   // Add event listener for chat events from search page
   useEffect(() => {
     const handleChatEvent = (event: Event) => {
       const { userId } = (event as CustomEvent).detail;
-      const userToChat = users.find(user => user.id === userId);
-      if (userToChat) {
-        setShowChatWith(userToChat);
-      }
+      openChatWith(userId);
     };
 
     window.addEventListener('openChat', handleChatEvent as EventListener);
@@ -53,71 +90,17 @@ export default function HomePage() {
     return () => {
       window.removeEventListener('openChat', handleChatEvent as EventListener);
     };
-  }, [users]);
+  }, [players]);
 
   // Check for chatWithUserId in sessionStorage
   useEffect(() => {
-    if (users.length && !isLoading) {
-      const chatWithUserId = sessionStorage.getItem('chatWithUserId');
-      if (chatWithUserId) {
-        const userToChat = users.find(user => user.id === parseInt(chatWithUserId));
-        if (userToChat) {
-          setShowChatWith(userToChat);
-          // Clear the sessionStorage after using it
-          sessionStorage.removeItem('chatWithUserId');
-        }
-      }
+    const chatWithUserId = sessionStorage.getItem('chatWithUserId');
+    if (chatWithUserId) {
+      // Clear the sessionStorage after using it
+      sessionStorage.removeItem('chatWithUserId');
+      openChatWith(parseInt(chatWithUserId));
     }
-  }, [users, isLoading]);
-
-  // Extract unique regions and languages
-  const { regions, languages } = useMemo(() => {
-    const regionsSet = new Set<string>();
-    const languagesSet = new Set<string>();
-    
-    users.forEach(user => {
-      if (user.region) regionsSet.add(user.region);
-      if (user.language) languagesSet.add(user.language);
-    });
-
-    return {
-      regions: Array.from(regionsSet).sort(),
-      languages: Array.from(languagesSet).sort(),
-    };
-  }, [users]);
-
-  const filteredUsers = users
-    .filter(user => user.id !== currentUser.id)
-    .filter(user => {
-      if (!searchQuery) return true;
-      const query = searchQuery.toLowerCase();
-      return (
-        user.username.toLowerCase().includes(query) ||
-        user.currentGame.toLowerCase().includes(query) ||
-        user.region.toLowerCase().includes(query) ||
-        user.language.toLowerCase().includes(query)
-      );
-    })
-    .filter(user => {
-      // If no regions selected, show all
-      if (selectedRegions.length === 0) return true;
-      return selectedRegions.includes(user.region);
-    })
-    .filter(user => {
-      // If no languages selected, show all
-      if (selectedLanguages.length === 0) return true;
-      return selectedLanguages.includes(user.language);
-    })
-    .sort((a, b) => {
-      switch (sortBy) {
-        case 'recent':
-          return new Date(b.lastActive).getTime() - new Date(a.lastActive).getTime();
-        case 'game':
-          return a.currentGame.localeCompare(b.currentGame);
-        default:
-          return 0;
-      }
-    });
+  }, []);
 
   if (isLoading) {
     return (
@@ -163,6 +146,12 @@ export default function HomePage() {
                 >
                   By Game
                 </DropdownMenuCheckboxItem>
+                <DropdownMenuCheckboxItem
+                  checked={sortBy === 'username'}
+                  onCheckedChange={() => setSortBy('username')}
+                >
+                  By Name
+                </DropdownMenuCheckboxItem>
               </DropdownMenuContent>
             </DropdownMenu>
 
@@ -236,6 +225,15 @@ export default function HomePage() {
               </DropdownMenuContent>
             </DropdownMenu>
 
+            {/* Online Filter */}
+            <Button
+              variant="outline"
+              className={`text-white hover:bg-[#2D221C]/90 ${onlineOnly ? 'bg-[#EC1146] hover:bg-[#EC1146]/90' : 'bg-[#2D221C]'}`}
+              onClick={() => setOnlineOnly(prev => !prev)}
+            >
+              Online Now
+            </Button>
+
             {/* Logout Button */}
             <Button
               variant="outline"
@@ -251,8 +249,23 @@ export default function HomePage() {
           </div>
         </div>
 
+        <SuggestedTeammates
+          onChatClick={player => setShowChatWith(player)}
+          onCardClick={player => setExpandedUser(player)}
+        />
+
+        <div className="relative mb-6">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-500" />
+          <Input
+            placeholder="Search players or games..."
+            value={searchQuery}
+            onChange={e => setSearchQuery(e.target.value)}
+            className="pl-10 bg-[#2D221C] border-none text-white"
+          />
+        </div>
+
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredUsers.map((user) => (
+          {players.map((user) => (
             <GamingCard
               key={user.id}
               user={user}
@@ -261,6 +274,34 @@ export default function HomePage() {
             />
           ))}
         </div>
+
+        {players.length === 0 && (
+          <div className="text-center text-gray-400 py-12">No players match your search.</div>
+        )}
+
+        {playerPage && playerPage.totalPages > 1 && (
+          <div className="flex justify-center items-center gap-2 mt-8">
+            <Button
+              variant="outline"
+              className="bg-[#2D221C] text-white hover:bg-[#2D221C]/90"
+              disabled={page === 1}
+              onClick={() => setPage(p => p - 1)}
+            >
+              Previous
+            </Button>
+            <span className="text-sm text-gray-400">
+              Page {page} of {playerPage.totalPages}
+            </span>
+            <Button
+              variant="outline"
+              className="bg-[#2D221C] text-white hover:bg-[#2D221C]/90"
+              disabled={page >= playerPage.totalPages}
+              onClick={() => setPage(p => p + 1)}
+            >
+              Next
+            </Button>
+          </div>
+        )}
       </div>
 
       {showChatWith && (
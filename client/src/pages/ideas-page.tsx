@@ -30,7 +30,7 @@ export default function IdeasPage() {
   const [page, setPage] = useState(1);
   const queryClient = useQueryClient();
   const [gameSearch, setGameSearch] = useState("");
-  const { user } = useAuth();
+  const { user, can } = useAuth();
 
   // Fetch games for the dropdown
   const { data: games } = useGames();
@@ -301,7 +301,7 @@ export default function IdeasPage() {
                       <ChevronDown className="h-4 w-4" />
                     )}
                   </Button>
-                  {user?.isAdmin && (
+                  {can("ideas:moderate") && (
                     <Button
                       variant="destructive"
                       size="sm"
@@ -320,7 +320,7 @@ export default function IdeasPage() {
                     <p className="text-xs text-muted-foreground">
                       Posted by {idea.creatorUsername} on {new Date(idea.createdAt).toLocaleDateString()}
                     </p>
-                    {user?.isAdmin && idea.gameContact && (
+                    {can("ideas:moderate") && idea.gameContact && (
                       <p className="text-xs text-muted-foreground">
                         Game Contact: {idea.gameContact}
                       </p>
@@ -0,0 +1,348 @@
+import { useState } from 'react';
+import { useLocation } from 'wouter';
+import { LFG_MAX_SLOTS, type InsertLfgPost, type LfgListing } from '@shared/schema';
+import { isRegion } from '@shared/regions';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { RegionPicker } from '@/components/region-picker';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/use-auth';
+import { useGames } from '@/hooks/use-games';
+import { useLfgActions, useLfgPosts, type LfgFilters } from '@/hooks/use-lfg';
+import { usePlayerFilterOptions } from '@/hooks/use-players';
+import { useToast } from '@/hooks/use-toast';
+import { Check, Clock, MessageCircle, Plus, Users, X } from 'lucide-react';
+
+// How long a new post stays up, in minutes
+const DURATIONS = [
+  { minutes: 30, label: '30 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 120, label: '2 hours' },
+  { minutes: 240, label: '4 hours' },
+  { minutes: 480, label: '8 hours' },
+  { minutes: 1440, label: '24 hours' },
+];
+
+// Select needs a value for "no filter"
+const ANY = 'any';
+
+function timeLeft(expiresAt: Date | string): string {
+  const minutes = Math.max(0, Math.round((new Date(expiresAt).getTime() - Date.now()) / 60000));
+  if (minutes < 60) return `${minutes}m left`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m left`;
+}
+
+function NewPostDialog() {
+  const { user } = useAuth();
+  const { data: games = [] } = useGames();
+  const { createPost } = useLfgActions();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [gameSearch, setGameSearch] = useState('');
+  const [gameId, setGameId] = useState<number | null>(null);
+  const [title, setTitle] = useState('');
+  const [region, setRegion] = useState(user && isRegion(user.region) ? user.region : '');
+  const [language, setLanguage] = useState(user?.language ?? '');
+  const [slots, setSlots] = useState(1);
+  const [skillNote, setSkillNote] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState(DURATIONS[2].minutes);
+
+  const filteredGames = games.filter(game =>
+    game.name.toLowerCase().includes(gameSearch.toLowerCase())
+  );
+
+  const handleSubmit = () => {
+    if (!gameId || !title.trim() || !region.trim() || !language.trim()) {
+      toast({
+        title: 'Error',
+        description: 'Please pick a game and fill in the title, region and language',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const post: InsertLfgPost = {
+      gameId,
+      title,
+      region,
+      language,
+      slots,
+      skillNote: skillNote || undefined,
+      durationMinutes,
+    };
+    createPost.mutate(post, {
+      onSuccess: () => {
+        setOpen(false);
+        setGameId(null);
+        setTitle('');
+        setSkillNote('');
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button className="bg-[#EC1146] hover:bg-[#EC1146]/90 text-white">
+          <Plus className="h-5 w-5 mr-2" />
+          Post LFG
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Looking for group</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 mt-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Game</label>
+            <Input
+              placeholder="Search games..."
+              value={gameSearch}
+              onChange={e => setGameSearch(e.target.value)}
+            />
+            <ScrollArea className="h-[120px] rounded-md border">
+              {filteredGames.map(game => (
+                <button
+                  key={game.id}
+                  type="button"
+                  className={`w-full px-3 py-1.5 text-left text-sm hover:bg-muted ${gameId === game.id ? 'bg-muted font-medium' : ''}`}
+                  onClick={() => setGameId(game.id)}
+                >
+                  {game.name}
+                </button>
+              ))}
+            </ScrollArea>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">What are you looking for?</label>
+            <Input
+              placeholder="e.g. Need 2 for ranked"
+              value={title}
+              onChange={e => setTitle(e.target.value)}
+              maxLength={120}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Region</label>
+              <RegionPicker value={region} onChange={setRegion} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Language</label>
+              <Input value={language} onChange={e => setLanguage(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Players needed</label>
+              <Select value={String(slots)} onValueChange={value => setSlots(parseInt(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: LFG_MAX_SLOTS }, (_, i) => i + 1).map(count => (
+                    <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Open for</label>
+              <Select value={String(durationMinutes)} onValueChange={value => setDurationMinutes(parseInt(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DURATIONS.map(({ minutes, label }) => (
+                    <SelectItem key={minutes} value={String(minutes)}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Skill level (optional)</label>
+            <Input
+              placeholder="e.g. Gold+, mic required"
+              value={skillNote}
+              onChange={e => setSkillNote(e.target.value)}
+              maxLength={200}
+            />
+          </div>
+          <Button className="w-full" onClick={handleSubmit} disabled={createPost.isPending}>
+            {createPost.isPending ? 'Posting...' : 'Post'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function LfgPostCard({ post, isOwn }: { post: LfgListing; isOwn: boolean }) {
+  const [, setLocation] = useLocation();
+  const { isUpdating, closePost, requestToJoin, withdrawRequest, acceptRequest, declineRequest } = useLfgActions();
+
+  const renderJoinAction = () => {
+    if (isOwn) {
+      return (
+        <Button variant="outline" size="sm" disabled={isUpdating} onClick={() => closePost(post.id)}>
+          Close
+        </Button>
+      );
+    }
+
+    switch (post.myRequest?.status) {
+      case 'pending':
+        return (
+          <Button variant="outline" size="sm" disabled={isUpdating} onClick={() => withdrawRequest(post.id)}>
+            Requested · Cancel
+          </Button>
+        );
+      case 'accepted':
+        return <span className="text-sm text-green-500">You're in</span>;
+      case 'declined':
+        return <span className="text-sm text-gray-400">Declined</span>;
+      default:
+        return (
+          <Button size="sm" disabled={isUpdating} onClick={() => requestToJoin(post.id)}>
+            Ask to join
+          </Button>
+        );
+    }
+  };
+
+  return (
+    <Card className="p-4 bg-[#2D221C] border-[#eb0028]/40 text-white">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-3 min-w-0">
+          <Avatar className="h-10 w-10">
+            <AvatarImage src={post.author.profilePicture || undefined} alt={post.author.username} />
+            <AvatarFallback>{post.author.username.charAt(0).toUpperCase()}</AvatarFallback>
+          </Avatar>
+          <div className="min-w-0">
+            <h3 className="font-semibold truncate">{post.title}</h3>
+            <p className="text-sm text-gray-400 truncate">
+              {post.gameName} · {post.region} · {post.language} · by {post.author.username}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {renderJoinAction()}
+        </div>
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-4 text-sm text-gray-300">
+        <span className="flex items-center gap-1">
+          <Users className="h-4 w-4" />
+          {post.acceptedCount}/{post.slots} joined
+        </span>
+        <span className="flex items-center gap-1">
+          <Clock className="h-4 w-4" />
+          {timeLeft(post.expiresAt)}
+        </span>
+        {post.skillNote && <span>{post.skillNote}</span>}
+        {post.groupId && (isOwn || post.myRequest?.status === 'accepted') && (
+          <Button variant="ghost" size="sm" className="gap-1" onClick={() => setLocation('/messages')}>
+            <MessageCircle className="h-4 w-4" />
+            Group chat
+          </Button>
+        )}
+      </div>
+
+      {isOwn && post.pendingRequests.length > 0 && (
+        <div className="mt-4 space-y-2 border-t border-white/10 pt-3">
+          <p className="text-xs uppercase tracking-wide text-gray-500">Join requests</p>
+          {post.pendingRequests.map(request => (
+            <div key={request.id} className="flex items-center gap-3">
+              <Avatar className="h-8 w-8">
+                <AvatarImage src={request.user.profilePicture || undefined} alt={request.user.username} />
+                <AvatarFallback>{request.user.username.charAt(0).toUpperCase()}</AvatarFallback>
+              </Avatar>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{request.user.username}</p>
+                {request.message && <p className="text-xs text-gray-400 truncate">{request.message}</p>}
+              </div>
+              <Button variant="ghost" size="icon" title="Accept" disabled={isUpdating} onClick={() => acceptRequest(post.id, request.id)}>
+                <Check className="h-4 w-4 text-green-500" />
+              </Button>
+              <Button variant="ghost" size="icon" title="Decline" disabled={isUpdating} onClick={() => declineRequest(post.id, request.id)}>
+                <X className="h-4 w-4 text-gray-400" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
+
+export default function LfgPage() {
+  const { user } = useAuth();
+  const { data: games = [] } = useGames();
+  const { regions, languages } = usePlayerFilterOptions();
+  const [filters, setFilters] = useState<LfgFilters>({ gameId: null, region: '', language: '' });
+  const { data: posts = [], isLoading } = useLfgPosts(user?.id, filters);
+
+  const renderFilter = (placeholder: string, value: string, options: { value: string; label: string }[], onChange: (value: string) => void) => (
+    <Select value={value || ANY} onValueChange={v => onChange(v === ANY ? '' : v)}>
+      <SelectTrigger className="w-[180px] bg-[#2D221C] text-white border-none">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY}>{placeholder}</SelectItem>
+        {options.map(option => (
+          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="min-h-screen bg-[#0f0f0f] text-white pl-16">
+      <div className="max-w-4xl mx-auto p-4">
+        <div className="flex items-center justify-between py-6 mb-2">
+          <h1 className="text-2xl font-bold">Looking for group</h1>
+          <NewPostDialog />
+        </div>
+
+        <div className="flex flex-wrap gap-3 mb-6">
+          {renderFilter(
+            'All games',
+            filters.gameId ? String(filters.gameId) : '',
+            games.map(game => ({ value: String(game.id), label: game.name })),
+            value => setFilters(prev => ({ ...prev, gameId: value ? parseInt(value) : null }))
+          )}
+          {renderFilter(
+            'All regions',
+            filters.region,
+            regions.map(region => ({ value: region, label: region })),
+            region => setFilters(prev => ({ ...prev, region }))
+          )}
+          {renderFilter(
+            'All languages',
+            filters.language,
+            languages.map(language => ({ value: language, label: language })),
+            language => setFilters(prev => ({ ...prev, language }))
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="text-center text-gray-400 py-12">Loading...</div>
+        ) : posts.length === 0 ? (
+          <div className="text-center text-gray-400 py-12">
+            <p>No open posts right now.</p>
+            <p className="text-sm mt-1">Post one and players will ask to join.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {posts.map(post => (
+              <LfgPostCard key={post.id} post={post} isOwn={post.userId === user?.id} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
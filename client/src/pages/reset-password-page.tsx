@@ -0,0 +1,116 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { PASSWORD_MIN_LENGTH } from '@shared/schema';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+
+const resetSchema = z.object({
+  newPassword: z.string().min(PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters`),
+  confirmPassword: z.string(),
+}).refine(data => data.newPassword === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ['confirmPassword'],
+});
+
+type ResetFormData = z.infer<typeof resetSchema>;
+
+// Opened from the link in a password reset email
+export default function ResetPasswordPage() {
+  const { toast } = useToast();
+  const token = new URLSearchParams(window.location.search).get('token') ?? '';
+
+  const form = useForm<ResetFormData>({
+    resolver: zodResolver(resetSchema),
+    defaultValues: {
+      newPassword: '',
+      confirmPassword: '',
+    },
+  });
+
+  const handleReset = async (data: ResetFormData) => {
+    try {
+      const response = await fetch('/api/account/password-reset/confirm', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, newPassword: data.newPassword }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to reset password');
+      }
+
+      toast({
+        title: 'Password Reset',
+        description: result.message,
+      });
+      window.location.href = '/auth';
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0f0f0f] flex items-center justify-center p-4">
+      <Card className="w-full max-w-md bg-[#0f0f0f] text-white border border-[#eb0028]">
+        <CardContent className="p-6">
+          <h1 className="text-2xl font-bold mb-6 text-center">Choose a new password</h1>
+
+          <Form {...form}>
+            <form className="space-y-4" onSubmit={form.handleSubmit(handleReset)}>
+              <FormField
+                control={form.control}
+                name="newPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>New Password</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="password" placeholder="Enter a new password" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="confirmPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Confirm Password</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="password" placeholder="Enter it again" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <Button
+                type="submit"
+                className="w-full bg-[#eb0028] hover:bg-[#eb0028]/90 text-white"
+                disabled={form.formState.isSubmitting}
+              >
+                Reset Password
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -21,6 +21,7 @@ import { useQuery } from '@tanstack/react-query';
 import { ExpandedGameCard } from '@/components/expanded-game-card';
 import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/hooks/use-auth';
+import { useGamePlayers } from '@/hooks/use-players';
 
 // Game categories based on our Games.json analysis
 const CATEGORIES = [
@@ -59,7 +60,8 @@ export default function SearchPage() {
   const itemsPerPage = 20;
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const { user: currentUser, isAdmin } = useAuth();
+  const { user: currentUser, can } = useAuth();
+  const canWriteGames = can('games:write');
 
   // Fetch users data
   const { data: users = [] } = useQuery<User[]>({
@@ -185,26 +187,22 @@ export default function SearchPage() {
   };
 
   // Get users who have the selected game
-  const getUsersWithGame = (gameName: string) => {
-    return users.filter(user => 
-      (user.gamesPlayed as string[]).includes(gameName) || 
-      user.currentGame === gameName
+  const gamePlayers = useGamePlayers(selectedGame?.id);
+  const getUsersWithGame = (game: Game) => {
+    const playerIds = new Set(gamePlayers.map(player => player.id));
+    return users.filter(user =>
+      playerIds.has(user.id) ||
+      user.currentGame === game.name
     );
   };
 
   // Handle game deletion
   const handleDeleteGame = async (gameId: number, gameName: string) => {
-    if (!currentUser || !isAdmin) return;
+    if (!currentUser || !canWriteGames) return;
     
     try {
       const response = await fetch(`/api/admin/games/${gameId}`, {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          userId: currentUser.id // For admin verification
-        })
+        method: 'DELETE'
       });
       
       if (!response.ok) {
@@ -347,7 +345,7 @@ export default function SearchPage() {
                     <CardContent className="p-5">
                       <div className="flex justify-between items-start mb-2">
                         <h3 className="text-lg font-bold text-white truncate pr-2">{game.name}</h3>
-                        {isAdmin && (
+                        {canWriteGames && (
                           <Button
                             variant="ghost"
                             size="icon"
@@ -425,7 +423,7 @@ export default function SearchPage() {
       {selectedGame && (
         <ExpandedGameCard
           game={selectedGame}
-          users={getUsersWithGame(selectedGame.name)}
+          users={getUsersWithGame(selectedGame)}
           onClose={handleCloseGameCard}
           onChatClick={handleUserSelect}
           onGameDeleted={() => {
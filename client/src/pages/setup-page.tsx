@@ -26,6 +26,7 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
 import { ImageUpload } from '@/components/image-upload';
+import { RegionPicker } from '@/components/region-picker';
 import { Badge } from '@/components/ui/badge';
 import { Search, Filter, ArrowUpDown } from 'lucide-react';
 import {
@@ -53,7 +54,6 @@ import { Check, ChevronsUpDown } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 const LANGUAGES = ['English', 'Spanish', 'Chinese', 'Japanese', 'Korean', 'Portuguese', 'Russian'];
-const REGIONS = ['North America', 'South America', 'Europe', 'Asia', 'Oceania'];
 
 // Game categories based on Games.json analysis
 const CATEGORIES = [
@@ -87,7 +87,7 @@ export default function SetupPage() {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
   const [sortByDownloads, setSortByDownloads] = useState<'asc' | 'desc' | null>(null);
-  const [selectedGames, setSelectedGames] = useState<string[]>([]);
+  const [selectedGameIds, setSelectedGameIds] = useState<number[]>([]);
   const [currentPage, setCurrentPage] = useState(1);
   const [openLanguage, setOpenLanguage] = useState(false);
   const itemsPerPage = 20;
@@ -178,14 +178,16 @@ export default function SetupPage() {
   };
 
   // Toggle game selection
-  const toggleGameSelection = (game: string) => {
-    setSelectedGames(prev => 
-      prev.includes(game)
-        ? prev.filter(g => g !== game)
-        : [...prev, game]
+  const toggleGameSelection = (gameId: number) => {
+    setSelectedGameIds(prev => 
+      prev.includes(gameId)
+        ? prev.filter(id => id !== gameId)
+        : [...prev, gameId]
     );
   };
 
+  const selectedGames = games.filter(game => selectedGameIds.includes(game.id));
+
   const form = useForm<InsertUser>({
     resolver: zodResolver(insertUserSchema),
     defaultValues: {
@@ -194,8 +196,7 @@ export default function SetupPage() {
       language: '',
       region: '',
       currentGame: '',
-      currentGameId: '',
-      gamesPlayed: [],
+      currentGameHandle: '',
     },
   });
 
@@ -209,22 +210,6 @@ export default function SetupPage() {
     }
   }, [form]);
 
-  // Update the form when selectedGames changes
-  useEffect(() => {
-    form.setValue('gamesPlayed', selectedGames);
-  }, [selectedGames, form]);
-
-  // When a current game is selected, update the currentGameId
-  useEffect(() => {
-    const currentGameName = form.getValues('currentGame');
-    if (currentGameName) {
-      const game = games.find(g => g.name === currentGameName);
-      if (game) {
-        form.setValue('currentGameId', game.id.toString());
-      }
-    }
-  }, [form.getValues('currentGame'), games, form]);
-
   const setupMutation = useMutation({
     mutationFn: async (data: InsertUser) => {
       console.log('Submitting user setup data:', data);
@@ -232,7 +217,8 @@ export default function SetupPage() {
         const response = await fetch('/api/signup', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(data)
+          // Picked games become game profiles once the account exists
+          body: JSON.stringify({ ...data, gameIds: selectedGames.map(game => game.id) })
         });
         
         if (!response.ok) {
@@ -373,10 +359,10 @@ export default function SetupPage() {
                 control={form.control}
                 name="region"
                 render={({ field }) => (
-                  <FormItem>
+                  <FormItem className="flex flex-col">
                     <FormLabel>Region</FormLabel>
                     <FormControl>
-                      <Input placeholder="Enter your region" {...field} />
+                      <RegionPicker value={field.value} onChange={field.onChange} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -403,165 +389,158 @@ export default function SetupPage() {
             </div>
             
             <div>
-              <FormField
-                control={form.control}
-                name="gamesPlayed"
-                render={() => (
-                  <FormItem>
-                    <FormLabel>Games You Play</FormLabel>
-                    <Card>
-                      <CardContent className="p-4">
-                        {/* Search and filter bar */}
-                        <div className="flex space-x-2 mb-4">
-                          <div className="relative flex-1">
-                            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
-                            <Input
-                              placeholder="Search games..."
-                              className="pl-8"
-                              value={searchQuery}
-                              onChange={e => setSearchQuery(e.target.value)}
-                            />
-                          </div>
-                          
-                          {/* Categories filter dropdown */}
-                          <DropdownMenu>
-                            <DropdownMenuTrigger asChild>
-                              <Button variant="outline" size="icon">
-                                <Filter className="h-4 w-4" />
-                              </Button>
-                            </DropdownMenuTrigger>
-                            <DropdownMenuContent align="end" className="w-56">
-                              <DropdownMenuItem onSelect={e => e.preventDefault()}>
-                                <div className="font-medium">Categories</div>
-                              </DropdownMenuItem>
-                              <DropdownMenuSeparator />
-                              {CATEGORIES.map(category => (
-                                <DropdownMenuCheckboxItem
-                                  key={category}
-                                  checked={selectedCategories.includes(category)}
-                                  onCheckedChange={() => toggleCategory(category)}
-                                  onSelect={e => e.preventDefault()}
-                                >
-                                  {category}
-                                </DropdownMenuCheckboxItem>
-                              ))}
-                              <DropdownMenuSeparator />
-                              <DropdownMenuItem onSelect={clearFilters}>
-                                Clear filters
-                              </DropdownMenuItem>
-                            </DropdownMenuContent>
-                          </DropdownMenu>
-                          
-                          {/* Sort by downloads toggle */}
-                          <Button
-                            variant="outline"
-                            size="icon"
-                            onClick={toggleSortByDownloads}
-                            className={sortByDownloads ? "bg-secondary" : ""}
-                          >
-                            <ArrowUpDown className="h-4 w-4" />
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Games You Play</label>
+                <Card>
+                  <CardContent className="p-4">
+                    {/* Search and filter bar */}
+                    <div className="flex space-x-2 mb-4">
+                      <div className="relative flex-1">
+                        <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                        <Input
+                          placeholder="Search games..."
+                          className="pl-8"
+                          value={searchQuery}
+                          onChange={e => setSearchQuery(e.target.value)}
+                        />
+                      </div>
+                      
+                      {/* Categories filter dropdown */}
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="outline" size="icon">
+                            <Filter className="h-4 w-4" />
                           </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end" className="w-56">
+                          <DropdownMenuItem onSelect={e => e.preventDefault()}>
+                            <div className="font-medium">Categories</div>
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          {CATEGORIES.map(category => (
+                            <DropdownMenuCheckboxItem
+                              key={category}
+                              checked={selectedCategories.includes(category)}
+                              onCheckedChange={() => toggleCategory(category)}
+                              onSelect={e => e.preventDefault()}
+                            >
+                              {category}
+                            </DropdownMenuCheckboxItem>
+                          ))}
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem onSelect={clearFilters}>
+                            Clear filters
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                      
+                      {/* Sort by downloads toggle */}
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={toggleSortByDownloads}
+                        className={sortByDownloads ? "bg-secondary" : ""}
+                      >
+                        <ArrowUpDown className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    
+                    {/* Selected category badges */}
+                    {selectedCategories.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mb-4">
+                        {selectedCategories.map(category => (
+                          <Badge 
+                            key={category} 
+                            variant="secondary" 
+                            className="cursor-pointer" 
+                            onClick={() => toggleCategory(category)}
+                          >
+                            {category} ✕
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                    
+                    {/* Selected games */}
+                    {selectedGames.length > 0 && (
+                      <div className="mb-4">
+                        <h3 className="text-sm font-medium mb-2">Selected Games:</h3>
+                        <div className="flex flex-wrap gap-2">
+                          {selectedGames.map(game => (
+                            <Badge 
+                              key={game.id} 
+                              className="cursor-pointer" 
+                              onClick={() => toggleGameSelection(game.id)}
+                            >
+                              {game.name} ✕
+                            </Badge>
+                          ))}
                         </div>
-                        
-                        {/* Selected category badges */}
-                        {selectedCategories.length > 0 && (
-                          <div className="flex flex-wrap gap-2 mb-4">
-                            {selectedCategories.map(category => (
-                              <Badge 
-                                key={category} 
-                                variant="secondary" 
-                                className="cursor-pointer" 
-                                onClick={() => toggleCategory(category)}
-                              >
-                                {category} ✕
-                              </Badge>
-                            ))}
-                          </div>
-                        )}
-                        
-                        {/* Selected games */}
-                        {selectedGames.length > 0 && (
-                          <div className="mb-4">
-                            <h3 className="text-sm font-medium mb-2">Selected Games:</h3>
-                            <div className="flex flex-wrap gap-2">
-                              {selectedGames.map(game => (
-                                <Badge 
-                                  key={game} 
-                                  className="cursor-pointer" 
-                                  onClick={() => toggleGameSelection(game)}
-                                >
-                                  {game} ✕
-                                </Badge>
-                              ))}
-                            </div>
-                          </div>
-                        )}
-                        
-                        {/* Game list with scrolling */}
-                        {gamesLoading ? (
-                          <div className="py-8 text-center">Loading games...</div>
-                        ) : (
-                          <ScrollArea className="h-[300px]">
-                            <div className="space-y-2">
-                              {paginatedGames.map((game) => (
-                                <div 
-                                  key={game.id}
-                                  className={`p-2 rounded-md flex items-center justify-between cursor-pointer ${
-                                    selectedGames.includes(game.name) 
-                                      ? 'bg-primary/10' 
-                                      : 'hover:bg-muted'
-                                  }`}
-                                  onClick={() => toggleGameSelection(game.name)}
-                                >
-                                  <div>
-                                    <div className="font-medium">{game.name}</div>
-                                    <div className="text-xs text-muted-foreground flex gap-1 flex-wrap">
-                                      {game.categories.map(cat => (
-                                        <span key={cat} className="bg-muted px-1 rounded">
-                                          {cat}
-                                        </span>
-                                      ))}
-                                    </div>
-                                  </div>
-                                  <div className="text-xs text-muted-foreground">
-                                    {game.downloads.toLocaleString()} downloads
-                                  </div>
+                      </div>
+                    )}
+                    
+                    {/* Game list with scrolling */}
+                    {gamesLoading ? (
+                      <div className="py-8 text-center">Loading games...</div>
+                    ) : (
+                      <ScrollArea className="h-[300px]">
+                        <div className="space-y-2">
+                          {paginatedGames.map((game) => (
+                            <div 
+                              key={game.id}
+                              className={`p-2 rounded-md flex items-center justify-between cursor-pointer ${
+                                selectedGameIds.includes(game.id) 
+                                  ? 'bg-primary/10' 
+                                  : 'hover:bg-muted'
+                              }`}
+                              onClick={() => toggleGameSelection(game.id)}
+                            >
+                              <div>
+                                <div className="font-medium">{game.name}</div>
+                                <div className="text-xs text-muted-foreground flex gap-1 flex-wrap">
+                                  {game.categories.map(cat => (
+                                    <span key={cat} className="bg-muted px-1 rounded">
+                                      {cat}
+                                    </span>
+                                  ))}
                                 </div>
-                              ))}
+                              </div>
+                              <div className="text-xs text-muted-foreground">
+                                {game.downloads.toLocaleString()} downloads
+                              </div>
                             </div>
-                          </ScrollArea>
-                        )}
-                        
-                        {/* Pagination */}
-                        {totalPages > 1 && (
-                          <div className="flex justify-center mt-4 space-x-2">
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
-                              disabled={currentPage === 1}
-                            >
-                              Previous
-                            </Button>
-                            <span className="py-2 px-3">
-                              Page {currentPage} of {totalPages}
-                            </span>
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
-                              disabled={currentPage === totalPages}
-                            >
-                              Next
-                            </Button>
-                          </div>
-                        )}
-                      </CardContent>
-                    </Card>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+                          ))}
+                        </div>
+                      </ScrollArea>
+                    )}
+                    
+                    {/* Pagination */}
+                    {totalPages > 1 && (
+                      <div className="flex justify-center mt-4 space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
+                          disabled={currentPage === 1}
+                        >
+                          Previous
+                        </Button>
+                        <span className="py-2 px-3">
+                          Page {currentPage} of {totalPages}
+                        </span>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
+                          disabled={currentPage === totalPages}
+                        >
+                          Next
+                        </Button>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
               
               {/* Current Game and Game ID fields below the Games You Play card */}
               <div className="mt-6 space-y-4">
@@ -582,8 +561,8 @@ export default function SetupPage() {
                         </FormControl>
                         <SelectContent>
                           {selectedGames.map((game) => (
-                            <SelectItem key={game} value={game}>
-                              {game}
+                            <SelectItem key={game.id} value={game.name}>
+                              {game.name}
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -595,7 +574,7 @@ export default function SetupPage() {
                 
                 <FormField
                   control={form.control}
-                  name="currentGameId"
+                  name="currentGameHandle"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Game ID</FormLabel>
@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+
+type VerifyState = 'verifying' | 'verified' | 'failed';
+
+// Opened from the link in a verification email
+export default function VerifyEmailPage() {
+  const [state, setState] = useState<VerifyState>('verifying');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get('token') ?? '';
+    fetch('/api/account/email/verify', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token }),
+    })
+      .then(async (response) => {
+        const result = await response.json();
+        setState(response.ok ? 'verified' : 'failed');
+        setMessage(result.message);
+      })
+      .catch(() => {
+        setState('failed');
+        setMessage('Failed to verify email');
+      });
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-[#0f0f0f] flex items-center justify-center p-4">
+      <Card className="w-full max-w-md bg-[#0f0f0f] text-white border border-[#eb0028]">
+        <CardContent className="p-6 text-center space-y-4">
+          <h1 className="text-2xl font-bold">
+            {state === 'verifying' ? 'Verifying your email...' : state === 'verified' ? 'Email verified' : "Couldn't verify your email"}
+          </h1>
+          {message && <p className="text-gray-400">{message}</p>}
+          {state !== 'verifying' && (
+            <Button
+              className="bg-[#eb0028] hover:bg-[#eb0028]/90 text-white"
+              onClick={() => { window.location.href = '/'; }}
+            >
+              Continue to Playsphere
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/hooks/use-auth';
+import { useUserGames } from '@/hooks/use-user-games';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -21,6 +22,8 @@ interface Video {
 
 export default function WatchPage() {
   const { user } = useAuth();
+  const { profiles } = useUserGames(user?.id);
+  const gameNames = profiles.map(profile => profile.gameName);
   const [selectedGame, setSelectedGame] = useState<string | null>(null);
   const [videos, setVideos] = useState<Video[]>([]);
 
@@ -74,7 +77,7 @@ export default function WatchPage() {
       <h1 className="text-2xl font-bold mb-4">Watch Game Videos</h1>
       
       <div className="flex flex-wrap gap-2 mb-6">
-        {user.gamesPlayed?.map((game) => (
+        {gameNames.map((game) => (
           <Button
             key={game}
             variant={selectedGame === game ? "default" : "outline"}
@@ -84,7 +87,7 @@ export default function WatchPage() {
             {game} {game === user.currentGame && '(Current)'}
           </Button>
         ))}
-        {(!user.gamesPlayed || user.gamesPlayed.length === 0) && (
+        {gameNames.length === 0 && (
           <p className="text-muted-foreground">No games added to your profile yet. Add games from your profile page.</p>
         )}
       </div>
@@ -0,0 +1,3 @@
+ALTER TABLE "users" ADD COLUMN "role" text DEFAULT 'member' NOT NULL;--> statement-breakpoint
+UPDATE "users" SET "role" = 'admin' WHERE "isAdmin" = true;--> statement-breakpoint
+ALTER TABLE "users" DROP COLUMN "isAdmin";
@@ -0,0 +1,2 @@
+CREATE INDEX "messages_group_id_idx" ON "messages" USING btree ("groupId","id");--> statement-breakpoint
+CREATE INDEX "messages_conversation_idx" ON "messages" USING btree ("fromUserId","toUserId","id");
\ No newline at end of file
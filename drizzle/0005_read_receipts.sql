@@ -0,0 +1 @@
+ALTER TABLE "group_members" ADD COLUMN "lastReadMessageId" integer;
\ No newline at end of file
@@ -0,0 +1,3 @@
+-- Nothing set read state before read receipts existed. Treat existing history as read so unread counts start from zero.
+UPDATE "messages" SET "isRead" = true WHERE "groupId" IS NULL AND "isRead" = false;--> statement-breakpoint
+UPDATE "group_members" SET "lastReadMessageId" = (SELECT max("id") FROM "messages" WHERE "messages"."groupId" = "group_members"."groupId") WHERE "lastReadMessageId" IS NULL;
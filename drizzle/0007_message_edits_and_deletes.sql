@@ -0,0 +1,21 @@
+CREATE TABLE "cleared_chats" (
+	"userId" integer NOT NULL,
+	"otherUserId" integer NOT NULL,
+	"clearedUpToId" integer NOT NULL,
+	"clearedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "cleared_chats_userId_otherUserId_pk" PRIMARY KEY("userId","otherUserId")
+);
+--> statement-breakpoint
+CREATE TABLE "message_edits" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"messageId" integer NOT NULL,
+	"content" text NOT NULL,
+	"editedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "editedAt" timestamp;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "deletedAt" timestamp;--> statement-breakpoint
+ALTER TABLE "cleared_chats" ADD CONSTRAINT "cleared_chats_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cleared_chats" ADD CONSTRAINT "cleared_chats_otherUserId_users_id_fk" FOREIGN KEY ("otherUserId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_edits" ADD CONSTRAINT "message_edits_messageId_messages_id_fk" FOREIGN KEY ("messageId") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "message_edits_message_id_idx" ON "message_edits" USING btree ("messageId");
\ No newline at end of file
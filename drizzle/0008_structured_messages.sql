@@ -0,0 +1,3 @@
+ALTER TABLE "messages" ADD COLUMN "payload" json;--> statement-breakpoint
+-- Images used to be sent as markdown in "content"; move them to image payloads
+UPDATE "messages" SET "type" = 'image', "payload" = json_build_object('type', 'image', 'url', substring("content" from '^!\[image\]\((.*)\)$')), "content" = '' WHERE "content" ~ '^!\[image\]\(.*\)$';
@@ -0,0 +1,2 @@
+ALTER TABLE "messages" ADD COLUMN "clientId" text;--> statement-breakpoint
+CREATE UNIQUE INDEX "messages_client_id_idx" ON "messages" USING btree ("fromUserId","clientId");
\ No newline at end of file
@@ -0,0 +1,25 @@
+CREATE TABLE "friendships" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"requesterId" integer NOT NULL,
+	"addresseeId" integer NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"acceptedAt" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "user_blocks" (
+	"blockerId" integer NOT NULL,
+	"blockedId" integer NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "user_blocks_blockerId_blockedId_pk" PRIMARY KEY("blockerId","blockedId")
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "messagePrivacy" text DEFAULT 'everyone' NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "gameIdPrivacy" text DEFAULT 'everyone' NOT NULL;--> statement-breakpoint
+ALTER TABLE "friendships" ADD CONSTRAINT "friendships_requesterId_users_id_fk" FOREIGN KEY ("requesterId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "friendships" ADD CONSTRAINT "friendships_addresseeId_users_id_fk" FOREIGN KEY ("addresseeId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_blocks" ADD CONSTRAINT "user_blocks_blockerId_users_id_fk" FOREIGN KEY ("blockerId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_blocks" ADD CONSTRAINT "user_blocks_blockedId_users_id_fk" FOREIGN KEY ("blockedId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "friendships_pair_idx" ON "friendships" USING btree (LEAST("requesterId", "addresseeId"),GREATEST("requesterId", "addresseeId"));--> statement-breakpoint
+CREATE INDEX "friendships_addressee_idx" ON "friendships" USING btree ("addresseeId");--> statement-breakpoint
+CREATE INDEX "user_blocks_blocked_idx" ON "user_blocks" USING btree ("blockedId");
\ No newline at end of file
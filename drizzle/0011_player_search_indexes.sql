@@ -0,0 +1,9 @@
+-- Player search matches substrings of usernames and games through trigram indexes.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;--> statement-breakpoint
+CREATE INDEX "users_region_idx" ON "users" USING btree ("region");--> statement-breakpoint
+CREATE INDEX "users_language_idx" ON "users" USING btree ("language");--> statement-breakpoint
+CREATE INDEX "users_current_game_idx" ON "users" USING btree ("currentGame");--> statement-breakpoint
+CREATE INDEX "users_last_active_idx" ON "users" USING btree ("lastActive");--> statement-breakpoint
+CREATE INDEX "users_games_played_idx" ON "users" USING gin (("gamesPlayed"::jsonb));--> statement-breakpoint
+CREATE INDEX "users_username_trgm_idx" ON "users" USING gin ("username" gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX "users_current_game_trgm_idx" ON "users" USING gin ("currentGame" gin_trgm_ops);
\ No newline at end of file
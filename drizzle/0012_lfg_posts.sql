@@ -0,0 +1,33 @@
+CREATE TABLE "lfg_join_requests" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"postId" integer NOT NULL,
+	"userId" integer NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"message" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"respondedAt" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "lfg_posts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"userId" integer NOT NULL,
+	"gameId" integer NOT NULL,
+	"title" text NOT NULL,
+	"region" text NOT NULL,
+	"language" text NOT NULL,
+	"slots" integer NOT NULL,
+	"skillNote" text,
+	"groupId" integer,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"expiresAt" timestamp NOT NULL,
+	"closedAt" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "lfg_join_requests" ADD CONSTRAINT "lfg_join_requests_postId_lfg_posts_id_fk" FOREIGN KEY ("postId") REFERENCES "public"."lfg_posts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lfg_join_requests" ADD CONSTRAINT "lfg_join_requests_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lfg_posts" ADD CONSTRAINT "lfg_posts_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lfg_posts" ADD CONSTRAINT "lfg_posts_gameId_games_id_fk" FOREIGN KEY ("gameId") REFERENCES "public"."games"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lfg_posts" ADD CONSTRAINT "lfg_posts_groupId_group_chats_id_fk" FOREIGN KEY ("groupId") REFERENCES "public"."group_chats"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "lfg_join_requests_post_user_idx" ON "lfg_join_requests" USING btree ("postId","userId");--> statement-breakpoint
+CREATE INDEX "lfg_posts_expires_at_idx" ON "lfg_posts" USING btree ("expiresAt");--> statement-breakpoint
+CREATE INDEX "lfg_posts_game_idx" ON "lfg_posts" USING btree ("gameId");
\ No newline at end of file
@@ -0,0 +1,29 @@
+CREATE TABLE "play_session_rsvps" (
+	"sessionId" integer NOT NULL,
+	"userId" integer NOT NULL,
+	"response" text NOT NULL,
+	"respondedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "play_session_rsvps_sessionId_userId_pk" PRIMARY KEY("sessionId","userId")
+);
+--> statement-breakpoint
+CREATE TABLE "play_sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"groupId" integer NOT NULL,
+	"createdBy" integer NOT NULL,
+	"gameId" integer NOT NULL,
+	"title" text NOT NULL,
+	"startsAt" timestamp NOT NULL,
+	"timeZone" text NOT NULL,
+	"durationMinutes" integer NOT NULL,
+	"maxParticipants" integer,
+	"reminderSentAt" timestamp,
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "play_session_rsvps" ADD CONSTRAINT "play_session_rsvps_sessionId_play_sessions_id_fk" FOREIGN KEY ("sessionId") REFERENCES "public"."play_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "play_session_rsvps" ADD CONSTRAINT "play_session_rsvps_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "play_sessions" ADD CONSTRAINT "play_sessions_groupId_group_chats_id_fk" FOREIGN KEY ("groupId") REFERENCES "public"."group_chats"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "play_sessions" ADD CONSTRAINT "play_sessions_createdBy_users_id_fk" FOREIGN KEY ("createdBy") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "play_sessions" ADD CONSTRAINT "play_sessions_gameId_games_id_fk" FOREIGN KEY ("gameId") REFERENCES "public"."games"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "play_sessions_group_starts_at_idx" ON "play_sessions" USING btree ("groupId","startsAt");--> statement-breakpoint
+CREATE INDEX "play_sessions_starts_at_idx" ON "play_sessions" USING btree ("startsAt");
\ No newline at end of file
@@ -0,0 +1,152 @@
+-- Regions used to be free text. Map the spellings we recognise (any case, ISO codes, common aliases) onto the canonical names in shared/regions.ts; anything else is left for its owner to pick again.
+UPDATE "users" SET "region" = "r"."name" FROM (VALUES
+  ('argentina', 'Argentina'),
+  ('australia (eastern)', 'Australia (Eastern)'),
+  ('australia (central)', 'Australia (Central)'),
+  ('australia (western)', 'Australia (Western)'),
+  ('austria', 'Austria'),
+  ('bangladesh', 'Bangladesh'),
+  ('belgium', 'Belgium'),
+  ('brazil', 'Brazil'),
+  ('bulgaria', 'Bulgaria'),
+  ('canada (eastern)', 'Canada (Eastern)'),
+  ('canada (central)', 'Canada (Central)'),
+  ('canada (mountain)', 'Canada (Mountain)'),
+  ('canada (pacific)', 'Canada (Pacific)'),
+  ('chile', 'Chile'),
+  ('china', 'China'),
+  ('colombia', 'Colombia'),
+  ('croatia', 'Croatia'),
+  ('czechia', 'Czechia'),
+  ('denmark', 'Denmark'),
+  ('egypt', 'Egypt'),
+  ('finland', 'Finland'),
+  ('france', 'France'),
+  ('germany', 'Germany'),
+  ('greece', 'Greece'),
+  ('hong kong', 'Hong Kong'),
+  ('hungary', 'Hungary'),
+  ('india', 'India'),
+  ('indonesia', 'Indonesia'),
+  ('iran', 'Iran'),
+  ('ireland', 'Ireland'),
+  ('israel', 'Israel'),
+  ('italy', 'Italy'),
+  ('japan', 'Japan'),
+  ('kazakhstan', 'Kazakhstan'),
+  ('kenya', 'Kenya'),
+  ('malaysia', 'Malaysia'),
+  ('mexico', 'Mexico'),
+  ('morocco', 'Morocco'),
+  ('nepal', 'Nepal'),
+  ('netherlands', 'Netherlands'),
+  ('new zealand', 'New Zealand'),
+  ('nigeria', 'Nigeria'),
+  ('norway', 'Norway'),
+  ('pakistan', 'Pakistan'),
+  ('peru', 'Peru'),
+  ('philippines', 'Philippines'),
+  ('poland', 'Poland'),
+  ('portugal', 'Portugal'),
+  ('romania', 'Romania'),
+  ('russia (moscow)', 'Russia (Moscow)'),
+  ('saudi arabia', 'Saudi Arabia'),
+  ('serbia', 'Serbia'),
+  ('singapore', 'Singapore'),
+  ('south africa', 'South Africa'),
+  ('south korea', 'South Korea'),
+  ('spain', 'Spain'),
+  ('sri lanka', 'Sri Lanka'),
+  ('sweden', 'Sweden'),
+  ('switzerland', 'Switzerland'),
+  ('taiwan', 'Taiwan'),
+  ('thailand', 'Thailand'),
+  ('turkey', 'Turkey'),
+  ('ukraine', 'Ukraine'),
+  ('united arab emirates', 'United Arab Emirates'),
+  ('united kingdom', 'United Kingdom'),
+  ('united states (eastern)', 'United States (Eastern)'),
+  ('united states (central)', 'United States (Central)'),
+  ('united states (mountain)', 'United States (Mountain)'),
+  ('united states (pacific)', 'United States (Pacific)'),
+  ('vietnam', 'Vietnam'),
+  ('ar', 'Argentina'),
+  ('at', 'Austria'),
+  ('bd', 'Bangladesh'),
+  ('be', 'Belgium'),
+  ('br', 'Brazil'),
+  ('bg', 'Bulgaria'),
+  ('cl', 'Chile'),
+  ('cn', 'China'),
+  ('co', 'Colombia'),
+  ('hr', 'Croatia'),
+  ('cz', 'Czechia'),
+  ('dk', 'Denmark'),
+  ('eg', 'Egypt'),
+  ('fi', 'Finland'),
+  ('fr', 'France'),
+  ('de', 'Germany'),
+  ('gr', 'Greece'),
+  ('hk', 'Hong Kong'),
+  ('hu', 'Hungary'),
+  ('in', 'India'),
+  ('id', 'Indonesia'),
+  ('ir', 'Iran'),
+  ('ie', 'Ireland'),
+  ('il', 'Israel'),
+  ('it', 'Italy'),
+  ('jp', 'Japan'),
+  ('kz', 'Kazakhstan'),
+  ('ke', 'Kenya'),
+  ('my', 'Malaysia'),
+  ('mx', 'Mexico'),
+  ('ma', 'Morocco'),
+  ('np', 'Nepal'),
+  ('nl', 'Netherlands'),
+  ('nz', 'New Zealand'),
+  ('ng', 'Nigeria'),
+  ('no', 'Norway'),
+  ('pk', 'Pakistan'),
+  ('pe', 'Peru'),
+  ('ph', 'Philippines'),
+  ('pl', 'Poland'),
+  ('pt', 'Portugal'),
+  ('ro', 'Romania'),
+  ('ru', 'Russia (Moscow)'),
+  ('sa', 'Saudi Arabia'),
+  ('rs', 'Serbia'),
+  ('sg', 'Singapore'),
+  ('za', 'South Africa'),
+  ('kr', 'South Korea'),
+  ('es', 'Spain'),
+  ('lk', 'Sri Lanka'),
+  ('se', 'Sweden'),
+  ('ch', 'Switzerland'),
+  ('tw', 'Taiwan'),
+  ('th', 'Thailand'),
+  ('tr', 'Turkey'),
+  ('ua', 'Ukraine'),
+  ('ae', 'United Arab Emirates'),
+  ('gb', 'United Kingdom'),
+  ('vn', 'Vietnam'),
+  ('australia', 'Australia (Eastern)'),
+  ('brasil', 'Brazil'),
+  ('canada', 'Canada (Eastern)'),
+  ('czech republic', 'Czechia'),
+  ('deutschland', 'Germany'),
+  ('england', 'United Kingdom'),
+  ('great britain', 'United Kingdom'),
+  ('holland', 'Netherlands'),
+  ('korea', 'South Korea'),
+  ('russia', 'Russia (Moscow)'),
+  ('scotland', 'United Kingdom'),
+  ('the netherlands', 'Netherlands'),
+  ('turkiye', 'Turkey'),
+  ('uae', 'United Arab Emirates'),
+  ('uk', 'United Kingdom'),
+  ('united states', 'United States (Eastern)'),
+  ('united states of america', 'United States (Eastern)'),
+  ('us', 'United States (Eastern)'),
+  ('usa', 'United States (Eastern)'),
+  ('wales', 'United Kingdom')
+) AS "r"("alias", "name") WHERE lower(trim("users"."region")) = "r"."alias";
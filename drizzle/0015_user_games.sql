@@ -0,0 +1,15 @@
+CREATE TABLE "user_games" (
+	"userId" integer NOT NULL,
+	"gameId" integer NOT NULL,
+	"inGameId" text,
+	"platform" text,
+	"rank" text,
+	"roles" json DEFAULT '[]'::json NOT NULL,
+	"hoursPlayed" integer,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "user_games_userId_gameId_pk" PRIMARY KEY("userId","gameId")
+);
+--> statement-breakpoint
+ALTER TABLE "user_games" ADD CONSTRAINT "user_games_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_games" ADD CONSTRAINT "user_games_gameId_games_id_fk" FOREIGN KEY ("gameId") REFERENCES "public"."games"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "user_games_game_idx" ON "user_games" USING btree ("gameId");
\ No newline at end of file
@@ -0,0 +1,14 @@
+-- Every game in gamesPlayed becomes a game profile, matching names against the games table case-insensitively; names with no match are skipped. The current game's profile takes currentGameId as its in-game ID, unless it only holds the game's own ID (the old profile editor stored that).
+INSERT INTO "user_games" ("userId", "gameId")
+SELECT DISTINCT "users"."id", "games"."id"
+FROM "users"
+CROSS JOIN LATERAL json_array_elements_text("users"."gamesPlayed") AS "played"("name")
+JOIN "games" ON lower("games"."name") = lower(trim("played"."name"))
+ON CONFLICT DO NOTHING;--> statement-breakpoint
+INSERT INTO "user_games" ("userId", "gameId", "inGameId")
+SELECT DISTINCT ON ("users"."id") "users"."id", "games"."id", nullif(trim("users"."currentGameId"), '')
+FROM "users"
+JOIN "games" ON lower("games"."name") = lower(trim("users"."currentGame"))
+WHERE trim("users"."currentGameId") <> "games"."id"::text
+ORDER BY "users"."id", "games"."id"
+ON CONFLICT ("userId", "gameId") DO UPDATE SET "inGameId" = excluded."inGameId";
@@ -0,0 +1,23 @@
+CREATE TABLE "unmatched_games_played" (
+	"userId" integer NOT NULL,
+	"name" text NOT NULL,
+	CONSTRAINT "unmatched_games_played_userId_name_pk" PRIMARY KEY("userId","name")
+);
+--> statement-breakpoint
+DROP INDEX "users_games_played_idx";--> statement-breakpoint
+ALTER TABLE "unmatched_games_played" ADD CONSTRAINT "unmatched_games_played_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Games added to gamesPlayed since user_games was backfilled get a profile too; names matching no game are kept in unmatched_games_played for server/check-unmatched-games.ts to report.
+INSERT INTO "user_games" ("userId", "gameId")
+SELECT DISTINCT "users"."id", "games"."id"
+FROM "users"
+CROSS JOIN LATERAL json_array_elements_text("users"."gamesPlayed") AS "played"("name")
+JOIN "games" ON lower("games"."name") = lower(trim("played"."name"))
+ON CONFLICT DO NOTHING;--> statement-breakpoint
+INSERT INTO "unmatched_games_played" ("userId", "name")
+SELECT DISTINCT "users"."id", trim("played"."name")
+FROM "users"
+CROSS JOIN LATERAL json_array_elements_text("users"."gamesPlayed") AS "played"("name")
+WHERE trim("played"."name") <> ''
+AND NOT EXISTS (SELECT 1 FROM "games" WHERE lower("games"."name") = lower(trim("played"."name")))
+ON CONFLICT DO NOTHING;--> statement-breakpoint
+ALTER TABLE "users" DROP COLUMN "gamesPlayed";
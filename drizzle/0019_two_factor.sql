@@ -0,0 +1,17 @@
+CREATE TABLE "recovery_codes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"userId" integer NOT NULL,
+	"codeHash" text NOT NULL,
+	"usedAt" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "user_totp" (
+	"userId" integer PRIMARY KEY NOT NULL,
+	"secret" text NOT NULL,
+	"enabledAt" timestamp DEFAULT now() NOT NULL,
+	"lastUsedStep" bigint
+);
+--> statement-breakpoint
+ALTER TABLE "recovery_codes" ADD CONSTRAINT "recovery_codes_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_totp" ADD CONSTRAINT "user_totp_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "recovery_codes_user_idx" ON "recovery_codes" USING btree ("userId");
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "auth_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"type" text NOT NULL,
+	"userId" integer,
+	"username" text,
+	"ip" text,
+	"userAgent" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "auth_events" ADD CONSTRAINT "auth_events_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "auth_events_username_idx" ON "auth_events" USING btree ("username","createdAt");--> statement-breakpoint
+CREATE INDEX "auth_events_ip_idx" ON "auth_events" USING btree ("ip","createdAt");--> statement-breakpoint
+CREATE INDEX "auth_events_created_idx" ON "auth_events" USING btree ("createdAt");
\ No newline at end of file
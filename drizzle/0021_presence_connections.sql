@@ -0,0 +1,10 @@
+CREATE TABLE "presence_connections" (
+	"id" text PRIMARY KEY NOT NULL,
+	"userId" integer NOT NULL,
+	"status" text NOT NULL,
+	"lastSeenAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "presence_connections" ADD CONSTRAINT "presence_connections_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "presence_connections_user_idx" ON "presence_connections" USING btree ("userId");--> statement-breakpoint
+CREATE INDEX "presence_connections_last_seen_idx" ON "presence_connections" USING btree ("lastSeenAt");
\ No newline at end of file
@@ -0,0 +1,2 @@
+-- The column holds the player's handle in their current game, not a games.id
+ALTER TABLE "users" RENAME COLUMN "currentGameId" TO "currentGameHandle";
@@ -0,0 +1,90 @@
+import { createHash, randomBytes } from 'crypto';
+import { EMAIL_VERIFICATION_TTL, PASSWORD_RESET_TTL, type AccountTokenPurpose, type User } from '@shared/schema';
+import { storage } from './storage';
+import { sendMail } from './mailer';
+
+/**
+ * Emailed account links: verifying an email address and resetting a
+ * forgotten password. Each link carries a random token that works once and
+ * expires. Only a hash of the token is stored, so reading the table isn't
+ * enough to use one.
+ */
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Links always point at APP_URL. The request's Host header is never used:
+// anyone can set it, and a reset link pointing at their site would hand them
+// the victim's token. Outside production it falls back to the local server.
+if (process.env.NODE_ENV === 'production' && !process.env.APP_URL) {
+  throw new Error('APP_URL must be set in production, so account emails link to the real site.');
+}
+const APP_URL = (process.env.APP_URL || `http://localhost:${process.env.PORT || '5000'}`).replace(/\/$/, '');
+
+async function issueToken(user: User, purpose: AccountTokenPurpose, email: string, ttlMinutes: number): Promise<string> {
+  const token = randomBytes(32).toString('base64url');
+  await storage.createAccountToken({
+    userId: user.id,
+    purpose,
+    tokenHash: hashToken(token),
+    email,
+    expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+  });
+  return token;
+}
+
+// Sends a link that verifies the user's current email
+export async function sendVerificationEmail(user: User): Promise<void> {
+  if (!user.email) return;
+
+  const token = await issueToken(user, 'verify-email', user.email, EMAIL_VERIFICATION_TTL);
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your Playsphere email',
+    text: [
+      `Hi ${user.username},`,
+      '',
+      'Follow this link to verify your email address:',
+      `${APP_URL}/verify-email?token=${token}`,
+      '',
+      `The link works for ${EMAIL_VERIFICATION_TTL / 60} hours. If you didn't add this address to Playsphere, you can ignore this email.`,
+    ].join('\n'),
+  });
+}
+
+// Sends a password reset link, but only to a verified email
+export async function sendPasswordResetEmail(user: User): Promise<void> {
+  if (!user.email || !user.emailVerifiedAt) return;
+
+  const token = await issueToken(user, 'reset-password', user.email, PASSWORD_RESET_TTL);
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your Playsphere password',
+    text: [
+      `Hi ${user.username},`,
+      '',
+      'Follow this link to choose a new password:',
+      `${APP_URL}/reset-password?token=${token}`,
+      '',
+      `The link works once, for ${PASSWORD_RESET_TTL} minutes. If you didn't ask to reset your password, you can ignore this email.`,
+    ].join('\n'),
+  });
+}
+
+// The user whose email the token verified, if it was valid and the email
+// hasn't changed since it was sent
+export async function verifyEmail(token: string): Promise<User | undefined> {
+  const used = await storage.useAccountToken('verify-email', hashToken(token));
+  if (!used) return undefined;
+  return storage.markEmailVerified(used.userId, used.email);
+}
+
+// Sets the password of the user the token was sent to, returning them.
+// Undefined if the token was invalid, expired or already used.
+export async function resetPassword(token: string, passwordHash: string): Promise<User | undefined> {
+  const used = await storage.useAccountToken('reset-password', hashToken(token));
+  if (!used) return undefined;
+  await storage.setPassword(used.userId, passwordHash);
+  return storage.getUser(used.userId);
+}
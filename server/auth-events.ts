@@ -0,0 +1,90 @@
+import type { Request, Response } from 'express';
+import { AUTH_FAILURE_EVENTS, type AuthEventType } from '@shared/schema';
+import { storage, type ReservedLoginAttempt } from './storage';
+
+/**
+ * The auth audit log: logins, logouts and password activity, with the IP
+ * address and user agent they came from. The login throttle counts failures
+ * from the same table (see `login-throttle.ts`).
+ */
+
+// The address the request came from. Behind a reverse proxy this needs
+// TRUST_PROXY set, or every request looks like it came from the proxy.
+export function clientIp(req: Request): string | null {
+  return req.ip ?? req.socket.remoteAddress ?? null;
+}
+
+// Who an event is about. Failed logins only have the username that was tried.
+interface AuthEventSubject {
+  userId?: number | null;
+  username?: string | null;
+}
+
+// Login attempts reserved by the throttle and not yet resolved, by request
+const reservedAttempts = new WeakMap<Request, number>();
+
+function userAgent(req: Request): string | null {
+  return req.get('user-agent')?.slice(0, 512) ?? null;
+}
+
+/**
+ * Records the request as a login attempt under way, before its password or
+ * code is checked, and returns the failures counted before it. The next
+ * event recorded for the request takes the attempt's place if it's a failure
+ * or a throttle, and removes it otherwise; so does the response ending
+ * without one.
+ */
+export async function reserveLoginAttempt(
+  req: Request,
+  res: Response,
+  username: string | undefined,
+  since: Date
+): Promise<ReservedLoginAttempt> {
+  const attempt = await storage.reserveLoginAttempt({
+    type: 'login-attempt',
+    userId: null,
+    username: username ?? null,
+    ip: clientIp(req),
+    userAgent: userAgent(req),
+  }, since);
+
+  reservedAttempts.set(req, attempt.id);
+  res.on('close', () => {
+    if (reservedAttempts.get(req) !== attempt.id) return;
+    reservedAttempts.delete(req);
+    storage.releaseLoginAttempt(attempt.id).catch(error => {
+      console.error('Error releasing login attempt:', error);
+    });
+  });
+  return attempt;
+}
+
+// Records an event for the request. A failure to write is logged rather
+// than thrown, so the audit log going down doesn't stop people logging in.
+export async function recordAuthEvent(req: Request, type: AuthEventType, subject: AuthEventSubject = {}): Promise<void> {
+  try {
+    const reserved = reservedAttempts.get(req);
+    if (reserved !== undefined) {
+      reservedAttempts.delete(req);
+      if (AUTH_FAILURE_EVENTS.includes(type) || type === 'login-throttled') {
+        await storage.resolveLoginAttempt(reserved, {
+          type,
+          userId: subject.userId ?? null,
+          username: subject.username ?? null,
+        });
+        return;
+      }
+      await storage.releaseLoginAttempt(reserved);
+    }
+
+    await storage.createAuthEvent({
+      type,
+      userId: subject.userId ?? null,
+      username: subject.username ?? null,
+      ip: clientIp(req),
+      userAgent: userAgent(req),
+    });
+  } catch (error) {
+    console.error(`Error recording ${type} auth event:`, error);
+  }
+}
@@ -0,0 +1,148 @@
+import { Request, Response, NextFunction } from 'express';
+import { storage } from './storage';
+import { hasPermission, type Permission } from '@shared/permissions';
+
+/**
+ * Shared authorization layer for REST routes.
+ *
+ * The acting user is always taken from the Passport session (`req.user`).
+ * Older clients still send their own ID in the body or query string
+ * (`userId`, `currentUserId`, `currentOwnerId`); those values are never
+ * used to decide who is acting, and a value that disagrees with the
+ * session is rejected as an impersonation attempt.
+ */
+
+// Returns the ID of the user attached to the session by Passport
+export function getActorId(req: Request): number {
+  return req.user!.id;
+}
+
+// Parses a numeric route parameter, returning undefined for anything else
+function parseIdParam(value: string | undefined): number | undefined {
+  const id = parseInt(value ?? '', 10);
+  return isNaN(id) ? undefined : id;
+}
+
+// Require a logged-in session
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) {
+    return next();
+  }
+
+  res.status(401).json({ message: 'Unauthorized - Please log in' });
+}
+
+// Require a logged-in session whose role grants the given permission
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Unauthorized - Please log in' });
+    }
+
+    if (!hasPermission(req.user.role, permission)) {
+      return res.status(403).json({ message: `Forbidden - Missing permission ${permission}` });
+    }
+
+    next();
+  };
+}
+
+/**
+ * Rejects requests whose client-supplied actor fields name a different user
+ * than the session. Fields are looked up in the body first, then the query.
+ */
+export function rejectMismatchedActor(...fields: string[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const actorId = getActorId(req);
+
+    for (const field of fields) {
+      const claimed = req.body?.[field] ?? req.query[field];
+      if (claimed === undefined || claimed === null || claimed === '') continue;
+
+      if (parseInt(String(claimed), 10) !== actorId) {
+        return res.status(403).json({ message: 'Forbidden - User ID does not match session' });
+      }
+    }
+
+    next();
+  };
+}
+
+// Require the route parameter to name the session user
+export function requireSelf(param = 'id') {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const userId = parseIdParam(req.params[param]);
+
+    if (userId === undefined) {
+      return res.status(400).json({ message: 'Invalid user ID' });
+    }
+
+    if (userId !== getActorId(req)) {
+      return res.status(403).json({ message: 'Forbidden - You can only act on your own account' });
+    }
+
+    next();
+  };
+}
+
+// Require the route parameters to describe a conversation the session user is part of
+export function requireParticipant(...params: string[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const actorId = getActorId(req);
+    const ids = params.map(param => parseIdParam(req.params[param]));
+
+    if (ids.some(id => id === undefined)) {
+      return res.status(400).json({ message: 'Invalid user ID' });
+    }
+
+    if (!ids.includes(actorId)) {
+      return res.status(403).json({ message: "You don't have permission to view these messages" });
+    }
+
+    next();
+  };
+}
+
+// Require the session user to be a member of the group named by the route parameter
+export function requireGroupMember(param = 'groupId') {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const groupId = parseIdParam(req.params[param]);
+      if (groupId === undefined) {
+        return res.status(400).json({ message: 'Invalid group ID' });
+      }
+
+      const isMember = await storage.isGroupMember(groupId, getActorId(req));
+      if (!isMember) {
+        return res.status(403).json({ message: "You don't have permission to access this group" });
+      }
+
+      next();
+    } catch (error) {
+      console.error('Group authorization error:', error);
+      res.status(500).json({ message: 'Server error during authorization' });
+    }
+  };
+}
+
+// Require the session user to own the group named by the route parameter
+export function requireGroupOwner(param = 'groupId') {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const groupId = parseIdParam(req.params[param]);
+      if (groupId === undefined) {
+        return res.status(400).json({ message: 'Invalid group ID' });
+      }
+
+      const isOwner = await storage.isGroupOwner(groupId, getActorId(req));
+      if (!isOwner) {
+        return res.status(403).json({ message: 'Only the group owner can do this' });
+      }
+
+      next();
+    } catch (error) {
+      console.error('Group authorization error:', error);
+      res.status(500).json({ message: 'Server error during authorization' });
+    }
+  };
+}
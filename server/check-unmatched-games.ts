@@ -0,0 +1,69 @@
+// File: server/check-unmatched-games.ts
+// This script reports the old gamesPlayed names that matched no game when
+// user_games replaced them. Pass --resolve to link the names that now match
+// a game (e.g. after it was added) to the players who listed them.
+
+import { db } from './db';
+import { games, userGames, unmatchedGamesPlayed } from '@shared/schema';
+import { count, eq, sql } from 'drizzle-orm';
+
+async function checkUnmatchedGames() {
+  try {
+    const resolve = process.argv.includes('--resolve');
+    console.log('Checking unmatched game names...');
+
+    const unmatched = await db
+      .select({ name: unmatchedGamesPlayed.name, players: count() })
+      .from(unmatchedGamesPlayed)
+      .groupBy(unmatchedGamesPlayed.name)
+      .orderBy(sql`count(*) desc`, unmatchedGamesPlayed.name);
+
+    if (unmatched.length === 0) {
+      console.log('No unmatched game names.');
+      return;
+    }
+
+    const gameIdsByName = new Map(
+      (await db.select({ id: games.id, name: games.name }).from(games))
+        .map(game => [game.name.trim().toLowerCase(), game.id])
+    );
+
+    unmatched.forEach(({ name, players }) => {
+      const matched = gameIdsByName.has(name.trim().toLowerCase());
+      console.log(`${name}: ${players} player(s)${matched ? ' (now matches a game)' : ''}`);
+    });
+    console.log('\nTotal unmatched names:', unmatched.length);
+
+    if (!resolve) return;
+
+    let linked = 0;
+    for (const { name } of unmatched) {
+      const gameId = gameIdsByName.get(name.trim().toLowerCase());
+      if (!gameId) continue;
+
+      const owners = await db
+        .select({ userId: unmatchedGamesPlayed.userId })
+        .from(unmatchedGamesPlayed)
+        .where(eq(unmatchedGamesPlayed.name, name));
+
+      await db.transaction(async (tx) => {
+        await tx
+          .insert(userGames)
+          .values(owners.map(({ userId }) => ({ userId, gameId })))
+          .onConflictDoNothing();
+        await tx
+          .delete(unmatchedGamesPlayed)
+          .where(eq(unmatchedGamesPlayed.name, name));
+      });
+      linked += owners.length;
+    }
+    console.log(`\nLinked ${linked} game profile(s).`);
+  } catch (error) {
+    console.error('Error checking unmatched game names:', error);
+    process.exit(1);
+  } finally {
+    process.exit(0);
+  }
+}
+
+checkUnmatchedGames();
@@ -29,7 +29,7 @@ async function checkUsers() {
       console.log('\nUser:', {
         username: user.username,
         passwordStatus: passwordStatus,
-        isAdmin: user.isAdmin
+        role: user.role
       });
     });
 
@@ -0,0 +1,38 @@
+import type { Message, SystemEvent, User } from '@shared/schema';
+import { storage } from './storage';
+import { sendToUsers } from './realtime';
+
+/**
+ * System messages posted into a group when its membership changes, e.g.
+ * "alice joined the group". They're stored like any other group message so
+ * they show up in history, and sent to every current member.
+ */
+
+// `actorId` is whoever caused the event; `subject` is the member it's about
+export async function postGroupEvent(
+  groupId: number,
+  actorId: number,
+  event: SystemEvent,
+  subject: Pick<User, 'id' | 'username'>
+): Promise<Message> {
+  const message = await storage.createMessage({
+    fromUserId: actorId,
+    toUserId: null,
+    groupId,
+    timestamp: new Date(),
+    isRead: false,
+    readAt: null,
+    type: 'system',
+    content: '',
+    clientId: null,
+    payload: { type: 'system', event, userId: subject.id, username: subject.username }
+  });
+
+  const members = await storage.getGroupMembers(groupId);
+  sendToUsers(
+    members.map(member => member.id),
+    { type: 'groupMessage', message }
+  );
+
+  return message;
+}
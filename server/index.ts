@@ -3,16 +3,13 @@ dotenv.config();
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import session from 'express-session';
 import passport from 'passport';
 import { setupPassport } from './passport';
-import { pool } from './db';
+import { sessionMiddleware, endSupersededSessions } from './session';
 import { nanoid } from 'nanoid';
 import path from 'path';
 import fs from 'fs';
 import { fileURLToPath } from 'url';
-import connectPgSimple from 'connect-pg-simple';
-import memorystore from 'memorystore';
 import usersRouter from './routes/users';
 import authRouter from './routes/auth';
 import videosRouter from './routes/videos';
@@ -23,6 +20,13 @@ const __dirname = path.dirname(__filename);
 
 const app = express();
 
+// Behind a reverse proxy, TRUST_PROXY (a hop count or the proxy's address)
+// makes req.ip the client's address, which login throttling relies on
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set('trust proxy', Number.isNaN(hops) ? process.env.TRUST_PROXY : hops);
+}
+
 // Basic middleware
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
@@ -35,41 +39,14 @@ app.use(cors({
   credentials: true,
 }));
 
-// Session configuration
-const PgSession = connectPgSimple(session);
-const MemoryStore = memorystore(session);
-
-const sessionStore = process.env.NODE_ENV === 'production'
-  ? new PgSession({
-      pool,
-      tableName: 'session',
-      createTableIfMissing: true,
-    })
-  : new MemoryStore({
-      checkPeriod: 1000 * 60 * 60 * 24, // prune expired entries every 24h
-    });
-
 // Session middleware
-app.use(
-  session({
-    store: sessionStore,
-    secret: process.env.SESSION_SECRET || 'your-secret-key',
-    resave: false,
-    saveUninitialized: false,
-    cookie: {
-      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: process.env.NODE_ENV === 'production' ? 'strict' : 'lax',
-    },
-    name: 'playsphere.sid',
-  })
-);
+app.use(sessionMiddleware);
 
 // Authentication middleware
 app.use(passport.initialize());
 app.use(passport.session());
 setupPassport();
+app.use(endSupersededSessions);
 
 // Request logging
 app.use((req, res, next) => {
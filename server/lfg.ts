@@ -0,0 +1,55 @@
+import type { LfgJoinRequest, LfgListing, User } from '@shared/schema';
+import { storage, type LfgAcceptResult } from './storage';
+import { sendToEveryone, sendToUsers } from './realtime';
+import { postGroupEvent } from './group-events';
+
+/**
+ * Looking-for-group posts. Others ask to join a post and its author accepts
+ * or declines; the first acceptance creates a group chat owned by the author
+ * and every accepted player is added to it. Changes are announced with
+ * `lfgUpdated` events, to everyone when the public listing changes and to the
+ * two users involved when only a pending request does.
+ */
+
+export function isLfgPostOpen(post: LfgListing): boolean {
+  return !post.closedAt && new Date(post.expiresAt) > new Date() && post.acceptedCount < post.slots;
+}
+
+// The post's listing changed for everyone: posted, closed, or a slot filled
+export function announceLfgPost(postId: number) {
+  sendToEveryone({ type: 'lfgUpdated', postId });
+}
+
+// A request only the author and requester can see was made or answered
+export function announceLfgRequest(post: LfgListing, requesterId: number) {
+  sendToUsers([post.userId, requesterId], { type: 'lfgUpdated', postId: post.id });
+}
+
+// Accepts a pending request, creating the post's group first if needed, and
+// adds the requester to it. The group's chat hears about both once the
+// acceptance has been saved. Nobody joins the group of someone they've
+// blocked or been blocked by, since group messages would get around it.
+export async function acceptLfgJoinRequest(
+  post: LfgListing,
+  request: LfgJoinRequest,
+  author: Pick<User, 'id' | 'username'>
+): Promise<LfgAcceptResult | { status: 'blocked' }> {
+  const requester = await storage.getUser(request.userId);
+  if (!requester) {
+    throw new Error(`User ${request.userId} not found`);
+  }
+  if (await storage.isBlockedEitherWay(author.id, requester.id)) {
+    return { status: 'blocked' };
+  }
+
+  const result = await storage.acceptLfgJoinRequest(post.id, request.id);
+  if (result.status !== 'accepted') return result;
+
+  if (result.groupCreated) {
+    await postGroupEvent(result.groupId, author.id, 'group-created', author);
+  }
+  await postGroupEvent(result.groupId, author.id, 'member-joined', requester);
+
+  announceLfgPost(post.id);
+  return result;
+}
@@ -0,0 +1,137 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { LoginFailures, ThrottledLogin } from '@shared/schema';
+import { storage } from './storage';
+import { recordAuthEvent, reserveLoginAttempt } from './auth-events';
+
+/**
+ * Slows down password guessing. Failed logins and password checks are
+ * counted per username and per IP address from the auth event log. After a
+ * few failures each further attempt has to wait, twice as long each time;
+ * after more, the username or address is locked out for a while. A
+ * successful login, a password reset or an admin unlock clears a username's
+ * failures; an address's failures only age out.
+ *
+ * Each attempt is recorded before its password is checked and counts as a
+ * failure until it turns out otherwise, so a burst of simultaneous guesses
+ * is throttled like the same guesses one after another.
+ */
+
+interface ThrottlePolicy {
+  // Failures allowed before attempts have to wait
+  freeAttempts: number;
+  // Failures after which every attempt waits LOCKOUT_MS
+  lockoutAttempts: number;
+}
+
+const USERNAME_POLICY: ThrottlePolicy = { freeAttempts: 3, lockoutAttempts: 10 };
+// Higher, since many people can share an address
+const IP_POLICY: ThrottlePolicy = { freeAttempts: 10, lockoutAttempts: 50 };
+
+// Failures older than this are forgotten
+const FAILURE_WINDOW_MS = 60 * 60 * 1000;
+const LOCKOUT_MS = 15 * 60 * 1000;
+// The first wait; each further failure doubles it, up to the maximum
+const BASE_DELAY_MS = 5 * 1000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+
+// How long the failures make the next attempt wait, counted from the last
+// one. Null while there haven't been enough to matter.
+function assess(kind: ThrottledLogin['kind'], failures: LoginFailures, policy: ThrottlePolicy, now: Date): ThrottledLogin | null {
+  if (failures.failures < policy.freeAttempts) return null;
+
+  const lockout = failures.failures >= policy.lockoutAttempts;
+  const wait = lockout
+    ? LOCKOUT_MS
+    : Math.min(BASE_DELAY_MS * 2 ** (failures.failures - policy.freeAttempts), MAX_DELAY_MS);
+  const retryAfter = new Date(failures.lastFailureAt.getTime() + wait);
+  return { ...failures, kind, locked: lockout && retryAfter > now, retryAfter };
+}
+
+// Whichever of the username and address has to wait longer, if either does
+function longestWait(
+  usernameFailures: LoginFailures | undefined,
+  ipFailures: LoginFailures | undefined,
+  now: Date
+): ThrottledLogin | null {
+  const waits = [
+    usernameFailures && assess('username', usernameFailures, USERNAME_POLICY, now),
+    ipFailures && assess('ip', ipFailures, IP_POLICY, now),
+  ].filter((wait): wait is ThrottledLogin => !!wait && wait.retryAfter > now);
+  if (waits.length === 0) return null;
+  return waits.reduce((longest, wait) => (wait.retryAfter > longest.retryAfter ? wait : longest));
+}
+
+// Every username and address with enough recent failures to be slowed down,
+// most recent first, for the admin dashboard. Includes those whose wait is
+// over but whose failures still count.
+export async function listThrottledLogins(now = new Date()): Promise<ThrottledLogin[]> {
+  const since = new Date(now.getTime() - FAILURE_WINDOW_MS);
+  const [usernameFailures, ipFailures] = await Promise.all([
+    storage.getUsernameFailures(since),
+    storage.getIpFailures(since),
+  ]);
+
+  return [
+    ...usernameFailures.map(failures => assess('username', failures, USERNAME_POLICY, now)),
+    ...ipFailures.map(failures => assess('ip', failures, IP_POLICY, now)),
+  ]
+    .filter((throttled): throttled is ThrottledLogin => !!throttled)
+    .sort((a, b) => b.lastFailureAt.getTime() - a.lastFailureAt.getTime());
+}
+
+// Reset requests never fail, so they have their own limits: a few an hour
+// per address, and fewer emails per account
+const RESET_REQUEST_WINDOW_MS = 60 * 60 * 1000;
+const RESET_REQUESTS_PER_IP = 10;
+const RESET_EMAILS_PER_ACCOUNT = 3;
+
+/**
+ * Whether a password reset request, already recorded as
+ * `password-reset-requested`, goes over the limit for its address or for the
+ * account it's for. Counting after recording means simultaneous requests
+ * see each other, so they can't all get under the limit together.
+ */
+export async function checkResetRequestLimits(
+  ip: string | null,
+  userId: number | null,
+  now = new Date()
+): Promise<{ ipLimited: boolean; accountLimited: boolean }> {
+  const since = new Date(now.getTime() - RESET_REQUEST_WINDOW_MS);
+  const counts = await storage.countAuthEvents('password-reset-requested', since, ip, userId);
+  return {
+    ipLimited: counts.byIp > RESET_REQUESTS_PER_IP,
+    accountLimited: counts.byUser > RESET_EMAILS_PER_ACCOUNT,
+  };
+}
+
+function describeWait(seconds: number): string {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+/**
+ * Middleware refusing an attempt with 429 while its username or address has
+ * to wait. `getUsername` picks out the username the attempt is for; routes
+ * without one are only throttled by address.
+ */
+export function throttleLogin(getUsername: (req: Request) => string | undefined = () => undefined) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const username = getUsername(req);
+      const now = new Date();
+      const attempt = await reserveLoginAttempt(req, res, username, new Date(now.getTime() - FAILURE_WINDOW_MS));
+      const throttled = longestWait(attempt.usernameFailures, attempt.ipFailures, now);
+      if (!throttled) {
+        return next();
+      }
+
+      await recordAuthEvent(req, 'login-throttled', { username });
+      const seconds = Math.max(1, Math.ceil((throttled.retryAfter.getTime() - Date.now()) / 1000));
+      res.set('Retry-After', String(seconds));
+      res.status(429).json({ message: `Too many failed attempts. Try again in ${describeWait(seconds)}.` });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
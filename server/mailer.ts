@@ -0,0 +1,88 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Sends account emails such as verification and password reset links.
+ *
+ * Outside production each email is logged to the console by default. Set
+ * `MAIL_TRANSPORT=file` to write them to `MAIL_DIR` (./mail unless set)
+ * instead, one file per email. Delivering real email only takes another
+ * `Mailer`, installed with `setMailer` at startup.
+ *
+ * The emails carry live, single-use tokens, so production has no default:
+ * the server refuses to start until a mailer is installed or
+ * `MAIL_TRANSPORT` is chosen explicitly.
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+const FROM = process.env.MAIL_FROM || 'Playsphere <no-reply@playsphere.local>';
+
+// The message as a plain-text email, headers first
+function format(message: MailMessage, date: Date): string {
+  return [
+    `From: ${FROM}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${date.toUTCString()}`,
+    '',
+    message.text,
+  ].join('\n');
+}
+
+export class ConsoleMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`Email to ${message.to}:\n${format(message, new Date())}`);
+  }
+}
+
+export class FileMailer implements Mailer {
+  constructor(private dir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const date = new Date();
+    await fs.mkdir(this.dir, { recursive: true });
+    // e.g. 1718900000000-player_example.com.eml
+    const filename = `${date.getTime()}-${message.to.replace(/[^a-z0-9.-]/gi, '_')}.eml`;
+    await fs.writeFile(path.join(this.dir, filename), format(message, date) + '\n');
+  }
+}
+
+function defaultMailer(): Mailer | null {
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'file':
+      return new FileMailer(process.env.MAIL_DIR || 'mail');
+    case 'console':
+      return new ConsoleMailer();
+    default:
+      return process.env.NODE_ENV === 'production' ? null : new ConsoleMailer();
+  }
+}
+
+let mailer: Mailer | null = defaultMailer();
+
+export function setMailer(next: Mailer) {
+  mailer = next;
+}
+
+// Called when the account routes are registered, after any setMailer
+export function assertMailerConfigured() {
+  if (!mailer) {
+    throw new Error('Set MAIL_TRANSPORT or install a mailer with setMailer in production, so account emails are delivered rather than logged.');
+  }
+}
+
+export function sendMail(message: MailMessage): Promise<void> {
+  if (!mailer) {
+    return Promise.reject(new Error('No mailer is configured'));
+  }
+  return mailer.send(message);
+}
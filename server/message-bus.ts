@@ -0,0 +1,171 @@
+import { randomUUID } from 'crypto';
+import type { Pool, PoolClient } from 'pg';
+import { pool } from './db';
+
+/**
+ * Carries realtime events between server instances. Every event is published
+ * to the bus and each instance delivers it to whichever of the recipients'
+ * sockets it holds (see `realtime.ts`), so users connected to different
+ * instances still reach each other.
+ *
+ * The in-memory bus is enough for a single instance. Set `MESSAGE_BUS=postgres`
+ * when running several; they then share events over LISTEN/NOTIFY.
+ */
+
+export interface BusEvent {
+  // null for everyone connected
+  userIds: number[] | null;
+  payload: unknown;
+  // Closes the users' connections instead of delivering the payload
+  disconnect?: boolean;
+}
+
+type BusHandler = (event: BusEvent) => void;
+
+export interface MessageBus {
+  publish(event: BusEvent): Promise<void>;
+  subscribe(handler: BusHandler): void;
+}
+
+export class InMemoryMessageBus implements MessageBus {
+  private handlers: BusHandler[] = [];
+
+  async publish(event: BusEvent): Promise<void> {
+    this.handlers.forEach(handler => handler(event));
+  }
+
+  subscribe(handler: BusHandler) {
+    this.handlers.push(handler);
+  }
+}
+
+const CHANNEL = 'playsphere_realtime';
+
+// NOTIFY payloads must stay under 8000 bytes, so larger events are split into
+// chunks of this many characters (at most 3 bytes each in UTF-8)
+const CHUNK_LENGTH = 2000;
+
+const RECONNECT_DELAY_MS = 5000;
+
+// A chunked event's chunks are sent back to back, so one still incomplete
+// after this long lost its publisher mid-event and is dropped
+const PARTIAL_EVENT_TTL_MS = 60 * 1000;
+
+interface PartialEvent {
+  chunks: string[];
+  startedAt: number;
+}
+
+export class PostgresMessageBus implements MessageBus {
+  private handlers: BusHandler[] = [];
+  private client: PoolClient | null = null;
+  private listening = false;
+  // Publishes go out one at a time so recipients see them in order
+  private queue: Promise<unknown> = Promise.resolve();
+  // Chunked events still being received, keyed by publisher and sequence
+  private partial = new Map<string, PartialEvent>();
+  private readonly instanceId = randomUUID();
+  private sequence = 0;
+
+  constructor(private pool: Pool) {}
+
+  publish(event: BusEvent): Promise<void> {
+    const frames = this.toFrames(JSON.stringify(event));
+    const sent = this.queue.then(async () => {
+      for (const frame of frames) {
+        await this.pool.query('SELECT pg_notify($1, $2)', [CHANNEL, frame]);
+      }
+    });
+    this.queue = sent.catch(() => {});
+    return sent;
+  }
+
+  subscribe(handler: BusHandler) {
+    this.handlers.push(handler);
+    if (!this.listening) {
+      this.listening = true;
+      this.listen();
+    }
+  }
+
+  // Holds a dedicated connection for LISTEN, reconnecting if it drops
+  private async listen() {
+    let client: PoolClient | undefined;
+    try {
+      client = await this.pool.connect();
+      this.client = client;
+      const connected = client;
+      connected.on('notification', msg => {
+        if (msg.channel === CHANNEL && msg.payload) this.receive(msg.payload);
+      });
+      connected.on('error', err => this.reconnect(connected, err));
+      await connected.query(`LISTEN ${CHANNEL}`);
+    } catch (err) {
+      if (client) {
+        this.reconnect(client, err as Error);
+      } else {
+        console.error('Message bus connection error:', err);
+        setTimeout(() => this.listen(), RECONNECT_DELAY_MS);
+      }
+    }
+  }
+
+  private reconnect(client: PoolClient, err: Error) {
+    // Both the error event and a failed LISTEN can get here for one client
+    if (this.client !== client) return;
+
+    console.error('Message bus listener lost, reconnecting:', err);
+    this.client = null;
+    this.partial.clear();
+    client.release(err);
+    setTimeout(() => this.listen(), RECONNECT_DELAY_MS);
+  }
+
+  // Frames are "<instance>:<sequence>:<index>:<count>:<chunk>"
+  private toFrames(data: string): string[] {
+    const key = `${this.instanceId}:${this.sequence++}`;
+    const chunks: string[] = [];
+    for (let start = 0; start < data.length;) {
+      let end = Math.min(start + CHUNK_LENGTH, data.length);
+      // Don't split a surrogate pair across chunks
+      if (end < data.length && /[\uD800-\uDBFF]/.test(data[end - 1])) end--;
+      chunks.push(data.slice(start, end));
+      start = end;
+    }
+    return chunks.map((chunk, index) => `${key}:${index}:${chunks.length}:${chunk}`);
+  }
+
+  private prunePartial(now: number) {
+    this.partial.forEach((partial, key) => {
+      if (now - partial.startedAt > PARTIAL_EVENT_TTL_MS) this.partial.delete(key);
+    });
+  }
+
+  private receive(frame: string) {
+    const match = /^([^:]+:\d+):(\d+):(\d+):/.exec(frame);
+    if (!match) return;
+
+    const [header, key, index, count] = match;
+    const now = Date.now();
+    this.prunePartial(now);
+    const partial = this.partial.get(key) ?? { chunks: [], startedAt: now };
+    const { chunks } = partial;
+    chunks[Number(index)] = frame.slice(header.length);
+    if (chunks.filter(chunk => chunk !== undefined).length < Number(count)) {
+      this.partial.set(key, partial);
+      return;
+    }
+    this.partial.delete(key);
+
+    try {
+      const event: BusEvent = JSON.parse(chunks.join(''));
+      this.handlers.forEach(handler => handler(event));
+    } catch (err) {
+      console.error('Message bus event error:', err);
+    }
+  }
+}
+
+export const messageBus: MessageBus = process.env.MESSAGE_BUS === 'postgres'
+  ? new PostgresMessageBus(pool)
+  : new InMemoryMessageBus();
@@ -0,0 +1,52 @@
+import type { Message } from '@shared/schema';
+import { storage } from './storage';
+import { sendToUsers } from './realtime';
+
+/**
+ * Editing and deleting messages, and the rules for who may do either. Every
+ * change is sent to the conversation as a `messageUpdated` event carrying the
+ * whole updated message, so clients can swap it in place.
+ */
+
+// Everyone who can see a message: both sides of a direct chat, or the group's members
+async function getAudience(message: Message): Promise<number[]> {
+  if (message.groupId === null) {
+    return [message.fromUserId, message.toUserId!];
+  }
+
+  const members = await storage.getGroupMembers(message.groupId);
+  return members.map(member => member.id);
+}
+
+export async function canViewMessage(userId: number, message: Message): Promise<boolean> {
+  if (message.groupId === null) {
+    return message.fromUserId === userId || message.toUserId === userId;
+  }
+
+  return storage.isGroupMember(message.groupId, userId);
+}
+
+// Only the author may edit, and only while they can still see the message
+export async function canEditMessage(userId: number, message: Message): Promise<boolean> {
+  return message.fromUserId === userId && await canViewMessage(userId, message);
+}
+
+// Authors may delete their own messages; group admins may delete any message in their group
+export async function canDeleteMessage(userId: number, message: Message): Promise<boolean> {
+  if (!await canViewMessage(userId, message)) return false;
+  if (message.fromUserId === userId) return true;
+
+  return message.groupId !== null && storage.isGroupAdmin(message.groupId, userId);
+}
+
+export async function editMessage(message: Message, content: string): Promise<Message> {
+  const updated = await storage.editMessage(message.id, content);
+  sendToUsers(await getAudience(updated), { type: 'messageUpdated', message: updated });
+  return updated;
+}
+
+export async function deleteMessage(message: Message): Promise<Message> {
+  const deleted = await storage.deleteMessage(message.id);
+  sendToUsers(await getAudience(deleted), { type: 'messageUpdated', message: deleted });
+  return deleted;
+}
@@ -1,6 +1,7 @@
 import express, { Router } from 'express';
 import serverless from 'serverless-http';
 import { setupPassport } from './passport';
+import { endSupersededSessions } from './session';
 import { pool } from './db';
 import cors from 'cors';
 import session from 'express-session';
@@ -52,6 +53,7 @@ app.use(
 app.use(passport.initialize());
 app.use(passport.session());
 setupPassport();
+app.use(endSupersededSessions);
 
 // Create a router for the API
 const apiRouter = Router();
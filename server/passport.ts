@@ -15,11 +15,11 @@ declare global {
       profilePicture: string | null;
       language: string;
       region: string;
-      gamesPlayed: string[];
       currentGame: string;
-      currentGameId: string;
+      currentGameHandle: string;
       lastActive: Date;
-      isAdmin: boolean;
+      role: string;
+      sessionVersion: number;
     }
   }
 }
@@ -0,0 +1,107 @@
+import { PLAY_SESSION_REMINDER_MINUTES, type PlaySessionListing } from '@shared/schema';
+import { storage } from './storage';
+import { sendToUsers } from './realtime';
+
+/**
+ * Play sessions scheduled in group chats: iCalendar export, and reminders
+ * sent over the socket shortly before a session starts to every member who
+ * hasn't said they won't come.
+ */
+
+// How often to look for sessions that are about to start
+const REMINDER_CHECK_INTERVAL_MS = 60 * 1000;
+
+// iCalendar text values escape backslashes, semicolons, commas and newlines
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets are folded onto continuation lines that start
+// with a space
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      chunks.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+// e.g. 20250301T180000Z
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Times are written in UTC, which every calendar converts to its own zone
+function toEvent(session: PlaySessionListing, stamp: Date): string[] {
+  const start = new Date(session.startsAt);
+  const end = new Date(start.getTime() + session.durationMinutes * 60 * 1000);
+  const going = session.rsvps.filter(rsvp => rsvp.response === 'yes').map(rsvp => rsvp.username);
+  const description = [
+    `${session.gameName} in ${session.groupName}`,
+    `Planned in ${session.timeZone}`,
+    going.length ? `Going: ${going.join(', ')}` : null,
+  ].filter(Boolean).join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:play-session-${session.id}@playsphere`,
+    `DTSTAMP:${formatUtc(stamp)}`,
+    `DTSTART:${formatUtc(start)}`,
+    `DTEND:${formatUtc(end)}`,
+    `SUMMARY:${escapeText(session.title)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    'END:VEVENT',
+  ];
+}
+
+export function toICalendar(sessions: PlaySessionListing[]): string {
+  const stamp = new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Playsphere//Play sessions//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...sessions.flatMap(session => toEvent(session, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+async function sendDueReminders() {
+  const startingBefore = new Date(Date.now() + PLAY_SESSION_REMINDER_MINUTES * 60 * 1000);
+  const due = await storage.claimDuePlaySessionReminders(startingBefore);
+
+  for (const { id } of due) {
+    const session = await storage.getPlaySession(id);
+    if (!session) continue;
+
+    const notComing = new Set(session.rsvps.filter(rsvp => rsvp.response === 'no').map(rsvp => rsvp.userId));
+    const members = await storage.getGroupMembers(session.groupId);
+    sendToUsers(
+      members.map(member => member.id).filter(userId => !notComing.has(userId)),
+      { type: 'playSessionReminder', session }
+    );
+  }
+}
+
+// Checks for due reminders every minute for as long as the server runs
+export function startPlaySessionReminders() {
+  const timer = setInterval(() => {
+    sendDueReminders().catch(err => {
+      console.error('Error sending play session reminders:', err);
+    });
+  }, REMINDER_CHECK_INTERVAL_MS);
+  timer.unref();
+}
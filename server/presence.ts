@@ -0,0 +1,151 @@
+import { randomUUID } from 'crypto';
+import { WebSocket } from 'ws';
+import { aggregatePresence, type ConnectionStatus, type Presence } from '@shared/presence';
+import { storage, type PresenceConnectionChange } from './storage';
+import { sendToUsers } from './realtime';
+
+/**
+ * Presence is derived from open `/ws` connections. Each tab reports its own
+ * status (online, idle or in-game) and a user's presence is the most present
+ * of their tabs; with no tabs open they're offline. Changes are sent to the
+ * user's audience (see `storage.getPresenceAudience`) as `presence` events.
+ * `lastActive` is written when a user connects and when their last tab closes.
+ *
+ * Connections are kept in the database so every server instance sees the
+ * same presence: closing a tab on one instance doesn't make a user offline
+ * while they still have one open on another. Each instance refreshes its own
+ * connections every REFRESH_INTERVAL_MS; those not refreshed for
+ * STALE_AFTER_MS, e.g. because their instance died, stop counting and are
+ * swept.
+ */
+
+const REFRESH_INTERVAL_MS = 30 * 1000;
+const STALE_AFTER_MS = 90 * 1000;
+
+// Connections held by this instance
+interface LocalConnection {
+  id: string;
+  userId: number;
+  status: ConnectionStatus;
+  // Changes to the connection's row are made one at a time, in order
+  queue: Promise<void>;
+}
+
+const connections = new Map<WebSocket, LocalConnection>();
+
+function freshSince(): Date {
+  return new Date(Date.now() - STALE_AFTER_MS);
+}
+
+function enqueue(connection: LocalConnection, task: () => Promise<void>): Promise<void> {
+  const run = connection.queue.then(task);
+  connection.queue = run.catch(() => {});
+  return run;
+}
+
+async function broadcastPresence(presence: Presence) {
+  const audience = await storage.getPresenceAudience(presence.userId);
+  sendToUsers(audience, { type: 'presence', ...presence });
+}
+
+async function wentOffline(userId: number, lastActive: Date) {
+  await storage.touchLastActive(userId, lastActive);
+  await broadcastPresence({ userId, status: 'offline', lastActive });
+}
+
+// Applies `change` and tells the audience if the user's overall status moved
+async function updatePresence(userId: number, change: PresenceConnectionChange) {
+  const { before, after } = await storage.changePresenceConnection(userId, change, freshSince());
+  const status = aggregatePresence(after);
+  if (aggregatePresence(before) === status) return;
+
+  if (status === 'offline') {
+    await wentOffline(userId, new Date());
+  } else {
+    await broadcastPresence({ userId, status, lastActive: null });
+  }
+}
+
+// Everyone currently connected to any instance; anyone not listed is offline
+export async function getConnectedPresence(): Promise<Presence[]> {
+  const statuses = new Map<number, ConnectionStatus[]>();
+  for (const { userId, status } of await storage.getPresenceConnections(freshSince())) {
+    statuses.set(userId, [...statuses.get(userId) ?? [], status as ConnectionStatus]);
+  }
+  return Array.from(statuses, ([userId, userStatuses]) => ({
+    userId,
+    status: aggregatePresence(userStatuses),
+    lastActive: null
+  }));
+}
+
+// The connected users whose presence the viewer may see: the same audience
+// their presence events go to, minus anyone blocked either way
+export async function getVisiblePresence(viewerId: number): Promise<Presence[]> {
+  const audience = new Set(await storage.getPresenceAudience(viewerId));
+  const hidden = new Set(await storage.getHiddenUserIds(viewerId));
+  return (await getConnectedPresence()).filter(presence => audience.has(presence.userId) && !hidden.has(presence.userId));
+}
+
+export function connectPresence(userId: number, ws: WebSocket): Promise<void> {
+  // The socket is registered before anything is awaited, so if it closes
+  // straight away disconnectPresence always finds it to remove
+  const connection: LocalConnection = { id: randomUUID(), userId, status: 'online', queue: Promise.resolve() };
+  connections.set(ws, connection);
+  return enqueue(connection, async () => {
+    await storage.touchLastActive(userId, new Date());
+    await updatePresence(userId, { type: 'add', id: connection.id, status: connection.status });
+  });
+}
+
+export function setConnectionStatus(userId: number, ws: WebSocket, status: ConnectionStatus): Promise<void> {
+  const connection = connections.get(ws);
+  if (!connection) return Promise.resolve();
+  connection.status = status;
+  return enqueue(connection, () => updatePresence(userId, { type: 'status', id: connection.id, status }));
+}
+
+export function disconnectPresence(userId: number, ws: WebSocket): Promise<void> {
+  const connection = connections.get(ws);
+  if (!connection) return Promise.resolve();
+  connections.delete(ws);
+  return enqueue(connection, () => updatePresence(userId, { type: 'remove', id: connection.id }));
+}
+
+// Refreshes this instance's connections, then sweeps stale ones from every
+// instance and tells the audience of anyone left without a connection
+async function refreshPresence() {
+  const open = Array.from(connections.entries());
+  const refreshed = new Set(await storage.touchPresenceConnections(open.map(([, connection]) => connection.id)));
+
+  // A connection swept while this instance couldn't reach the database is
+  // added back, unless it has closed since
+  for (const [ws, connection] of open) {
+    if (refreshed.has(connection.id)) continue;
+    enqueue(connection, async () => {
+      if (connections.get(ws) !== connection) return;
+      await updatePresence(connection.userId, { type: 'add', id: connection.id, status: connection.status });
+    }).catch(err => console.error('Presence error:', err));
+  }
+
+  const lastSeen = new Map<number, Date>();
+  for (const { userId, lastSeenAt } of await storage.removeStalePresenceConnections(freshSince())) {
+    const latest = lastSeen.get(userId);
+    if (!latest || lastSeenAt > latest) lastSeen.set(userId, lastSeenAt);
+  }
+  for (const [userId, lastSeenAt] of Array.from(lastSeen)) {
+    if ((await storage.getPresenceConnections(freshSince(), userId)).length === 0) {
+      await wentOffline(userId, lastSeenAt);
+    }
+  }
+}
+
+// Keeps this instance's connections fresh for as long as the server runs
+export function startPresenceRefresh() {
+  const timer = setInterval(() => {
+    refreshPresence().catch(err => {
+      console.error('Error refreshing presence:', err);
+    });
+  }, REFRESH_INTERVAL_MS);
+  timer.unref();
+}
@@ -0,0 +1,81 @@
+import type { Player, User, UserGameProfile } from '@shared/schema';
+import { privacyAllows } from '@shared/relationships';
+import { storage } from './storage';
+
+/**
+ * What users may see of and do to each other. A block works both ways: the
+ * two users can't message each other and are left out of each other's user
+ * lists. Beyond that, each user's privacy settings decide who may send them
+ * direct messages and who sees their in-game ID.
+ */
+
+export type VisibleUser = Omit<User, 'password'>;
+
+function canSeeGameIds(viewerId: number, user: User, isFriend: boolean): boolean {
+  return user.id === viewerId || privacyAllows(user.gameIdPrivacy, isFriend);
+}
+
+// Strips what the viewer isn't allowed to see. A hidden game ID is sent as
+// an empty string; only the user themselves sees their email.
+function redactUser(viewerId: number, user: User, friendIds: Set<number>): VisibleUser {
+  const { password, ...rest } = user;
+  const visible = user.id === viewerId ? rest : { ...rest, email: null, emailVerifiedAt: null };
+  if (canSeeGameIds(viewerId, user, friendIds.has(user.id))) {
+    return visible;
+  }
+  return { ...visible, currentGameHandle: '' };
+}
+
+// Users as the viewer sees them, e.g. group members. Nobody is left out.
+export async function redactUsers(viewerId: number, users: User[]): Promise<VisibleUser[]> {
+  const friendIds = new Set(await storage.getFriendIds(viewerId));
+  return users.map(user => redactUser(viewerId, user, friendIds));
+}
+
+// A user's game profiles as the viewer sees them. In-game IDs follow the
+// same setting as currentGameHandle; hidden ones are sent as null.
+export async function redactUserGames(viewerId: number, user: User, games: UserGameProfile[]): Promise<UserGameProfile[]> {
+  const isFriend = user.gameIdPrivacy === 'friends' &&
+    (await storage.getFriendship(viewerId, user.id))?.status === 'accepted';
+  if (canSeeGameIds(viewerId, user, isFriend)) return games;
+  return games.map(game => ({ ...game, inGameId: null }));
+}
+
+// Only what other players are shown on the home page
+export function toPlayer(user: VisibleUser): Player {
+  return {
+    id: user.id,
+    username: user.username,
+    profilePicture: user.profilePicture,
+    language: user.language,
+    region: user.region,
+    currentGame: user.currentGame,
+    currentGameHandle: user.currentGameHandle,
+    lastActive: user.lastActive,
+  };
+}
+
+// Users the viewer may find, i.e. without anyone blocked either way
+export async function getVisibleUsers(viewerId: number, users: User[]): Promise<VisibleUser[]> {
+  const hidden = new Set(await storage.getHiddenUserIds(viewerId));
+  return redactUsers(viewerId, users.filter(user => !hidden.has(user.id)));
+}
+
+export async function isHiddenFrom(viewerId: number, userId: number): Promise<boolean> {
+  return viewerId !== userId && storage.isBlockedEitherWay(viewerId, userId);
+}
+
+// Whether fromUserId may send toUserId a direct message
+export async function canSendDirectMessage(fromUserId: number, toUserId: number): Promise<boolean> {
+  if (fromUserId === toUserId) return true;
+  if (await storage.isBlockedEitherWay(fromUserId, toUserId)) return false;
+
+  const recipient = await storage.getUser(toUserId);
+  if (!recipient) return false;
+
+  // Friendship only matters to a friends-only setting
+  const friendship = recipient.messagePrivacy === 'friends'
+    ? await storage.getFriendship(fromUserId, toUserId)
+    : undefined;
+  return privacyAllows(recipient.messagePrivacy, friendship?.status === 'accepted');
+}
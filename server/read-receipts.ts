@@ -0,0 +1,47 @@
+import { storage } from './storage';
+import { sendToUsers } from './realtime';
+
+/**
+ * Read receipts, shared by the REST endpoints and the WebSocket `read` /
+ * `groupRead` events. Direct messages are marked read row by row; group
+ * members instead keep a read position (the newest message they've read).
+ */
+
+// Marks messages from `senderId` to `readerId` as read and tells both of
+// them; the reader's copy keeps their unread counts in sync
+export async function markDirectMessagesRead(readerId: number, senderId: number, upToId: number): Promise<number> {
+  const readAt = new Date();
+  const updated = await storage.markMessagesRead(senderId, readerId, upToId, readAt);
+
+  if (updated > 0) {
+    sendToUsers([senderId, readerId], {
+      type: 'read',
+      readerId,
+      senderId,
+      upToId,
+      readAt
+    });
+  }
+
+  return updated;
+}
+
+// Advances a member's read position in a group and tells every member
+export async function markGroupMessagesRead(groupId: number, userId: number, upToId: number): Promise<boolean> {
+  const advanced = await storage.markGroupMessagesRead(groupId, userId, upToId);
+
+  if (advanced) {
+    const members = await storage.getGroupMembers(groupId);
+    sendToUsers(
+      members.map(member => member.id),
+      {
+        type: 'groupRead',
+        groupId,
+        userId,
+        upToId
+      }
+    );
+  }
+
+  return advanced;
+}
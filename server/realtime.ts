@@ -0,0 +1,80 @@
+import { WebSocket } from 'ws';
+import { PROTOCOL_VERSION, type ServerEvent, type ServerFrameBody } from '@shared/protocol';
+import { messageBus, type BusEvent } from './message-bus';
+
+// Open WebSocket connections on this instance, keyed by the authenticated
+// user they belong to. A user can be connected from several tabs or devices
+// at once, possibly through different instances.
+const clients = new Map<number, Set<WebSocket>>();
+
+export function registerClient(userId: number, ws: WebSocket) {
+  const sockets = clients.get(userId) ?? new Set<WebSocket>();
+  sockets.add(ws);
+  clients.set(userId, sockets);
+}
+
+export function unregisterClient(userId: number, ws: WebSocket) {
+  const sockets = clients.get(userId);
+  if (!sockets) return;
+
+  sockets.delete(ws);
+  if (sockets.size === 0) {
+    clients.delete(userId);
+  }
+}
+
+// Sends a frame on a single connection, stamped with the protocol version
+export function sendFrame(ws: WebSocket, frame: ServerFrameBody) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify({ v: PROTOCOL_VERSION, ...frame }));
+  }
+}
+
+// Close code for connections whose session has ended
+export const SESSION_ENDED_CLOSE_CODE = 4001;
+
+// Every instance hears every event and hands it to the sockets it holds
+function deliverLocally({ userIds, payload, disconnect }: BusEvent) {
+  for (const userId of userIds ?? Array.from(clients.keys())) {
+    clients.get(userId)?.forEach(ws => {
+      if (disconnect) {
+        // The socket's close handler unregisters it and updates presence
+        ws.close(SESSION_ENDED_CLOSE_CODE, 'Session ended');
+      } else {
+        sendFrame(ws, payload as ServerEvent);
+      }
+    });
+  }
+}
+
+messageBus.subscribe(deliverLocally);
+
+// Sends an event to every open connection of the given users, on whichever
+// instance they're connected to
+export function sendToUsers(userIds: number[], payload: ServerEvent) {
+  if (userIds.length === 0) return;
+
+  messageBus.publish({ userIds, payload }).catch(err => {
+    console.error('Message bus publish error:', err);
+  });
+}
+
+export function sendToUser(userId: number, payload: ServerEvent) {
+  sendToUsers([userId], payload);
+}
+
+// Closes every open connection of the user, on whichever instance they're
+// connected to, e.g. once their account is deleted or their password
+// changed. Sessions that are still logged in simply reconnect.
+export function closeUserConnections(userId: number) {
+  messageBus.publish({ userIds: [userId], payload: null, disconnect: true }).catch(err => {
+    console.error('Message bus publish error:', err);
+  });
+}
+
+// Sends an event to everyone connected, e.g. changes to public listings
+export function sendToEveryone(payload: ServerEvent) {
+  messageBus.publish({ userIds: null, payload }).catch(err => {
+    console.error('Message bus publish error:', err);
+  });
+}
@@ -0,0 +1,114 @@
+import type { User } from '@shared/schema';
+import type { MatchReason, RecommendedPlayer } from '@shared/recommendations';
+import { storage } from './storage';
+import { getVisiblePresence } from './presence';
+import { redactUsers, toPlayer } from './privacy';
+
+/**
+ * Suggests teammates for a user. Candidates are recently active users who
+ * share a game, language or region with them; each is scored on what they
+ * have in common and how recently they were around, and the reasons behind
+ * the score are returned alongside it.
+ */
+
+// Points for each thing two players have in common
+const WEIGHTS = {
+  currentGame: 10,
+  // Per game, up to MAX_SHARED_GAMES of them
+  sharedGame: 3,
+  language: 5,
+  region: 4,
+  online: 6,
+  recentlyActive: 3,
+};
+const MAX_SHARED_GAMES = 5;
+
+// Users inactive for longer than this aren't suggested at all
+const ACTIVE_WITHIN_DAYS = 30;
+// Counts as "active recently" for scoring
+const RECENT_WITHIN_DAYS = 3;
+// Candidates fetched before scoring; the best `limit` of them are returned
+const CANDIDATE_POOL_SIZE = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Names of the games each user has a profile for
+type GamesByUser = Map<number, Set<string>>;
+
+function scoreCandidate(user: User, candidate: User, gamesByUser: GamesByUser, isOnline: boolean): { score: number; reasons: MatchReason[] } {
+  const matches: { points: number; reason: MatchReason }[] = [];
+
+  if (candidate.currentGame === user.currentGame) {
+    matches.push({ points: WEIGHTS.currentGame, reason: { type: 'current-game', game: user.currentGame } });
+  }
+
+  const userGames = gamesByUser.get(user.id) ?? new Set<string>();
+  const sharedGames = Array.from(gamesByUser.get(candidate.id) ?? []).filter(game => userGames.has(game));
+  if (sharedGames.length) {
+    matches.push({
+      points: WEIGHTS.sharedGame * Math.min(sharedGames.length, MAX_SHARED_GAMES),
+      reason: { type: 'shared-games', games: sharedGames }
+    });
+  }
+
+  if (candidate.language === user.language) {
+    matches.push({ points: WEIGHTS.language, reason: { type: 'language', language: user.language } });
+  }
+  if (candidate.region === user.region) {
+    matches.push({ points: WEIGHTS.region, reason: { type: 'region', region: user.region } });
+  }
+
+  if (isOnline) {
+    matches.push({ points: WEIGHTS.online, reason: { type: 'online' } });
+  } else if (Date.now() - new Date(candidate.lastActive).getTime() < RECENT_WITHIN_DAYS * DAY_MS) {
+    matches.push({ points: WEIGHTS.recentlyActive, reason: { type: 'recently-active' } });
+  }
+
+  matches.sort((a, b) => b.points - a.points);
+  return {
+    score: matches.reduce((total, match) => total + match.points, 0),
+    reasons: matches.map(match => match.reason)
+  };
+}
+
+export async function recommendTeammates(userId: number, limit: number): Promise<RecommendedPlayer[]> {
+  const user = await storage.getUser(userId);
+  if (!user) return [];
+
+  // Friends are already found; blocked users never are
+  const excludeIds = [
+    userId,
+    ...await storage.getHiddenUserIds(userId),
+    ...await storage.getFriendIds(userId),
+  ];
+  const activeSince = new Date(Date.now() - ACTIVE_WITHIN_DAYS * DAY_MS);
+  const userGames = await storage.getUserGames(userId);
+  const candidates = await storage.getTeammateCandidates(
+    user,
+    userGames.map(game => game.gameId),
+    excludeIds,
+    activeSince,
+    CANDIDATE_POOL_SIZE
+  );
+
+  const gamesByUser: GamesByUser = new Map();
+  const profiles = [...userGames, ...await storage.getUserGamesByUserIds(candidates.map(candidate => candidate.id))];
+  for (const profile of profiles) {
+    if (!gamesByUser.has(profile.userId)) gamesByUser.set(profile.userId, new Set());
+    gamesByUser.get(profile.userId)!.add(profile.gameName);
+  }
+
+  // Only those whose presence the user may see are known to be online
+  const online = new Set((await getVisiblePresence(userId)).map(presence => presence.userId));
+  const best = candidates
+    .map(candidate => ({ candidate, ...scoreCandidate(user, candidate, gamesByUser, online.has(candidate.id)) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+
+  const players = await redactUsers(userId, best.map(match => match.candidate));
+  return best.map((match, index) => ({
+    player: toPlayer(players[index]),
+    score: match.score,
+    reasons: match.reasons
+  }));
+}
@@ -2,14 +2,40 @@ import type { Express } from "express";
 import express from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertUserSchema, insertMessageSchema, insertGroupSchema, insertGameSchema, users } from "@shared/schema";
+import { insertMessageSchema, insertGroupSchema, insertGameSchema, messagePageQuerySchema, markReadSchema, editMessageSchema, privacySettingsSchema, authEventQuerySchema, unlockLoginSchema, users } from "@shared/schema";
+import { isRole } from "@shared/permissions";
 import { setupWebSocket } from "./websocket";
+import { markDirectMessagesRead, markGroupMessagesRead } from "./read-receipts";
+import { postGroupEvent } from "./group-events";
+import { getVisiblePresence, startPresenceRefresh } from "./presence";
+import { getVisibleUsers, redactUsers, isHiddenFrom } from "./privacy";
+import { canViewMessage, canEditMessage, canDeleteMessage, editMessage, deleteMessage } from "./message-updates";
 import path from "path";
 import fs from "fs";
 import multer from "multer";
 import crypto from "crypto";
 import { eq } from "drizzle-orm";
 import ideasRouter from "./routes/ideas";
+import playersRouter from "./routes/players";
+import lfgRouter from "./routes/lfg";
+import playSessionsRouter from "./routes/play-sessions";
+import userGamesRouter from "./routes/user-games";
+import accountRouter from "./routes/account";
+import { assertMailerConfigured } from "./mailer";
+import { startPlaySessionReminders } from "./play-sessions";
+import { recordAuthEvent } from "./auth-events";
+import { closeUserConnections } from "./realtime";
+import { listThrottledLogins } from "./login-throttle";
+import {
+  requireAuth,
+  requirePermission,
+  requireSelf,
+  requireParticipant,
+  requireGroupMember,
+  requireGroupOwner,
+  rejectMismatchedActor,
+  getActorId,
+} from "./authorization";
 
 // Configure multer for file uploads
 const storage_uploads = multer.diskStorage({
@@ -38,74 +64,320 @@ export function registerRoutes(app: Express): Server {
   // Ideas routes
   app.use("/api/ideas", ideasRouter);
 
+  // Player search for the home page
+  app.use("/api/players", playersRouter);
+
+  // Looking-for-group posts
+  app.use("/api/lfg", lfgRouter);
+
+  // Play sessions scheduled in group chats
+  app.use("/api", playSessionsRouter);
+
+  // Per-game player profiles
+  app.use("/api/users", userGamesRouter);
+
+  // Email, password changes and resets, two-factor login and account deletion
+  assertMailerConfigured();
+  app.use("/api/account", accountRouter);
+
   // User endpoints
-  app.get("/api/users", async (req, res) => {
+  app.get("/api/users", requireAuth, async (req, res) => {
     const users = await storage.getActiveUsers();
-    res.json(users);
+    res.json(await getVisibleUsers(getActorId(req), users));
   });
 
-  app.get("/api/users/:id", async (req, res) => {
+  // Presence of the connected users the actor may see; anyone missing is
+  // offline as far as they're concerned
+  app.get("/api/presence", requireAuth, async (req, res) => {
+    try {
+      res.json(await getVisiblePresence(getActorId(req)));
+    } catch (error) {
+      console.error("Error fetching presence:", error);
+      res.status(500).json({ message: "Failed to fetch presence" });
+    }
+  });
+
+  app.get("/api/users/:id", requireAuth, async (req, res) => {
     const user = await storage.getUser(parseInt(req.params.id));
-    if (!user) return res.status(404).json({ message: "User not found" });
-    res.json(user);
+    if (!user || await isHiddenFrom(getActorId(req), user.id)) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    const [visible] = await redactUsers(getActorId(req), [user]);
+    res.json(visible);
   });
 
-  app.patch("/api/users/:id", async (req, res) => {
+  // Update who may message the session user and who sees their game ID
+  app.patch("/api/users/:id/privacy", requireAuth, requireSelf("id"), async (req, res) => {
+    const settings = privacySettingsSchema.safeParse(req.body);
+    if (!settings.success) {
+      return res.status(400).json({ message: "Invalid privacy settings" });
+    }
+
     try {
-      const updates = insertUserSchema.partial().parse(req.body);
-      const user = await storage.updateUser(parseInt(req.params.id), updates);
+      const { password, ...user } = await storage.updatePrivacySettings(getActorId(req), settings.data);
       res.json(user);
     } catch (err) {
-      res.status(400).json({ message: "Invalid update data" });
+      console.error("Error updating privacy settings:", err);
+      res.status(500).json({ message: "Failed to update privacy settings" });
     }
   });
 
-  // Password change endpoint
-  app.post("/api/user/change-password", async (req, res) => {
+  // Friend endpoints
+
+  // The session user's friends, pending requests and blocked users
+  app.get("/api/friends", requireAuth, async (req, res) => {
     try {
-      const { userId, currentPassword, newPassword } = req.body;
-      
-      if (!userId || !currentPassword || !newPassword) {
-        return res.status(400).json({ message: "Missing required fields" });
+      const actorId = getActorId(req);
+      const list = await storage.getFriendList(actorId);
+      res.json({
+        friends: await redactUsers(actorId, list.friends),
+        incoming: await redactUsers(actorId, list.incoming),
+        outgoing: await redactUsers(actorId, list.outgoing),
+        blocked: await redactUsers(actorId, list.blocked)
+      });
+    } catch (err) {
+      console.error("Error fetching friends:", err);
+      res.status(500).json({ message: "Failed to fetch friends" });
+    }
+  });
+
+  // Send :userId a friend request. If they already asked the session user,
+  // this accepts their request instead.
+  app.post("/api/friends/:userId", requireAuth, async (req, res) => {
+    try {
+      const actorId = getActorId(req);
+      const userId = parseInt(req.params.userId);
+      if (isNaN(userId) || userId === actorId) {
+        return res.status(400).json({ message: "Invalid user ID" });
       }
-      
-      // Get the user to verify the current password
-      const user = await storage.getUser(parseInt(userId));
+
+      const user = await storage.getUser(userId);
+      if (!user || await isHiddenFrom(actorId, userId)) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const existing = await storage.getFriendship(actorId, userId);
+      if (existing?.status === "accepted") {
+        return res.status(400).json({ message: "You are already friends" });
+      }
+      if (existing?.requesterId === actorId) {
+        return res.json(existing);
+      }
+      if (existing) {
+        const accepted = await storage.acceptFriendRequest(userId, actorId);
+        return res.json(accepted);
+      }
+
+      const friendship = await storage.createFriendRequest(actorId, userId);
+      res.status(201).json(friendship);
+    } catch (err) {
+      console.error("Error sending friend request:", err);
+      res.status(500).json({ message: "Failed to send friend request" });
+    }
+  });
+
+  // Accept the friend request :userId sent the session user
+  app.post("/api/friends/:userId/accept", requireAuth, async (req, res) => {
+    try {
+      const friendship = await storage.acceptFriendRequest(parseInt(req.params.userId), getActorId(req));
+      if (!friendship) {
+        return res.status(404).json({ message: "Friend request not found" });
+      }
+      res.json(friendship);
+    } catch (err) {
+      console.error("Error accepting friend request:", err);
+      res.status(500).json({ message: "Failed to accept friend request" });
+    }
+  });
+
+  // Decline or cancel a request, or unfriend; whichever applies to :userId
+  app.delete("/api/friends/:userId", requireAuth, async (req, res) => {
+    try {
+      const deleted = await storage.deleteFriendship(getActorId(req), parseInt(req.params.userId));
+      if (!deleted) {
+        return res.status(404).json({ message: "Friendship not found" });
+      }
+      res.json({ message: "Friendship removed" });
+    } catch (err) {
+      console.error("Error removing friendship:", err);
+      res.status(500).json({ message: "Failed to remove friendship" });
+    }
+  });
+
+  // Block :userId. Also ends any friendship or request between the two.
+  app.post("/api/blocks/:userId", requireAuth, async (req, res) => {
+    try {
+      const actorId = getActorId(req);
+      const userId = parseInt(req.params.userId);
+      if (isNaN(userId) || userId === actorId) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+
+      const user = await storage.getUser(userId);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
-      
-      // Verify the current password (this is a simplified example, use proper password hashing)
-      if (user.password !== currentPassword) {
-        return res.status(401).json({ message: "Current password is incorrect" });
+
+      await storage.blockUser(actorId, userId);
+      res.json({ message: "User blocked" });
+    } catch (err) {
+      console.error("Error blocking user:", err);
+      res.status(500).json({ message: "Failed to block user" });
+    }
+  });
+
+  app.delete("/api/blocks/:userId", requireAuth, async (req, res) => {
+    try {
+      const unblocked = await storage.unblockUser(getActorId(req), parseInt(req.params.userId));
+      if (!unblocked) {
+        return res.status(404).json({ message: "User is not blocked" });
       }
-      
-      // Update the password
-      await storage.updateUser(parseInt(userId), { password: newPassword });
-      
-      res.json({ message: "Password changed successfully" });
-    } catch (error) {
-      console.error("Password change error:", error);
-      res.status(500).json({ message: "Failed to change password" });
+      res.json({ message: "User unblocked" });
+    } catch (err) {
+      console.error("Error unblocking user:", err);
+      res.status(500).json({ message: "Failed to unblock user" });
     }
   });
 
   // Message endpoints
-  app.get("/api/messages/:fromUserId/:toUserId", async (req, res) => {
-    const messages = await storage.getMessages(
-      parseInt(req.params.fromUserId),
-      parseInt(req.params.toUserId)
-    );
-    res.json(messages);
+
+  // Earlier versions of an edited message, oldest first. Registered before
+  // the conversation route, which would otherwise take "edits" as a user ID.
+  app.get("/api/messages/:id/edits", requireAuth, async (req, res) => {
+    try {
+      const message = await storage.getMessage(parseInt(req.params.id));
+      if (!message || !await canViewMessage(getActorId(req), message)) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      const edits = await storage.getMessageEdits(message.id);
+      res.json(edits);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch edit history" });
+    }
+  });
+
+  // Paged with ?before=<messageId> (older) or ?after=<messageId> (newer) and ?limit
+  app.get("/api/messages/:fromUserId/:toUserId", requireAuth, requireParticipant("fromUserId", "toUserId"), async (req, res) => {
+    const pageQuery = messagePageQuerySchema.safeParse(req.query);
+    if (!pageQuery.success) {
+      return res.status(400).json({ message: "Invalid pagination parameters" });
+    }
+
+    try {
+      // Either parameter may name the session user; history is fetched as they see it
+      const actorId = getActorId(req);
+      const fromUserId = parseInt(req.params.fromUserId);
+      const otherUserId = fromUserId === actorId ? parseInt(req.params.toUserId) : fromUserId;
+      const page = await storage.getMessages(actorId, otherUserId, pageQuery.data);
+      res.json(page);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
+
+  // The session user's direct chats and groups with last message and unread count
+  app.get("/api/conversations", requireAuth, async (req, res) => {
+    try {
+      const conversations = await storage.getConversations(getActorId(req));
+      res.json(conversations);
+    } catch (err) {
+      console.error("Error fetching conversations:", err);
+      res.status(500).json({ message: "Failed to fetch conversations" });
+    }
+  });
+
+  // Mark messages from :userId to the session user as read, up to body.upToId
+  app.post("/api/messages/:userId/read", requireAuth, async (req, res) => {
+    const senderId = parseInt(req.params.userId);
+    const body = markReadSchema.safeParse(req.body);
+    if (isNaN(senderId) || !body.success) {
+      return res.status(400).json({ message: "Invalid read receipt" });
+    }
+
+    try {
+      const updated = await markDirectMessagesRead(getActorId(req), senderId, body.data.upToId);
+      res.json({ updated });
+    } catch (err) {
+      res.status(500).json({ message: "Failed to mark messages as read" });
+    }
+  });
+
+  // Edit one of the session user's messages
+  app.patch("/api/messages/:id", requireAuth, async (req, res) => {
+    const body = editMessageSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({ message: body.error.errors[0]?.message ?? "Invalid message" });
+    }
+
+    try {
+      const message = await storage.getMessage(parseInt(req.params.id));
+      if (!message || message.deletedAt) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      if (!await canEditMessage(getActorId(req), message)) {
+        return res.status(403).json({ message: "You can only edit your own messages" });
+      }
+
+      if (message.type !== "text") {
+        return res.status(400).json({ message: "Only text messages can be edited" });
+      }
+
+      const updated = await editMessage(message, body.data.content);
+      res.json(updated);
+    } catch (err) {
+      console.error("Error editing message:", err);
+      res.status(500).json({ message: "Failed to edit message" });
+    }
+  });
+
+  // Delete a message; it stays in the conversation as "message deleted"
+  app.delete("/api/messages/:id", requireAuth, async (req, res) => {
+    try {
+      const message = await storage.getMessage(parseInt(req.params.id));
+      if (!message || message.deletedAt) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      if (!await canDeleteMessage(getActorId(req), message)) {
+        return res.status(403).json({ message: "You don't have permission to delete this message" });
+      }
+
+      const deleted = await deleteMessage(message);
+      res.json(deleted);
+    } catch (err) {
+      console.error("Error deleting message:", err);
+      res.status(500).json({ message: "Failed to delete message" });
+    }
+  });
+
+  // Clear the session user's history with :id. Only hidden for the session
+  // user; the other participant keeps their copy.
+  app.delete("/api/users/:id/chat", requireAuth, async (req, res) => {
+    const otherUserId = parseInt(req.params.id);
+    if (isNaN(otherUserId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
+    }
+
+    try {
+      await storage.clearConversation(getActorId(req), otherUserId);
+      res.json({ message: "Conversation cleared" });
+    } catch (err) {
+      console.error("Error clearing conversation:", err);
+      res.status(500).json({ message: "Failed to clear conversation" });
+    }
   });
 
   // Group endpoints
   
   // Create a new group
-  app.post("/api/groups", async (req, res) => {
+  app.post("/api/groups", requireAuth, rejectMismatchedActor("ownerId"), async (req, res) => {
     try {
-      const groupData = insertGroupSchema.parse(req.body);
+      // The session user always owns the groups they create
+      const groupData = insertGroupSchema.parse({ ...req.body, ownerId: getActorId(req) });
       const group = await storage.createGroup(groupData);
+      await postGroupEvent(group.id, req.user!.id, "group-created", req.user!);
       res.status(201).json(group);
     } catch (err) {
       res.status(400).json({ message: "Invalid group data" });
@@ -113,7 +385,7 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Get all groups for a user
-  app.get("/api/users/:userId/groups", async (req, res) => {
+  app.get("/api/users/:userId/groups", requireAuth, requireSelf("userId"), async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
       const groups = await storage.getUserGroups(userId);
@@ -124,7 +396,7 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Get a specific group
-  app.get("/api/groups/:groupId", async (req, res) => {
+  app.get("/api/groups/:groupId", requireAuth, requireGroupMember("groupId"), async (req, res) => {
     try {
       const groupId = parseInt(req.params.groupId);
       const group = await storage.getGroup(groupId);
@@ -140,14 +412,10 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Delete a group
-  app.delete("/api/groups/:groupId", async (req, res) => {
+  app.delete("/api/groups/:groupId", requireAuth, rejectMismatchedActor("userId"), async (req, res) => {
     try {
       const groupId = parseInt(req.params.groupId);
-      const userId = parseInt(req.body.userId);
-      
-      if (!userId) {
-        return res.status(400).json({ message: "User ID is required" });
-      }
+      const userId = getActorId(req);
       
       const success = await storage.deleteGroup(groupId, userId);
       
@@ -162,38 +430,45 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Get all members of a group
-  app.get("/api/groups/:groupId/members", async (req, res) => {
+  app.get("/api/groups/:groupId/members", requireAuth, requireGroupMember("groupId"), async (req, res) => {
     try {
       const groupId = parseInt(req.params.groupId);
       const members = await storage.getGroupMembers(groupId);
-      res.json(members);
+      res.json(await redactUsers(getActorId(req), members));
     } catch (err) {
       res.status(500).json({ message: "Failed to fetch group members" });
     }
   });
 
   // Add a member to a group
-  app.post("/api/groups/:groupId/members", async (req, res) => {
+  app.post("/api/groups/:groupId/members", requireAuth, rejectMismatchedActor("currentUserId"), requireGroupOwner("groupId"), async (req, res) => {
     try {
       const groupId = parseInt(req.params.groupId);
-      const { userId, currentUserId } = req.body;
+      const { userId } = req.body;
       
-      if (!userId || !currentUserId) {
-        return res.status(400).json({ message: "User IDs are required" });
+      if (!userId) {
+        return res.status(400).json({ message: "User ID is required" });
       }
       
-      // Check if the current user is the owner
-      const isOwner = await storage.isGroupOwner(groupId, currentUserId);
-      
-      if (!isOwner) {
-        return res.status(403).json({ message: "Only the group owner can add members" });
+      const member = await storage.getUser(parseInt(userId));
+      if (!member) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      // Group messages would otherwise get around a block
+      if (await storage.isBlockedEitherWay(getActorId(req), member.id)) {
+        return res.status(403).json({ message: "You can't add this user to a group" });
       }
       
+      const alreadyMember = await storage.isGroupMember(groupId, member.id);
       await storage.addGroupMember({
         groupId,
-        userId: parseInt(userId)
+        userId: member.id
       });
       
+      if (!alreadyMember) {
+        await postGroupEvent(groupId, getActorId(req), "member-joined", member);
+      }
+      
       res.json({ message: "Member added successfully" });
     } catch (err) {
       res.status(500).json({ message: "Failed to add member to group" });
@@ -201,15 +476,11 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Remove a member from a group
-  app.delete("/api/groups/:groupId/members/:memberId", async (req, res) => {
+  app.delete("/api/groups/:groupId/members/:memberId", requireAuth, rejectMismatchedActor("currentUserId"), async (req, res) => {
     try {
       const groupId = parseInt(req.params.groupId);
       const memberId = parseInt(req.params.memberId);
-      const currentUserId = parseInt(req.body.currentUserId);
-      
-      if (!currentUserId) {
-        return res.status(400).json({ message: "Current user ID is required" });
-      }
+      const currentUserId = getActorId(req);
       
       // Check if the current user is the owner
       const isOwner = await storage.isGroupOwner(groupId, currentUserId);
@@ -221,12 +492,17 @@ export function registerRoutes(app: Express): Server {
         return res.status(403).json({ message: "You don't have permission to remove this member" });
       }
       
+      const member = await storage.getUser(memberId);
       const success = await storage.removeGroupMember(groupId, memberId);
       
       if (!success) {
         return res.status(400).json({ message: "Failed to remove member" });
       }
       
+      if (member) {
+        await postGroupEvent(groupId, currentUserId, isSelfRemoval ? "member-left" : "member-removed", member);
+      }
+      
       res.json({ message: "Member removed successfully" });
     } catch (err) {
       res.status(500).json({ message: "Failed to remove member from group" });
@@ -234,18 +510,18 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Transfer group ownership
-  app.post("/api/groups/:groupId/transfer-ownership", async (req, res) => {
+  app.post("/api/groups/:groupId/transfer-ownership", requireAuth, rejectMismatchedActor("currentOwnerId"), async (req, res) => {
     try {
       const groupId = parseInt(req.params.groupId);
-      const { currentOwnerId, newOwnerId } = req.body;
+      const { newOwnerId } = req.body;
       
-      if (!currentOwnerId || !newOwnerId) {
-        return res.status(400).json({ message: "Owner IDs are required" });
+      if (!newOwnerId) {
+        return res.status(400).json({ message: "New owner ID is required" });
       }
       
       const success = await storage.transferGroupOwnership(
         groupId,
-        parseInt(currentOwnerId),
+        getActorId(req),
         parseInt(newOwnerId)
       );
       
@@ -253,38 +529,80 @@ export function registerRoutes(app: Express): Server {
         return res.status(403).json({ message: "Ownership transfer failed" });
       }
       
+      const newOwner = await storage.getUser(parseInt(newOwnerId));
+      if (newOwner) {
+        await postGroupEvent(groupId, getActorId(req), "ownership-transferred", newOwner);
+      }
+      
       res.json({ message: "Ownership transferred successfully" });
     } catch (err) {
       res.status(500).json({ message: "Failed to transfer ownership" });
     }
   });
 
-  // Get messages for a group
-  app.get("/api/groups/:groupId/messages", async (req, res) => {
+  // Get messages for a group, paged the same way as direct messages
+  app.get("/api/groups/:groupId/messages", requireAuth, rejectMismatchedActor("userId"), requireGroupMember("groupId"), async (req, res) => {
+    const pageQuery = messagePageQuerySchema.safeParse(req.query);
+    if (!pageQuery.success) {
+      return res.status(400).json({ message: "Invalid pagination parameters" });
+    }
+
     try {
       const groupId = parseInt(req.params.groupId);
-      const userId = parseInt(req.query.userId as string);
-      
-      if (!userId) {
-        return res.status(400).json({ message: "User ID is required" });
+      const page = await storage.getGroupMessages(groupId, pageQuery.data);
+      res.json(page);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch group messages" });
+    }
+  });
+
+  // Delete a message in a group; allowed for its author and group admins
+  app.delete("/api/groups/:groupId/messages/:messageId", requireAuth, requireGroupMember("groupId"), async (req, res) => {
+    try {
+      const message = await storage.getMessage(parseInt(req.params.messageId));
+      if (!message || message.deletedAt || message.groupId !== parseInt(req.params.groupId)) {
+        return res.status(404).json({ message: "Message not found" });
       }
-      
-      // Check if the user is a member of the group
-      const isMember = await storage.isGroupMember(groupId, userId);
-      
-      if (!isMember) {
-        return res.status(403).json({ message: "You don't have permission to view these messages" });
+
+      if (!await canDeleteMessage(getActorId(req), message)) {
+        return res.status(403).json({ message: "You don't have permission to delete this message" });
       }
-      
-      const messages = await storage.getGroupMessages(groupId);
-      res.json(messages);
+
+      const deleted = await deleteMessage(message);
+      res.json(deleted);
     } catch (err) {
-      res.status(500).json({ message: "Failed to fetch group messages" });
+      console.error("Error deleting group message:", err);
+      res.status(500).json({ message: "Failed to delete message" });
+    }
+  });
+
+  // Move the session user's read position in a group forward to body.upToId
+  app.post("/api/groups/:groupId/read", requireAuth, requireGroupMember("groupId"), async (req, res) => {
+    const body = markReadSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({ message: "Invalid read receipt" });
+    }
+
+    try {
+      await markGroupMessagesRead(parseInt(req.params.groupId), getActorId(req), body.data.upToId);
+      res.json({ success: true });
+    } catch (err) {
+      res.status(500).json({ message: "Failed to mark messages as read" });
+    }
+  });
+
+  // Read positions of every member of a group, for "seen by"
+  app.get("/api/groups/:groupId/read-receipts", requireAuth, requireGroupMember("groupId"), async (req, res) => {
+    try {
+      const receipts = await storage.getGroupReadPositions(parseInt(req.params.groupId));
+      res.json(receipts);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch read receipts" });
     }
   });
 
   // Image upload endpoint
-  app.post("/api/upload/image", upload.single("image"), (req, res) => {
+  app.post("/api/upload/image", requireAuth, upload.single("image"), (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
@@ -349,35 +667,12 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
-  // Admin middleware to check if user is an admin
-  const isAdmin = async (req: express.Request, res: express.Response, next: express.NextFunction) => {
-    try {
-      // Check if user ID is in request
-      const userId = req.body.userId || req.query.userId || req.params.userId;
-      
-      if (!userId) {
-        return res.status(401).json({ message: "Unauthorized - User ID not provided" });
-      }
-      
-      // Get user from database
-      const user = await storage.getUser(parseInt(userId));
-      
-      if (!user || !user.isAdmin) {
-        return res.status(403).json({ message: "Forbidden - Admin access required" });
-      }
-      
-      next();
-    } catch (error) {
-      console.error("Admin authorization error:", error);
-      res.status(500).json({ message: "Server error during authorization" });
-    }
-  };
-
   // Admin endpoint to delete a user
-  app.delete("/api/admin/users/:id", isAdmin, async (req, res) => {
+  app.delete("/api/admin/users/:id", requirePermission("users:delete"), rejectMismatchedActor("userId"), async (req, res) => {
     try {
       const userIdToDelete = parseInt(req.params.id);
       await storage.deleteUser(userIdToDelete);
+      closeUserConnections(userIdToDelete);
       res.json({ message: "User deleted successfully" });
     } catch (error) {
       console.error("Error deleting user:", error);
@@ -385,8 +680,76 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Admin endpoints for two-factor login: who has it on, and turning it off
+  // for a user who lost their authenticator app and recovery codes
+  app.get("/api/admin/users/two-factor", requirePermission("users:reset-2fa"), async (req, res) => {
+    try {
+      res.json(await storage.getTwoFactorUserIds());
+    } catch (error) {
+      console.error("Error fetching two-factor users:", error);
+      res.status(500).json({ message: "Failed to fetch two-factor users" });
+    }
+  });
+
+  app.delete("/api/admin/users/:id/two-factor", requirePermission("users:reset-2fa"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const reset = await storage.disableTotp(userId);
+      if (!reset) {
+        return res.status(404).json({ message: "Two-factor login is not on for this user" });
+      }
+      const user = await storage.getUser(userId);
+      await recordAuthEvent(req, "two-factor-disabled", { userId, username: user?.username });
+      res.json({ message: "Two-factor login reset" });
+    } catch (error) {
+      console.error("Error resetting two-factor login:", error);
+      res.status(500).json({ message: "Failed to reset two-factor login" });
+    }
+  });
+
+  // Admin endpoints for the auth audit log: recent events, the usernames and
+  // addresses being throttled, and clearing a username's failed logins
+  app.get("/api/admin/auth-events", requirePermission("auth:audit"), async (req, res) => {
+    const query = authEventQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: query.error.errors[0]?.message ?? "Invalid filters" });
+    }
+
+    try {
+      res.json(await storage.getAuthEvents(query.data));
+    } catch (error) {
+      console.error("Error fetching auth events:", error);
+      res.status(500).json({ message: "Failed to fetch auth events" });
+    }
+  });
+
+  app.get("/api/admin/auth-events/throttled", requirePermission("auth:audit"), async (req, res) => {
+    try {
+      res.json(await listThrottledLogins());
+    } catch (error) {
+      console.error("Error fetching throttled logins:", error);
+      res.status(500).json({ message: "Failed to fetch throttled logins" });
+    }
+  });
+
+  app.post("/api/admin/auth-events/unlock", requirePermission("auth:audit"), async (req, res) => {
+    const body = unlockLoginSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({ message: body.error.errors[0]?.message ?? "Invalid username" });
+    }
+
+    try {
+      const user = await storage.getUserByUsername(body.data.username);
+      await recordAuthEvent(req, "account-unlocked", { userId: user?.id, username: body.data.username });
+      res.json({ message: "Login unlocked" });
+    } catch (error) {
+      console.error("Error unlocking login:", error);
+      res.status(500).json({ message: "Failed to unlock login" });
+    }
+  });
+
   // Admin endpoint to delete a game
-  app.delete("/api/admin/games/:id", isAdmin, async (req, res) => {
+  app.delete("/api/admin/games/:id", requirePermission("games:write"), rejectMismatchedActor("userId"), async (req, res) => {
     try {
       await storage.deleteGame(parseInt(req.params.id));
       res.json({ success: true });
@@ -396,6 +759,30 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Admin endpoint to change a user's role
+  app.patch("/api/admin/users/:id/role", requirePermission("roles:assign"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const { role } = req.body;
+
+      if (!isRole(role)) {
+        return res.status(400).json({ message: "Invalid role" });
+      }
+
+      // Prevent admins from locking themselves out of role management
+      if (userId === getActorId(req)) {
+        return res.status(400).json({ message: "You cannot change your own role" });
+      }
+
+      const user = await storage.setUserRole(userId, role);
+      const { password, ...userWithoutPassword } = user;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      console.error("Error updating user role:", error);
+      res.status(500).json({ message: "Failed to update user role" });
+    }
+  });
+
   // Debug endpoint - no auth check, just returns dummy data
   app.get("/api/admin/user-stats/debug", (req, res) => {
     console.log("Debug user stats endpoint called");
@@ -426,48 +813,11 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Get user statistics for admin dashboard - completely rewritten
-  app.get("/api/admin/user-stats", async (req, res) => {
+  app.get("/api/admin/user-stats", requirePermission("admin:access"), rejectMismatchedActor("userId"), async (req, res) => {
     // Always set JSON content type to avoid HTML responses
     res.setHeader('Content-Type', 'application/json');
     
     try {
-      // Extract user ID from query parameter
-      const userId = req.query.userId;
-      
-      // Basic validation
-      if (!userId || typeof userId !== 'string') {
-        return res.status(401).json({ 
-          success: false, 
-          message: "Unauthorized: User ID missing or invalid" 
-        });
-      }
-      
-      // Get user from database
-      const userIdNumber = parseInt(userId);
-      if (isNaN(userIdNumber)) {
-        return res.status(400).json({ 
-          success: false, 
-          message: "Invalid user ID format" 
-        });
-      }
-      
-      const user = await storage.getUser(userIdNumber);
-      
-      // Check if user exists and is an admin
-      if (!user) {
-        return res.status(404).json({ 
-          success: false, 
-          message: "User not found" 
-        });
-      }
-      
-      if (!user.isAdmin) {
-        return res.status(403).json({ 
-          success: false, 
-          message: "Access denied: Admin privileges required" 
-        });
-      }
-      
       // Get the statistics data
       const userStats = await storage.getUserStatsByRegionAndLanguage();
       const activeUserCounts = await storage.getActiveUserCounts();
@@ -491,48 +841,11 @@ export function registerRoutes(app: Express): Server {
   });
   
   // Get games by region statistics for admin dashboard
-  app.get("/api/admin/games-by-region", async (req, res) => {
+  app.get("/api/admin/games-by-region", requirePermission("admin:access"), rejectMismatchedActor("userId"), async (req, res) => {
     // Always set JSON content type to avoid HTML responses
     res.setHeader('Content-Type', 'application/json');
     
     try {
-      // Extract user ID from query parameter
-      const userId = req.query.userId;
-      
-      // Basic validation
-      if (!userId || typeof userId !== 'string') {
-        return res.status(401).json({ 
-          success: false, 
-          message: "Unauthorized: User ID missing or invalid" 
-        });
-      }
-      
-      // Get user from database
-      const userIdNumber = parseInt(userId);
-      if (isNaN(userIdNumber)) {
-        return res.status(400).json({ 
-          success: false, 
-          message: "Invalid user ID format" 
-        });
-      }
-      
-      const user = await storage.getUser(userIdNumber);
-      
-      // Check if user exists and is an admin
-      if (!user) {
-        return res.status(404).json({ 
-          success: false, 
-          message: "User not found" 
-        });
-      }
-      
-      if (!user.isAdmin) {
-        return res.status(403).json({ 
-          success: false, 
-          message: "Access denied: Admin privileges required" 
-        });
-      }
-      
       // Get the actual games by region data from storage
       const gamesByRegion = await storage.getGamesPlayedByRegion();
       
@@ -554,7 +867,7 @@ export function registerRoutes(app: Express): Server {
   });
 
   // Admin endpoint to add a new game
-  app.post("/api/admin/games", isAdmin, async (req, res) => {
+  app.post("/api/admin/games", requirePermission("games:write"), rejectMismatchedActor("userId"), async (req, res) => {
     try {
       const gameData = insertGameSchema.parse(req.body.game);
       const newGame = await storage.createGame(gameData);
@@ -597,6 +910,8 @@ export function registerRoutes(app: Express): Server {
 
   const httpServer = createServer(app);
   setupWebSocket(httpServer);
+  startPlaySessionReminders();
+  startPresenceRefresh();
 
   return httpServer;
 }
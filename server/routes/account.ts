@@ -0,0 +1,359 @@
+import { Router, type Request } from 'express';
+import bcrypt from 'bcrypt';
+import {
+  updateEmailSchema,
+  changePasswordSchema,
+  passwordResetRequestSchema,
+  passwordResetSchema,
+  verifyEmailSchema,
+  deleteAccountSchema,
+  enableTwoFactorSchema,
+  twoFactorPasswordSchema,
+  type TwoFactorStatus,
+} from '@shared/schema';
+import { storage } from '../storage';
+import { requireAuth, getActorId } from '../authorization';
+import { sendVerificationEmail, sendPasswordResetEmail, verifyEmail, resetPassword } from '../account';
+import { generateTotpSecret, totpUri, verifyTotp } from '../totp';
+import { generateRecoveryCodes } from '../two-factor';
+import { clientIp, recordAuthEvent } from '../auth-events';
+import { checkResetRequestLimits, throttleLogin } from '../login-throttle';
+import { closeUserConnections } from '../realtime';
+
+const router = Router();
+
+// Password checks for the session user are throttled like logins to their
+// username, so a left-open session can't be used to guess the password
+const throttleSessionUser = throttleLogin((req: Request) => req.user?.username);
+
+// Sets or removes the session user's email. A new address has to be verified
+// through the link sent to it.
+router.put('/email', requireAuth, async (req, res) => {
+  const body = updateEmailSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0]?.message ?? 'Invalid email' });
+  }
+
+  try {
+    const actorId = getActorId(req);
+    const { email } = body.data;
+    if (email) {
+      const owner = await storage.getUserByEmail(email);
+      if (owner && owner.id !== actorId) {
+        return res.status(409).json({ message: 'That email is already in use' });
+      }
+    }
+
+    const current = await storage.getUser(actorId);
+    const user = current && current.email === email ? current : await storage.setUserEmail(actorId, email);
+    if (user.email && !user.emailVerifiedAt) {
+      // The address is saved either way; the user can ask for another link
+      await sendVerificationEmail(user).catch(error => {
+        console.error('Error sending verification email:', error);
+      });
+    }
+
+    const { password, ...userWithoutPassword } = user;
+    res.json(userWithoutPassword);
+  } catch (error) {
+    console.error('Error updating email:', error);
+    res.status(500).json({ message: 'Failed to update email' });
+  }
+});
+
+// Sends another verification link to the session user's email
+router.post('/email/verification', requireAuth, async (req, res) => {
+  try {
+    const user = await storage.getUser(getActorId(req));
+    if (!user?.email) {
+      return res.status(400).json({ message: 'Add an email first' });
+    }
+    if (user.emailVerifiedAt) {
+      return res.status(400).json({ message: 'Your email is already verified' });
+    }
+
+    await sendVerificationEmail(user);
+    res.json({ message: 'Verification email sent' });
+  } catch (error) {
+    console.error('Error sending verification email:', error);
+    res.status(500).json({ message: 'Failed to send verification email' });
+  }
+});
+
+// Followed from the emailed link, so it works without being logged in
+router.post('/email/verify', async (req, res) => {
+  const body = verifyEmailSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0]?.message ?? 'Invalid verification link' });
+  }
+
+  try {
+    const user = await verifyEmail(body.data.token);
+    if (!user) {
+      return res.status(400).json({ message: 'This link is invalid or has expired' });
+    }
+    res.json({ message: 'Email verified' });
+  } catch (error) {
+    console.error('Error verifying email:', error);
+    res.status(500).json({ message: 'Failed to verify email' });
+  }
+});
+
+router.post('/change-password', requireAuth, throttleSessionUser, async (req, res) => {
+  const body = changePasswordSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0]?.message ?? 'Invalid password' });
+  }
+
+  try {
+    const user = await storage.getUser(getActorId(req));
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    if (!await bcrypt.compare(body.data.currentPassword, user.password)) {
+      await recordAuthEvent(req, 'password-failure', { userId: user.id, username: user.username });
+      return res.status(401).json({ message: 'Current password is incorrect' });
+    }
+
+    // Every other session is logged out; this one moves to the new version
+    req.session.sessionVersion = await storage.setPassword(user.id, await bcrypt.hash(body.data.newPassword, 10));
+    closeUserConnections(user.id);
+    await recordAuthEvent(req, 'password-change', { userId: user.id, username: user.username });
+    res.json({ message: 'Password changed successfully' });
+  } catch (error) {
+    console.error('Error changing password:', error);
+    res.status(500).json({ message: 'Failed to change password' });
+  }
+});
+
+// Emails a reset link if the address belongs to an account and is verified.
+// The answer is the same either way, and is sent without waiting for the
+// email, so it can't be used to find out who has an account. An account over
+// its limit just doesn't get another email.
+router.post('/password-reset', throttleLogin(), async (req, res) => {
+  const body = passwordResetRequestSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0]?.message ?? 'Invalid email' });
+  }
+
+  try {
+    const user = await storage.getUserByEmail(body.data.email);
+    await recordAuthEvent(req, 'password-reset-requested', { userId: user?.id, username: user?.username });
+
+    const limits = await checkResetRequestLimits(clientIp(req), user?.id ?? null);
+    if (limits.ipLimited) {
+      return res.status(429).json({ message: 'Too many reset requests. Try again later.' });
+    }
+    if (user && !limits.accountLimited) {
+      sendPasswordResetEmail(user).catch(error => {
+        console.error('Error sending password reset email:', error);
+      });
+    }
+  } catch (error) {
+    console.error('Error requesting password reset:', error);
+  }
+  res.json({ message: 'If that email belongs to a verified account, a reset link is on its way' });
+});
+
+router.post('/password-reset/confirm', throttleLogin(), async (req, res) => {
+  const body = passwordResetSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0]?.message ?? 'Invalid password' });
+  }
+
+  try {
+    const user = await resetPassword(body.data.token, await bcrypt.hash(body.data.newPassword, 10));
+    if (!user) {
+      await recordAuthEvent(req, 'password-reset-failure');
+      return res.status(400).json({ message: 'This link is invalid or has expired' });
+    }
+    // Resetting logged out every session (see storage.setPassword)
+    closeUserConnections(user.id);
+    await recordAuthEvent(req, 'password-reset', { userId: user.id, username: user.username });
+    res.json({ message: 'Password reset. You can now log in.' });
+  } catch (error) {
+    console.error('Error resetting password:', error);
+    res.status(500).json({ message: 'Failed to reset password' });
+  }
+});
+
+// Whether the session user has two-factor login on
+router.get('/2fa', requireAuth, async (req, res) => {
+  try {
+    const actorId = getActorId(req);
+    const totp = await storage.getUserTotp(actorId);
+    const status: TwoFactorStatus = {
+      enabled: !!totp,
+      enabledAt: totp?.enabledAt ?? null,
+      recoveryCodesLeft: totp ? await storage.countRecoveryCodes(actorId) : 0,
+    };
+    res.json(status);
+  } catch (error) {
+    console.error('Error fetching two-factor status:', error);
+    res.status(500).json({ message: 'Failed to fetch two-factor status' });
+  }
+});
+
+// Starts setting up an authenticator app. The secret is kept in the session
+// until a code from the app confirms it was added. Like every other change to
+// two-factor login this needs the password, so a session left open isn't
+// enough to lock the owner out with someone else's app.
+router.post('/2fa/setup', requireAuth, throttleSessionUser, async (req, res) => {
+  const body = twoFactorPasswordSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0]?.message ?? 'Password is required' });
+  }
+
+  try {
+    const user = await storage.getUser(getActorId(req));
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    if (!await bcrypt.compare(body.data.password, user.password)) {
+      await recordAuthEvent(req, 'password-failure', { userId: user.id, username: user.username });
+      return res.status(401).json({ message: 'Password is incorrect' });
+    }
+    if (await storage.getUserTotp(user.id)) {
+      return res.status(400).json({ message: 'Two-factor login is already on' });
+    }
+
+    const secret = generateTotpSecret();
+    req.session.totpEnrollment = { secret };
+    res.json({ secret, uri: totpUri(secret, user.username) });
+  } catch (error) {
+    console.error('Error starting two-factor setup:', error);
+    res.status(500).json({ message: 'Failed to start two-factor setup' });
+  }
+});
+
+// Turns two-factor login on and sends the recovery codes, which are never
+// shown again
+router.post('/2fa/enable', requireAuth, throttleSessionUser, async (req, res) => {
+  const body = enableTwoFactorSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0]?.message ?? 'Invalid code' });
+  }
+
+  const enrollment = req.session.totpEnrollment;
+  if (!enrollment) {
+    return res.status(400).json({ message: 'Start the setup again' });
+  }
+
+  try {
+    const user = await storage.getUser(getActorId(req));
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    if (!await bcrypt.compare(body.data.password, user.password)) {
+      await recordAuthEvent(req, 'password-failure', { userId: user.id, username: user.username });
+      return res.status(401).json({ message: 'Password is incorrect' });
+    }
+
+    const step = verifyTotp(enrollment.secret, body.data.code);
+    if (step === null) {
+      return res.status(400).json({ message: 'That code is not valid. Check the time on your device and try again.' });
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    await storage.enableTotp(user.id, enrollment.secret, hashes);
+    // The code just entered can't be used again to log in
+    await storage.useTotpStep(user.id, step);
+    delete req.session.totpEnrollment;
+    await recordAuthEvent(req, 'two-factor-enabled', { userId: user.id, username: user.username });
+    res.json({ recoveryCodes: codes });
+  } catch (error) {
+    console.error('Error enabling two-factor login:', error);
+    res.status(500).json({ message: 'Failed to turn on two-factor login' });
+  }
+});
+
+router.post('/2fa/disable', requireAuth, throttleSessionUser, async (req, res) => {
+  const body = twoFactorPasswordSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0]?.message ?? 'Password is required' });
+  }
+
+  try {
+    const user = await storage.getUser(getActorId(req));
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    if (!await bcrypt.compare(body.data.password, user.password)) {
+      await recordAuthEvent(req, 'password-failure', { userId: user.id, username: user.username });
+      return res.status(401).json({ message: 'Password is incorrect' });
+    }
+
+    if (!await storage.disableTotp(user.id)) {
+      return res.status(400).json({ message: 'Two-factor login is not on' });
+    }
+    await recordAuthEvent(req, 'two-factor-disabled', { userId: user.id, username: user.username });
+    res.json({ message: 'Two-factor login turned off' });
+  } catch (error) {
+    console.error('Error disabling two-factor login:', error);
+    res.status(500).json({ message: 'Failed to turn off two-factor login' });
+  }
+});
+
+// Replaces every recovery code, used or not, and sends the new ones
+router.post('/2fa/recovery-codes', requireAuth, throttleSessionUser, async (req, res) => {
+  const body = twoFactorPasswordSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0]?.message ?? 'Password is required' });
+  }
+
+  try {
+    const user = await storage.getUser(getActorId(req));
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    if (!await bcrypt.compare(body.data.password, user.password)) {
+      await recordAuthEvent(req, 'password-failure', { userId: user.id, username: user.username });
+      return res.status(401).json({ message: 'Password is incorrect' });
+    }
+    if (!await storage.getUserTotp(user.id)) {
+      return res.status(400).json({ message: 'Two-factor login is not on' });
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    await storage.replaceRecoveryCodes(user.id, hashes);
+    res.json({ recoveryCodes: codes });
+  } catch (error) {
+    console.error('Error replacing recovery codes:', error);
+    res.status(500).json({ message: 'Failed to replace recovery codes' });
+  }
+});
+
+// Deletes the session user's account and everything in it, then logs out
+router.delete('/', requireAuth, throttleSessionUser, async (req, res) => {
+  const body = deleteAccountSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0]?.message ?? 'Password is required' });
+  }
+
+  try {
+    const user = await storage.getUser(getActorId(req));
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    if (!await bcrypt.compare(body.data.password, user.password)) {
+      await recordAuthEvent(req, 'password-failure', { userId: user.id, username: user.username });
+      return res.status(401).json({ message: 'Password is incorrect' });
+    }
+
+    await storage.deleteUser(user.id);
+    closeUserConnections(user.id);
+    // Without the user ID, which no longer exists
+    await recordAuthEvent(req, 'account-deleted', { username: user.username });
+    req.logout((err) => {
+      if (err) {
+        console.error('Error logging out deleted user:', err);
+      }
+      res.json({ message: 'Account deleted' });
+    });
+  } catch (error) {
+    console.error('Error deleting account:', error);
+    res.status(500).json({ message: 'Failed to delete account' });
+  }
+});
+
+export default router;
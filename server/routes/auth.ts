@@ -1,10 +1,15 @@
-import express from 'express';
+import express, { type Request, type Response, type NextFunction } from 'express';
 import passport from 'passport';
 import bcrypt from 'bcrypt';
 import { storage } from '../storage';
 import { db } from '../db';
-import { users, type User } from '@shared/schema';
+import { users, userGameIdsSchema, twoFactorLoginSchema, type User } from '@shared/schema';
 import { eq } from 'drizzle-orm';
+import { getRolePermissions } from '@shared/permissions';
+import { isRegion } from '@shared/regions';
+import { checkSecondFactor, TWO_FACTOR_LOGIN_TTL_MS, TWO_FACTOR_MAX_ATTEMPTS } from '../two-factor';
+import { recordAuthEvent } from '../auth-events';
+import { throttleLogin } from '../login-throttle';
 
 // Extend express session types
 declare module 'express-session' {
@@ -14,45 +19,117 @@ declare module 'express-session' {
       password: string;
       [key: string]: any;
     };
+    // A login waiting for its second factor (see ../two-factor.ts)
+    pendingTwoFactor?: {
+      userId: number;
+      username: string;
+      expiresAt: number;
+      attempts: number;
+    };
+    // A secret the session user is setting up their authenticator app with
+    totpEnrollment?: {
+      secret: string;
+    };
   }
 }
 
 const router = express.Router();
 
-// Login route
-router.post('/login', (req, res, next) => {
-  passport.authenticate('local', (err: Error | null, user: User | false, info: { message: string }) => {
+// Logs the user in and sends them back without their password
+function completeLogin(req: Request, res: Response, next: NextFunction, user: User) {
+  req.logIn(user, async (err) => {
+    if (err) {
+      return next(err);
+    }
+    req.session.sessionVersion = user.sessionVersion;
+    await recordAuthEvent(req, 'login-success', { userId: user.id, username: user.username });
+    // Don't send password back to client
+    const { password, ...userWithoutPassword } = user;
+    
+    // Log user data for debugging
+    console.log('Login successful, user data:', { 
+      id: user.id, 
+      username: user.username, 
+      role: user.role 
+    });
+    
+    return res.json({ 
+      user: {
+        ...userWithoutPassword,
+        permissions: getRolePermissions(user.role)
+      },
+      redirect: 'home'  // Add redirect information
+    });
+  });
+}
+
+// The username a login attempt is for
+function attemptedUsername(req: Request): string | undefined {
+  return typeof req.body?.username === 'string' ? req.body.username : undefined;
+}
+
+// Login route. Users with two-factor login on aren't logged in yet; they
+// have to send a code to /login/2fa first.
+router.post('/login', throttleLogin(attemptedUsername), (req, res, next) => {
+  passport.authenticate('local', async (err: Error | null, user: User | false, info: { message: string }) => {
     if (err) {
       return next(err);
     }
     if (!user) {
+      await recordAuthEvent(req, 'login-failure', { username: attemptedUsername(req) });
       return res.status(401).json({ message: info.message });
     }
-    req.logIn(user, (err) => {
-      if (err) {
-        return next(err);
+
+    try {
+      if (await storage.getUserTotp(user.id)) {
+        req.session.pendingTwoFactor = {
+          userId: user.id,
+          username: user.username,
+          expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS,
+          attempts: 0,
+        };
+        return res.json({ twoFactorRequired: true });
       }
-      // Don't send password back to client
-      const { password, ...userWithoutPassword } = user;
-      
-      // Log user data for debugging
-      console.log('Login successful, user data:', { 
-        id: user.id, 
-        username: user.username, 
-        isAdmin: user.isAdmin 
-      });
-      
-      return res.json({ 
-        user: {
-          ...userWithoutPassword,
-          isAdmin: !!user.isAdmin  // Explicitly include and convert to boolean
-        },
-        redirect: 'home'  // Add redirect information
-      });
-    });
+    } catch (error) {
+      return next(error);
+    }
+
+    completeLogin(req, res, next, user);
   })(req, res, next);
 });
 
+// Second login step: a code from the authenticator app or a recovery code
+router.post('/login/2fa', throttleLogin(req => req.session.pendingTwoFactor?.username), async (req, res, next) => {
+  const pending = req.session.pendingTwoFactor;
+  if (!pending || pending.expiresAt < Date.now()) {
+    delete req.session.pendingTwoFactor;
+    return res.status(401).json({ message: 'Your login has expired. Please log in again.' });
+  }
+
+  const body = twoFactorLoginSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0]?.message ?? 'Invalid code' });
+  }
+
+  try {
+    const user = await storage.getUser(pending.userId);
+    if (!user || !await checkSecondFactor(user.id, body.data)) {
+      await recordAuthEvent(req, 'login-failure', { userId: pending.userId, username: pending.username });
+      pending.attempts += 1;
+      if (pending.attempts >= TWO_FACTOR_MAX_ATTEMPTS) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: 'Too many attempts. Please log in again.' });
+      }
+      return res.status(401).json({ message: 'That code is not valid' });
+    }
+
+    delete req.session.pendingTwoFactor;
+    completeLogin(req, res, next, user);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Signup route
 router.post('/signup', async (req, res) => {
   try {
@@ -66,6 +143,8 @@ router.post('/signup', async (req, res) => {
     }
 
     let hashedPasswordToUse: string | undefined;
+    // Games picked during setup, added as game profiles once the user exists
+    let gameIds: number[] = [];
 
     // If this is the initial signup (not the setup completion step)
     if (!userData.language || !userData.region) {
@@ -86,6 +165,14 @@ router.post('/signup', async (req, res) => {
       return res.json({ redirect: 'setup' });
     } else {
       // Language and region are present, this is either setup completion or direct signup
+      if (!isRegion(userData.region)) {
+        return res.status(400).json({ message: 'Choose a region from the list' });
+      }
+      const parsedGameIds = userGameIdsSchema.safeParse(userData.gameIds ?? []);
+      if (!parsedGameIds.success) {
+        return res.status(400).json({ message: 'Choose games from the list' });
+      }
+      gameIds = parsedGameIds.data;
       if (req.session.pendingAuth) {
         if (req.session.pendingAuth.username !== userData.username) {
           return res.status(400).json({ message: 'Session data mismatch. Please try signing up again.' });
@@ -115,6 +202,7 @@ router.post('/signup', async (req, res) => {
 
     // Create the new user
     const newUser = await storage.createUser(newUserPayload);
+    await storage.addUserGames(newUser.id, gameIds);
     
     // Log the user in after creation
     req.logIn(newUser, (err) => {
@@ -128,7 +216,7 @@ router.post('/signup', async (req, res) => {
       return res.status(201).json({ 
         user: {
           ...userWithoutPassword,
-          isAdmin: !!userWithoutPassword.isAdmin 
+          permissions: getRolePermissions(userWithoutPassword.role)
         },
         message: 'User created successfully' // Provide a success message
       });
@@ -143,7 +231,10 @@ router.post('/signup', async (req, res) => {
 });
 
 // Logout route
-router.post('/logout', (req, res, next) => {
+router.post('/logout', async (req, res, next) => {
+  if (req.user) {
+    await recordAuthEvent(req, 'logout', { userId: req.user.id, username: req.user.username });
+  }
   req.logout((err) => {
     if (err) {
       return next(err);
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { storage } from '../storage';
 import { z } from 'zod';
 import { authenticateToken } from '../passport';
+import { requirePermission } from '../authorization';
 import { type IdeaWithRelations } from '@shared/schema';
 
 const router = Router();
@@ -13,14 +14,6 @@ const createIdeaSchema = z.object({
   description: z.string().min(1),
 });
 
-// Admin middleware
-const isAdmin = async (req: any, res: any, next: any) => {
-  if (!req.user?.isAdmin) {
-    return res.status(403).json({ error: 'Admin access required' });
-  }
-  next();
-};
-
 // Get all ideas with pagination
 router.get('/', authenticateToken, async (req, res) => {
   try {
@@ -106,8 +99,8 @@ router.post('/:id/vote', authenticateToken, async (req, res) => {
   }
 });
 
-// Delete an idea (admin only)
-router.delete('/:id', authenticateToken, isAdmin, async (req, res) => {
+// Delete an idea (moderators and admins)
+router.delete('/:id', authenticateToken, requirePermission('ideas:moderate'), async (req, res) => {
   try {
     const ideaId = parseInt(req.params.id);
     await storage.deleteIdea(ideaId);
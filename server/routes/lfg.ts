@@ -0,0 +1,183 @@
+import { Router, type Request, type Response } from 'express';
+import { insertLfgPostSchema, lfgJoinRequestSchema, lfgQuerySchema } from '@shared/schema';
+import { storage } from '../storage';
+import { requireAuth, getActorId } from '../authorization';
+import { isHiddenFrom } from '../privacy';
+import { acceptLfgJoinRequest, announceLfgPost, announceLfgRequest, isLfgPostOpen } from '../lfg';
+
+const router = Router();
+
+// Open posts, e.g. ?gameId=12&region=Europe&language=English
+router.get('/', requireAuth, async (req, res) => {
+  const query = lfgQuerySchema.safeParse(req.query);
+  if (!query.success) {
+    return res.status(400).json({ message: query.error.errors[0]?.message ?? 'Invalid filters' });
+  }
+
+  try {
+    const actorId = getActorId(req);
+    // Posts by anyone blocked either way are left out
+    const hidden = await storage.getHiddenUserIds(actorId);
+    res.json(await storage.getOpenLfgListings(actorId, query.data, hidden));
+  } catch (error) {
+    console.error('Error fetching LFG posts:', error);
+    res.status(500).json({ message: 'Failed to fetch LFG posts' });
+  }
+});
+
+router.post('/', requireAuth, async (req, res) => {
+  const body = insertLfgPostSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0]?.message ?? 'Invalid LFG post' });
+  }
+
+  try {
+    if (!await storage.getGameById(body.data.gameId)) {
+      return res.status(400).json({ message: 'Game not found' });
+    }
+
+    const actorId = getActorId(req);
+    const post = await storage.createLfgPost(actorId, body.data);
+    announceLfgPost(post.id);
+    res.status(201).json(await storage.getLfgListing(actorId, post.id));
+  } catch (error) {
+    console.error('Error creating LFG post:', error);
+    res.status(500).json({ message: 'Failed to create LFG post' });
+  }
+});
+
+// Closes a post early; only its author can
+router.delete('/:postId', requireAuth, async (req, res) => {
+  try {
+    const actorId = getActorId(req);
+    const post = await storage.getLfgListing(actorId, parseInt(req.params.postId));
+    if (!post) {
+      return res.status(404).json({ message: 'LFG post not found' });
+    }
+    if (post.userId !== actorId) {
+      return res.status(403).json({ message: 'Only the author can close this post' });
+    }
+
+    await storage.closeLfgPost(post.id);
+    announceLfgPost(post.id);
+    res.json({ message: 'LFG post closed' });
+  } catch (error) {
+    console.error('Error closing LFG post:', error);
+    res.status(500).json({ message: 'Failed to close LFG post' });
+  }
+});
+
+// Asks to join a post
+router.post('/:postId/requests', requireAuth, async (req, res) => {
+  const body = lfgJoinRequestSchema.safeParse(req.body ?? {});
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0]?.message ?? 'Invalid join request' });
+  }
+
+  try {
+    const actorId = getActorId(req);
+    const post = await storage.getLfgListing(actorId, parseInt(req.params.postId));
+    if (!post || await isHiddenFrom(actorId, post.userId)) {
+      return res.status(404).json({ message: 'LFG post not found' });
+    }
+    if (post.userId === actorId) {
+      return res.status(400).json({ message: "You can't join your own post" });
+    }
+    if (!isLfgPostOpen(post)) {
+      return res.status(409).json({ message: 'This post is no longer open' });
+    }
+    if (post.myRequest) {
+      return res.status(409).json({ message: 'You already asked to join this post' });
+    }
+
+    const request = await storage.createLfgJoinRequest(post.id, actorId, body.data.message || null);
+    announceLfgRequest(post, actorId);
+    res.status(201).json(request);
+  } catch (error) {
+    console.error('Error requesting to join LFG post:', error);
+    res.status(500).json({ message: 'Failed to request to join' });
+  }
+});
+
+// Withdraws the session user's pending request
+router.delete('/:postId/requests', requireAuth, async (req, res) => {
+  try {
+    const actorId = getActorId(req);
+    const post = await storage.getLfgListing(actorId, parseInt(req.params.postId));
+    if (!post || !await storage.deleteLfgJoinRequest(post.id, actorId)) {
+      return res.status(404).json({ message: 'No pending request for this post' });
+    }
+
+    announceLfgRequest(post, actorId);
+    res.json({ message: 'Join request withdrawn' });
+  } catch (error) {
+    console.error('Error withdrawing LFG join request:', error);
+    res.status(500).json({ message: 'Failed to withdraw join request' });
+  }
+});
+
+// The session user's post and one of its pending requests. Sends the error
+// response and returns null if either isn't found.
+async function findPendingRequest(req: Request, res: Response) {
+  const actorId = getActorId(req);
+  const post = await storage.getLfgListing(actorId, parseInt(req.params.postId));
+  if (!post) {
+    res.status(404).json({ message: 'LFG post not found' });
+    return null;
+  }
+  if (post.userId !== actorId) {
+    res.status(403).json({ message: 'Only the author can answer join requests' });
+    return null;
+  }
+
+  const request = post.pendingRequests.find(r => r.id === parseInt(req.params.requestId));
+  if (!request) {
+    res.status(404).json({ message: 'Join request not found' });
+    return null;
+  }
+  return { post, request };
+}
+
+// Accepts a request, adding the requester to the post's group
+router.post('/:postId/requests/:requestId/accept', requireAuth, async (req, res) => {
+  try {
+    const found = await findPendingRequest(req, res);
+    if (!found) return;
+    if (!isLfgPostOpen(found.post)) {
+      return res.status(409).json({ message: 'This post is no longer open' });
+    }
+
+    const result = await acceptLfgJoinRequest(found.post, found.request, req.user!);
+    if (result.status === 'closed') {
+      return res.status(409).json({ message: 'This post is no longer open' });
+    }
+    if (result.status === 'blocked') {
+      return res.status(403).json({ message: "You can't add this user to a group" });
+    }
+    if (result.status === 'not-pending') {
+      return res.status(409).json({ message: 'This request has already been answered' });
+    }
+    res.json({ groupId: result.groupId });
+  } catch (error) {
+    console.error('Error accepting LFG join request:', error);
+    res.status(500).json({ message: 'Failed to accept join request' });
+  }
+});
+
+router.post('/:postId/requests/:requestId/decline', requireAuth, async (req, res) => {
+  try {
+    const found = await findPendingRequest(req, res);
+    if (!found) return;
+
+    if (!await storage.declineLfgJoinRequest(found.request.id)) {
+      return res.status(409).json({ message: 'This request has already been answered' });
+    }
+    announceLfgRequest(found.post, found.request.userId);
+    res.json({ message: 'Join request declined' });
+  } catch (error) {
+    console.error('Error declining LFG join request:', error);
+    res.status(500).json({ message: 'Failed to decline join request' });
+  }
+});
+
+export default router;
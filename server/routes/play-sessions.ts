@@ -0,0 +1,124 @@
+import { Router, type Request, type Response } from 'express';
+import { insertPlaySessionSchema, rsvpSchema } from '@shared/schema';
+import { storage } from '../storage';
+import { requireAuth, requireGroupMember, getActorId } from '../authorization';
+import { toICalendar } from '../play-sessions';
+
+const router = Router();
+
+function sendCalendar(res: Response, filename: string, body: string) {
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.send(body);
+}
+
+// The session named in the route, if it belongs to the route's group. Sends
+// a 404 and returns undefined otherwise.
+async function findGroupSession(req: Request, res: Response) {
+  const session = await storage.getPlaySession(parseInt(req.params.sessionId));
+  if (!session || session.groupId !== parseInt(req.params.groupId)) {
+    res.status(404).json({ message: 'Play session not found' });
+    return undefined;
+  }
+  return session;
+}
+
+// Every upcoming session in the session user's groups, for calendar apps
+router.get('/play-sessions/calendar.ics', requireAuth, async (req, res) => {
+  try {
+    const actorId = getActorId(req);
+    const sessions = await storage.getUserPlaySessions(actorId);
+    // Sessions the user said no to are left out
+    const attending = sessions.filter(session =>
+      !session.rsvps.some(rsvp => rsvp.userId === actorId && rsvp.response === 'no')
+    );
+    sendCalendar(res, 'playsphere-sessions.ics', toICalendar(attending));
+  } catch (error) {
+    console.error('Error exporting play sessions:', error);
+    res.status(500).json({ message: 'Failed to export play sessions' });
+  }
+});
+
+router.get('/groups/:groupId/play-sessions', requireAuth, requireGroupMember('groupId'), async (req, res) => {
+  try {
+    res.json(await storage.getUpcomingPlaySessions(parseInt(req.params.groupId)));
+  } catch (error) {
+    console.error('Error fetching play sessions:', error);
+    res.status(500).json({ message: 'Failed to fetch play sessions' });
+  }
+});
+
+// Any member can schedule a session; they're counted as going
+router.post('/groups/:groupId/play-sessions', requireAuth, requireGroupMember('groupId'), async (req, res) => {
+  const body = insertPlaySessionSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0]?.message ?? 'Invalid play session' });
+  }
+
+  try {
+    if (!await storage.getGameById(body.data.gameId)) {
+      return res.status(400).json({ message: 'Game not found' });
+    }
+
+    const actorId = getActorId(req);
+    const session = await storage.createPlaySession(parseInt(req.params.groupId), actorId, body.data);
+    await storage.setPlaySessionRsvp(session.id, actorId, 'yes');
+    res.status(201).json(await storage.getPlaySession(session.id));
+  } catch (error) {
+    console.error('Error creating play session:', error);
+    res.status(500).json({ message: 'Failed to create play session' });
+  }
+});
+
+// Cancels a session; its organiser and the group owner can
+router.delete('/groups/:groupId/play-sessions/:sessionId', requireAuth, requireGroupMember('groupId'), async (req, res) => {
+  try {
+    const session = await findGroupSession(req, res);
+    if (!session) return;
+
+    const actorId = getActorId(req);
+    if (session.createdBy !== actorId && !await storage.isGroupOwner(session.groupId, actorId)) {
+      return res.status(403).json({ message: 'Only the organiser or the group owner can cancel this session' });
+    }
+
+    await storage.deletePlaySession(session.id);
+    res.json({ message: 'Play session cancelled' });
+  } catch (error) {
+    console.error('Error cancelling play session:', error);
+    res.status(500).json({ message: 'Failed to cancel play session' });
+  }
+});
+
+router.put('/groups/:groupId/play-sessions/:sessionId/rsvp', requireAuth, requireGroupMember('groupId'), async (req, res) => {
+  const body = rsvpSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0]?.message ?? 'Invalid RSVP' });
+  }
+
+  try {
+    const session = await findGroupSession(req, res);
+    if (!session) return;
+
+    if (!await storage.setPlaySessionRsvp(session.id, getActorId(req), body.data.response)) {
+      return res.status(409).json({ message: 'This session is full' });
+    }
+    res.json(await storage.getPlaySession(session.id));
+  } catch (error) {
+    console.error('Error saving RSVP:', error);
+    res.status(500).json({ message: 'Failed to save RSVP' });
+  }
+});
+
+router.get('/groups/:groupId/play-sessions/:sessionId/calendar.ics', requireAuth, requireGroupMember('groupId'), async (req, res) => {
+  try {
+    const session = await findGroupSession(req, res);
+    if (!session) return;
+
+    sendCalendar(res, `playsphere-session-${session.id}.ics`, toICalendar([session]));
+  } catch (error) {
+    console.error('Error exporting play session:', error);
+    res.status(500).json({ message: 'Failed to export play session' });
+  }
+});
+
+export default router;
@@ -0,0 +1,71 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { playerSearchQuerySchema, type PlayerPage } from '@shared/schema';
+import { RECOMMENDATION_DEFAULT_LIMIT, RECOMMENDATION_MAX_LIMIT } from '@shared/recommendations';
+import { storage } from '../storage';
+import { requireAuth, getActorId } from '../authorization';
+import { getVisiblePresence } from '../presence';
+import { redactUsers, toPlayer } from '../privacy';
+import { recommendTeammates } from '../recommendations';
+
+const router = Router();
+
+const recommendedQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(RECOMMENDATION_MAX_LIMIT).default(RECOMMENDATION_DEFAULT_LIMIT),
+});
+
+// Search other players, e.g. ?q=ana&region=Europe,Asia&online=true&sort=game&page=2
+router.get('/', requireAuth, async (req, res) => {
+  const query = playerSearchQuerySchema.safeParse(req.query);
+  if (!query.success) {
+    return res.status(400).json({ message: query.error.errors[0]?.message ?? 'Invalid search parameters' });
+  }
+
+  try {
+    const actorId = getActorId(req);
+    // The session user and anyone blocked either way are never listed
+    const hidden = await storage.getHiddenUserIds(actorId);
+    const { users, total } = await storage.searchPlayers(query.data, {
+      excludeIds: [actorId, ...hidden],
+      onlineIds: (await getVisiblePresence(actorId)).map(presence => presence.userId),
+    });
+
+    const page: PlayerPage = {
+      players: (await redactUsers(actorId, users)).map(toPlayer),
+      total,
+      page: query.data.page,
+      totalPages: Math.ceil(total / query.data.limit),
+    };
+    res.json(page);
+  } catch (error) {
+    console.error('Error searching players:', error);
+    res.status(500).json({ message: 'Failed to search players' });
+  }
+});
+
+// Regions and languages to offer as filters
+router.get('/filters', requireAuth, async (req, res) => {
+  try {
+    res.json(await storage.getPlayerFilterOptions());
+  } catch (error) {
+    console.error('Error fetching player filters:', error);
+    res.status(500).json({ message: 'Failed to fetch player filters' });
+  }
+});
+
+// Suggested teammates for the session user, best match first
+router.get('/recommended', requireAuth, async (req, res) => {
+  const query = recommendedQuerySchema.safeParse(req.query);
+  if (!query.success) {
+    return res.status(400).json({ message: query.error.errors[0]?.message ?? 'Invalid limit' });
+  }
+
+  try {
+    res.json(await recommendTeammates(getActorId(req), query.data.limit));
+  } catch (error) {
+    console.error('Error recommending players:', error);
+    res.status(500).json({ message: 'Failed to recommend players' });
+  }
+});
+
+export default router;
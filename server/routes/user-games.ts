@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { userGameSchema } from '@shared/schema';
+import { storage } from '../storage';
+import { requireAuth, requireSelf, getActorId } from '../authorization';
+import { isHiddenFrom, redactUserGames } from '../privacy';
+
+const router = Router();
+
+// A player's per-game profiles, most played first
+router.get('/:userId/games', requireAuth, async (req, res) => {
+  try {
+    const actorId = getActorId(req);
+    const user = await storage.getUser(parseInt(req.params.userId));
+    if (!user || await isHiddenFrom(actorId, user.id)) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    res.json(await redactUserGames(actorId, user, await storage.getUserGames(user.id)));
+  } catch (error) {
+    console.error('Error fetching game profiles:', error);
+    res.status(500).json({ message: 'Failed to fetch game profiles' });
+  }
+});
+
+// Adds a game to the session user's profile, or updates it
+router.put('/:userId/games/:gameId', requireAuth, requireSelf('userId'), async (req, res) => {
+  const body = userGameSchema.safeParse(req.body);
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0]?.message ?? 'Invalid game profile' });
+  }
+
+  try {
+    const game = await storage.getGameById(parseInt(req.params.gameId));
+    if (!game) {
+      return res.status(404).json({ message: 'Game not found' });
+    }
+
+    const saved = await storage.upsertUserGame(getActorId(req), game.id, body.data);
+    res.json({ ...saved, gameName: game.name });
+  } catch (error) {
+    console.error('Error saving game profile:', error);
+    res.status(500).json({ message: 'Failed to save game profile' });
+  }
+});
+
+router.delete('/:userId/games/:gameId', requireAuth, requireSelf('userId'), async (req, res) => {
+  try {
+    const removed = await storage.deleteUserGame(getActorId(req), parseInt(req.params.gameId));
+    if (!removed) {
+      return res.status(404).json({ message: 'Game profile not found' });
+    }
+    res.json({ message: 'Game profile removed' });
+  } catch (error) {
+    console.error('Error removing game profile:', error);
+    res.status(500).json({ message: 'Failed to remove game profile' });
+  }
+});
+
+export default router;
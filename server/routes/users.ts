@@ -1,6 +1,6 @@
 import express, { Request, Response } from 'express';
 import { db } from '../db'; // Import your database connection
-import { insertUserSchema, users, User } from '@shared/schema';
+import { insertUserSchema, updateUserSchema, userGameIdsSchema, users } from '@shared/schema';
 import { eq } from 'drizzle-orm';
 import multer from 'multer';
 import path from 'path';
@@ -8,6 +8,9 @@ import fs from 'fs';
 import { fileURLToPath } from 'url';
 import bcrypt from 'bcrypt';
 import { z } from 'zod';
+import { requireAuth, requireSelf, getActorId } from '../authorization';
+import { getVisibleUsers } from '../privacy';
+import { storage } from '../storage';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -19,7 +22,7 @@ if (!fs.existsSync(uploadsDir)) {
 }
 
 // Configure multer for image upload
-const storage = multer.diskStorage({
+const imageStorage = multer.diskStorage({
   destination: function (req, file, cb) {
     cb(null, uploadsDir);
   },
@@ -30,7 +33,7 @@ const storage = multer.diskStorage({
 });
 
 const upload = multer({
-  storage: storage,
+  storage: imageStorage,
   limits: {
     fileSize: 2 * 1024 * 1024 // 2MB limit
   },
@@ -84,7 +87,7 @@ router.post('/', async (req: Request, res: Response) => {
         !req.body.language?.trim() || 
         !req.body.region?.trim() || 
         !req.body.currentGame?.trim() || 
-        !req.body.currentGameId?.trim()) {
+        !req.body.currentGameHandle?.trim()) {
       return res.status(400).json({ 
         message: 'All required fields must be filled',
         errors: {
@@ -93,7 +96,7 @@ router.post('/', async (req: Request, res: Response) => {
           language: !req.body.language?.trim() ? "Language is required" : undefined,
           region: !req.body.region?.trim() ? "Region is required" : undefined,
           currentGame: !req.body.currentGame?.trim() ? "Current game is required" : undefined,
-          currentGameId: !req.body.currentGameId?.trim() ? "Current game ID is required" : undefined,
+          currentGameHandle: !req.body.currentGameHandle?.trim() ? "Current game ID is required" : undefined,
         }
       });
     }
@@ -107,10 +110,8 @@ router.post('/', async (req: Request, res: Response) => {
     // Hash the password
     const hashedPassword = await bcrypt.hash(req.body.password, 10);
 
-    // Ensure gamesPlayed is a string array
-    const gamesPlayed = Array.isArray(req.body.gamesPlayed) 
-      ? req.body.gamesPlayed.filter((game: unknown): game is string => typeof game === 'string')
-      : [];
+    // Games picked during setup, by ID
+    const gameIds = userGameIdsSchema.parse(req.body.gameIds ?? []);
 
     // Create user data with proper types
     const userInput = {
@@ -118,22 +119,16 @@ router.post('/', async (req: Request, res: Response) => {
       password: hashedPassword,
       language: String(req.body.language),
       region: String(req.body.region),
-      gamesPlayed: JSON.stringify(gamesPlayed),
       currentGame: String(req.body.currentGame),
-      currentGameId: String(req.body.currentGameId),
+      currentGameHandle: String(req.body.currentGameHandle),
       profilePicture: req.body.profilePicture ? String(req.body.profilePicture) : null,
     };
 
     const validatedData = insertUserSchema.parse(userInput);
-    
-    // Parse gamesPlayed back to array for database insertion
-    const newUser = {
-      ...validatedData,
-      gamesPlayed: JSON.parse(validatedData.gamesPlayed as unknown as string) as string[],
-    };
 
-    const result = await db.insert(users).values(newUser).returning();
+    const result = await db.insert(users).values(validatedData).returning();
     console.log("Result after insert:", result);
+    await storage.addUserGames(result[0].id, gameIds);
 
     // Log the user in after creation
     return new Promise((resolve, reject) => {
@@ -164,14 +159,13 @@ router.post('/', async (req: Request, res: Response) => {
 });
 
 // Update user endpoint
-router.patch('/:id', async (req: Request, res: Response) => {
+router.patch('/:id', requireAuth, requireSelf('id'), async (req: Request, res: Response) => {
   try {
     const userId = parseInt(req.params.id);
-    const updates: Partial<Omit<User, 'gamesPlayed'>> & { gamesPlayed?: unknown } = { ...req.body };
-
-    // Remove username and password from updates if present
-    delete updates.username;
-    delete updates.password;
+    const body = updateUserSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({ message: body.error.errors[0]?.message ?? 'Invalid user data' });
+    }
 
     // Get current user data
     const [currentUser] = await db.select().from(users).where(eq(users.id, userId));
@@ -179,31 +173,8 @@ router.patch('/:id', async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'User not found' });
     }
 
-    // Handle gamesPlayed field
-    let gamesPlayedArray: string[] = currentUser.gamesPlayed || [];
-    
-    if (updates.gamesPlayed) {
-      if (Array.isArray(updates.gamesPlayed)) {
-        // Merge new games with existing ones, removing duplicates
-        gamesPlayedArray = Array.from(new Set([...gamesPlayedArray, ...updates.gamesPlayed.filter((game): game is string => typeof game === 'string')]));
-      } else if (typeof updates.gamesPlayed === 'string') {
-        try {
-          const parsed = JSON.parse(updates.gamesPlayed);
-          if (Array.isArray(parsed)) {
-            // Merge new games with existing ones, removing duplicates
-            gamesPlayedArray = Array.from(new Set([...gamesPlayedArray, ...parsed.filter((game): game is string => typeof game === 'string')]));
-          }
-        } catch (e) {
-          console.error('Error parsing gamesPlayed:', e);
-        }
-      }
-    }
-
-    // Create the update data with properly typed fields
-    const { gamesPlayed: _, ...otherUpdates } = updates;
     const updateData = {
-      ...otherUpdates,
-      gamesPlayed: gamesPlayedArray,
+      ...body.data,
       lastActive: new Date(),
     };
 
@@ -230,94 +201,11 @@ router.patch('/:id', async (req: Request, res: Response) => {
   }
 });
 
-// Update user password
-router.patch('/:id/password', async (req: Request, res: Response) => {
-  try {
-    const { currentPassword, newPassword } = req.body;
-    const userId = parseInt(req.params.id, 10);
-
-    // Validate input
-    if (!currentPassword || !newPassword || isNaN(userId)) {
-      return res.status(400).json({ message: 'Invalid request parameters' });
-    }
-
-    // Get user from database
-    const [user] = await db.select().from(users).where(eq(users.id, userId));
-    if (!user) {
-      return res.status(404).json({ message: 'User not found' });
-    }
-
-    // Verify current password
-    const isPasswordValid = await bcrypt.compare(currentPassword, user.password);
-    if (!isPasswordValid) {
-      return res.status(401).json({ message: 'Current password is incorrect' });
-    }
-
-    // Hash new password
-    const hashedPassword = await bcrypt.hash(newPassword, 10);
-
-    // Update password in database
-    await db
-      .update(users)
-      .set({ password: hashedPassword })
-      .where(eq(users.id, userId));
-
-    res.json({ message: 'Password updated successfully' });
-  } catch (error) {
-    console.error('Error updating password:', error);
-    res.status(500).json({ message: 'Internal server error' });
-  }
-});
-
-// Change password endpoint
-router.post('/:id/change-password', async (req: Request, res: Response) => {
-  try {
-    const { oldPassword, newPassword } = req.body;
-    const userId = parseInt(req.params.id, 10);
-
-    // Validate input
-    if (!oldPassword || !newPassword || isNaN(userId)) {
-      return res.status(400).json({ message: 'Invalid request parameters' });
-    }
-
-    if (newPassword.length < 6) {
-      return res.status(400).json({ message: 'New password must be at least 6 characters' });
-    }
-
-    // Get user from database
-    const [user] = await db.select().from(users).where(eq(users.id, userId));
-    if (!user) {
-      return res.status(404).json({ message: 'User not found' });
-    }
-
-    // Verify current password
-    const isPasswordValid = await bcrypt.compare(oldPassword, user.password);
-    if (!isPasswordValid) {
-      return res.status(401).json({ message: 'Current password is incorrect' });
-    }
-
-    // Hash new password
-    const hashedPassword = await bcrypt.hash(newPassword, 10);
-
-    // Update password in database
-    await db
-      .update(users)
-      .set({ password: hashedPassword })
-      .where(eq(users.id, userId));
-
-    res.json({ message: 'Password updated successfully' });
-  } catch (error) {
-    console.error('Error updating password:', error);
-    res.status(500).json({ message: 'Internal server error' });
-  }
-});
-
-router.get('/', async (req: Request, res: Response) => {
+router.get('/', requireAuth, async (req: Request, res: Response) => {
   try {
     const allUsers = await db.query.users.findMany();
-    // Don't send passwords back to client
-    const usersWithoutPasswords = allUsers.map(({ password, ...user }) => user);
-    res.json(usersWithoutPasswords);
+    // Leaves out passwords, blocked users and game IDs the viewer may not see
+    res.json(await getVisibleUsers(getActorId(req), allUsers));
   } catch (error) {
     console.error('Error fetching users:', error);
     res.status(500).json({ 
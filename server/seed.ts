@@ -27,10 +27,8 @@ async function seedIndividualUser(userData: InsertUser) {
         profilePicture: userData.profilePicture || null, // Handle optionality explicitly
         language: userData.language!,
         region: userData.region!,
-        gamesPlayed: userData.gamesPlayed!, 
         currentGame: userData.currentGame!,
-        currentGameId: userData.currentGameId!,
-        isAdmin: userData.isAdmin === undefined ? false : userData.isAdmin, // Explicitly provide default if not in userData
+        currentGameHandle: userData.currentGameHandle!,
     };
 
     const newUser = await db.insert(users).values(completeUserData).returning();
@@ -52,22 +50,18 @@ async function seed() {
       password: 'password123', // Plain text password, will be hashed
       profilePicture: 'https://api.dicebear.com/7.x/avataaars/svg?seed=5crore',
       language: 'Marathi', // Corrected case
-      region: 'Satara',   // Corrected case
-      gamesPlayed: ['Valorant'], 
+      region: 'India',
       currentGame: 'Valorant',
-      currentGameId: 'valorant_id_placeholder', 
-      isAdmin: false 
+      currentGameHandle: 'valorant_id_placeholder'
     },
     {
       username: 'dee.2',
       password: 'password456', // Plain text password, will be hashed
       profilePicture: 'https://api.dicebear.com/7.x/avataaars/svg?seed=dee.2',
       language: 'Hindi',
-      region: 'Mumbai',
-      gamesPlayed: ['Chess'], 
+      region: 'India',
       currentGame: 'Chess',
-      currentGameId: 'chess_id_placeholder', 
-      isAdmin: false 
+      currentGameHandle: 'chess_id_placeholder'
     }
   ];
 
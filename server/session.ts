@@ -0,0 +1,61 @@
+import session, { type SessionData } from 'express-session';
+import type { Request, Response, NextFunction } from 'express';
+import connectPgSimple from 'connect-pg-simple';
+import memorystore from 'memorystore';
+import { pool } from './db';
+
+// Passport keeps the logged-in user's ID here after req.logIn()
+declare module 'express-session' {
+  interface SessionData {
+    passport?: {
+      user?: number;
+    };
+    // users.sessionVersion when the session logged in
+    sessionVersion?: number;
+  }
+}
+
+export const SESSION_COOKIE_NAME = 'playsphere.sid';
+
+// Session configuration
+const PgSession = connectPgSimple(session);
+const MemoryStore = memorystore(session);
+
+export const sessionStore = process.env.NODE_ENV === 'production'
+  ? new PgSession({
+      pool,
+      tableName: 'session',
+      createTableIfMissing: true,
+    })
+  : new MemoryStore({
+      checkPeriod: 1000 * 60 * 60 * 24, // prune expired entries every 24h
+    });
+
+// Session middleware, shared by the Express app and the WebSocket upgrade handler
+export const sessionMiddleware = session({
+  store: sessionStore,
+  secret: process.env.SESSION_SECRET || 'your-secret-key',
+  resave: false,
+  saveUninitialized: false,
+  cookie: {
+    maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: process.env.NODE_ENV === 'production' ? 'strict' : 'lax',
+  },
+  name: SESSION_COOKIE_NAME,
+});
+
+// Whether the session logged in after the user last changed or reset their
+// password. Sessions from before sessionVersion existed count as version 0.
+export function isSessionCurrent(session: Partial<SessionData>, user: Pick<Express.User, 'sessionVersion'>): boolean {
+  return (session.sessionVersion ?? 0) === user.sessionVersion;
+}
+
+// Logs out sessions a password change or reset has ended
+export function endSupersededSessions(req: Request, res: Response, next: NextFunction) {
+  if (!req.user || isSessionCurrent(req.session, req.user)) {
+    return next();
+  }
+  req.logout(next);
+}
@@ -1,8 +1,72 @@
-import { users, messages, groups, groupMembers, games, ideas, ideaVotes, type User, type InsertUser, type Message, type Group, type InsertGroup, type GroupMember, type InsertGroupMember, type Game, type InsertGame, type Idea, type InsertIdea, type IdeaWithRelations } from "@shared/schema";
+import { users, messages, messageEdits, clearedChats, friendships, userBlocks, groups, groupMembers, games, ideas, ideaVotes, type User, type InsertUser, type Message, type Group, type InsertGroup, type GroupMember, type InsertGroupMember, type Game, type InsertGame, type Idea, type InsertIdea, type IdeaWithRelations, type MessagePage, type MessagePageQuery, type GroupReadPosition, type Conversation, type MessageEdit, type Friendship, type FriendList, type PrivacySettings, type PlayerSearchQuery, type PlayerFilterOptions, lfgPosts, lfgJoinRequests, type LfgPost, type LfgJoinRequest, type LfgListing, type LfgQuery, type InsertLfgPost, playSessions, playSessionRsvps, type PlaySession, type PlaySessionListing, type InsertPlaySession, type RsvpResponse, userGames, type UserGame, type UserGameInput, type UserGameProfile, accountTokens, type AccountToken, type AccountTokenPurpose, userTotp, recoveryCodes, type UserTotp, authEvents, AUTH_FAILURE_EVENTS, AUTH_RESET_EVENTS, type AuthEventPage, type AuthEventQuery, type AuthEventType, type InsertAuthEvent, type LoginFailures, presenceConnections, type PresenceConnection } from "@shared/schema";
+import { type Role } from "@shared/permissions";
+import { type ConnectionStatus } from "@shared/presence";
 import { db } from "./db";
-import { eq, or, and, desc, inArray, gte, lt, sql, type SQL } from "drizzle-orm";
+import { eq, ne, or, and, asc, desc, inArray, notInArray, isNull, isNotNull, gt, gte, lt, lte, ilike, max, notExists, sql, type SQL } from "drizzle-orm";
 import { alias } from "drizzle-orm/pg-core";
 
+// Who a player search runs over. `onlineIds` is needed to filter by online
+// status, which presence.ts works out from open connections; it only holds
+// users whose presence the viewer may see.
+export interface PlayerSearchScope {
+  excludeIds: number[];
+  onlineIds: number[];
+}
+
+// A change to one of a user's open connections (see presence.ts). Adding an
+// existing connection updates it.
+export type PresenceConnectionChange =
+  | { type: "add"; id: string; status: ConnectionStatus }
+  | { type: "status"; id: string; status: ConnectionStatus }
+  | { type: "remove"; id: string };
+
+// Key for the advisory locks that serialize presence changes per user
+const PRESENCE_LOCK_KEY = 1;
+// Keys for the advisory locks that make login attempts for the same username
+// or from the same address take turns reserving (see reserveLoginAttempt)
+const LOGIN_USERNAME_LOCK_KEY = 2;
+const LOGIN_IP_LOCK_KEY = 3;
+
+// Anything queries can run on: the database or a transaction
+type Queryable = Pick<typeof db, "select">;
+
+// A login attempt recorded before its password is checked, with the failures
+// counted before it
+export interface ReservedLoginAttempt {
+  id: number;
+  usernameFailures?: LoginFailures;
+  ipFailures?: LoginFailures;
+}
+
+// The outcome of accepting an LFG join request. `closed` means the post was
+// closed, expired or full; `not-pending` that the request was already answered.
+export type LfgAcceptResult =
+  | { status: "accepted"; groupId: number; groupCreated: boolean }
+  | { status: "closed" }
+  | { status: "not-pending" };
+
+// Escapes LIKE wildcards so user input only ever matches literally
+function containsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+}
+
+// Whether the play session in the current row hasn't finished yet
+const playSessionNotOver = sql`${playSessions.startsAt} + ${playSessions.durationMinutes} * interval '1 minute' > now()`;
+
+// Join requests accepted so far for the LFG post in the current row
+const acceptedLfgRequests = sql`(
+  SELECT count(*) FROM ${lfgJoinRequests}
+  WHERE ${lfgJoinRequests.postId} = ${lfgPosts.id} AND ${lfgJoinRequests.status} = 'accepted'
+)`;
+
+// Users with a profile for any of the games
+function playersOf(gameIds: number[]) {
+  return db
+    .select({ userId: userGames.userId })
+    .from(userGames)
+    .where(inArray(userGames.gameId, gameIds));
+}
+
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
@@ -11,12 +75,74 @@ export interface IStorage {
   updateUser(id: number, user: Partial<InsertUser>): Promise<User>;
   deleteUser(id: number): Promise<void>;
   getActiveUsers(): Promise<User[]>;
-  setUserAsAdmin(username: string): Promise<User>;
+  searchPlayers(query: PlayerSearchQuery, scope: PlayerSearchScope): Promise<{ users: User[]; total: number }>;
+  getPlayerFilterOptions(): Promise<PlayerFilterOptions>;
+  getTeammateCandidates(user: User, gameIds: number[], excludeIds: number[], activeSince: Date, limit: number): Promise<User[]>;
+  setUserRole(id: number, role: Role): Promise<User>;
+  touchLastActive(id: number, at: Date): Promise<void>;
+  getPresenceAudience(userId: number): Promise<number[]>;
+  updatePrivacySettings(id: number, settings: PrivacySettings): Promise<User>;
+
+  // Presence operations
+  changePresenceConnection(userId: number, change: PresenceConnectionChange, freshSince: Date): Promise<{ before: ConnectionStatus[]; after: ConnectionStatus[] }>;
+  getPresenceConnections(freshSince: Date, userId?: number): Promise<Pick<PresenceConnection, "userId" | "status">[]>;
+  touchPresenceConnections(ids: string[]): Promise<string[]>;
+  removeStalePresenceConnections(staleBefore: Date): Promise<Pick<PresenceConnection, "userId" | "lastSeenAt">[]>;
+
+  // Account operations
+  getUserByEmail(email: string): Promise<User | undefined>;
+  setUserEmail(id: number, email: string | null): Promise<User>;
+  markEmailVerified(id: number, email: string): Promise<User | undefined>;
+  setPassword(id: number, passwordHash: string): Promise<number>;
+  createAccountToken(token: Pick<AccountToken, "userId" | "purpose" | "tokenHash" | "email" | "expiresAt">): Promise<AccountToken>;
+  useAccountToken(purpose: AccountTokenPurpose, tokenHash: string): Promise<AccountToken | undefined>;
+
+  // Two-factor login operations
+  getUserTotp(userId: number): Promise<UserTotp | undefined>;
+  getTwoFactorUserIds(): Promise<number[]>;
+  enableTotp(userId: number, secret: string, recoveryCodeHashes: string[]): Promise<void>;
+  disableTotp(userId: number): Promise<boolean>;
+  useTotpStep(userId: number, step: number): Promise<boolean>;
+  replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  countRecoveryCodes(userId: number): Promise<number>;
+  useRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+
+  // Auth event operations
+  createAuthEvent(event: InsertAuthEvent): Promise<void>;
+  getAuthEvents(query: AuthEventQuery): Promise<AuthEventPage>;
+  getUsernameFailures(since: Date, username?: string): Promise<LoginFailures[]>;
+  getIpFailures(since: Date, ip?: string): Promise<LoginFailures[]>;
+  countAuthEvents(type: AuthEventType, since: Date, ip: string | null, userId: number | null): Promise<{ byIp: number; byUser: number }>;
+  reserveLoginAttempt(attempt: InsertAuthEvent, since: Date): Promise<ReservedLoginAttempt>;
+  resolveLoginAttempt(id: number, outcome: Pick<InsertAuthEvent, "type" | "userId" | "username">): Promise<void>;
+  releaseLoginAttempt(id: number): Promise<void>;
+  
+  // Friendship and block operations
+  getFriendship(userId: number, otherUserId: number): Promise<Friendship | undefined>;
+  getFriendList(userId: number): Promise<FriendList>;
+  getFriendIds(userId: number): Promise<number[]>;
+  createFriendRequest(requesterId: number, addresseeId: number): Promise<Friendship>;
+  acceptFriendRequest(requesterId: number, addresseeId: number): Promise<Friendship | undefined>;
+  deleteFriendship(userId: number, otherUserId: number): Promise<boolean>;
+  blockUser(blockerId: number, blockedId: number): Promise<void>;
+  unblockUser(blockerId: number, blockedId: number): Promise<boolean>;
+  isBlockedEitherWay(userId: number, otherUserId: number): Promise<boolean>;
+  getHiddenUserIds(userId: number): Promise<number[]>;
   
   // Message operations
-  getMessages(fromUserId: number, toUserId: number): Promise<Message[]>;
-  getGroupMessages(groupId: number): Promise<Message[]>;
-  createMessage(message: Omit<Message, "id">): Promise<Message>;
+  getMessage(id: number): Promise<Message | undefined>;
+  getMessages(userId: number, otherUserId: number, page: MessagePageQuery): Promise<MessagePage>;
+  getGroupMessages(groupId: number, page: MessagePageQuery): Promise<MessagePage>;
+  getMessagesSince(userId: number, sinceId: number | undefined, limit: number): Promise<MessagePage>;
+  createMessage(message: Omit<Message, "id" | "editedAt" | "deletedAt">): Promise<Message>;
+  editMessage(id: number, content: string): Promise<Message>;
+  deleteMessage(id: number): Promise<Message>;
+  getMessageEdits(messageId: number): Promise<MessageEdit[]>;
+  clearConversation(userId: number, otherUserId: number): Promise<void>;
+  markMessagesRead(fromUserId: number, toUserId: number, upToId: number, readAt: Date): Promise<number>;
+  markGroupMessagesRead(groupId: number, userId: number, upToId: number): Promise<boolean>;
+  getGroupReadPositions(groupId: number): Promise<GroupReadPosition[]>;
+  getConversations(userId: number): Promise<Conversation[]>;
   
   // Group operations
   createGroup(group: InsertGroup): Promise<Group>;
@@ -31,6 +157,7 @@ export interface IStorage {
   removeGroupMember(groupId: number, userId: number): Promise<boolean>;
   isGroupMember(groupId: number, userId: number): Promise<boolean>;
   isGroupOwner(groupId: number, userId: number): Promise<boolean>;
+  isGroupAdmin(groupId: number, userId: number): Promise<boolean>;
   
   // Game operations
   getAllGames(): Promise<Game[]>;
@@ -38,6 +165,13 @@ export interface IStorage {
   getGamesByCategory(categories: string[]): Promise<Game[]>;
   createGame(game: InsertGame): Promise<Game>;
   deleteGame(id: number): Promise<void>;
+
+  // Game profile operations
+  getUserGames(userId: number): Promise<UserGameProfile[]>;
+  getUserGamesByUserIds(userIds: number[]): Promise<UserGameProfile[]>;
+  addUserGames(userId: number, gameIds: number[]): Promise<void>;
+  upsertUserGame(userId: number, gameId: number, profile: UserGameInput): Promise<UserGame>;
+  deleteUserGame(userId: number, gameId: number): Promise<boolean>;
   
   // User statistics operations
   getUserStatsByRegionAndLanguage(): Promise<{
@@ -60,6 +194,25 @@ export interface IStorage {
   createIdea(idea: InsertIdea): Promise<IdeaWithRelations>;
   toggleIdeaVote(ideaId: number, userId: number): Promise<IdeaWithRelations>;
   deleteIdea(id: number): Promise<void>;
+
+  // LFG operations
+  getOpenLfgListings(viewerId: number, query: LfgQuery, excludeUserIds: number[]): Promise<LfgListing[]>;
+  getLfgListing(viewerId: number, postId: number): Promise<LfgListing | undefined>;
+  createLfgPost(userId: number, post: InsertLfgPost): Promise<LfgPost>;
+  closeLfgPost(id: number): Promise<void>;
+  createLfgJoinRequest(postId: number, userId: number, message: string | null): Promise<LfgJoinRequest>;
+  deleteLfgJoinRequest(postId: number, userId: number): Promise<boolean>;
+  declineLfgJoinRequest(id: number): Promise<LfgJoinRequest | undefined>;
+  acceptLfgJoinRequest(postId: number, requestId: number): Promise<LfgAcceptResult>;
+
+  // Play session operations
+  getUpcomingPlaySessions(groupId: number): Promise<PlaySessionListing[]>;
+  getUserPlaySessions(userId: number): Promise<PlaySessionListing[]>;
+  getPlaySession(id: number): Promise<PlaySessionListing | undefined>;
+  createPlaySession(groupId: number, createdBy: number, session: InsertPlaySession): Promise<PlaySession>;
+  deletePlaySession(id: number): Promise<void>;
+  setPlaySessionRsvp(sessionId: number, userId: number, response: RsvpResponse): Promise<boolean>;
+  claimDuePlaySessionReminders(startingBefore: Date): Promise<PlaySession[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -83,8 +236,7 @@ export class DatabaseStorage implements IStorage {
         language: insertUser.language,
         region: insertUser.region,
         currentGame: insertUser.currentGame,
-        currentGameId: insertUser.currentGameId,
-        gamesPlayed: sql`${JSON.stringify(insertUser.gamesPlayed)}::json`,
+        currentGameHandle: insertUser.currentGameHandle,
         lastActive: new Date(),
       })
       .returning();
@@ -97,10 +249,6 @@ export class DatabaseStorage implements IStorage {
       lastActive: new Date(),
     };
 
-    if (updates.gamesPlayed) {
-      updateValues.gamesPlayed = sql`${JSON.stringify(updates.gamesPlayed)}::json`;
-    }
-
     const [user] = await db
       .update(users)
       .set(updateValues)
@@ -152,7 +300,19 @@ export class DatabaseStorage implements IStorage {
         .delete(groupMembers)
         .where(eq(groupMembers.userId, id));
       
-      // Step 6: Finally, delete the user
+      // Step 6: Delete the user's votes, and their ideas with everyone's votes on them
+      await db
+        .delete(ideaVotes)
+        .where(eq(ideaVotes.userId, id));
+      await db
+        .delete(ideaVotes)
+        .where(inArray(ideaVotes.ideaId, db.select({ id: ideas.id }).from(ideas).where(eq(ideas.userId, id))));
+      await db
+        .delete(ideas)
+        .where(eq(ideas.userId, id));
+
+      // Step 7: Finally, delete the user. Everything else they own is removed
+      // by cascading foreign keys.
       await db.delete(users).where(eq(users.id, id));
       
       console.log(`User with ID ${id} and all related data successfully deleted`);
@@ -169,51 +329,1007 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(users.lastActive));
   }
 
-  async setUserAsAdmin(username: string): Promise<User> {
+  async searchPlayers(query: PlayerSearchQuery, { excludeIds, onlineIds }: PlayerSearchScope): Promise<{ users: User[]; total: number }> {
+    const conditions: SQL[] = [];
+
+    if (excludeIds.length) conditions.push(notInArray(users.id, excludeIds));
+    if (query.q) {
+      const pattern = containsPattern(query.q);
+      conditions.push(or(ilike(users.username, pattern), ilike(users.currentGame, pattern))!);
+    }
+    if (query.region?.length) conditions.push(inArray(users.region, query.region));
+    if (query.language?.length) conditions.push(inArray(users.language, query.language));
+    if (query.currentGame) conditions.push(eq(users.currentGame, query.currentGame));
+    if (query.game) {
+      conditions.push(inArray(users.id, playersOf([query.game])));
+    }
+    if (query.online !== undefined) {
+      conditions.push(query.online ? inArray(users.id, onlineIds) : notInArray(users.id, onlineIds));
+    }
+
+    const where = and(...conditions);
+    const order = {
+      recent: desc(users.lastActive),
+      game: asc(users.currentGame),
+      username: asc(users.username),
+    }[query.sort];
+
+    const rows = await db
+      .select()
+      .from(users)
+      .where(where)
+      .orderBy(order, asc(users.id))
+      .limit(query.limit)
+      .offset((query.page - 1) * query.limit);
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(users)
+      .where(where);
+
+    return { users: rows, total };
+  }
+
+  async getPlayerFilterOptions(): Promise<PlayerFilterOptions> {
+    const regions = await db
+      .selectDistinct({ region: users.region })
+      .from(users)
+      .orderBy(asc(users.region));
+
+    const languages = await db
+      .selectDistinct({ language: users.language })
+      .from(users)
+      .orderBy(asc(users.language));
+
+    return {
+      regions: regions.map(row => row.region).filter(Boolean),
+      languages: languages.map(row => row.language).filter(Boolean)
+    };
+  }
+
+  // Recently active users with at least something in common with `user`:
+  // a game, language or region. `gameIds` are the games `user` plays.
+  // Scoring them is up to the caller.
+  async getTeammateCandidates(user: User, gameIds: number[], excludeIds: number[], activeSince: Date, limit: number): Promise<User[]> {
+    const inCommon = [
+      eq(users.currentGame, user.currentGame),
+      eq(users.language, user.language),
+      eq(users.region, user.region),
+      gameIds.length ? inArray(users.id, playersOf(gameIds)) : undefined,
+    ];
+
+    return db
+      .select()
+      .from(users)
+      .where(
+        and(
+          excludeIds.length ? notInArray(users.id, excludeIds) : undefined,
+          gte(users.lastActive, activeSince),
+          or(...inCommon)
+        )
+      )
+      .orderBy(desc(users.lastActive))
+      .limit(limit);
+  }
+
+  async setUserRole(id: number, role: Role): Promise<User> {
     const [user] = await db
       .update(users)
-      .set({ isAdmin: true })
-      .where(eq(users.username, username))
+      .set({ role })
+      .where(eq(users.id, id))
       .returning();
     
     if (!user) throw new Error("User not found");
     return user;
   }
 
-  // Existing and modified message methods
-  async getMessages(fromUserId: number, toUserId: number): Promise<Message[]> {
+  async touchLastActive(id: number, at: Date): Promise<void> {
+    await db
+      .update(users)
+      .set({ lastActive: at })
+      .where(eq(users.id, id));
+  }
+
+  // Everyone who should hear about this user's presence: people they share a
+  // group or a direct conversation with, plus the user themselves (other tabs)
+  async getPresenceAudience(userId: number): Promise<number[]> {
+    const otherMembers = alias(groupMembers, "other_members");
+
+    const groupmates = await db
+      .selectDistinct({ id: otherMembers.userId })
+      .from(groupMembers)
+      .innerJoin(otherMembers, eq(otherMembers.groupId, groupMembers.groupId))
+      .where(eq(groupMembers.userId, userId));
+
+    const partners = await db
+      .selectDistinct({
+        id: sql<number>`CASE WHEN ${messages.fromUserId} = ${userId} THEN ${messages.toUserId} ELSE ${messages.fromUserId} END`
+      })
+      .from(messages)
+      .where(
+        and(
+          isNull(messages.groupId),
+          or(eq(messages.fromUserId, userId), eq(messages.toUserId, userId))
+        )
+      );
+
+    // Blocks hide presence too, even from groupmates
+    const hidden = new Set(await this.getHiddenUserIds(userId));
+
+    return Array.from(new Set([userId, ...groupmates.map(g => g.id), ...partners.map(p => p.id)]))
+      .filter(id => !hidden.has(id));
+  }
+
+  // Presence methods
+
+  // Applies the change and returns the statuses of the user's fresh
+  // connections before and after it. Changes for one user run one at a time
+  // across all instances, so each one sees exactly what the last one left.
+  async changePresenceConnection(userId: number, change: PresenceConnectionChange, freshSince: Date): Promise<{ before: ConnectionStatus[]; after: ConnectionStatus[] }> {
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${PRESENCE_LOCK_KEY}, ${userId})`);
+
+      const statuses = async () => {
+        const rows = await tx
+          .select({ status: presenceConnections.status })
+          .from(presenceConnections)
+          .where(and(eq(presenceConnections.userId, userId), gt(presenceConnections.lastSeenAt, freshSince)));
+        return rows.map(row => row.status as ConnectionStatus);
+      };
+
+      const before = await statuses();
+      const connection = and(eq(presenceConnections.id, change.id), eq(presenceConnections.userId, userId));
+      if (change.type === "add") {
+        await tx
+          .insert(presenceConnections)
+          .values({ id: change.id, userId, status: change.status })
+          .onConflictDoUpdate({
+            target: presenceConnections.id,
+            set: { status: change.status, lastSeenAt: new Date() },
+          });
+      } else if (change.type === "status") {
+        await tx.update(presenceConnections).set({ status: change.status }).where(connection);
+      } else {
+        await tx.delete(presenceConnections).where(connection);
+      }
+      return { before, after: await statuses() };
+    });
+  }
+
+  // Connections refreshed since `freshSince`, for everyone or one user
+  async getPresenceConnections(freshSince: Date, userId?: number): Promise<Pick<PresenceConnection, "userId" | "status">[]> {
+    return db
+      .select({ userId: presenceConnections.userId, status: presenceConnections.status })
+      .from(presenceConnections)
+      .where(and(
+        gt(presenceConnections.lastSeenAt, freshSince),
+        userId === undefined ? undefined : eq(presenceConnections.userId, userId)
+      ));
+  }
+
+  // Marks the connections as still open. Returns the IDs that still had a
+  // row; the others were swept as stale.
+  async touchPresenceConnections(ids: string[]): Promise<string[]> {
+    if (ids.length === 0) return [];
+    const touched = await db
+      .update(presenceConnections)
+      .set({ lastSeenAt: new Date() })
+      .where(inArray(presenceConnections.id, ids))
+      .returning({ id: presenceConnections.id });
+    return touched.map(row => row.id);
+  }
+
+  async removeStalePresenceConnections(staleBefore: Date): Promise<Pick<PresenceConnection, "userId" | "lastSeenAt">[]> {
     return db
+      .delete(presenceConnections)
+      .where(lte(presenceConnections.lastSeenAt, staleBefore))
+      .returning({ userId: presenceConnections.userId, lastSeenAt: presenceConnections.lastSeenAt });
+  }
+
+  async updatePrivacySettings(id: number, settings: PrivacySettings): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set(settings)
+      .where(eq(users.id, id))
+      .returning();
+
+    if (!user) throw new Error("User not found");
+    return user;
+  }
+
+  // Account methods
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  // A new address starts out unverified
+  async setUserEmail(id: number, email: string | null): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ email, emailVerifiedAt: null })
+      .where(eq(users.id, id))
+      .returning();
+
+    if (!user) throw new Error("User not found");
+    return user;
+  }
+
+  // Only verifies the address if it is still the user's email
+  async markEmailVerified(id: number, email: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ emailVerifiedAt: new Date() })
+      .where(and(eq(users.id, id), eq(users.email, email)))
+      .returning();
+    return user;
+  }
+
+  // Reset links sent before the change stop working
+  // Also ends the user's sessions by bumping sessionVersion, and returns
+  // the new version
+  async setPassword(id: number, passwordHash: string): Promise<number> {
+    return db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(users)
+        .set({ password: passwordHash, sessionVersion: sql`${users.sessionVersion} + 1` })
+        .where(eq(users.id, id))
+        .returning({ sessionVersion: users.sessionVersion });
+      if (!updated) throw new Error("User not found");
+      await tx
+        .update(accountTokens)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(accountTokens.userId, id),
+          eq(accountTokens.purpose, "reset-password"),
+          isNull(accountTokens.usedAt)
+        ));
+      return updated.sessionVersion;
+    });
+  }
+
+  async createAccountToken(token: Pick<AccountToken, "userId" | "purpose" | "tokenHash" | "email" | "expiresAt">): Promise<AccountToken> {
+    const [created] = await db.insert(accountTokens).values(token).returning();
+    return created;
+  }
+
+  // Marks the token used and returns it, unless it was already used or has
+  // expired. Two requests with the same token can't both get it.
+  async useAccountToken(purpose: AccountTokenPurpose, tokenHash: string): Promise<AccountToken | undefined> {
+    const [token] = await db
+      .update(accountTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(accountTokens.tokenHash, tokenHash),
+        eq(accountTokens.purpose, purpose),
+        isNull(accountTokens.usedAt),
+        gt(accountTokens.expiresAt, new Date())
+      ))
+      .returning();
+    return token;
+  }
+
+  // Two-factor login methods
+
+  async getUserTotp(userId: number): Promise<UserTotp | undefined> {
+    const [totp] = await db.select().from(userTotp).where(eq(userTotp.userId, userId));
+    return totp;
+  }
+
+  async getTwoFactorUserIds(): Promise<number[]> {
+    const rows = await db.select({ userId: userTotp.userId }).from(userTotp);
+    return rows.map(row => row.userId);
+  }
+
+  // Replaces any earlier secret and recovery codes
+  async enableTotp(userId: number, secret: string, recoveryCodeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .insert(userTotp)
+        .values({ userId, secret })
+        .onConflictDoUpdate({
+          target: userTotp.userId,
+          set: { secret, enabledAt: new Date(), lastUsedStep: null },
+        });
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(recoveryCodeHashes.map(codeHash => ({ userId, codeHash })));
+    });
+  }
+
+  // False if two-factor login wasn't on
+  async disableTotp(userId: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      const deleted = await tx.delete(userTotp).where(eq(userTotp.userId, userId)).returning();
+      return deleted.length > 0;
+    });
+  }
+
+  // Records the step of an accepted code. False if that step or a later one
+  // was already used, e.g. by a concurrent login with the same code.
+  async useTotpStep(userId: number, step: number): Promise<boolean> {
+    const updated = await db
+      .update(userTotp)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(userTotp.userId, userId),
+        or(isNull(userTotp.lastUsedStep), lt(userTotp.lastUsedStep, step))
+      ))
+      .returning();
+    return updated.length > 0;
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash })));
+    });
+  }
+
+  // Codes not used yet
+  async countRecoveryCodes(userId: number): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+    return row.count;
+  }
+
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const used = await db
+      .update(recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(recoveryCodes.userId, userId),
+        eq(recoveryCodes.codeHash, codeHash),
+        isNull(recoveryCodes.usedAt)
+      ))
+      .returning();
+    return used.length > 0;
+  }
+
+  // Auth event methods
+
+  async createAuthEvent(event: InsertAuthEvent): Promise<void> {
+    await db.insert(authEvents).values(event);
+  }
+
+  async getAuthEvents(query: AuthEventQuery): Promise<AuthEventPage> {
+    const conditions: SQL[] = [];
+    if (query.type) conditions.push(eq(authEvents.type, query.type));
+    if (query.username) conditions.push(eq(authEvents.username, query.username));
+    if (query.ip) conditions.push(eq(authEvents.ip, query.ip));
+    if (query.before) conditions.push(lt(authEvents.id, query.before));
+
+    // One extra row tells whether there are more
+    const rows = await db
       .select()
-      .from(messages)
+      .from(authEvents)
+      .where(and(...conditions))
+      .orderBy(desc(authEvents.id))
+      .limit(query.limit + 1);
+    return { events: rows.slice(0, query.limit), hasMore: rows.length > query.limit };
+  }
+
+  // Failed attempts per username since a time, leaving out those followed by
+  // a successful login, a password reset or an admin unlock
+  async getUsernameFailures(since: Date, username?: string): Promise<LoginFailures[]> {
+    return this.usernameFailures(db, since, username);
+  }
+
+  // Failed attempts per IP address since a time. Logging in doesn't clear
+  // these, so one account can't be used to hide guessing at others.
+  async getIpFailures(since: Date, ip?: string): Promise<LoginFailures[]> {
+    return this.ipFailures(db, since, ip);
+  }
+
+  private async usernameFailures(queryable: Queryable, since: Date, username?: string): Promise<LoginFailures[]> {
+    const reset = alias(authEvents, "reset");
+    const rows = await queryable
+      .select({
+        key: authEvents.username,
+        failures: sql<number>`count(*)::int`,
+        lastFailureAt: max(authEvents.createdAt),
+      })
+      .from(authEvents)
+      .where(and(
+        inArray(authEvents.type, AUTH_FAILURE_EVENTS),
+        gt(authEvents.createdAt, since),
+        username === undefined ? isNotNull(authEvents.username) : eq(authEvents.username, username),
+        notExists(
+          queryable.select({ id: reset.id }).from(reset).where(and(
+            eq(reset.username, authEvents.username),
+            inArray(reset.type, AUTH_RESET_EVENTS),
+            gt(reset.createdAt, authEvents.createdAt)
+          ))
+        )
+      ))
+      .groupBy(authEvents.username);
+    return rows.map(row => ({ key: row.key!, failures: row.failures, lastFailureAt: row.lastFailureAt! }));
+  }
+
+  private async ipFailures(queryable: Queryable, since: Date, ip?: string): Promise<LoginFailures[]> {
+    const rows = await queryable
+      .select({
+        key: authEvents.ip,
+        failures: sql<number>`count(*)::int`,
+        lastFailureAt: max(authEvents.createdAt),
+      })
+      .from(authEvents)
+      .where(and(
+        inArray(authEvents.type, AUTH_FAILURE_EVENTS),
+        gt(authEvents.createdAt, since),
+        ip === undefined ? isNotNull(authEvents.ip) : eq(authEvents.ip, ip)
+      ))
+      .groupBy(authEvents.ip);
+    return rows.map(row => ({ key: row.key!, failures: row.failures, lastFailureAt: row.lastFailureAt! }));
+  }
+
+  // Events of a type since a time from an address and about a user, in one
+  // query whether or not either is known
+  async countAuthEvents(type: AuthEventType, since: Date, ip: string | null, userId: number | null): Promise<{ byIp: number; byUser: number }> {
+    const [counts] = await db
+      .select({
+        byIp: sql<number>`count(*) FILTER (WHERE ${authEvents.ip} = ${ip})::int`,
+        byUser: sql<number>`count(*) FILTER (WHERE ${authEvents.userId} = ${userId})::int`,
+      })
+      .from(authEvents)
+      .where(and(eq(authEvents.type, type), gt(authEvents.createdAt, since)));
+    return counts;
+  }
+
+  // Records an attempt as under way, a "login-attempt" that counts as a
+  // failure until it's resolved, and returns the failures before it. Attempts
+  // for the same username or from the same address take turns here, so each
+  // sees every earlier one, including those still being checked.
+  async reserveLoginAttempt(attempt: InsertAuthEvent, since: Date): Promise<ReservedLoginAttempt> {
+    return db.transaction(async (tx) => {
+      // Always username first, so two attempts can't wait on each other
+      if (attempt.username) {
+        await tx.execute(sql`SELECT pg_advisory_xact_lock(${LOGIN_USERNAME_LOCK_KEY}, hashtext(${attempt.username}))`);
+      }
+      if (attempt.ip) {
+        await tx.execute(sql`SELECT pg_advisory_xact_lock(${LOGIN_IP_LOCK_KEY}, hashtext(${attempt.ip}))`);
+      }
+
+      const [usernameFailures] = attempt.username ? await this.usernameFailures(tx, since, attempt.username) : [];
+      const [ipFailures] = attempt.ip ? await this.ipFailures(tx, since, attempt.ip) : [];
+      const [{ id }] = await tx
+        .insert(authEvents)
+        .values(attempt)
+        .returning({ id: authEvents.id });
+      return { id, usernameFailures, ipFailures };
+    });
+  }
+
+  // Turns a reserved attempt into its outcome, keeping the time it was made
+  async resolveLoginAttempt(id: number, outcome: Pick<InsertAuthEvent, "type" | "userId" | "username">): Promise<void> {
+    await db
+      .update(authEvents)
+      .set(outcome)
+      .where(and(eq(authEvents.id, id), eq(authEvents.type, "login-attempt")));
+  }
+
+  // Removes a reserved attempt that didn't fail
+  async releaseLoginAttempt(id: number): Promise<void> {
+    await db
+      .delete(authEvents)
+      .where(and(eq(authEvents.id, id), eq(authEvents.type, "login-attempt")));
+  }
+
+  // Friendship and block methods
+
+  // The friendship or pending request between two users, whichever sent it
+  async getFriendship(userId: number, otherUserId: number): Promise<Friendship | undefined> {
+    const [friendship] = await db
+      .select()
+      .from(friendships)
       .where(
+        or(
+          and(eq(friendships.requesterId, userId), eq(friendships.addresseeId, otherUserId)),
+          and(eq(friendships.requesterId, otherUserId), eq(friendships.addresseeId, userId))
+        )
+      );
+    return friendship;
+  }
+
+  async getFriendList(userId: number): Promise<FriendList> {
+    const rows = await db
+      .select({ friendship: friendships, user: users })
+      .from(friendships)
+      .innerJoin(
+        users,
+        eq(users.id, sql`CASE WHEN ${friendships.requesterId} = ${userId} THEN ${friendships.addresseeId} ELSE ${friendships.requesterId} END`)
+      )
+      .where(or(eq(friendships.requesterId, userId), eq(friendships.addresseeId, userId)))
+      .orderBy(asc(users.username));
+
+    const blocked = await db
+      .select({ user: users })
+      .from(userBlocks)
+      .innerJoin(users, eq(users.id, userBlocks.blockedId))
+      .where(eq(userBlocks.blockerId, userId))
+      .orderBy(asc(users.username));
+
+    const pending = rows.filter(row => row.friendship.status === "pending");
+
+    return {
+      friends: rows.filter(row => row.friendship.status === "accepted").map(row => row.user),
+      incoming: pending.filter(row => row.friendship.addresseeId === userId).map(row => row.user),
+      outgoing: pending.filter(row => row.friendship.requesterId === userId).map(row => row.user),
+      blocked: blocked.map(row => row.user)
+    };
+  }
+
+  async getFriendIds(userId: number): Promise<number[]> {
+    const rows = await db
+      .select({
+        id: sql<number>`CASE WHEN ${friendships.requesterId} = ${userId} THEN ${friendships.addresseeId} ELSE ${friendships.requesterId} END`
+      })
+      .from(friendships)
+      .where(
+        and(
+          eq(friendships.status, "accepted"),
+          or(eq(friendships.requesterId, userId), eq(friendships.addresseeId, userId))
+        )
+      );
+
+    return rows.map(row => row.id);
+  }
+
+  async createFriendRequest(requesterId: number, addresseeId: number): Promise<Friendship> {
+    const [friendship] = await db
+      .insert(friendships)
+      .values({ requesterId, addresseeId, status: "pending" })
+      .returning();
+    return friendship;
+  }
+
+  // Accepts a pending request from requesterId to addresseeId. Returns
+  // undefined if there is no such request.
+  async acceptFriendRequest(requesterId: number, addresseeId: number): Promise<Friendship | undefined> {
+    const [friendship] = await db
+      .update(friendships)
+      .set({ status: "accepted", acceptedAt: new Date() })
+      .where(
+        and(
+          eq(friendships.requesterId, requesterId),
+          eq(friendships.addresseeId, addresseeId),
+          eq(friendships.status, "pending")
+        )
+      )
+      .returning();
+    return friendship;
+  }
+
+  // Declines, cancels or ends a friendship, whichever side started it
+  async deleteFriendship(userId: number, otherUserId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(friendships)
+      .where(
+        or(
+          and(eq(friendships.requesterId, userId), eq(friendships.addresseeId, otherUserId)),
+          and(eq(friendships.requesterId, otherUserId), eq(friendships.addresseeId, userId))
+        )
+      )
+      .returning({ id: friendships.id });
+
+    return deleted.length > 0;
+  }
+
+  // Blocking also ends any friendship or pending request between the two
+  async blockUser(blockerId: number, blockedId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .insert(userBlocks)
+        .values({ blockerId, blockedId })
+        .onConflictDoNothing();
+
+      await tx
+        .delete(friendships)
+        .where(
+          or(
+            and(eq(friendships.requesterId, blockerId), eq(friendships.addresseeId, blockedId)),
+            and(eq(friendships.requesterId, blockedId), eq(friendships.addresseeId, blockerId))
+          )
+        );
+    });
+  }
+
+  async unblockUser(blockerId: number, blockedId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(userBlocks)
+      .where(and(eq(userBlocks.blockerId, blockerId), eq(userBlocks.blockedId, blockedId)))
+      .returning({ blockerId: userBlocks.blockerId });
+
+    return deleted.length > 0;
+  }
+
+  async isBlockedEitherWay(userId: number, otherUserId: number): Promise<boolean> {
+    const [block] = await db
+      .select({ blockerId: userBlocks.blockerId })
+      .from(userBlocks)
+      .where(
+        or(
+          and(eq(userBlocks.blockerId, userId), eq(userBlocks.blockedId, otherUserId)),
+          and(eq(userBlocks.blockerId, otherUserId), eq(userBlocks.blockedId, userId))
+        )
+      )
+      .limit(1);
+
+    return !!block;
+  }
+
+  // Users hidden from userId: everyone they blocked and everyone who blocked them
+  async getHiddenUserIds(userId: number): Promise<number[]> {
+    const rows = await db
+      .select({
+        id: sql<number>`CASE WHEN ${userBlocks.blockerId} = ${userId} THEN ${userBlocks.blockedId} ELSE ${userBlocks.blockerId} END`
+      })
+      .from(userBlocks)
+      .where(or(eq(userBlocks.blockerId, userId), eq(userBlocks.blockedId, userId)));
+
+    return rows.map(row => row.id);
+  }
+
+  // Existing and modified message methods
+  async getMessage(id: number): Promise<Message | undefined> {
+    const [message] = await db
+      .select()
+      .from(messages)
+      .where(eq(messages.id, id));
+    return message;
+  }
+
+  // The conversation between two users as `userId` sees it, i.e. without
+  // anything they have cleared
+  async getMessages(userId: number, otherUserId: number, page: MessagePageQuery): Promise<MessagePage> {
+    const clearedUpToId = sql`COALESCE((
+      SELECT ${clearedChats.clearedUpToId} FROM ${clearedChats}
+      WHERE ${clearedChats.userId} = ${userId} AND ${clearedChats.otherUserId} = ${otherUserId}
+    ), 0)`;
+
+    return this.getMessagePage(
+      and(
         or(
           and(
-            eq(messages.fromUserId, fromUserId),
-            eq(messages.toUserId, toUserId)
+            eq(messages.fromUserId, userId),
+            eq(messages.toUserId, otherUserId)
           ),
           and(
-            eq(messages.fromUserId, toUserId),
-            eq(messages.toUserId, fromUserId)
+            eq(messages.fromUserId, otherUserId),
+            eq(messages.toUserId, userId)
           )
-        )
-      )
-      .orderBy(messages.timestamp);
+        ),
+        gt(messages.id, clearedUpToId)
+      )!,
+      page
+    );
   }
 
-  async getGroupMessages(groupId: number): Promise<Message[]> {
-    return db
+  async getGroupMessages(groupId: number, page: MessagePageQuery): Promise<MessagePage> {
+    return this.getMessagePage(eq(messages.groupId, groupId), page);
+  }
+
+  // Pages through the messages matching `scope` by ID. Without a cursor this
+  // returns the latest messages. One extra row is fetched to tell whether
+  // another page exists; results are always returned oldest first.
+  private async getMessagePage(scope: SQL, { before, after, limit }: MessagePageQuery): Promise<MessagePage> {
+    if (after !== undefined) {
+      const rows = await db
+        .select()
+        .from(messages)
+        .where(and(scope, gt(messages.id, after)))
+        .orderBy(asc(messages.id))
+        .limit(limit + 1);
+
+      return { messages: rows.slice(0, limit), hasMore: rows.length > limit };
+    }
+
+    const rows = await db
       .select()
       .from(messages)
-      .where(eq(messages.groupId, groupId))
-      .orderBy(messages.timestamp);
+      .where(before !== undefined ? and(scope, lt(messages.id, before)) : scope)
+      .orderBy(desc(messages.id))
+      .limit(limit + 1);
+
+    return { messages: rows.slice(0, limit).reverse(), hasMore: rows.length > limit };
   }
 
-  async createMessage(message: Omit<Message, "id">): Promise<Message> {
+  // Everything the user can see that arrived after `sinceId`: their direct
+  // messages (outside cleared history) and messages in their groups. Without
+  // `sinceId` this is the latest page instead.
+  async getMessagesSince(userId: number, sinceId: number | undefined, limit: number): Promise<MessagePage> {
+    const otherUserId = sql`CASE WHEN ${messages.fromUserId} = ${userId} THEN ${messages.toUserId} ELSE ${messages.fromUserId} END`;
+    const clearedUpToId = sql`COALESCE((
+      SELECT ${clearedChats.clearedUpToId} FROM ${clearedChats}
+      WHERE ${clearedChats.userId} = ${userId} AND ${clearedChats.otherUserId} = ${otherUserId}
+    ), 0)`;
+    const userGroupIds = db
+      .select({ groupId: groupMembers.groupId })
+      .from(groupMembers)
+      .where(eq(groupMembers.userId, userId));
+
+    return this.getMessagePage(
+      or(
+        and(
+          isNull(messages.groupId),
+          or(eq(messages.fromUserId, userId), eq(messages.toUserId, userId)),
+          gt(messages.id, clearedUpToId)
+        ),
+        inArray(messages.groupId, userGroupIds)
+      )!,
+      { after: sinceId, limit }
+    );
+  }
+
+  // A message resent with a clientId that's already stored isn't inserted
+  // again; the stored copy is returned instead, which may have gone
+  // somewhere else if the client reused the clientId
+  async createMessage(message: Omit<Message, "id" | "editedAt" | "deletedAt">): Promise<Message> {
     const [createdMessage] = await db
       .insert(messages)
       .values(message)
+      .onConflictDoNothing({ target: [messages.fromUserId, messages.clientId] })
       .returning();
-    return createdMessage;
+    if (createdMessage) return createdMessage;
+
+    const [storedMessage] = await db
+      .select()
+      .from(messages)
+      .where(and(
+        eq(messages.fromUserId, message.fromUserId),
+        eq(messages.clientId, message.clientId!)
+      ));
+    return storedMessage;
+  }
+
+  // Replaces a message's content, keeping the previous version in message_edits
+  async editMessage(id: number, content: string): Promise<Message> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(messages)
+        .where(eq(messages.id, id))
+        .for("update");
+      if (!current) throw new Error("Message not found");
+
+      const editedAt = new Date();
+      await tx
+        .insert(messageEdits)
+        .values({ messageId: id, content: current.content, editedAt });
+
+      const [updated] = await tx
+        .update(messages)
+        .set({ content, editedAt })
+        .where(eq(messages.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Soft-deletes a message: the row is kept but its content, payload and edit history are removed
+  async deleteMessage(id: number): Promise<Message> {
+    return db.transaction(async (tx) => {
+      await tx
+        .delete(messageEdits)
+        .where(eq(messageEdits.messageId, id));
+
+      const [deleted] = await tx
+        .update(messages)
+        .set({ content: "", payload: null, deletedAt: new Date() })
+        .where(eq(messages.id, id))
+        .returning();
+      if (!deleted) throw new Error("Message not found");
+      return deleted;
+    });
+  }
+
+  async getMessageEdits(messageId: number): Promise<MessageEdit[]> {
+    return db
+      .select()
+      .from(messageEdits)
+      .where(eq(messageEdits.messageId, messageId))
+      .orderBy(asc(messageEdits.editedAt));
+  }
+
+  // Hides the current history with otherUserId from userId. Messages sent
+  // afterwards show up as usual.
+  async clearConversation(userId: number, otherUserId: number): Promise<void> {
+    const [latest] = await db
+      .select({ id: sql<number | null>`max(${messages.id})` })
+      .from(messages)
+      .where(
+        or(
+          and(eq(messages.fromUserId, userId), eq(messages.toUserId, otherUserId)),
+          and(eq(messages.fromUserId, otherUserId), eq(messages.toUserId, userId))
+        )
+      );
+
+    if (!latest?.id) return;
+
+    await db
+      .insert(clearedChats)
+      .values({ userId, otherUserId, clearedUpToId: latest.id })
+      .onConflictDoUpdate({
+        target: [clearedChats.userId, clearedChats.otherUserId],
+        set: { clearedUpToId: latest.id, clearedAt: new Date() }
+      });
+  }
+
+  // Marks unread direct messages from one user to another as read, up to a
+  // message ID. Returns how many messages changed.
+  async markMessagesRead(fromUserId: number, toUserId: number, upToId: number, readAt: Date): Promise<number> {
+    const updated = await db
+      .update(messages)
+      .set({ isRead: true, readAt })
+      .where(
+        and(
+          eq(messages.fromUserId, fromUserId),
+          eq(messages.toUserId, toUserId),
+          lte(messages.id, upToId),
+          eq(messages.isRead, false)
+        )
+      )
+      .returning({ id: messages.id });
+
+    return updated.length;
+  }
+
+  // Moves a member's read position in a group forward. Returns false if the
+  // member had already read that far (or isn't a member).
+  async markGroupMessagesRead(groupId: number, userId: number, upToId: number): Promise<boolean> {
+    const updated = await db
+      .update(groupMembers)
+      .set({ lastReadMessageId: upToId })
+      .where(
+        and(
+          eq(groupMembers.groupId, groupId),
+          eq(groupMembers.userId, userId),
+          or(
+            isNull(groupMembers.lastReadMessageId),
+            lt(groupMembers.lastReadMessageId, upToId)
+          )
+        )
+      )
+      .returning({ id: groupMembers.id });
+
+    return updated.length > 0;
+  }
+
+  async getGroupReadPositions(groupId: number): Promise<GroupReadPosition[]> {
+    return db
+      .select({
+        userId: groupMembers.userId,
+        lastReadMessageId: groupMembers.lastReadMessageId
+      })
+      .from(groupMembers)
+      .where(eq(groupMembers.groupId, groupId));
+  }
+
+  // Every direct chat and group the user is part of, with its latest message
+  // and unread count, most recently active first
+  async getConversations(userId: number): Promise<Conversation[]> {
+    // LEAST/GREATEST identify a direct conversation regardless of who sent what
+    const pairLow = sql`LEAST(${messages.fromUserId}, ${messages.toUserId})`;
+    const pairHigh = sql`GREATEST(${messages.fromUserId}, ${messages.toUserId})`;
+
+    const lastDirectMessages = await db
+      .selectDistinctOn([pairLow, pairHigh])
+      .from(messages)
+      .where(
+        and(
+          isNull(messages.groupId),
+          or(eq(messages.fromUserId, userId), eq(messages.toUserId, userId))
+        )
+      )
+      .orderBy(pairLow, pairHigh, desc(messages.id));
+
+    // Conversations the user has cleared only come back once there's something new
+    const cleared = await db
+      .select()
+      .from(clearedChats)
+      .where(eq(clearedChats.userId, userId));
+    const clearedUpTo = (otherUserId: number) =>
+      cleared.find(c => c.otherUserId === otherUserId)?.clearedUpToId ?? 0;
+    const partnerOf = (message: Message) => message.fromUserId === userId ? message.toUserId! : message.fromUserId;
+    const visibleDirectMessages = lastDirectMessages.filter(m => m.id > clearedUpTo(partnerOf(m)));
+
+    const directUnread = await db
+      .select({
+        fromUserId: messages.fromUserId,
+        count: sql<number>`count(*)::int`
+      })
+      .from(messages)
+      .leftJoin(
+        clearedChats,
+        and(
+          eq(clearedChats.userId, userId),
+          eq(clearedChats.otherUserId, messages.fromUserId)
+        )
+      )
+      .where(
+        and(
+          eq(messages.toUserId, userId),
+          isNull(messages.groupId),
+          eq(messages.isRead, false),
+          isNull(messages.deletedAt),
+          gt(messages.id, sql`COALESCE(${clearedChats.clearedUpToId}, 0)`)
+        )
+      )
+      .groupBy(messages.fromUserId);
+
+    const partnerIds = visibleDirectMessages.map(partnerOf);
+    const partners = partnerIds.length === 0 ? [] : await db
+      .select({ id: users.id, username: users.username })
+      .from(users)
+      .where(inArray(users.id, partnerIds));
+
+    const memberships = await db
+      .select({ group: groups })
+      .from(groupMembers)
+      .innerJoin(groups, eq(groups.id, groupMembers.groupId))
+      .where(eq(groupMembers.userId, userId));
+
+    const groupIds = memberships.map(m => m.group.id);
+    let lastGroupMessages: Message[] = [];
+    let groupUnread: { groupId: number; count: number }[] = [];
+
+    if (groupIds.length > 0) {
+      lastGroupMessages = await db
+        .selectDistinctOn([messages.groupId])
+        .from(messages)
+        .where(inArray(messages.groupId, groupIds))
+        .orderBy(messages.groupId, desc(messages.id));
+
+      // Messages from others that arrived after the member joined and past their read position
+      groupUnread = await db
+        .select({
+          groupId: groupMembers.groupId,
+          count: sql<number>`count(${messages.id})::int`
+        })
+        .from(groupMembers)
+        .innerJoin(
+          messages,
+          and(
+            eq(messages.groupId, groupMembers.groupId),
+            ne(messages.fromUserId, userId),
+            ne(messages.type, "system"),
+            isNull(messages.deletedAt),
+            gt(messages.timestamp, groupMembers.joinedAt),
+            gt(messages.id, sql`COALESCE(${groupMembers.lastReadMessageId}, 0)`)
+          )
+        )
+        .where(eq(groupMembers.userId, userId))
+        .groupBy(groupMembers.groupId);
+    }
+
+    const conversations: Conversation[] = [
+      ...visibleDirectMessages.map((message, i): Conversation => ({
+        type: "direct",
+        id: partnerIds[i],
+        name: partners.find(p => p.id === partnerIds[i])?.username ?? "Unknown User",
+        lastMessage: message,
+        lastMessageAt: message.timestamp,
+        unreadCount: directUnread.find(u => u.fromUserId === partnerIds[i])?.count ?? 0
+      })),
+      ...memberships.map(({ group }): Conversation => {
+        const lastMessage = lastGroupMessages.find(m => m.groupId === group.id) ?? null;
+        return {
+          type: "group",
+          id: group.id,
+          name: group.name,
+          lastMessage,
+          lastMessageAt: lastMessage?.timestamp ?? null,
+          unreadCount: groupUnread.find(u => u.groupId === group.id)?.count ?? 0
+        };
+      })
+    ];
+
+    return conversations.sort(
+      (a, b) => (b.lastMessageAt?.getTime() ?? 0) - (a.lastMessageAt?.getTime() ?? 0)
+    );
   }
 
   // New group methods
@@ -391,6 +1507,14 @@ export class DatabaseStorage implements IStorage {
     return !!group;
   }
 
+  // The owner and anyone in adminIds can moderate a group
+  async isGroupAdmin(groupId: number, userId: number): Promise<boolean> {
+    const group = await this.getGroup(groupId);
+    if (!group) return false;
+
+    return group.ownerId === userId || group.adminIds.includes(userId);
+  }
+
   // Game methods
   async getAllGames(): Promise<Game[]> {
     return await db.select().from(games);
@@ -429,6 +1553,73 @@ export class DatabaseStorage implements IStorage {
     await db.delete(games).where(eq(games.id, id));
   }
 
+  // Game profile methods
+
+  // Most played first, then by name
+  async getUserGames(userId: number): Promise<UserGameProfile[]> {
+    const rows = await db
+      .select({ profile: userGames, gameName: games.name })
+      .from(userGames)
+      .innerJoin(games, eq(games.id, userGames.gameId))
+      .where(eq(userGames.userId, userId))
+      .orderBy(sql`${userGames.hoursPlayed} desc nulls last`, asc(games.name));
+    return rows.map(({ profile, gameName }) => ({ ...profile, gameName }));
+  }
+
+  async getUserGamesByUserIds(userIds: number[]): Promise<UserGameProfile[]> {
+    if (userIds.length === 0) return [];
+    const rows = await db
+      .select({ profile: userGames, gameName: games.name })
+      .from(userGames)
+      .innerJoin(games, eq(games.id, userGames.gameId))
+      .where(inArray(userGames.userId, userIds));
+    return rows.map(({ profile, gameName }) => ({ ...profile, gameName }));
+  }
+
+  // Adds empty profiles for games the user doesn't have one for yet. IDs
+  // that aren't games are skipped.
+  async addUserGames(userId: number, gameIds: number[]): Promise<void> {
+    if (gameIds.length === 0) return;
+    const existing = await db
+      .select({ id: games.id })
+      .from(games)
+      .where(inArray(games.id, gameIds));
+    if (existing.length === 0) return;
+
+    await db
+      .insert(userGames)
+      .values(existing.map(game => ({ userId, gameId: game.id })))
+      .onConflictDoNothing();
+  }
+
+  async upsertUserGame(userId: number, gameId: number, profile: UserGameInput): Promise<UserGame> {
+    const values = {
+      inGameId: profile.inGameId || null,
+      platform: profile.platform ?? null,
+      rank: profile.rank || null,
+      roles: profile.roles,
+      hoursPlayed: profile.hoursPlayed ?? null,
+      updatedAt: new Date()
+    };
+    const [saved] = await db
+      .insert(userGames)
+      .values({ userId, gameId, ...values })
+      .onConflictDoUpdate({
+        target: [userGames.userId, userGames.gameId],
+        set: values
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteUserGame(userId: number, gameId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(userGames)
+      .where(and(eq(userGames.userId, userId), eq(userGames.gameId, gameId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
   // User statistics methods
   async getUserStatsByRegionAndLanguage(): Promise<{
     byRegion: Record<string, number>;
@@ -506,71 +1697,29 @@ export class DatabaseStorage implements IStorage {
   
   /**
    * Gets the distribution of games played across different regions
-   * Returns a mapping of regions to games and their counts
+   * Returns a mapping of regions to game names and how many players have a
+   * profile for each
    */
   async getGamesPlayedByRegion(): Promise<{
     byRegion: Record<string, Record<string, number>>;
   }> {
-    const result: {
-      byRegion: Record<string, Record<string, number>>;
-    } = {
-      byRegion: {}
-    };
-
-    try {
-      // Get all users with their region and gamesPlayed using Drizzle ORM
-      // Using a different approach to avoid ORM-specific issues
-      const allUsers = await db
-        .select({
-          region: users.region,
-          gamesPlayed: users.gamesPlayed
-        })
-        .from(users);
-
-      // Filter users with non-null gamesPlayed
-      const usersWithGames = allUsers.filter(user => user.gamesPlayed != null);
-
-      // Initialize regions if they don't exist in the result
-      for (const user of usersWithGames) {
-        if (user.region && !result.byRegion[user.region]) {
-          result.byRegion[user.region] = {};
-        }
-      }
-
-      // Count games played by region
-      for (const user of usersWithGames) {
-        if (!user.region || !user.gamesPlayed) continue;
-        
-        // Parse gamesPlayed if needed
-        let gamesPlayedArray: string[] = [];
-        
-        if (typeof user.gamesPlayed === 'string') {
-          try {
-            gamesPlayedArray = JSON.parse(user.gamesPlayed);
-          } catch (e) {
-            console.error(`Failed to parse gamesPlayed for user in region ${user.region}:`, e);
-            continue;
-          }
-        } else if (Array.isArray(user.gamesPlayed)) {
-          gamesPlayedArray = user.gamesPlayed;
-        }
-        
-        // Count each game
-        for (const game of gamesPlayedArray) {
-          if (typeof game === 'string') {
-            if (!result.byRegion[user.region][game]) {
-              result.byRegion[user.region][game] = 0;
-            }
-            result.byRegion[user.region][game]++;
-          }
-        }
-      }
+    const rows = await db
+      .select({
+        region: users.region,
+        game: games.name,
+        players: sql<number>`count(*)::int`
+      })
+      .from(userGames)
+      .innerJoin(users, eq(users.id, userGames.userId))
+      .innerJoin(games, eq(games.id, userGames.gameId))
+      .groupBy(users.region, games.id, games.name);
 
-      return result;
-    } catch (error) {
-      console.error('Error in getGamesPlayedByRegion:', error);
-      throw error;
+    const byRegion: Record<string, Record<string, number>> = {};
+    for (const { region, game, players } of rows) {
+      byRegion[region] ??= {};
+      byRegion[region][game] = players;
     }
+    return { byRegion };
   }
 
   // Idea methods
@@ -621,11 +1770,10 @@ export class DatabaseStorage implements IStorage {
           username: 'Deleted User',
           password: '',
           profilePicture: null,
-          isAdmin: false,
+          role: 'member',
           lastActive: new Date(),
           region: null,
-          language: null,
-          gamesPlayed: []
+          language: null
         },
         game_name: idea.game?.name ?? 'Deleted Game',
         game_contact: idea.game?.contact ?? null,
@@ -752,6 +1900,324 @@ export class DatabaseStorage implements IStorage {
     // Then delete the idea itself
     await db.delete(ideas).where(eq(ideas.id, id));
   }
+
+  // Posts joined with their game and author, plus how many requests were
+  // accepted so far
+  private lfgPostsQuery() {
+    return db
+      .select({
+        post: lfgPosts,
+        gameName: games.name,
+        author: { id: users.id, username: users.username, profilePicture: users.profilePicture },
+        acceptedCount: sql<number>`${acceptedLfgRequests}::int`
+      })
+      .from(lfgPosts)
+      .innerJoin(games, eq(games.id, lfgPosts.gameId))
+      .innerJoin(users, eq(users.id, lfgPosts.userId));
+  }
+
+  // Adds the viewer's own requests, and for their own posts the pending ones
+  private async toLfgListings(
+    viewerId: number,
+    rows: Awaited<ReturnType<DatabaseStorage["lfgPostsQuery"]>>,
+    excludeUserIds: number[] = []
+  ): Promise<LfgListing[]> {
+    if (rows.length === 0) return [];
+
+    const requests = await db
+      .select({
+        request: lfgJoinRequests,
+        user: { id: users.id, username: users.username, profilePicture: users.profilePicture }
+      })
+      .from(lfgJoinRequests)
+      .innerJoin(lfgPosts, eq(lfgPosts.id, lfgJoinRequests.postId))
+      .innerJoin(users, eq(users.id, lfgJoinRequests.userId))
+      .where(
+        and(
+          inArray(lfgJoinRequests.postId, rows.map(row => row.post.id)),
+          or(
+            eq(lfgJoinRequests.userId, viewerId),
+            and(eq(lfgPosts.userId, viewerId), eq(lfgJoinRequests.status, "pending"))
+          ),
+          excludeUserIds.length ? notInArray(lfgJoinRequests.userId, excludeUserIds) : undefined
+        )
+      )
+      .orderBy(asc(lfgJoinRequests.createdAt));
+
+    return rows.map(({ post, gameName, author, acceptedCount }) => {
+      const forPost = requests.filter(row => row.request.postId === post.id);
+      return {
+        ...post,
+        gameName,
+        author,
+        acceptedCount,
+        myRequest: forPost.find(row => row.request.userId === viewerId)?.request ?? null,
+        pendingRequests: post.userId === viewerId
+          ? forPost.map(row => ({ ...row.request, user: row.user }))
+          : []
+      };
+    });
+  }
+
+  // Posts that are still open: not closed, expired or full. Newest first.
+  async getOpenLfgListings(viewerId: number, query: LfgQuery, excludeUserIds: number[]): Promise<LfgListing[]> {
+    const rows = await this.lfgPostsQuery()
+      .where(
+        and(
+          isNull(lfgPosts.closedAt),
+          gt(lfgPosts.expiresAt, new Date()),
+          sql`${acceptedLfgRequests} < ${lfgPosts.slots}`,
+          query.gameId ? eq(lfgPosts.gameId, query.gameId) : undefined,
+          query.region ? eq(lfgPosts.region, query.region) : undefined,
+          query.language ? eq(lfgPosts.language, query.language) : undefined,
+          excludeUserIds.length ? notInArray(lfgPosts.userId, excludeUserIds) : undefined
+        )
+      )
+      .orderBy(desc(lfgPosts.createdAt));
+
+    return this.toLfgListings(viewerId, rows, excludeUserIds);
+  }
+
+  // A post whether or not it's still open
+  async getLfgListing(viewerId: number, postId: number): Promise<LfgListing | undefined> {
+    const rows = await this.lfgPostsQuery().where(eq(lfgPosts.id, postId));
+    const [listing] = await this.toLfgListings(viewerId, rows);
+    return listing;
+  }
+
+  async createLfgPost(userId: number, post: InsertLfgPost): Promise<LfgPost> {
+    const { durationMinutes, skillNote, ...details } = post;
+    const [created] = await db
+      .insert(lfgPosts)
+      .values({
+        ...details,
+        userId,
+        skillNote: skillNote || null,
+        expiresAt: new Date(Date.now() + durationMinutes * 60 * 1000)
+      })
+      .returning();
+    return created;
+  }
+
+  async closeLfgPost(id: number): Promise<void> {
+    await db
+      .update(lfgPosts)
+      .set({ closedAt: new Date() })
+      .where(and(eq(lfgPosts.id, id), isNull(lfgPosts.closedAt)));
+  }
+
+  async createLfgJoinRequest(postId: number, userId: number, message: string | null): Promise<LfgJoinRequest> {
+    const [request] = await db
+      .insert(lfgJoinRequests)
+      .values({ postId, userId, message })
+      .returning();
+    return request;
+  }
+
+  // Withdraws a request that hasn't been answered yet
+  async deleteLfgJoinRequest(postId: number, userId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(lfgJoinRequests)
+      .where(
+        and(
+          eq(lfgJoinRequests.postId, postId),
+          eq(lfgJoinRequests.userId, userId),
+          eq(lfgJoinRequests.status, "pending")
+        )
+      )
+      .returning({ id: lfgJoinRequests.id });
+    return deleted.length > 0;
+  }
+
+  // Declines a request that hasn't been answered yet
+  async declineLfgJoinRequest(id: number): Promise<LfgJoinRequest | undefined> {
+    const [request] = await db
+      .update(lfgJoinRequests)
+      .set({ status: "declined", respondedAt: new Date() })
+      .where(and(eq(lfgJoinRequests.id, id), eq(lfgJoinRequests.status, "pending")))
+      .returning();
+    return request;
+  }
+
+  // Accepts a pending request and adds the requester to the post's group,
+  // creating the group (owned by the post's author) on the first acceptance.
+  // The post stays locked until this commits, so concurrent acceptances can't
+  // overfill it or each create a group.
+  async acceptLfgJoinRequest(postId: number, requestId: number): Promise<LfgAcceptResult> {
+    return db.transaction(async (tx) => {
+      const [post] = await tx
+        .select()
+        .from(lfgPosts)
+        .where(eq(lfgPosts.id, postId))
+        .for("update");
+      if (!post) throw new Error("LFG post not found");
+
+      const [{ accepted }] = await tx
+        .select({ accepted: sql<number>`count(*)::int` })
+        .from(lfgJoinRequests)
+        .where(and(eq(lfgJoinRequests.postId, postId), eq(lfgJoinRequests.status, "accepted")));
+      if (post.closedAt || post.expiresAt <= new Date() || accepted >= post.slots) {
+        return { status: "closed" as const };
+      }
+
+      const [request] = await tx
+        .update(lfgJoinRequests)
+        .set({ status: "accepted", respondedAt: new Date() })
+        .where(
+          and(
+            eq(lfgJoinRequests.id, requestId),
+            eq(lfgJoinRequests.postId, postId),
+            eq(lfgJoinRequests.status, "pending")
+          )
+        )
+        .returning();
+      if (!request) return { status: "not-pending" as const };
+
+      let groupId = post.groupId;
+      const groupCreated = !groupId;
+      if (!groupId) {
+        const [group] = await tx
+          .insert(groups)
+          .values({ name: post.title, ownerId: post.userId })
+          .returning();
+        await tx.insert(groupMembers).values({ groupId: group.id, userId: post.userId });
+        await tx
+          .update(lfgPosts)
+          .set({ groupId: group.id })
+          .where(eq(lfgPosts.id, postId));
+        groupId = group.id;
+      }
+
+      const [membership] = await tx
+        .select({ id: groupMembers.id })
+        .from(groupMembers)
+        .where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.userId, request.userId)));
+      if (!membership) {
+        await tx.insert(groupMembers).values({ groupId, userId: request.userId });
+      }
+
+      return { status: "accepted" as const, groupId, groupCreated };
+    });
+  }
+
+  // Sessions with their game and group names and everyone's answers
+  private async toPlaySessionListings(where: SQL | undefined): Promise<PlaySessionListing[]> {
+    const rows = await db
+      .select({ session: playSessions, gameName: games.name, groupName: groups.name })
+      .from(playSessions)
+      .innerJoin(games, eq(games.id, playSessions.gameId))
+      .innerJoin(groups, eq(groups.id, playSessions.groupId))
+      .where(where)
+      .orderBy(asc(playSessions.startsAt));
+    if (rows.length === 0) return [];
+
+    const rsvps = await db
+      .select({
+        sessionId: playSessionRsvps.sessionId,
+        userId: playSessionRsvps.userId,
+        username: users.username,
+        response: playSessionRsvps.response
+      })
+      .from(playSessionRsvps)
+      .innerJoin(users, eq(users.id, playSessionRsvps.userId))
+      .where(inArray(playSessionRsvps.sessionId, rows.map(row => row.session.id)))
+      .orderBy(asc(playSessionRsvps.respondedAt));
+
+    return rows.map(({ session, gameName, groupName }) => ({
+      ...session,
+      gameName,
+      groupName,
+      rsvps: rsvps
+        .filter(rsvp => rsvp.sessionId === session.id)
+        .map(({ userId, username, response }) => ({ userId, username, response: response as RsvpResponse }))
+    }));
+  }
+
+  // Sessions in the group that haven't finished, soonest first
+  async getUpcomingPlaySessions(groupId: number): Promise<PlaySessionListing[]> {
+    return this.toPlaySessionListings(and(eq(playSessions.groupId, groupId), playSessionNotOver));
+  }
+
+  // Unfinished sessions in every group the user belongs to
+  async getUserPlaySessions(userId: number): Promise<PlaySessionListing[]> {
+    const memberOf = db
+      .select({ groupId: groupMembers.groupId })
+      .from(groupMembers)
+      .where(eq(groupMembers.userId, userId));
+    return this.toPlaySessionListings(and(inArray(playSessions.groupId, memberOf), playSessionNotOver));
+  }
+
+  async getPlaySession(id: number): Promise<PlaySessionListing | undefined> {
+    const [session] = await this.toPlaySessionListings(eq(playSessions.id, id));
+    return session;
+  }
+
+  async createPlaySession(groupId: number, createdBy: number, session: InsertPlaySession): Promise<PlaySession> {
+    const [created] = await db
+      .insert(playSessions)
+      .values({ ...session, maxParticipants: session.maxParticipants ?? null, groupId, createdBy })
+      .returning();
+    return created;
+  }
+
+  async deletePlaySession(id: number): Promise<void> {
+    await db.delete(playSessions).where(eq(playSessions.id, id));
+  }
+
+  // Saves a user's answer. A "yes" to a session that's already full isn't
+  // saved and returns false. The session stays locked until this commits, so
+  // simultaneous answers can't overfill it.
+  async setPlaySessionRsvp(sessionId: number, userId: number, response: RsvpResponse): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [session] = await tx
+        .select({ maxParticipants: playSessions.maxParticipants })
+        .from(playSessions)
+        .where(eq(playSessions.id, sessionId))
+        .for("update");
+      if (!session) throw new Error("Play session not found");
+
+      if (response === "yes" && session.maxParticipants !== null) {
+        const [{ going }] = await tx
+          .select({ going: sql<number>`count(*)::int` })
+          .from(playSessionRsvps)
+          .where(
+            and(
+              eq(playSessionRsvps.sessionId, sessionId),
+              eq(playSessionRsvps.response, "yes"),
+              ne(playSessionRsvps.userId, userId)
+            )
+          );
+        if (going >= session.maxParticipants) return false;
+      }
+
+      const respondedAt = new Date();
+      await tx
+        .insert(playSessionRsvps)
+        .values({ sessionId, userId, response, respondedAt })
+        .onConflictDoUpdate({
+          target: [playSessionRsvps.sessionId, playSessionRsvps.userId],
+          set: { response, respondedAt }
+        });
+      return true;
+    });
+  }
+
+  // Marks the reminders for sessions starting before `startingBefore` as sent
+  // and returns those sessions. The update claims them, so when several
+  // instances check at once each reminder is still only sent by one.
+  async claimDuePlaySessionReminders(startingBefore: Date): Promise<PlaySession[]> {
+    return db
+      .update(playSessions)
+      .set({ reminderSentAt: new Date() })
+      .where(
+        and(
+          isNull(playSessions.reminderSentAt),
+          lte(playSessions.startsAt, startingBefore),
+          gt(playSessions.startsAt, new Date())
+        )
+      )
+      .returning();
+  }
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+export const storage = new DatabaseStorage();
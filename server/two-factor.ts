@@ -0,0 +1,43 @@
+import { createHash, randomBytes } from 'crypto';
+import { RECOVERY_CODE_COUNT, type TwoFactorLogin } from '@shared/schema';
+import { storage } from './storage';
+import { verifyTotp } from './totp';
+
+/**
+ * Two-factor login. Users who turned it on log in in two steps: their
+ * password, then a code from their authenticator app or one of their
+ * recovery codes. Between the steps the session only holds a pending login
+ * (see `routes/auth.ts`), which expires and allows a few tries.
+ */
+
+// How long the second step can take, and how many codes may be tried
+export const TWO_FACTOR_LOGIN_TTL_MS = 5 * 60 * 1000;
+export const TWO_FACTOR_MAX_ATTEMPTS = 5;
+
+// Recovery codes are matched without case, spaces or dashes
+function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[\s-]/g, '');
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+// New recovery codes, e.g. "3f9a1-c07e2", with the hashes to store
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+// Whether the authenticator code or recovery code is good for the user.
+// Either one is used up by a successful check.
+export async function checkSecondFactor(userId: number, login: TwoFactorLogin): Promise<boolean> {
+  if ('recoveryCode' in login) {
+    return storage.useRecoveryCode(userId, hashRecoveryCode(login.recoveryCode));
+  }
+
+  const totp = await storage.getUserTotp(userId);
+  if (!totp) return false;
+  const step = verifyTotp(totp.secret, login.code, totp.lastUsedStep);
+  return step !== null && storage.useTotpStep(userId, step);
+}
@@ -1,92 +1,229 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import { Server } from 'http';
+import { Server, IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import { Request, Response } from 'express';
+import type { Message, OutgoingMessagePayload } from '@shared/schema';
+import {
+  PROTOCOL_VERSION,
+  SYNC_PAGE_SIZE,
+  clientFrameSchema,
+  type AckFrame,
+  type ClientFrame,
+  type ErrorFrame,
+  type ProtocolErrorCode
+} from '@shared/protocol';
 import { storage } from './storage';
+import { sessionMiddleware, isSessionCurrent } from './session';
+import { registerClient, unregisterClient, sendFrame, sendToUser, sendToUsers } from './realtime';
+import { markDirectMessagesRead, markGroupMessagesRead } from './read-receipts';
+import { connectPresence, disconnectPresence, setConnectionStatus } from './presence';
+import { canSendDirectMessage } from './privacy';
 
-// Define message types
-interface DirectChatMessage {
-  type: 'message';
-  fromUserId: number;
-  toUserId: number;
-  content: string;
+type StoredPayload = Pick<Message, 'type' | 'content' | 'payload'>;
+
+// Turns a client payload into the columns it is stored in. Game invites get
+// the game's name filled in so every client can show it.
+async function toStoredPayload(payload: OutgoingMessagePayload): Promise<StoredPayload | string> {
+  if (payload.type === 'text') {
+    return { type: 'text', content: payload.content, payload: null };
+  }
+
+  if (payload.type === 'game-invite') {
+    const game = await storage.getGameById(payload.gameId);
+    if (!game) return 'Unknown game';
+    return { type: payload.type, content: '', payload: { ...payload, gameName: game.name } };
+  }
+
+  return { type: payload.type, content: '', payload };
 }
 
-interface GroupChatMessage {
-  type: 'groupMessage';
-  fromUserId: number;
-  groupId: number;
-  content: string;
+function protocolError(replyTo: string | null, code: ProtocolErrorCode, message: string): ErrorFrame {
+  return { type: 'error', replyTo, code, message };
 }
 
-interface TypingStatus {
-  type: 'typing';
-  fromUserId: number;
-  toUserId: number;
-  isTyping: boolean;
+// A resent frame gets back the message its clientId first stored. It only
+// counts as the same message if it went to the same place; otherwise the
+// client reused the clientId and the old message mustn't go anywhere new.
+function isSameDestination(message: Message, toUserId: number | null, groupId: number | null): boolean {
+  return message.toUserId === toUserId && message.groupId === groupId;
+}
+
+const REUSED_CLIENT_ID = 'This clientId was already used for a message to someone else';
+
+// Validates a raw frame against the protocol, or describes what's wrong with it
+function parseFrame(data: string): ClientFrame | ErrorFrame {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch {
+    return protocolError(null, 'invalid-frame', 'Frames must be JSON');
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return protocolError(null, 'invalid-frame', 'Frames must be JSON objects');
+  }
+
+  const replyTo = 'id' in raw && typeof raw.id === 'string' ? raw.id : null;
+  if (!('v' in raw) || raw.v !== PROTOCOL_VERSION) {
+    return protocolError(replyTo, 'unsupported-version', `Expected protocol version ${PROTOCOL_VERSION}`);
+  }
+
+  const parsed = clientFrameSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.errors[0];
+    const code = issue?.path[0] === 'payload' ? 'invalid-payload' : 'invalid-frame';
+    return protocolError(replyTo, code, issue?.message ?? 'Invalid frame');
+  }
+  return parsed.data;
 }
 
-interface GroupTypingStatus {
-  type: 'groupTyping';
-  fromUserId: number;
-  groupId: number;
-  isTyping: boolean;
+/**
+ * Loads the Express session for an upgrade request using the same cookie
+ * and store as the HTTP app, and resolves to the logged-in user's ID. Sessions
+ * of deleted users, or from before a password change, don't count.
+ */
+async function authenticateUpgrade(req: IncomingMessage): Promise<number | undefined> {
+  const request = req as Request;
+  const loaded = await new Promise<boolean>((resolve) => {
+    sessionMiddleware(request, {} as Response, (err?: unknown) => {
+      if (err) {
+        console.error('WebSocket session error:', err);
+        return resolve(false);
+      }
+      resolve(true);
+    });
+  });
+
+  const userId = loaded ? request.session?.passport?.user : undefined;
+  if (!userId) return undefined;
+  try {
+    const user = await storage.getUser(userId);
+    return user && isSessionCurrent(request.session, user) ? user.id : undefined;
+  } catch (err) {
+    console.error('WebSocket session error:', err);
+    return undefined;
+  }
 }
 
-type WSMessage = DirectChatMessage | GroupChatMessage | TypingStatus | GroupTypingStatus;
+// How often connections are pinged; one that hasn't answered the previous
+// ping by the next one is assumed dead and terminated
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// Refuse an upgrade before the WebSocket handshake completes
+function rejectUpgrade(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
 
 export function setupWebSocket(server: Server) {
-  const wss = new WebSocketServer({ server, path: '/ws' });
-  const clients = new Map<number, WebSocket>();
+  const wss = new WebSocketServer({ noServer: true });
 
-  wss.on('connection', (ws) => {
-    let userId: number | undefined;
+  // Connections that have answered the latest ping
+  const alive = new WeakSet<WebSocket>();
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach(ws => {
+      // Terminating fires 'close', which does the usual cleanup
+      if (!alive.has(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.delete(ws);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  wss.on('close', () => clearInterval(heartbeat));
+
+  server.on('upgrade', async (req, socket, head) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    // Other upgrade requests (e.g. Vite HMR in development) are handled elsewhere
+    if (pathname !== '/ws') return;
+
+    const userId = await authenticateUpgrade(req);
+    if (!userId) {
+      return rejectUpgrade(socket, '401 Unauthorized');
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      wss.emit('connection', ws, req, userId);
+    });
+  });
+
+  wss.on('connection', (ws: WebSocket, _req: IncomingMessage, userId: number) => {
+    // Register the connection under the authenticated user
+    registerClient(userId, ws);
+    alive.add(ws);
+    ws.on('pong', () => alive.add(ws));
+    connectPresence(userId, ws).catch(err => console.error('Presence error:', err));
 
     ws.on('message', async (data) => {
-      try {
-        const message: WSMessage = JSON.parse(data.toString());
-        
-        // Store the user connection
-        if (message.fromUserId) {
-          userId = message.fromUserId;
-          clients.set(message.fromUserId, ws);
-        }
+      // Frames still arriving after the server started closing the socket,
+      // e.g. because the account was deleted, are dropped
+      if (ws.readyState !== WebSocket.OPEN) return;
+
+      const frame = parseFrame(data.toString());
+      if (frame.type === 'error') {
+        sendFrame(ws, frame);
+        return;
+      }
 
+      const fromUserId = userId;
+      const ack = (reply: Omit<AckFrame, 'type' | 'replyTo'> = {}) =>
+        sendFrame(ws, { type: 'ack', replyTo: frame.id, ...reply });
+      const fail = (code: ProtocolErrorCode, message: string) =>
+        sendFrame(ws, protocolError(frame.id, code, message));
+
+      try {
         // Handle direct message
-        if (message.type === 'message') {
-          const { fromUserId, toUserId, content } = message;
+        if (frame.type === 'message') {
+          const { toUserId, clientId } = frame;
+          
+          // Blocks and the recipient's privacy settings decide who may DM them
+          if (!await canSendDirectMessage(fromUserId, toUserId)) {
+            return fail('forbidden', "This user isn't accepting messages from you");
+          }
+          
+          const stored = await toStoredPayload(frame.payload);
+          if (typeof stored === 'string') {
+            return fail('invalid-payload', stored);
+          }
 
           // Create and store the message
           const newMessage = await storage.createMessage({
             fromUserId,
             toUserId,
             groupId: null,
-            content,
             timestamp: new Date(),
             isRead: false,
             readAt: null,
-            type: 'text'
+            clientId,
+            ...stored
           });
-
-          // Send to recipient if online
-          const recipientWs = clients.get(toUserId);
-          if (recipientWs?.readyState === WebSocket.OPEN) {
-            recipientWs.send(JSON.stringify(newMessage));
+          if (!isSameDestination(newMessage, toUserId, null)) {
+            return fail('invalid-frame', REUSED_CLIENT_ID);
           }
 
-          // Send confirmation back to sender
-          ws.send(JSON.stringify(newMessage));
+          // Ack before fanning out, so the sending tab can match the stored
+          // message to what it sent before the event arrives
+          ack({ message: newMessage });
+
+          // Send to the recipient if online, and to every one of the
+          // sender's connections
+          sendToUsers(Array.from(new Set([toUserId, fromUserId])), { type: 'message', message: newMessage });
         } 
         // Handle group message
-        else if (message.type === 'groupMessage') {
-          const { fromUserId, groupId, content } = message;
+        else if (frame.type === 'groupMessage') {
+          const { groupId, clientId } = frame;
           
           // Verify user is a member of the group
           const isMember = await storage.isGroupMember(groupId, fromUserId);
           if (!isMember) {
-            ws.send(JSON.stringify({ 
-              type: 'error', 
-              message: 'You are not a member of this group' 
-            }));
-            return;
+            return fail('forbidden', 'You are not a member of this group');
+          }
+          
+          const stored = await toStoredPayload(frame.payload);
+          if (typeof stored === 'string') {
+            return fail('invalid-payload', stored);
           }
           
           // Create and store the message
@@ -94,85 +231,102 @@ export function setupWebSocket(server: Server) {
             fromUserId,
             toUserId: null,
             groupId,
-            content,
             timestamp: new Date(),
             isRead: false,
             readAt: null,
-            type: 'text'
+            clientId,
+            ...stored
           });
-          
-          // Get all group members
-          const groupMembers = await storage.getGroupMembers(groupId);
-          
-          // Send to all online group members except the sender
-          for (const member of groupMembers) {
-            if (member.id !== fromUserId) {
-              const memberWs = clients.get(member.id);
-              if (memberWs?.readyState === WebSocket.OPEN) {
-                memberWs.send(JSON.stringify({
-                  ...newMessage,
-                  type: 'groupMessage'
-                }));
-              }
-            }
+          if (!isSameDestination(newMessage, null, groupId)) {
+            return fail('invalid-frame', REUSED_CLIENT_ID);
           }
           
-          // Send confirmation back to sender
-          ws.send(JSON.stringify({
-            ...newMessage,
-            type: 'groupMessage'
-          }));
+          ack({ message: newMessage });
+
+          // Send to all online group members, the sender included
+          const groupMembers = await storage.getGroupMembers(groupId);
+          sendToUsers(groupMembers.map(member => member.id), { type: 'groupMessage', message: newMessage });
         }
         // Handle direct typing status
-        else if (message.type === 'typing') {
-          const { fromUserId, toUserId, isTyping } = message;
+        else if (frame.type === 'typing') {
+          const { toUserId, isTyping } = frame;
           
-          // Forward typing status to recipient if online
-          const recipientWs = clients.get(toUserId);
-          if (recipientWs?.readyState === WebSocket.OPEN) {
-            recipientWs.send(JSON.stringify({
+          // Forward typing status to recipient if online and they'd accept
+          // the message being typed
+          if (await canSendDirectMessage(fromUserId, toUserId)) {
+            sendToUser(toUserId, {
               type: 'typing',
               fromUserId,
               toUserId,
               isTyping
-            }));
+            });
           }
+          ack();
         }
         // Handle group typing status
-        else if (message.type === 'groupTyping') {
-          const { fromUserId, groupId, isTyping } = message;
+        else if (frame.type === 'groupTyping') {
+          const { groupId, isTyping } = frame;
           
           // Verify user is a member of the group
           const isMember = await storage.isGroupMember(groupId, fromUserId);
-          if (!isMember) return;
+          if (!isMember) {
+            return fail('forbidden', 'You are not a member of this group');
+          }
           
           // Get all group members
           const groupMembers = await storage.getGroupMembers(groupId);
           
           // Forward typing status to all online group members except the sender
-          for (const member of groupMembers) {
-            if (member.id !== fromUserId) {
-              const memberWs = clients.get(member.id);
-              if (memberWs?.readyState === WebSocket.OPEN) {
-                memberWs.send(JSON.stringify({
-                  type: 'groupTyping',
-                  fromUserId,
-                  groupId,
-                  isTyping
-                }));
-              }
+          sendToUsers(
+            groupMembers.filter(member => member.id !== fromUserId).map(member => member.id),
+            {
+              type: 'groupTyping',
+              fromUserId,
+              groupId,
+              isTyping
             }
+          );
+          ack();
+        }
+        // Handle direct read receipt
+        else if (frame.type === 'read') {
+          const { senderId, upToId } = frame;
+          await markDirectMessagesRead(fromUserId, senderId, upToId);
+          ack();
+        }
+        // Handle group read receipt
+        else if (frame.type === 'groupRead') {
+          const { groupId, upToId } = frame;
+          // Non-members have no read position, so this is a no-op for them
+          await markGroupMessagesRead(groupId, fromUserId, upToId);
+          ack();
+        }
+        // Handle a tab reporting its presence
+        else if (frame.type === 'presence') {
+          await setConnectionStatus(fromUserId, ws, frame.status);
+          ack();
+        }
+        // Handle a client catching up after being offline
+        else if (frame.type === 'sync') {
+          const { sinceId } = frame;
+
+          if (sinceId === null) {
+            const { messages } = await storage.getMessagesSince(fromUserId, undefined, 1);
+            return ack({ messages: [], latestId: messages[0]?.id ?? 0, hasMore: false });
           }
+
+          const { messages, hasMore } = await storage.getMessagesSince(fromUserId, sinceId, SYNC_PAGE_SIZE);
+          ack({ messages, latestId: messages[messages.length - 1]?.id ?? sinceId, hasMore });
         }
       } catch (err) {
         console.error('WebSocket message error:', err);
+        fail('internal', 'Something went wrong handling this frame');
       }
     });
 
     ws.on('close', () => {
-      if (userId) {
-        clients.delete(userId);
-      }
+      unregisterClient(userId, ws);
+      disconnectPresence(userId, ws).catch(err => console.error('Presence error:', err));
     });
   });
 }
@@ -1,3 +1,5 @@
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
 CREATE TABLE "games" (
 	"id" serial PRIMARY KEY NOT NULL,
 	"name" text NOT NULL,
@@ -12,7 +14,8 @@ CREATE TABLE "group_members" (
 	"id" serial PRIMARY KEY NOT NULL,
 	"groupId" integer NOT NULL,
 	"userId" integer NOT NULL,
-	"joinedAt" timestamp DEFAULT now() NOT NULL
+	"joinedAt" timestamp DEFAULT now() NOT NULL,
+	"lastReadMessageId" integer
 );
 
 CREATE TABLE "group_chats" (
@@ -49,7 +52,26 @@ CREATE TABLE "messages" (
 	"timestamp" timestamp DEFAULT now() NOT NULL,
 	"isRead" boolean DEFAULT false NOT NULL,
 	"readAt" timestamp,
-	"type" text DEFAULT 'text' NOT NULL
+	"type" text DEFAULT 'text' NOT NULL,
+	"payload" json,
+	"editedAt" timestamp,
+	"deletedAt" timestamp,
+	"clientId" text
+);
+
+CREATE TABLE "message_edits" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"messageId" integer NOT NULL,
+	"content" text NOT NULL,
+	"editedAt" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE TABLE "cleared_chats" (
+	"userId" integer NOT NULL,
+	"otherUserId" integer NOT NULL,
+	"clearedUpToId" integer NOT NULL,
+	"clearedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "cleared_chats_userId_otherUserId_pk" PRIMARY KEY("userId","otherUserId")
 );
 
 CREATE TABLE "users" (
@@ -59,12 +81,141 @@ CREATE TABLE "users" (
 	"profilePicture" text,
 	"language" text NOT NULL,
 	"region" text NOT NULL,
-	"gamesPlayed" json NOT NULL,
 	"currentGame" text NOT NULL,
-	"currentGameId" text NOT NULL,
+	"currentGameHandle" text NOT NULL,
 	"lastActive" timestamp DEFAULT now() NOT NULL,
-	"isAdmin" boolean DEFAULT false NOT NULL,
-	CONSTRAINT "users_username_unique" UNIQUE("username")
+	"role" text DEFAULT 'member' NOT NULL,
+	"messagePrivacy" text DEFAULT 'everyone' NOT NULL,
+	"gameIdPrivacy" text DEFAULT 'everyone' NOT NULL,
+	"email" text,
+	"emailVerifiedAt" timestamp,
+	"sessionVersion" integer DEFAULT 0 NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username"),
+	CONSTRAINT "users_email_unique" UNIQUE("email")
+);
+
+CREATE TABLE "friendships" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"requesterId" integer NOT NULL,
+	"addresseeId" integer NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"acceptedAt" timestamp
+);
+
+CREATE TABLE "user_blocks" (
+	"blockerId" integer NOT NULL,
+	"blockedId" integer NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "user_blocks_blockerId_blockedId_pk" PRIMARY KEY("blockerId","blockedId")
+);
+
+CREATE TABLE "lfg_posts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"userId" integer NOT NULL,
+	"gameId" integer NOT NULL,
+	"title" text NOT NULL,
+	"region" text NOT NULL,
+	"language" text NOT NULL,
+	"slots" integer NOT NULL,
+	"skillNote" text,
+	"groupId" integer,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"expiresAt" timestamp NOT NULL,
+	"closedAt" timestamp
+);
+
+CREATE TABLE "lfg_join_requests" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"postId" integer NOT NULL,
+	"userId" integer NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"message" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"respondedAt" timestamp
+);
+
+CREATE TABLE "play_sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"groupId" integer NOT NULL,
+	"createdBy" integer NOT NULL,
+	"gameId" integer NOT NULL,
+	"title" text NOT NULL,
+	"startsAt" timestamp NOT NULL,
+	"timeZone" text NOT NULL,
+	"durationMinutes" integer NOT NULL,
+	"maxParticipants" integer,
+	"reminderSentAt" timestamp,
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE TABLE "play_session_rsvps" (
+	"sessionId" integer NOT NULL,
+	"userId" integer NOT NULL,
+	"response" text NOT NULL,
+	"respondedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "play_session_rsvps_sessionId_userId_pk" PRIMARY KEY("sessionId","userId")
+);
+
+CREATE TABLE "user_games" (
+	"userId" integer NOT NULL,
+	"gameId" integer NOT NULL,
+	"inGameId" text,
+	"platform" text,
+	"rank" text,
+	"roles" json DEFAULT '[]'::json NOT NULL,
+	"hoursPlayed" integer,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "user_games_userId_gameId_pk" PRIMARY KEY("userId","gameId")
+);
+
+CREATE TABLE "unmatched_games_played" (
+	"userId" integer NOT NULL,
+	"name" text NOT NULL,
+	CONSTRAINT "unmatched_games_played_userId_name_pk" PRIMARY KEY("userId","name")
+);
+
+CREATE TABLE "account_tokens" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"userId" integer NOT NULL,
+	"purpose" text NOT NULL,
+	"tokenHash" text NOT NULL,
+	"email" text NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"expiresAt" timestamp NOT NULL,
+	"usedAt" timestamp,
+	CONSTRAINT "account_tokens_tokenHash_unique" UNIQUE("tokenHash")
+);
+
+CREATE TABLE "user_totp" (
+	"userId" integer PRIMARY KEY NOT NULL,
+	"secret" text NOT NULL,
+	"enabledAt" timestamp DEFAULT now() NOT NULL,
+	"lastUsedStep" bigint
+);
+
+CREATE TABLE "recovery_codes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"userId" integer NOT NULL,
+	"codeHash" text NOT NULL,
+	"usedAt" timestamp
+);
+
+CREATE TABLE "auth_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"type" text NOT NULL,
+	"userId" integer,
+	"username" text,
+	"ip" text,
+	"userAgent" text,
+	"createdAt" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE TABLE "presence_connections" (
+	"id" text PRIMARY KEY NOT NULL,
+	"userId" integer NOT NULL,
+	"status" text NOT NULL,
+	"lastSeenAt" timestamp DEFAULT now() NOT NULL
 );
 
 ALTER TABLE "group_members" ADD CONSTRAINT "group_members_groupId_group_chats_id_fk" FOREIGN KEY ("groupId") REFERENCES "public"."group_chats"("id") ON DELETE no action ON UPDATE no action;
@@ -77,3 +228,54 @@ ALTER TABLE "ideas" ADD CONSTRAINT "ideas_user_id_users_id_fk" FOREIGN KEY ("use
 ALTER TABLE "messages" ADD CONSTRAINT "messages_fromUserId_users_id_fk" FOREIGN KEY ("fromUserId") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
 ALTER TABLE "messages" ADD CONSTRAINT "messages_toUserId_users_id_fk" FOREIGN KEY ("toUserId") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
 ALTER TABLE "messages" ADD CONSTRAINT "messages_groupId_group_chats_id_fk" FOREIGN KEY ("groupId") REFERENCES "public"."group_chats"("id") ON DELETE no action ON UPDATE no action;
+CREATE INDEX "messages_group_id_idx" ON "messages" USING btree ("groupId","id");
+CREATE INDEX "messages_conversation_idx" ON "messages" USING btree ("fromUserId","toUserId","id");
+ALTER TABLE "message_edits" ADD CONSTRAINT "message_edits_messageId_messages_id_fk" FOREIGN KEY ("messageId") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "cleared_chats" ADD CONSTRAINT "cleared_chats_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "cleared_chats" ADD CONSTRAINT "cleared_chats_otherUserId_users_id_fk" FOREIGN KEY ("otherUserId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+CREATE INDEX "message_edits_message_id_idx" ON "message_edits" USING btree ("messageId");
+CREATE UNIQUE INDEX "messages_client_id_idx" ON "messages" USING btree ("fromUserId","clientId");
+ALTER TABLE "friendships" ADD CONSTRAINT "friendships_requesterId_users_id_fk" FOREIGN KEY ("requesterId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "friendships" ADD CONSTRAINT "friendships_addresseeId_users_id_fk" FOREIGN KEY ("addresseeId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "user_blocks" ADD CONSTRAINT "user_blocks_blockerId_users_id_fk" FOREIGN KEY ("blockerId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "user_blocks" ADD CONSTRAINT "user_blocks_blockedId_users_id_fk" FOREIGN KEY ("blockedId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+CREATE UNIQUE INDEX "friendships_pair_idx" ON "friendships" USING btree (LEAST("requesterId", "addresseeId"),GREATEST("requesterId", "addresseeId"));
+CREATE INDEX "friendships_addressee_idx" ON "friendships" USING btree ("addresseeId");
+CREATE INDEX "user_blocks_blocked_idx" ON "user_blocks" USING btree ("blockedId");
+CREATE INDEX "users_region_idx" ON "users" USING btree ("region");
+CREATE INDEX "users_language_idx" ON "users" USING btree ("language");
+CREATE INDEX "users_current_game_idx" ON "users" USING btree ("currentGame");
+CREATE INDEX "users_last_active_idx" ON "users" USING btree ("lastActive");
+CREATE INDEX "users_username_trgm_idx" ON "users" USING gin ("username" gin_trgm_ops);
+CREATE INDEX "users_current_game_trgm_idx" ON "users" USING gin ("currentGame" gin_trgm_ops);
+ALTER TABLE "lfg_join_requests" ADD CONSTRAINT "lfg_join_requests_postId_lfg_posts_id_fk" FOREIGN KEY ("postId") REFERENCES "public"."lfg_posts"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "lfg_join_requests" ADD CONSTRAINT "lfg_join_requests_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "lfg_posts" ADD CONSTRAINT "lfg_posts_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "lfg_posts" ADD CONSTRAINT "lfg_posts_gameId_games_id_fk" FOREIGN KEY ("gameId") REFERENCES "public"."games"("id") ON DELETE no action ON UPDATE no action;
+ALTER TABLE "lfg_posts" ADD CONSTRAINT "lfg_posts_groupId_group_chats_id_fk" FOREIGN KEY ("groupId") REFERENCES "public"."group_chats"("id") ON DELETE set null ON UPDATE no action;
+CREATE UNIQUE INDEX "lfg_join_requests_post_user_idx" ON "lfg_join_requests" USING btree ("postId","userId");
+CREATE INDEX "lfg_posts_expires_at_idx" ON "lfg_posts" USING btree ("expiresAt");
+CREATE INDEX "lfg_posts_game_idx" ON "lfg_posts" USING btree ("gameId");
+ALTER TABLE "play_session_rsvps" ADD CONSTRAINT "play_session_rsvps_sessionId_play_sessions_id_fk" FOREIGN KEY ("sessionId") REFERENCES "public"."play_sessions"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "play_session_rsvps" ADD CONSTRAINT "play_session_rsvps_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "play_sessions" ADD CONSTRAINT "play_sessions_groupId_group_chats_id_fk" FOREIGN KEY ("groupId") REFERENCES "public"."group_chats"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "play_sessions" ADD CONSTRAINT "play_sessions_createdBy_users_id_fk" FOREIGN KEY ("createdBy") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "play_sessions" ADD CONSTRAINT "play_sessions_gameId_games_id_fk" FOREIGN KEY ("gameId") REFERENCES "public"."games"("id") ON DELETE no action ON UPDATE no action;
+CREATE INDEX "play_sessions_group_starts_at_idx" ON "play_sessions" USING btree ("groupId","startsAt");
+CREATE INDEX "play_sessions_starts_at_idx" ON "play_sessions" USING btree ("startsAt");
+ALTER TABLE "user_games" ADD CONSTRAINT "user_games_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "user_games" ADD CONSTRAINT "user_games_gameId_games_id_fk" FOREIGN KEY ("gameId") REFERENCES "public"."games"("id") ON DELETE cascade ON UPDATE no action;
+CREATE INDEX "user_games_game_idx" ON "user_games" USING btree ("gameId");
+ALTER TABLE "unmatched_games_played" ADD CONSTRAINT "unmatched_games_played_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "account_tokens" ADD CONSTRAINT "account_tokens_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+CREATE INDEX "account_tokens_user_idx" ON "account_tokens" USING btree ("userId");
+ALTER TABLE "user_totp" ADD CONSTRAINT "user_totp_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+ALTER TABLE "recovery_codes" ADD CONSTRAINT "recovery_codes_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+CREATE INDEX "recovery_codes_user_idx" ON "recovery_codes" USING btree ("userId");
+ALTER TABLE "auth_events" ADD CONSTRAINT "auth_events_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+CREATE INDEX "auth_events_username_idx" ON "auth_events" USING btree ("username","createdAt");
+CREATE INDEX "auth_events_ip_idx" ON "auth_events" USING btree ("ip","createdAt");
+CREATE INDEX "auth_events_created_idx" ON "auth_events" USING btree ("createdAt");
+ALTER TABLE "presence_connections" ADD CONSTRAINT "presence_connections_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+CREATE INDEX "presence_connections_user_idx" ON "presence_connections" USING btree ("userId");
+CREATE INDEX "presence_connections_last_seen_idx" ON "presence_connections" USING btree ("lastSeenAt");
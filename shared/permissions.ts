@@ -0,0 +1,48 @@
+// Roles and the named permissions each one grants. Shared so the server can
+// enforce them and the client can decide what to show.
+
+export const PERMISSIONS = [
+  "admin:access",    // open the admin dashboard and its statistics
+  "games:write",     // add and delete games
+  "ideas:moderate",  // delete ideas and see publisher contact details
+  "users:delete",    // remove user accounts
+  "users:reset-2fa", // turn off two-factor login for a user locked out of it
+  "auth:audit",      // see the login audit log and unlock throttled logins
+  "roles:assign",    // change other users' roles
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLES = ["admin", "moderator", "game-publisher", "member"] as const;
+
+export type Role = typeof ROLES[number];
+
+export const DEFAULT_ROLE: Role = "member";
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  moderator: ["ideas:moderate"],
+  "game-publisher": ["games:write"],
+  member: [],
+};
+
+// Human-readable labels for role pickers
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: "Admin",
+  moderator: "Moderator",
+  "game-publisher": "Game Publisher",
+  member: "Member",
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+// Unknown roles (e.g. from a stale client cache) get no permissions
+export function getRolePermissions(role: string | null | undefined): Permission[] {
+  return isRole(role) ? [...ROLE_PERMISSIONS[role]] : [];
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return getRolePermissions(role).includes(permission);
+}
@@ -0,0 +1,40 @@
+// Presence statuses, shared so the server can aggregate them and the client
+// can show them.
+
+export const PRESENCE_STATUSES = ["online", "idle", "in-game", "offline"] as const;
+
+export type PresenceStatus = typeof PRESENCE_STATUSES[number];
+
+// What a single open tab can report about itself; "offline" is only ever
+// derived from the user having no connections at all
+export type ConnectionStatus = Exclude<PresenceStatus, "offline">;
+
+export const CONNECTION_STATUSES = ["online", "idle", "in-game"] as const satisfies readonly ConnectionStatus[];
+
+// Minutes without input before a tab reports itself idle
+export const IDLE_AFTER_MINUTES = 5;
+
+export interface Presence {
+  userId: number;
+  status: PresenceStatus;
+  // When the user was last connected; null while they still are
+  lastActive: Date | string | null;
+}
+
+// Human-readable labels for status indicators
+export const PRESENCE_LABELS: Record<PresenceStatus, string> = {
+  online: "Online",
+  idle: "Idle",
+  "in-game": "In game",
+  offline: "Offline",
+};
+
+// A user with several tabs open is as present as their most present tab
+export function aggregatePresence(statuses: readonly ConnectionStatus[]): PresenceStatus {
+  let result: PresenceStatus = "offline";
+  for (const status of statuses) {
+    if (status === "in-game") return "in-game";
+    if (status === "online" || result === "offline") result = status;
+  }
+  return result;
+}
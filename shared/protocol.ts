@@ -0,0 +1,201 @@
+import { z } from "zod";
+import { outgoingMessagePayloadSchema, type Message, type PlaySessionListing } from "./schema";
+import { CONNECTION_STATUSES, type Presence } from "./presence";
+
+/**
+ * The `/ws` protocol. Every frame is a JSON object carrying the protocol
+ * version `v`. Client frames also carry an `id`; the server answers each one
+ * with an `ack` or an `error` frame whose `replyTo` is that ID. Everything
+ * else the server sends is an event.
+ */
+
+// Bumped whenever a frame changes in a way older clients can't handle
+export const PROTOCOL_VERSION = 2;
+
+// Most messages returned for a single `sync` frame
+export const SYNC_PAGE_SIZE = 200;
+
+const frameId = z.string().min(1).max(64);
+const id = z.number().int().positive();
+// Generated by the client for each message it sends, and kept across resends
+const clientId = z.string().min(1).max(64);
+
+const envelope = {
+  v: z.literal(PROTOCOL_VERSION),
+  id: frameId,
+};
+
+// Client frames. The sender is never part of them: it is always the user
+// bound to the socket during the handshake.
+export const clientFrameSchema = z.discriminatedUnion("type", [
+  z.object({
+    ...envelope,
+    type: z.literal("message"),
+    toUserId: id,
+    clientId,
+    payload: outgoingMessagePayloadSchema,
+  }),
+  z.object({
+    ...envelope,
+    type: z.literal("groupMessage"),
+    groupId: id,
+    clientId,
+    payload: outgoingMessagePayloadSchema,
+  }),
+  z.object({
+    ...envelope,
+    type: z.literal("typing"),
+    toUserId: id,
+    isTyping: z.boolean(),
+  }),
+  z.object({
+    ...envelope,
+    type: z.literal("groupTyping"),
+    groupId: id,
+    isTyping: z.boolean(),
+  }),
+  // Marks messages from senderId to the socket's user as read, up to upToId
+  z.object({
+    ...envelope,
+    type: z.literal("read"),
+    senderId: id,
+    upToId: id,
+  }),
+  // Moves the socket user's read position in a group forward to upToId
+  z.object({
+    ...envelope,
+    type: z.literal("groupRead"),
+    groupId: id,
+    upToId: id,
+  }),
+  // Reports this tab's status: online, idle or in-game
+  z.object({
+    ...envelope,
+    type: z.literal("presence"),
+    status: z.enum(CONNECTION_STATUSES),
+  }),
+  // Asks for the messages that arrived after sinceId, e.g. while offline.
+  // Without sinceId only the latest ID is returned, to sync from later.
+  z.object({
+    ...envelope,
+    type: z.literal("sync"),
+    sinceId: id.nullable(),
+  }),
+]);
+
+export type ClientFrame = z.infer<typeof clientFrameSchema>;
+
+// A client frame before the envelope is added
+type WithoutEnvelope<F> = F extends unknown ? Omit<F, "v" | "id"> : never;
+export type ClientFrameBody = WithoutEnvelope<ClientFrame>;
+
+// Server events
+
+export interface NewMessageEvent {
+  type: "message";
+  message: Message;
+}
+
+export interface NewGroupMessageEvent {
+  type: "groupMessage";
+  message: Message;
+}
+
+export interface TypingEvent {
+  type: "typing";
+  fromUserId: number;
+  toUserId: number;
+  isTyping: boolean;
+}
+
+export interface GroupTypingEvent {
+  type: "groupTyping";
+  fromUserId: number;
+  groupId: number;
+  isTyping: boolean;
+}
+
+export interface ReadReceiptEvent {
+  type: "read";
+  readerId: number;
+  senderId: number;
+  upToId: number;
+  readAt: Date | string;
+}
+
+export interface GroupReadReceiptEvent {
+  type: "groupRead";
+  groupId: number;
+  userId: number;
+  upToId: number;
+}
+
+// A message was edited or deleted; `message` is its new state
+export interface MessageUpdatedEvent {
+  type: "messageUpdated";
+  message: Message;
+}
+
+// Someone's overall presence changed
+export interface PresenceEvent extends Presence {
+  type: "presence";
+}
+
+// An LFG post was created, closed or had its join requests change. Clients
+// refetch the listings; what each user may see is up to the server.
+export interface LfgUpdatedEvent {
+  type: "lfgUpdated";
+  postId: number;
+}
+
+// A play session the user hasn't declined starts soon
+export interface PlaySessionReminderEvent {
+  type: "playSessionReminder";
+  session: PlaySessionListing;
+}
+
+export type ServerEvent =
+  | NewMessageEvent
+  | NewGroupMessageEvent
+  | TypingEvent
+  | GroupTypingEvent
+  | ReadReceiptEvent
+  | GroupReadReceiptEvent
+  | MessageUpdatedEvent
+  | PresenceEvent
+  | LfgUpdatedEvent
+  | PlaySessionReminderEvent;
+
+// Replies to client frames
+
+// Sent messages are acked with the message as stored. A `sync` is acked with
+// up to SYNC_PAGE_SIZE messages, oldest first, and the ID to sync from next.
+export interface AckFrame {
+  type: "ack";
+  replyTo: string;
+  message?: Message;
+  messages?: Message[];
+  latestId?: number;
+  hasMore?: boolean;
+}
+
+export const PROTOCOL_ERROR_CODES = [
+  "invalid-frame",
+  "unsupported-version",
+  "invalid-payload",
+  "forbidden",
+  "internal",
+] as const;
+export type ProtocolErrorCode = typeof PROTOCOL_ERROR_CODES[number];
+
+// `replyTo` is null when the frame was too malformed to have a usable ID
+export interface ErrorFrame {
+  type: "error";
+  replyTo: string | null;
+  code: ProtocolErrorCode;
+  message: string;
+}
+
+export type ServerFrameBody = ServerEvent | AckFrame | ErrorFrame;
+
+export type ServerFrame = ServerFrameBody & { v: number };
@@ -0,0 +1,45 @@
+import type { Player } from "./schema";
+
+// Why a player was suggested as a teammate, shared so the server can explain
+// its scores and the client can show the explanation.
+
+export type MatchReason =
+  | { type: "current-game"; game: string }
+  | { type: "shared-games"; games: string[] }
+  | { type: "language"; language: string }
+  | { type: "region"; region: string }
+  | { type: "online" }
+  | { type: "recently-active" };
+
+export interface RecommendedPlayer {
+  player: Player;
+  score: number;
+  // Strongest reason first
+  reasons: MatchReason[];
+}
+
+export const RECOMMENDATION_DEFAULT_LIMIT = 10;
+export const RECOMMENDATION_MAX_LIMIT = 20;
+
+// Shared games listed by name before the rest are summarised as "+N more"
+const LISTED_GAMES = 2;
+
+export function describeMatchReason(reason: MatchReason): string {
+  switch (reason.type) {
+    case "current-game":
+      return `Also playing ${reason.game}`;
+    case "shared-games": {
+      const listed = reason.games.slice(0, LISTED_GAMES).join(", ");
+      const more = reason.games.length - LISTED_GAMES;
+      return `Both play ${listed}${more > 0 ? ` +${more} more` : ""}`;
+    }
+    case "language":
+      return `Speaks ${reason.language}`;
+    case "region":
+      return `Also in ${reason.region}`;
+    case "online":
+      return "Online now";
+    case "recently-active":
+      return "Active recently";
+  }
+}
@@ -0,0 +1,93 @@
+// The regions players can pick, each with the IANA time zone used to show
+// their local time. Mostly countries; the largest ones are split by time zone.
+// `name` is what's stored in users.region.
+
+export interface Region {
+  name: string;
+  // ISO 3166-1 alpha-2
+  countryCode: string;
+  timeZone: string;
+}
+
+export const REGIONS: readonly Region[] = [
+  { name: "Argentina", countryCode: "AR", timeZone: "America/Argentina/Buenos_Aires" },
+  { name: "Australia (Eastern)", countryCode: "AU", timeZone: "Australia/Sydney" },
+  { name: "Australia (Central)", countryCode: "AU", timeZone: "Australia/Adelaide" },
+  { name: "Australia (Western)", countryCode: "AU", timeZone: "Australia/Perth" },
+  { name: "Austria", countryCode: "AT", timeZone: "Europe/Vienna" },
+  { name: "Bangladesh", countryCode: "BD", timeZone: "Asia/Dhaka" },
+  { name: "Belgium", countryCode: "BE", timeZone: "Europe/Brussels" },
+  { name: "Brazil", countryCode: "BR", timeZone: "America/Sao_Paulo" },
+  { name: "Bulgaria", countryCode: "BG", timeZone: "Europe/Sofia" },
+  { name: "Canada (Eastern)", countryCode: "CA", timeZone: "America/Toronto" },
+  { name: "Canada (Central)", countryCode: "CA", timeZone: "America/Winnipeg" },
+  { name: "Canada (Mountain)", countryCode: "CA", timeZone: "America/Edmonton" },
+  { name: "Canada (Pacific)", countryCode: "CA", timeZone: "America/Vancouver" },
+  { name: "Chile", countryCode: "CL", timeZone: "America/Santiago" },
+  { name: "China", countryCode: "CN", timeZone: "Asia/Shanghai" },
+  { name: "Colombia", countryCode: "CO", timeZone: "America/Bogota" },
+  { name: "Croatia", countryCode: "HR", timeZone: "Europe/Zagreb" },
+  { name: "Czechia", countryCode: "CZ", timeZone: "Europe/Prague" },
+  { name: "Denmark", countryCode: "DK", timeZone: "Europe/Copenhagen" },
+  { name: "Egypt", countryCode: "EG", timeZone: "Africa/Cairo" },
+  { name: "Finland", countryCode: "FI", timeZone: "Europe/Helsinki" },
+  { name: "France", countryCode: "FR", timeZone: "Europe/Paris" },
+  { name: "Germany", countryCode: "DE", timeZone: "Europe/Berlin" },
+  { name: "Greece", countryCode: "GR", timeZone: "Europe/Athens" },
+  { name: "Hong Kong", countryCode: "HK", timeZone: "Asia/Hong_Kong" },
+  { name: "Hungary", countryCode: "HU", timeZone: "Europe/Budapest" },
+  { name: "India", countryCode: "IN", timeZone: "Asia/Kolkata" },
+  { name: "Indonesia", countryCode: "ID", timeZone: "Asia/Jakarta" },
+  { name: "Iran", countryCode: "IR", timeZone: "Asia/Tehran" },
+  { name: "Ireland", countryCode: "IE", timeZone: "Europe/Dublin" },
+  { name: "Israel", countryCode: "IL", timeZone: "Asia/Jerusalem" },
+  { name: "Italy", countryCode: "IT", timeZone: "Europe/Rome" },
+  { name: "Japan", countryCode: "JP", timeZone: "Asia/Tokyo" },
+  { name: "Kazakhstan", countryCode: "KZ", timeZone: "Asia/Almaty" },
+  { name: "Kenya", countryCode: "KE", timeZone: "Africa/Nairobi" },
+  { name: "Malaysia", countryCode: "MY", timeZone: "Asia/Kuala_Lumpur" },
+  { name: "Mexico", countryCode: "MX", timeZone: "America/Mexico_City" },
+  { name: "Morocco", countryCode: "MA", timeZone: "Africa/Casablanca" },
+  { name: "Nepal", countryCode: "NP", timeZone: "Asia/Kathmandu" },
+  { name: "Netherlands", countryCode: "NL", timeZone: "Europe/Amsterdam" },
+  { name: "New Zealand", countryCode: "NZ", timeZone: "Pacific/Auckland" },
+  { name: "Nigeria", countryCode: "NG", timeZone: "Africa/Lagos" },
+  { name: "Norway", countryCode: "NO", timeZone: "Europe/Oslo" },
+  { name: "Pakistan", countryCode: "PK", timeZone: "Asia/Karachi" },
+  { name: "Peru", countryCode: "PE", timeZone: "America/Lima" },
+  { name: "Philippines", countryCode: "PH", timeZone: "Asia/Manila" },
+  { name: "Poland", countryCode: "PL", timeZone: "Europe/Warsaw" },
+  { name: "Portugal", countryCode: "PT", timeZone: "Europe/Lisbon" },
+  { name: "Romania", countryCode: "RO", timeZone: "Europe/Bucharest" },
+  { name: "Russia (Moscow)", countryCode: "RU", timeZone: "Europe/Moscow" },
+  { name: "Saudi Arabia", countryCode: "SA", timeZone: "Asia/Riyadh" },
+  { name: "Serbia", countryCode: "RS", timeZone: "Europe/Belgrade" },
+  { name: "Singapore", countryCode: "SG", timeZone: "Asia/Singapore" },
+  { name: "South Africa", countryCode: "ZA", timeZone: "Africa/Johannesburg" },
+  { name: "South Korea", countryCode: "KR", timeZone: "Asia/Seoul" },
+  { name: "Spain", countryCode: "ES", timeZone: "Europe/Madrid" },
+  { name: "Sri Lanka", countryCode: "LK", timeZone: "Asia/Colombo" },
+  { name: "Sweden", countryCode: "SE", timeZone: "Europe/Stockholm" },
+  { name: "Switzerland", countryCode: "CH", timeZone: "Europe/Zurich" },
+  { name: "Taiwan", countryCode: "TW", timeZone: "Asia/Taipei" },
+  { name: "Thailand", countryCode: "TH", timeZone: "Asia/Bangkok" },
+  { name: "Turkey", countryCode: "TR", timeZone: "Europe/Istanbul" },
+  { name: "Ukraine", countryCode: "UA", timeZone: "Europe/Kyiv" },
+  { name: "United Arab Emirates", countryCode: "AE", timeZone: "Asia/Dubai" },
+  { name: "United Kingdom", countryCode: "GB", timeZone: "Europe/London" },
+  { name: "United States (Eastern)", countryCode: "US", timeZone: "America/New_York" },
+  { name: "United States (Central)", countryCode: "US", timeZone: "America/Chicago" },
+  { name: "United States (Mountain)", countryCode: "US", timeZone: "America/Denver" },
+  { name: "United States (Pacific)", countryCode: "US", timeZone: "America/Los_Angeles" },
+  { name: "Vietnam", countryCode: "VN", timeZone: "Asia/Ho_Chi_Minh" },
+];
+
+export const REGION_NAMES = REGIONS.map(region => region.name);
+
+export function isRegion(value: string): boolean {
+  return REGIONS.some(region => region.name === value);
+}
+
+export function getRegion(name: string): Region | undefined {
+  return REGIONS.find(region => region.name === name);
+}
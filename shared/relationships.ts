@@ -0,0 +1,36 @@
+// Friendships, blocks and privacy settings, shared so the server can enforce
+// them and the client can show them.
+
+// Who a privacy setting lets through
+export const PRIVACY_LEVELS = ["everyone", "friends", "nobody"] as const;
+
+export type PrivacyLevel = typeof PRIVACY_LEVELS[number];
+
+export const DEFAULT_PRIVACY_LEVEL: PrivacyLevel = "everyone";
+
+// Human-readable labels for privacy pickers
+export const PRIVACY_LABELS: Record<PrivacyLevel, string> = {
+  everyone: "Everyone",
+  friends: "Friends only",
+  nobody: "Nobody",
+};
+
+// A friend request is pending until the addressee accepts it; declining
+// deletes it
+export const FRIENDSHIP_STATUSES = ["pending", "accepted"] as const;
+
+export type FriendshipStatus = typeof FRIENDSHIP_STATUSES[number];
+
+// How the session user stands with someone else. Users who have blocked the
+// session user are hidden from them entirely, so that has no value here.
+export type Relationship = "none" | "friends" | "request-sent" | "request-received" | "blocked";
+
+export function isPrivacyLevel(value: unknown): value is PrivacyLevel {
+  return typeof value === "string" && (PRIVACY_LEVELS as readonly string[]).includes(value);
+}
+
+// Whether a setting lets a given viewer through
+export function privacyAllows(level: string, isFriend: boolean): boolean {
+  if (level === "friends") return isFriend;
+  return level !== "nobody";
+}
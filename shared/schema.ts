@@ -1,7 +1,9 @@
-import { pgTable, text, serial, integer, json, timestamp, boolean, bigint } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, json, timestamp, boolean, bigint, index, uniqueIndex, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
+import { PRIVACY_LEVELS } from "./relationships";
+import { isRegion } from "./regions";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -10,12 +12,34 @@ export const users = pgTable("users", {
   profilePicture: text("profilePicture"),
   language: text("language").notNull(),
   region: text("region").notNull(),
-  gamesPlayed: json("gamesPlayed").$type<string[]>().notNull(),
+  // The games a user plays are in user_games
   currentGame: text("currentGame").notNull(),
-  currentGameId: text("currentGameId").notNull(),
+  // The player's handle in currentGame, e.g. a Riot ID
+  currentGameHandle: text("currentGameHandle").notNull(),
   lastActive: timestamp("lastActive").notNull().defaultNow(),
-  isAdmin: boolean("isAdmin").notNull().default(false),
-});
+  // One of ROLES in ./permissions; decides which permissions the user has
+  role: text("role").notNull().default("member"),
+  // PRIVACY_LEVELS in ./relationships: who may send this user direct
+  // messages, and who may see their currentGameHandle
+  messagePrivacy: text("messagePrivacy").notNull().default("everyone"),
+  gameIdPrivacy: text("gameIdPrivacy").notNull().default("everyone"),
+  // Optional, stored lower-cased. Password reset emails only go to a
+  // verified address.
+  email: text("email").unique(),
+  emailVerifiedAt: timestamp("emailVerifiedAt"),
+  // Bumped when the password is changed or reset. Sessions logged in with an
+  // older version are logged out (see server/session.ts).
+  sessionVersion: integer("sessionVersion").notNull().default(0),
+}, (table) => [
+  // Player search filters and sorts (see playerSearchQuerySchema)
+  index("users_region_idx").on(table.region),
+  index("users_language_idx").on(table.language),
+  index("users_current_game_idx").on(table.currentGame),
+  index("users_last_active_idx").on(table.lastActive),
+  // Substring search; needs the pg_trgm extension
+  index("users_username_trgm_idx").using("gin", table.username.op("gin_trgm_ops")),
+  index("users_current_game_trgm_idx").using("gin", table.currentGame.op("gin_trgm_ops")),
+]);
 
 // Groups table renamed to match the database schema
 export const groups = pgTable("group_chats", {
@@ -39,6 +63,8 @@ export const groupMembers = pgTable("group_members", {
     .notNull()
     .references(() => users.id),
   joinedAt: timestamp("joinedAt").notNull().defaultNow(),
+  // Newest message in the group this member has read; drives "seen by"
+  lastReadMessageId: integer("lastReadMessageId"),
   // Add a unique constraint to prevent duplicate memberships
   // This will be handled in the database function
 });
@@ -58,21 +84,126 @@ export const messages = pgTable("messages", {
   timestamp: timestamp("timestamp").notNull().defaultNow(),
   isRead: boolean("isRead").notNull().default(false),
   readAt: timestamp("readAt"),
+  // One of MESSAGE_TYPES. Text lives in `content`; every other type keeps its
+  // data in `payload` and leaves `content` empty.
   type: text("type").notNull().default("text"),
-});
+  payload: json("payload").$type<MessagePayload>(),
+  // Set when the author last edited the message; earlier versions are in message_edits
+  editedAt: timestamp("editedAt"),
+  // Soft delete: the row stays so the conversation keeps its shape, but its content is cleared
+  deletedAt: timestamp("deletedAt"),
+  // Generated by the sending client so a resent message is only stored once
+  clientId: text("clientId"),
+}, (table) => [
+  // History is paged by message ID within a conversation or group
+  index("messages_group_id_idx").on(table.groupId, table.id),
+  index("messages_conversation_idx").on(table.fromUserId, table.toUserId, table.id),
+  uniqueIndex("messages_client_id_idx").on(table.fromUserId, table.clientId),
+]);
+
+// Previous versions of edited messages. Each row holds the content a message
+// had before the edit made at `editedAt`.
+export const messageEdits = pgTable("message_edits", {
+  id: serial("id").primaryKey(),
+  messageId: integer("messageId")
+    .notNull()
+    .references(() => messages.id, { onDelete: "cascade" }),
+  content: text("content").notNull(),
+  editedAt: timestamp("editedAt").notNull().defaultNow(),
+}, (table) => [
+  index("message_edits_message_id_idx").on(table.messageId),
+]);
+
+// Direct conversations a user has cleared. Messages up to clearedUpToId are
+// hidden from that user only; the other participant keeps their history.
+export const clearedChats = pgTable("cleared_chats", {
+  userId: integer("userId")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  otherUserId: integer("otherUserId")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  clearedUpToId: integer("clearedUpToId").notNull(),
+  clearedAt: timestamp("clearedAt").notNull().defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.otherUserId] }),
+]);
+
+// Friend requests and friendships between two users. A request is stored
+// once per pair, whichever of them sent it (see FRIENDSHIP_STATUSES in
+// ./relationships).
+export const friendships = pgTable("friendships", {
+  id: serial("id").primaryKey(),
+  requesterId: integer("requesterId")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  addresseeId: integer("addresseeId")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  status: text("status").notNull().default("pending"),
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+  acceptedAt: timestamp("acceptedAt"),
+}, (table) => [
+  uniqueIndex("friendships_pair_idx").on(
+    sql`LEAST(${table.requesterId}, ${table.addresseeId})`,
+    sql`GREATEST(${table.requesterId}, ${table.addresseeId})`
+  ),
+  index("friendships_addressee_idx").on(table.addresseeId),
+]);
+
+// Users a user has blocked. A block works both ways: neither side can message
+// or find the other.
+export const userBlocks = pgTable("user_blocks", {
+  blockerId: integer("blockerId")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  blockedId: integer("blockedId")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.blockerId, table.blockedId] }),
+  index("user_blocks_blocked_idx").on(table.blockedId),
+]);
 
 export const insertUserSchema = createInsertSchema(users, {
   username: z.string().min(1, "Username is required"),
   password: z.string().min(6, "Password must be at least 6 characters"),
   language: z.string().min(1, "Language is required"),
-  region: z.string().min(1, "Region is required"),
+  region: z.string().min(1, "Region is required").refine(isRegion, "Choose a region from the list"),
   currentGame: z.string().min(1, "Current game is required"),
-  currentGameId: z.string().min(1, "Current game ID is required"),
+  currentGameHandle: z.string().min(1, "Current game ID is required"),
 }).omit({ 
   id: true,
-  lastActive: true 
+  lastActive: true,
+  // Roles are only changed through the role assignment endpoint
+  role: true,
+  // Privacy settings have their own endpoint
+  messagePrivacy: true,
+  gameIdPrivacy: true,
+  // Email is set and verified through the account endpoints
+  email: true,
+  emailVerifiedAt: true,
+  sessionVersion: true
 });
 
+// Body for updating a user's profile. Credentials, role, email and privacy
+// settings have their own endpoints, and games are changed through the game
+// profile endpoints.
+export const updateUserSchema = insertUserSchema.pick({
+  profilePicture: true,
+  language: true,
+  region: true,
+  currentGame: true,
+  currentGameHandle: true,
+}).partial();
+
+// Body for updating a user's privacy settings
+export const privacySettingsSchema = z.object({
+  messagePrivacy: z.enum(PRIVACY_LEVELS),
+  gameIdPrivacy: z.enum(PRIVACY_LEVELS),
+}).partial();
+
 // Updated insert schema for groups
 export const insertGroupSchema = createInsertSchema(groups, {
   name: z.string().min(1, "Group name is required"),
@@ -86,7 +217,8 @@ export const insertGroupSchema = createInsertSchema(groups, {
 // Updated insert schema for group members
 export const insertGroupMemberSchema = createInsertSchema(groupMembers).omit({
   id: true,
-  joinedAt: true
+  joinedAt: true,
+  lastReadMessageId: true
 });
 
 // Update message schema to handle group messages
@@ -101,7 +233,11 @@ export const insertMessageSchema = createInsertSchema(messages, {
   timestamp: true,
   isRead: true,
   readAt: true,
-  type: true
+  type: true,
+  payload: true,
+  editedAt: true,
+  deletedAt: true,
+  clientId: true
 }).refine(data => 
   (data.toUserId !== undefined && data.groupId === undefined) || 
   (data.toUserId === undefined && data.groupId !== undefined),
@@ -111,6 +247,122 @@ export const insertMessageSchema = createInsertSchema(messages, {
   }
 );
 
+// Structured message payloads. Clients may send text, images and game
+// invites; system messages (e.g. "X joined the group") are only ever created
+// by the server.
+export const MESSAGE_TYPES = ["text", "image", "game-invite", "system"] as const;
+export type MessageType = typeof MESSAGE_TYPES[number];
+
+export const MESSAGE_MAX_LENGTH = 2000;
+
+export const textPayloadSchema = z.object({
+  type: z.literal("text"),
+  content: z.string().trim().min(1, "Message cannot be empty").max(MESSAGE_MAX_LENGTH),
+});
+
+export const imagePayloadSchema = z.object({
+  type: z.literal("image"),
+  url: z.string().url(),
+});
+
+// An invitation to play a game together; currentGameHandle is the sender's
+// handle in that game
+export const gameInvitePayloadSchema = z.object({
+  type: z.literal("game-invite"),
+  gameId: z.number().int().positive(),
+  gameName: z.string().min(1),
+  currentGameHandle: z.string().trim().min(1, "Game ID is required"),
+});
+
+export const SYSTEM_EVENTS = ["group-created", "member-joined", "member-left", "member-removed", "ownership-transferred"] as const;
+export type SystemEvent = typeof SYSTEM_EVENTS[number];
+
+// `username` is the member the event is about, as they were called at the time
+export const systemPayloadSchema = z.object({
+  type: z.literal("system"),
+  event: z.enum(SYSTEM_EVENTS),
+  userId: z.number().int().positive(),
+  username: z.string(),
+});
+
+export const messagePayloadSchema = z.discriminatedUnion("type", [
+  textPayloadSchema,
+  imagePayloadSchema,
+  gameInvitePayloadSchema,
+  systemPayloadSchema,
+]);
+
+// What a client may send. Game names are filled in by the server from gameId;
+// a client may include one to show while the invite is being sent.
+export const outgoingMessagePayloadSchema = z.discriminatedUnion("type", [
+  textPayloadSchema,
+  imagePayloadSchema,
+  gameInvitePayloadSchema.partial({ gameName: true }),
+]);
+
+// Reads a stored message back as a payload. Invites stored before the
+// handle was renamed have it as currentGameId.
+export function getMessagePayload(message: Pick<Message, "content" | "payload">): MessagePayload {
+  const payload = message.payload;
+  if (!payload) return { type: "text", content: message.content };
+
+  if (payload.type === "game-invite" && !payload.currentGameHandle &&
+      "currentGameId" in payload && typeof payload.currentGameId === "string") {
+    const { currentGameId, ...invite } = payload;
+    return { ...invite, currentGameHandle: currentGameId };
+  }
+  return payload;
+}
+
+// Body for editing a message's content
+export const editMessageSchema = z.object({
+  content: textPayloadSchema.shape.content,
+});
+
+// Query parameters for paging through message history. Cursors are message
+// IDs: `before` walks back into older messages, `after` catches up on newer ones.
+export const MESSAGE_PAGE_DEFAULT_LIMIT = 50;
+export const MESSAGE_PAGE_MAX_LIMIT = 100;
+
+export const messagePageQuerySchema = z.object({
+  before: z.coerce.number().int().positive().optional(),
+  after: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(MESSAGE_PAGE_MAX_LIMIT).default(MESSAGE_PAGE_DEFAULT_LIMIT),
+}).refine(data => data.before === undefined || data.after === undefined, {
+  message: "Use either before or after, not both",
+  path: ["before", "after"]
+});
+
+// Query parameters for searching players. Region and language take
+// comma-separated lists; `q` matches part of a username or current game.
+export const PLAYER_SORTS = ["recent", "game", "username"] as const;
+export type PlayerSort = typeof PLAYER_SORTS[number];
+
+export const PLAYER_PAGE_DEFAULT_LIMIT = 24;
+export const PLAYER_PAGE_MAX_LIMIT = 100;
+
+const commaSeparated = z.string()
+  .transform(value => value.split(",").map(item => item.trim()).filter(Boolean))
+  .optional();
+
+export const playerSearchQuerySchema = z.object({
+  q: z.string().trim().max(100).optional(),
+  region: commaSeparated,
+  language: commaSeparated,
+  currentGame: z.string().trim().min(1).optional(),
+  // A games.id the player has a profile for
+  game: z.coerce.number().int().positive().optional(),
+  online: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+  sort: z.enum(PLAYER_SORTS).default("recent"),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(PLAYER_PAGE_MAX_LIMIT).default(PLAYER_PAGE_DEFAULT_LIMIT),
+});
+
+// Body for marking messages as read, up to and including a message ID
+export const markReadSchema = z.object({
+  upToId: z.number().int().positive(),
+});
+
 // Game table for storing games from Games.json
 export const games = pgTable("games", {
   id: serial("id").primaryKey(),
@@ -200,11 +452,459 @@ export const insertIdeaVoteSchema = createInsertSchema(ideaVotes).omit({
   createdAt: true,
 });
 
+// Looking-for-group posts, e.g. "need 2 for ranked, EU, English". A post is
+// open until it expires, its author closes it or every slot is filled.
+export const lfgPosts = pgTable("lfg_posts", {
+  id: serial("id").primaryKey(),
+  userId: integer("userId")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  gameId: integer("gameId")
+    .notNull()
+    .references(() => games.id),
+  title: text("title").notNull(),
+  region: text("region").notNull(),
+  language: text("language").notNull(),
+  // Players wanted, not counting the author
+  slots: integer("slots").notNull(),
+  skillNote: text("skillNote"),
+  // Created when the first join request is accepted
+  groupId: integer("groupId").references(() => groups.id, { onDelete: "set null" }),
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+  expiresAt: timestamp("expiresAt").notNull(),
+  closedAt: timestamp("closedAt"),
+}, (table) => [
+  index("lfg_posts_expires_at_idx").on(table.expiresAt),
+  index("lfg_posts_game_idx").on(table.gameId),
+]);
+
+export const LFG_REQUEST_STATUSES = ["pending", "accepted", "declined"] as const;
+export type LfgRequestStatus = typeof LFG_REQUEST_STATUSES[number];
+
+// Requests to join an LFG post; one per user and post
+export const lfgJoinRequests = pgTable("lfg_join_requests", {
+  id: serial("id").primaryKey(),
+  postId: integer("postId")
+    .notNull()
+    .references(() => lfgPosts.id, { onDelete: "cascade" }),
+  userId: integer("userId")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  // One of LFG_REQUEST_STATUSES
+  status: text("status").notNull().default("pending"),
+  message: text("message"),
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+  respondedAt: timestamp("respondedAt"),
+}, (table) => [
+  uniqueIndex("lfg_join_requests_post_user_idx").on(table.postId, table.userId),
+]);
+
+export const LFG_MAX_SLOTS = 10;
+// How long a post can stay up, in minutes
+export const LFG_MIN_DURATION = 15;
+export const LFG_MAX_DURATION = 24 * 60;
+
+// Body for creating an LFG post; the author is the session user
+export const insertLfgPostSchema = z.object({
+  gameId: z.number().int().positive(),
+  title: z.string().trim().min(1, "Title is required").max(120),
+  region: z.string().trim().min(1, "Region is required").refine(isRegion, "Choose a region from the list"),
+  language: z.string().trim().min(1, "Language is required"),
+  slots: z.number().int().min(1).max(LFG_MAX_SLOTS),
+  skillNote: z.string().trim().max(200).optional(),
+  durationMinutes: z.number().int().min(LFG_MIN_DURATION).max(LFG_MAX_DURATION),
+});
+
+export const lfgJoinRequestSchema = z.object({
+  message: z.string().trim().max(200).optional(),
+});
+
+// Filters for listing open posts
+export const lfgQuerySchema = z.object({
+  gameId: z.coerce.number().int().positive().optional(),
+  region: z.string().trim().min(1).optional(),
+  language: z.string().trim().min(1).optional(),
+});
+
+// Play sessions scheduled in a group chat. `startsAt` is the instant the
+// session starts; `timeZone` is the IANA zone it was planned in, kept so the
+// time can be shown as the organiser meant it.
+export const playSessions = pgTable("play_sessions", {
+  id: serial("id").primaryKey(),
+  groupId: integer("groupId")
+    .notNull()
+    .references(() => groups.id, { onDelete: "cascade" }),
+  createdBy: integer("createdBy")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  gameId: integer("gameId")
+    .notNull()
+    .references(() => games.id),
+  title: text("title").notNull(),
+  startsAt: timestamp("startsAt").notNull(),
+  timeZone: text("timeZone").notNull(),
+  durationMinutes: integer("durationMinutes").notNull(),
+  // Most players who can say yes; null for no limit
+  maxParticipants: integer("maxParticipants"),
+  // Set once the reminder has gone out, so it's only sent once
+  reminderSentAt: timestamp("reminderSentAt"),
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+}, (table) => [
+  index("play_sessions_group_starts_at_idx").on(table.groupId, table.startsAt),
+  index("play_sessions_starts_at_idx").on(table.startsAt),
+]);
+
+export const RSVP_RESPONSES = ["yes", "maybe", "no"] as const;
+export type RsvpResponse = typeof RSVP_RESPONSES[number];
+
+export const playSessionRsvps = pgTable("play_session_rsvps", {
+  sessionId: integer("sessionId")
+    .notNull()
+    .references(() => playSessions.id, { onDelete: "cascade" }),
+  userId: integer("userId")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  // One of RSVP_RESPONSES
+  response: text("response").notNull(),
+  respondedAt: timestamp("respondedAt").notNull().defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.sessionId, table.userId] }),
+]);
+
+// Reminders go out this long before a session starts
+export const PLAY_SESSION_REMINDER_MINUTES = 15;
+export const PLAY_SESSION_MAX_DURATION = 24 * 60;
+export const PLAY_SESSION_MAX_PARTICIPANTS = 100;
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Body for scheduling a session; the organiser is the session user
+export const insertPlaySessionSchema = z.object({
+  gameId: z.number().int().positive(),
+  title: z.string().trim().min(1, "Title is required").max(120),
+  startsAt: z.coerce.date().refine(date => date > new Date(), "The session must start in the future"),
+  timeZone: z.string().refine(isTimeZone, "Unknown time zone"),
+  durationMinutes: z.number().int().min(15).max(PLAY_SESSION_MAX_DURATION),
+  maxParticipants: z.number().int().min(2).max(PLAY_SESSION_MAX_PARTICIPANTS).nullable().optional(),
+});
+
+export const rsvpSchema = z.object({
+  response: z.enum(RSVP_RESPONSES),
+});
+
+// A user's profile for one game they play: their account there and how they
+// play it
+export const userGames = pgTable("user_games", {
+  userId: integer("userId")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  gameId: integer("gameId")
+    .notNull()
+    .references(() => games.id, { onDelete: "cascade" }),
+  // The player's handle there, e.g. a Riot ID or Steam friend code. Covered
+  // by gameIdPrivacy like currentGameHandle.
+  inGameId: text("inGameId"),
+  // One of GAME_PLATFORMS
+  platform: text("platform"),
+  rank: text("rank"),
+  // Free-form, e.g. "Support" or "Entry fragger"
+  roles: json("roles").$type<string[]>().notNull().default([]),
+  hoursPlayed: integer("hoursPlayed"),
+  updatedAt: timestamp("updatedAt").notNull().defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.gameId] }),
+  index("user_games_game_idx").on(table.gameId),
+]);
+
+// Where a player's account for a game lives
+export const GAME_PLATFORMS = [
+  "PC",
+  "Steam",
+  "Epic Games",
+  "Riot",
+  "Battle.net",
+  "PlayStation",
+  "Xbox",
+  "Nintendo Switch",
+  "Mobile",
+] as const;
+export type GamePlatform = typeof GAME_PLATFORMS[number];
+
+export const USER_GAME_MAX_ROLES = 5;
+
+// Body for adding or updating one of the session user's game profiles.
+// Blank text fields are stored as null.
+export const userGameSchema = z.object({
+  inGameId: z.string().trim().max(100).nullable().optional(),
+  platform: z.enum(GAME_PLATFORMS).nullable().optional(),
+  rank: z.string().trim().max(50).nullable().optional(),
+  roles: z.array(z.string().trim().min(1).max(30))
+    .max(USER_GAME_MAX_ROLES, `List at most ${USER_GAME_MAX_ROLES} roles`)
+    .default([]),
+  hoursPlayed: z.number().int().min(0).max(100000).nullable().optional(),
+});
+
+// Games picked while setting up a profile, by ID. Each becomes an empty game
+// profile.
+export const userGameIdsSchema = z.array(z.number().int().positive()).max(100).default([]);
+
+// Names from the old free-text gamesPlayed list that matched no game when
+// user_games replaced it; see server/check-unmatched-games.ts
+export const unmatchedGamesPlayed = pgTable("unmatched_games_played", {
+  userId: integer("userId")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.name] }),
+]);
+
+// Open `/ws` connections across every server instance, so presence is the
+// same whichever instance a user is connected to. Each instance refreshes
+// `lastSeenAt` on its own rows; rows it stopped refreshing (e.g. it crashed)
+// are stale and swept. See server/presence.ts.
+export const presenceConnections = pgTable("presence_connections", {
+  // Generated by the instance holding the socket
+  id: text("id").primaryKey(),
+  userId: integer("userId")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  // One of CONNECTION_STATUSES
+  status: text("status").notNull(),
+  lastSeenAt: timestamp("lastSeenAt").notNull().defaultNow(),
+}, (table) => [
+  index("presence_connections_user_idx").on(table.userId),
+  index("presence_connections_last_seen_idx").on(table.lastSeenAt),
+]);
+
+export const ACCOUNT_TOKEN_PURPOSES = ["verify-email", "reset-password"] as const;
+export type AccountTokenPurpose = typeof ACCOUNT_TOKEN_PURPOSES[number];
+
+// Single-use links sent by email. Only a hash of each token is kept. `email`
+// is the address the link went to, so a verification link stops counting
+// once the user changes their email.
+export const accountTokens = pgTable("account_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("userId")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  // One of ACCOUNT_TOKEN_PURPOSES
+  purpose: text("purpose").notNull(),
+  tokenHash: text("tokenHash").notNull().unique(),
+  email: text("email").notNull(),
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+  expiresAt: timestamp("expiresAt").notNull(),
+  usedAt: timestamp("usedAt"),
+}, (table) => [
+  index("account_tokens_user_idx").on(table.userId),
+]);
+
+// How long emailed links work, in minutes
+export const EMAIL_VERIFICATION_TTL = 24 * 60;
+export const PASSWORD_RESET_TTL = 60;
+export const PASSWORD_MIN_LENGTH = 6;
+
+const emailSchema = z.string().trim().toLowerCase().email("Enter a valid email address").max(254);
+const newPasswordSchema = z.string().min(PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters`);
+
+// Body for setting the session user's email; null removes it
+export const updateEmailSchema = z.object({
+  email: emailSchema.nullable(),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: newPasswordSchema,
+});
+
+export const passwordResetRequestSchema = z.object({
+  email: emailSchema,
+});
+
+export const passwordResetSchema = z.object({
+  token: z.string().min(1, "Reset link is invalid"),
+  newPassword: newPasswordSchema,
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, "Verification link is invalid"),
+});
+
+// Deleting an account needs the password again
+export const deleteAccountSchema = z.object({
+  password: z.string().min(1, "Password is required"),
+});
+
+// A user's authenticator app, once two-factor login is turned on. Kept out
+// of users so the secret is never sent along with a user.
+export const userTotp = pgTable("user_totp", {
+  userId: integer("userId")
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+  // Base32, as shown to the authenticator app
+  secret: text("secret").notNull(),
+  enabledAt: timestamp("enabledAt").notNull().defaultNow(),
+  // The 30-second step of the last code accepted; older codes are refused
+  lastUsedStep: bigint("lastUsedStep", { mode: "number" }),
+});
+
+// One-time codes for logging in without the authenticator app. Only hashes
+// are kept; the codes are shown once, when generated.
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("userId")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  codeHash: text("codeHash").notNull(),
+  usedAt: timestamp("usedAt"),
+}, (table) => [
+  index("recovery_codes_user_idx").on(table.userId),
+]);
+
+export const RECOVERY_CODE_COUNT = 10;
+
+const totpCodeSchema = z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code from your app");
+
+// Every change to two-factor login needs the password again: setting it
+// up, turning it on or off, and replacing the recovery codes
+export const twoFactorPasswordSchema = z.object({
+  password: z.string().min(1, "Password is required"),
+});
+
+// Body for turning two-factor login on with a code from the new secret
+export const enableTwoFactorSchema = twoFactorPasswordSchema.extend({
+  code: totpCodeSchema,
+});
+
+// The second login step: an authenticator code or one of the recovery codes
+export const twoFactorLoginSchema = z.union([
+  z.object({ code: totpCodeSchema }),
+  z.object({ recoveryCode: z.string().trim().min(1, "Enter a recovery code") }),
+]);
+
+export const AUTH_EVENT_TYPES = [
+  "login-success",
+  "login-failure",           // wrong password, unknown username or bad second-factor code
+  "login-throttled",         // refused before checking, see server/login-throttle.ts
+  "login-attempt",           // a password or code still being checked; becomes its outcome
+  "logout",
+  "password-change",
+  "password-failure",        // wrong current password when changing settings
+  "password-reset-requested",
+  "password-reset",
+  "password-reset-failure",  // invalid or expired reset link
+  "two-factor-enabled",
+  "two-factor-disabled",
+  "account-unlocked",        // an admin cleared a lockout
+  "account-deleted",
+] as const;
+export type AuthEventType = typeof AUTH_EVENT_TYPES[number];
+
+// Events the login throttle counts as failed attempts, and those that clear
+// a username's earlier failures. Attempts still being checked count as
+// failures, so guesses sent at the same time can't all get through.
+export const AUTH_FAILURE_EVENTS: AuthEventType[] = ["login-failure", "password-failure", "password-reset-failure", "login-attempt"];
+export const AUTH_RESET_EVENTS: AuthEventType[] = ["login-success", "password-reset", "account-unlocked"];
+
+// Login and password activity, kept for throttling and the admin audit log.
+// `username` is the one that was tried, so failures for unknown users are
+// kept too; `userId` is cleared if the account is deleted.
+export const authEvents = pgTable("auth_events", {
+  id: serial("id").primaryKey(),
+  // One of AUTH_EVENT_TYPES
+  type: text("type").notNull(),
+  userId: integer("userId").references(() => users.id, { onDelete: "set null" }),
+  username: text("username"),
+  ip: text("ip"),
+  userAgent: text("userAgent"),
+  createdAt: timestamp("createdAt").notNull().defaultNow(),
+}, (table) => [
+  index("auth_events_username_idx").on(table.username, table.createdAt),
+  index("auth_events_ip_idx").on(table.ip, table.createdAt),
+  index("auth_events_created_idx").on(table.createdAt),
+]);
+
+export const AUTH_EVENT_PAGE_DEFAULT_LIMIT = 50;
+export const AUTH_EVENT_PAGE_MAX_LIMIT = 200;
+
+// Query parameters for the admin audit log, newest first. `before` is an
+// event ID to page back from.
+export const authEventQuerySchema = z.object({
+  type: z.enum(AUTH_EVENT_TYPES).optional(),
+  username: z.string().trim().min(1).optional(),
+  ip: z.string().trim().min(1).optional(),
+  before: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(AUTH_EVENT_PAGE_MAX_LIMIT).default(AUTH_EVENT_PAGE_DEFAULT_LIMIT),
+});
+
+// Body for an admin clearing a username's failed logins
+export const unlockLoginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type Message = typeof messages.$inferSelect;
+export type MessageEdit = typeof messageEdits.$inferSelect;
+export type MessagePayload = z.infer<typeof messagePayloadSchema>;
+export type OutgoingMessagePayload = z.infer<typeof outgoingMessagePayloadSchema>;
+export type GameInvitePayload = z.infer<typeof gameInvitePayloadSchema>;
+export type SystemPayload = z.infer<typeof systemPayloadSchema>;
+export type MessagePageQuery = z.infer<typeof messagePageQuerySchema>;
+// A page of messages in chronological order. `hasMore` says whether further
+// messages exist in the direction that was paged.
+export type MessagePage<T = Message> = {
+  messages: T[];
+  hasMore: boolean;
+};
 export type Group = typeof groups.$inferSelect;
+// A direct chat or group in the user's conversation list. `id` is the other
+// user's ID for direct chats and the group ID for groups.
+export type Conversation = {
+  type: "direct" | "group";
+  id: number;
+  name: string;
+  lastMessage: Message | null;
+  lastMessageAt: Date | null;
+  unreadCount: number;
+};
+export type GroupReadPosition = {
+  userId: number;
+  lastReadMessageId: number | null;
+};
 export type GroupMember = typeof groupMembers.$inferSelect;
+export type Friendship = typeof friendships.$inferSelect;
+export type PlayerSearchQuery = z.infer<typeof playerSearchQuerySchema>;
+// A user as other players see them in search results: no credentials, role
+// or settings
+export type Player = Pick<User, "id" | "username" | "profilePicture" | "language" | "region" | "currentGame" | "currentGameHandle" | "lastActive">;
+export type PlayerPage = {
+  players: Player[];
+  total: number;
+  page: number;
+  totalPages: number;
+};
+// Values the region and language filters can take
+export type PlayerFilterOptions = {
+  regions: string[];
+  languages: string[];
+};
+export type PrivacySettings = z.infer<typeof privacySettingsSchema>;
+// The session user's friends, pending requests either way, and the users
+// they have blocked
+export type FriendList = {
+  friends: User[];
+  incoming: User[];
+  outgoing: User[];
+  blocked: User[];
+};
 export type InsertGroup = z.infer<typeof insertGroupSchema>;
 export type InsertGroupMember = z.infer<typeof insertGroupMemberSchema>;
 export type InsertGame = z.infer<typeof insertGameSchema>;
@@ -212,3 +912,63 @@ export type Game = typeof games.$inferSelect;
 export type InsertIdea = z.infer<typeof insertIdeaSchema>;
 export type Idea = typeof ideas.$inferSelect;
 export type IdeaVote = typeof ideaVotes.$inferSelect;
+export type LfgPost = typeof lfgPosts.$inferSelect;
+export type LfgJoinRequest = typeof lfgJoinRequests.$inferSelect;
+export type InsertLfgPost = z.infer<typeof insertLfgPostSchema>;
+export type LfgQuery = z.infer<typeof lfgQuerySchema>;
+export type LfgMember = Pick<User, "id" | "username" | "profilePicture">;
+export type PlaySession = typeof playSessions.$inferSelect;
+export type InsertPlaySession = z.infer<typeof insertPlaySessionSchema>;
+export type PresenceConnection = typeof presenceConnections.$inferSelect;
+export type AccountToken = typeof accountTokens.$inferSelect;
+export type UserTotp = typeof userTotp.$inferSelect;
+export type TwoFactorLogin = z.infer<typeof twoFactorLoginSchema>;
+// What the session user's security settings show about two-factor login
+export type TwoFactorStatus = {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesLeft: number;
+};
+export type AuthEvent = typeof authEvents.$inferSelect;
+export type AuthEventQuery = z.infer<typeof authEventQuerySchema>;
+export type InsertAuthEvent = Pick<AuthEvent, "type" | "userId" | "username" | "ip" | "userAgent">;
+// Failed attempts counted for throttling, for one username or IP address
+export type LoginFailures = {
+  key: string;
+  failures: number;
+  lastFailureAt: Date;
+};
+// A username or IP address that is being slowed down or locked out.
+// `retryAfter` is when it may try again.
+export type ThrottledLogin = LoginFailures & {
+  kind: "username" | "ip";
+  locked: boolean;
+  retryAfter: Date;
+};
+// A page of the audit log; `hasMore` says whether older events exist
+export type AuthEventPage = {
+  events: AuthEvent[];
+  hasMore: boolean;
+};
+export type UserGame = typeof userGames.$inferSelect;
+export type UserGameInput = z.infer<typeof userGameSchema>;
+// A game profile with the game's name, as shown on gaming cards
+export type UserGameProfile = UserGame & {
+  gameName: string;
+};
+// An open post as a user sees it. Pending requests are only listed for the
+// post's author; everyone else just sees their own request, if any.
+export type LfgListing = LfgPost & {
+  gameName: string;
+  author: LfgMember;
+  acceptedCount: number;
+  myRequest: LfgJoinRequest | null;
+  pendingRequests: (LfgJoinRequest & { user: LfgMember })[];
+};
+// A session with what group members see of it: its game and group, and who
+// has answered
+export type PlaySessionListing = PlaySession & {
+  gameName: string;
+  groupName: string;
+  rsvps: { userId: number; username: string; response: RsvpResponse }[];
+};